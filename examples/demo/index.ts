@@ -141,7 +141,7 @@ async function runDemo(): Promise<void> {
   });
 
   // Start a new session
-  const sessionId = await ledger.start(
+  const { sessionId } = await ledger.start(
     { type: 'user', identifier: 'demo-user' },
     { demo: true, timestamp: new Date().toISOString() }
   );
@@ -362,7 +362,15 @@ async function runDemo(): Promise<void> {
 
   const euAiActExport = await ledger.export({ format: 'eu_ai_act' });
   writeFileSync(join(outputDir, 'audit.eu-ai-act.json'), euAiActExport.toString());
-  console.log('   ✓ EU AI Act export\n');
+  console.log('   ✓ EU AI Act export');
+
+  const serviceNowExport = await ledger.export({ format: 'servicenow_grc' });
+  writeFileSync(join(outputDir, 'audit.servicenow-grc.json'), serviceNowExport.toString());
+  console.log('   ✓ ServiceNow GRC export');
+
+  const oneTrustExport = await ledger.export({ format: 'onetrust' });
+  writeFileSync(join(outputDir, 'audit.onetrust.json'), oneTrustExport.toString());
+  console.log('   ✓ OneTrust export\n');
 
   // ============================================================================
   // SUMMARY
@@ -124,7 +124,7 @@ async function runFinancialAdvisor(
   console.log('\n=== Financial Advisor Agent (FINRA Compliant) ===\n');
   
   // Start audit session
-  const sessionId = await ledger.start({
+  const { sessionId } = await ledger.start({
     type: 'user',
     identifier: clientId,
     ip_address: '192.168.1.100',
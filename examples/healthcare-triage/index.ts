@@ -4,7 +4,7 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
-import { createLedger, generateSigningKeys, hashContent } from '@agentledger/core';
+import { createLedger, generateSigningKeys, hashContent, LocalKeyProvider } from '@agentledger/core';
 import { createAuditedAnthropic, logToolResult } from '@agentledger/anthropic';
 
 // ============================================================================
@@ -13,6 +13,10 @@ import { createAuditedAnthropic, logToolResult } from '@agentledger/anthropic';
 
 const signingKeys = generateSigningKeys();
 
+// PHI is encrypted at rest; the master key never leaves this file (or, in
+// production, the KMS behind a KeyProvider)
+const keyProvider = LocalKeyProvider.fromFile(process.env.AGENTLEDGER_MASTER_KEY_FILE ?? './master.key');
+
 const ledger = createLedger({
   orgId: 'mercy-health-system',
   agentId: 'triage-assistant-v2',
@@ -24,6 +28,14 @@ const ledger = createLedger({
     type: 'filesystem',
     path: './hipaa-audit-logs',
   },
+  contentStore: {
+    type: 'filesystem',
+    path: './hipaa-content',
+  },
+  encryption: {
+    keyProvider,
+    encryptEntries: true,
+  },
   signingKeys,
   snapshotInterval: 10, // Snapshot every 10 entries
 });
@@ -31,7 +43,7 @@ const ledger = createLedger({
 const anthropic = new Anthropic();
 const auditedAnthropic = createAuditedAnthropic(anthropic, {
   ledger,
-  storeContent: false, // Don't store PHI in content - only hashes
+  storeContent: true, // Full prompts/completions go to the encrypted content store
 });
 
 // ============================================================================
@@ -169,7 +181,7 @@ async function runTriageAgent(
   console.log('\n=== Healthcare Triage Agent (HIPAA Compliant) ===\n');
   
   // Start session with minimal identifiable info
-  const sessionId = await ledger.start({
+  const { sessionId } = await ledger.start({
     type: 'system',
     identifier: 'triage_kiosk_er_1',
   }, {
@@ -244,7 +256,7 @@ Please provide your triage assessment.`,
     // Record decision with nurse approval
     await recordTriageDecision(patient.patientId, result, nurseId);
     
-    // Store content reference (hash only, actual content in EHR)
+    // Store the completion, encrypted with this session's data key
     await ledger.storeContent({
       contentType: 'completion',
       parentEntryId: response.id,
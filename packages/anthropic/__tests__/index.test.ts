@@ -0,0 +1,130 @@
+/**
+ * Tests for @agentledger/anthropic package
+ */
+
+import { AuditedAnthropic } from '../src/index';
+import { Ledger, hashContent } from 'agentledger-core';
+import { randomBytes } from 'crypto';
+
+function createMockMessage(text: string = 'Hello, world!'): any {
+  return {
+    id: 'msg_123',
+    type: 'message',
+    role: 'assistant',
+    model: 'claude-3-5-sonnet-20241022',
+    content: [{ type: 'text', text }],
+    stop_reason: 'end_turn',
+    usage: { input_tokens: 10, output_tokens: 5 },
+  };
+}
+
+function createMockStream(): AsyncIterable<any> {
+  const events = [
+    { type: 'message_start', message: { usage: { input_tokens: 10, output_tokens: 0 } } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hel' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'lo' } },
+    { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 5 } },
+    { type: 'message_stop' },
+  ];
+
+  return {
+    [Symbol.asyncIterator]: async function* () {
+      for (const event of events) {
+        yield event;
+      }
+    },
+  };
+}
+
+function createMockAnthropicClient(): any {
+  return {
+    messages: {
+      create: jest.fn().mockImplementation(async (params: any) =>
+        params.stream ? createMockStream() : createMockMessage()),
+    },
+  };
+}
+
+describe('AuditedAnthropic', () => {
+  let ledger: Ledger;
+  let mockClient: any;
+
+  beforeEach(async () => {
+    ledger = new Ledger({
+      orgId: 'test-org',
+      agentId: 'test-agent',
+      environment: 'test',
+      compliance: ['FINRA_4511'],
+    });
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+    mockClient = createMockAnthropicClient();
+  });
+
+  describe('content storage', () => {
+    test('redacts stored content with the wrapper policy', async () => {
+      const audited = new AuditedAnthropic(mockClient, {
+        ledger,
+        storeContent: true,
+        redaction: { version: 'chat-1', hmacKey: randomBytes(32) },
+      });
+
+      await audited.messages.create({
+        model: 'claude-3-5-sonnet-20241022',
+        max_tokens: 100,
+        messages: [{ role: 'user', content: 'Email me at jane@example.com' }],
+      });
+
+      const entries = await ledger.getEntries();
+      const prompt = entries.find(e => (e.entry as any).content_type === 'prompt')!.entry as any;
+      expect(prompt.redaction).toMatchObject({ policy_version: 'chat-1', redacted_count: 1 });
+      expect(prompt.contains_pii).toBe(false);
+      expect((await ledger.getContent(prompt.entry_id)).toString()).toContain('Email me at [EMAIL]');
+
+      // The model call hashes the same bytes that were stored
+      const call = entries.find(e => e.entry.type === 'model_call')!.entry as any;
+      const completion = entries.find(e => (e.entry as any).content_type === 'completion')!.entry as any;
+      expect(call.prompt_hash).toBe(prompt.content_hash);
+      expect(call.completion_hash).toBe(completion.content_hash);
+    });
+
+    test('stores the assembled completion of a stream', async () => {
+      const audited = new AuditedAnthropic(mockClient, {
+        ledger,
+        storeContent: true,
+      });
+
+      const stream = await audited.messages.create({
+        model: 'claude-3-5-sonnet-20241022',
+        max_tokens: 100,
+        messages: [{ role: 'user', content: 'Hello' }],
+        stream: true,
+      });
+      for await (const _event of stream as AsyncIterable<any>) {
+        // consume
+      }
+
+      const entries = await ledger.getEntries();
+      const call = entries[0]!.entry as any;
+      expect(call.streamed).toBe(true);
+      expect(call.completion_hash).toBe(hashContent('Hello'));
+
+      const completion = entries.find(e => (e.entry as any).content_type === 'completion')!.entry as any;
+      expect(completion.parent_entry_id).toBe(call.entry_id);
+      expect((await ledger.getContent(completion.entry_id)).toString()).toBe('Hello');
+    });
+
+    test('does not store content when disabled', async () => {
+      const audited = new AuditedAnthropic(mockClient, { ledger });
+
+      await audited.messages.create({
+        model: 'claude-3-5-sonnet-20241022',
+        max_tokens: 100,
+        messages: [{ role: 'user', content: 'Hello' }],
+      });
+
+      const entries = await ledger.getEntries();
+      expect(entries.length).toBe(1);
+      expect(entries[0]!.entry.type).toBe('model_call');
+    });
+  });
+});
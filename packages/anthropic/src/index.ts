@@ -15,7 +15,8 @@ import type {
 } from '@anthropic-ai/sdk/resources/messages';
 import type { Stream } from '@anthropic-ai/sdk/streaming';
 
-import { Ledger, hashContent } from 'agentledger-core';
+import { Ledger, SessionHandle, hashContent } from 'agentledger-core';
+import type { RedactionPolicy } from 'agentledger-core';
 
 // ============================================================================
 // TYPES
@@ -23,11 +24,14 @@ import { Ledger, hashContent } from 'agentledger-core';
 
 interface AuditedAnthropicOptions {
   /** The ledger instance to log to */
-  ledger: Ledger;
+  ledger: Ledger | SessionHandle;
 
-  /** Whether to store full prompts/completions (default: false, only hashes) */
+  /** Whether to store full prompts/completions in the ledger's contentStore, PII-flagged by its piiDetector (default: false, only hashes) */
   storeContent?: boolean;
 
+  /** Redaction policy for stored content (default: the ledger's; false to store unredacted) */
+  redaction?: RedactionPolicy | false;
+
   /** Custom cost calculator (override default estimates) */
   costCalculator?: (model: string, inputTokens: number, outputTokens: number) => number;
 }
@@ -41,14 +45,16 @@ interface AuditedAnthropicOptions {
  */
 export class AuditedAnthropic {
   private client: Anthropic;
-  private ledger: Ledger;
+  private ledger: Ledger | SessionHandle;
   private storeContent: boolean;
+  private redaction?: RedactionPolicy | false;
   private costCalculator?: (model: string, inputTokens: number, outputTokens: number) => number;
 
   constructor(client: Anthropic, options: AuditedAnthropicOptions) {
     this.client = client;
     this.ledger = options.ledger;
     this.storeContent = options.storeContent ?? false;
+    this.redaction = options.redaction;
     this.costCalculator = options.costCalculator;
   }
 
@@ -61,7 +67,7 @@ export class AuditedAnthropic {
       async create(params: MessageCreateParams): Promise<Message | Stream<RawMessageStreamEvent>> {
         const startTime = Date.now();
         const promptText = JSON.stringify(params.messages);
-        const promptHash = hashContent(promptText);
+        const promptHash = self.hashStored(promptText);
         const systemHash = params.system ? hashContent(
           typeof params.system === 'string' ? params.system : JSON.stringify(params.system)
         ) : undefined;
@@ -116,7 +122,7 @@ export class AuditedAnthropic {
       },
       promptHash,
       promptTokens: response.usage.input_tokens,
-      completionHash: hashContent(completionText),
+      completionHash: this.hashStored(completionText),
       completionTokens: response.usage.output_tokens,
       latencyMs: Date.now() - startTime,
       costUsd: this.calculateCost(params.model, response.usage.input_tokens, response.usage.output_tokens),
@@ -138,20 +144,40 @@ export class AuditedAnthropic {
       }
     }
 
-    // Store content if configured
-    if (this.storeContent) {
-      await this.ledger.storeContent({
-        contentType: 'prompt',
-        parentEntryId: entry.entry.entry_id,
-        content: JSON.stringify(params.messages),
-      });
+    await this.storeContents(entry.entry.entry_id, params, completionText);
+  }
 
-      await this.ledger.storeContent({
-        contentType: 'completion',
-        parentEntryId: entry.entry.entry_id,
-        content: completionText,
-      });
-    }
+  /**
+   * Hash text as it will be stored: when content is stored, redacted like
+   * storeContent() does, so the model call's hashes match its content_hash
+   */
+  private hashStored(text: string): string {
+    return this.storeContent ? this.ledger.contentHash(text, { redaction: this.redaction }) : hashContent(text);
+  }
+
+  /**
+   * Store the prompt and completion of a logged model call, if configured
+   */
+  private async storeContents(
+    parentEntryId: string,
+    params: MessageCreateParams,
+    completionText: string,
+  ): Promise<void> {
+    if (!this.storeContent) return;
+
+    await this.ledger.storeContent({
+      contentType: 'prompt',
+      parentEntryId,
+      content: JSON.stringify(params.messages),
+      redaction: this.redaction,
+    });
+
+    await this.ledger.storeContent({
+      contentType: 'completion',
+      parentEntryId,
+      content: completionText,
+      redaction: this.redaction,
+    });
   }
 
   private wrapStream(
@@ -189,30 +215,31 @@ export class AuditedAnthropic {
 
           yield event;
         }
-
-        // Log after stream completes
-        await self.ledger.logModelCall({
-          provider: 'anthropic',
-          modelId: params.model,
-          parameters: {
-            temperature: params.temperature,
-            top_p: params.top_p,
-            top_k: params.top_k,
-            max_tokens: params.max_tokens,
-            system_prompt_hash: systemHash,
-          },
-          promptHash,
-          promptTokens: inputTokens || self.estimateTokens(JSON.stringify(params.messages)),
-          completionHash: hashContent(fullContent),
-          completionTokens: outputTokens || self.estimateTokens(fullContent),
-          latencyMs: Date.now() - startTime,
-          costUsd: self.calculateCost(params.model, inputTokens, outputTokens),
-          streamed: true,
-        });
       } catch (error) {
         await self.logError(params, error as Error, promptHash, systemHash, startTime);
         throw error;
       }
+
+      // Log after stream completes, with the assembled completion
+      const entry = await self.ledger.logModelCall({
+        provider: 'anthropic',
+        modelId: params.model,
+        parameters: {
+          temperature: params.temperature,
+          top_p: params.top_p,
+          top_k: params.top_k,
+          max_tokens: params.max_tokens,
+          system_prompt_hash: systemHash,
+        },
+        promptHash,
+        promptTokens: inputTokens || self.estimateTokens(JSON.stringify(params.messages)),
+        completionHash: self.hashStored(fullContent),
+        completionTokens: outputTokens || self.estimateTokens(fullContent),
+        latencyMs: Date.now() - startTime,
+        costUsd: self.calculateCost(params.model, inputTokens, outputTokens),
+        streamed: true,
+      });
+      await self.storeContents(entry.entry.entry_id, params, fullContent);
     };
 
     // Create a proxy that wraps the original stream with our logging iterator
@@ -301,7 +328,7 @@ export class AuditedAnthropic {
  * Log a tool result back to the ledger
  */
 export async function logToolResult(
-  ledger: Ledger,
+  ledger: Ledger | SessionHandle,
   toolUseId: string,
   toolName: string,
   result: unknown,
@@ -338,7 +365,7 @@ export function createAuditedAnthropic(
  */
 export async function auditedMessage(
   client: Anthropic,
-  ledger: Ledger,
+  ledger: Ledger | SessionHandle,
   params: MessageCreateParamsNonStreaming
 ): Promise<Message> {
   const audited = new AuditedAnthropic(client, { ledger });
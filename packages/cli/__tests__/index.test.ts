@@ -3,12 +3,27 @@
  */
 
 import { spawn, SpawnOptions } from 'child_process';
-import { writeFileSync, mkdirSync, rmSync, existsSync } from 'fs';
+import { writeFileSync, readFileSync, mkdirSync, rmSync, existsSync } from 'fs';
 import { join } from 'path';
+import { randomBytes } from 'crypto';
 import {
   Ledger,
   hashContent,
   generateKeyPair,
+  buildMerkleTree,
+  verifyConsistencyProof,
+  createChainedEntry,
+  LocalKeyProvider,
+  InMemorySubjectKeyStore,
+  generateSigningKeys,
+  signAuditLog,
+  LocalTimestampAuthority,
+  TimestampAuthority,
+  CryptoSuite,
+  LocalSigner,
+  cosign,
+  signApproval,
+  SigningKeys,
 } from 'agentledger-core';
 
 const testDir = join(__dirname, '../.test-cli');
@@ -44,11 +59,15 @@ function runCli(args: string[], cwd: string = testDir): Promise<{ stdout: string
 // Helper to create a valid audit log
 async function createTestLog(options: {
   signed?: boolean;
+  signingKeys?: { publicKey: string; privateKey: string };
+  timestampAuthority?: TimestampAuthority;
+  suite?: CryptoSuite;
   entries?: number;
   includeErrors?: boolean;
   includeDecisions?: boolean;
+  approverKeys?: SigningKeys;
 } = {}): Promise<string> {
-  const keys = options.signed ? generateKeyPair() : undefined;
+  const keys = options.signingKeys ?? (options.signed ? generateKeyPair() : undefined);
 
   const ledger = new Ledger({
     orgId: 'test-org',
@@ -57,6 +76,8 @@ async function createTestLog(options: {
     environment: 'test',
     compliance: ['FINRA_4511', 'EU_AI_ACT'],
     signingKeys: keys,
+    timestampAuthority: options.timestampAuthority,
+    suite: options.suite,
   });
 
   await ledger.start({ type: 'user', identifier: 'test-user' });
@@ -100,11 +121,14 @@ async function createTestLog(options: {
       humanReviewRequired: true,
     });
 
+    const statement = { approver_id: 'approver-1', decision_ref: 'decision-1', approval_type: 'approved' } as const;
+    const { approverKeys } = options;
     await ledger.logApproval({
       approverId: 'approver-1',
       approverRole: 'manager',
       decisionRef: 'decision-1',
       approvalType: 'approved',
+      attestation: approverKeys && signApproval(statement, approverKeys.privateKey, approverKeys.publicKey, approverKeys.kid),
     });
   }
 
@@ -147,6 +171,68 @@ async function createTamperedLog(): Promise<string> {
   return logPath;
 }
 
+// Helper to create an unclosed filesystem log with a checkpoint after the first entries
+async function createOpenLog(): Promise<string> {
+  const storagePath = join(testDir, `open-${Date.now()}`);
+  const ledger = new Ledger({
+    orgId: 'test-org',
+    agentId: 'test-agent',
+    environment: 'test',
+    compliance: ['FINRA_4511'],
+    signingKeys: generateKeyPair(),
+    storage: { type: 'filesystem', path: storagePath },
+  });
+
+  const session = await ledger.start({ type: 'user', identifier: 'test-user' });
+  for (let i = 0; i < 3; i++) {
+    await session.logToolInvocation({
+      toolName: `tool-${i}`,
+      inputHash: hashContent(`input-${i}`),
+      outputHash: hashContent(`output-${i}`),
+      durationMs: 100,
+      success: true,
+    });
+  }
+  await session.checkpoint();
+  await session.logToolInvocation({
+    toolName: 'tool-3',
+    inputHash: hashContent('input-3'),
+    outputHash: hashContent('output-3'),
+    durationMs: 100,
+    success: true,
+  });
+
+  // Left open on purpose, as after a crash
+  return join(storagePath, 'test-org', session.sessionId, 'audit.jsonl');
+}
+
+// Helper to create a log where one of two data subjects was erased
+async function createErasureLog(): Promise<string> {
+  const ledger = new Ledger({
+    orgId: 'test-org',
+    agentId: 'test-agent',
+    environment: 'test',
+    compliance: ['GDPR'],
+    signingKeys: generateKeyPair(),
+    contentStore: { type: 'filesystem', path: join(testDir, `content-${Date.now()}`) },
+    subjectKeys: new InMemorySubjectKeyStore(),
+    subjectRefKey: randomBytes(32),
+  });
+
+  await ledger.start({ type: 'user', identifier: 'test-user' });
+  const parentEntryId = '00000000-0000-4000-8000-000000000000';
+  await ledger.storeContent({ contentType: 'prompt', parentEntryId, content: 'alice 1', subjectId: 'alice' });
+  await ledger.storeContent({ contentType: 'completion', parentEntryId, content: 'alice 2', subjectId: 'alice' });
+  await ledger.storeContent({ contentType: 'prompt', parentEntryId, content: 'bob 1', subjectId: 'bob' });
+  await ledger.eraseSubject('alice', { reason: 'GDPR Art. 17' });
+
+  const log = await ledger.close();
+  const logPath = join(testDir, `erasure-log-${Date.now()}.json`);
+  writeFileSync(logPath, JSON.stringify(log, null, 2));
+
+  return logPath;
+}
+
 describe('CLI', () => {
   beforeAll(() => {
     if (existsSync(testDir)) {
@@ -196,6 +282,119 @@ describe('CLI', () => {
       expect(result.code).toBe(0);
     }, 30000);
 
+    test('reports the signature version', async () => {
+      const signed = await runCli(['verify', await createTestLog({ signed: true })]);
+      expect(signed.stdout).toContain('Signature version: v2 (session envelope, Merkle root, integrity)');
+
+      const legacy = await runCli(['verify', join(__dirname, '../../core/__tests__/fixtures/demo-audit-log.json')]);
+      expect(legacy.stdout).toContain('Organization signature verified');
+      expect(legacy.stdout).toContain('Signature version: v1 (legacy;');
+      expect(legacy.code).toBe(0);
+    }, 60000);
+
+    test('reports the log format and rejects unknown ones', async () => {
+      const logPath = await createTestLog();
+      expect((await runCli(['verify', logPath])).stdout).toContain('Log format: 2.0.0 (sha256+ed25519, RFC 8785 JCS)');
+
+      const legacy = await runCli(['verify', join(__dirname, '../../core/__tests__/fixtures/demo-audit-log.json')]);
+      expect(legacy.stdout).toContain('Log format: 1.0.0 (sha256+ed25519, sorted-keys JSON)');
+
+      const log = JSON.parse(readFileSync(logPath, 'utf-8'));
+      log.canonicalization = 'xml-c14n';
+      writeFileSync(logPath, JSON.stringify(log));
+      const result = await runCli(['verify', logPath]);
+      expect(result.stdout).toContain('Unsupported log format 2.0.0 (sha256+ed25519, sha256, xml-c14n)');
+      expect(result.code).toBe(1);
+    }, 60000);
+
+    test('verifies logs written with another suite', async () => {
+      const suite = 'sha384+ecdsa-p384';
+      const logPath = await createTestLog({
+        suite,
+        signingKeys: generateSigningKeys(suite),
+        timestampAuthority: new LocalTimestampAuthority(),
+      });
+
+      const result = await runCli(['verify', logPath]);
+      expect(result.stdout).toContain('Log format: 2.0.0 (sha384+ecdsa-p384, RFC 8785 JCS)');
+      expect(result.stdout).toContain('Organization signature verified');
+      expect(result.stdout).toContain('Merkle root timestamped at');
+      expect(result.code).toBe(0);
+
+      const log = JSON.parse(readFileSync(logPath, 'utf-8'));
+      log.suite = 'sha256+ed25519';
+      log.hash_algorithm = 'sha256';
+      writeFileSync(logPath, JSON.stringify(log));
+      const downgraded = await runCli(['verify', logPath]);
+      expect(downgraded.stdout).toContain('Chain integrity FAILED');
+      expect(downgraded.stdout).toContain('Signature verification FAILED');
+      expect(downgraded.code).toBe(1);
+    }, 60000);
+
+    test('checks co-signatures against --require-signers', async () => {
+      const logPath = await createTestLog({ signed: true });
+      const supervisor = new LocalSigner(generateSigningKeys());
+      const log = await cosign(JSON.parse(readFileSync(logPath, 'utf-8')), supervisor, 'supervisor');
+      writeFileSync(logPath, JSON.stringify(log));
+
+      const both = await runCli(['verify', logPath, '--require-signers=org,supervisor']);
+      expect(both.stdout).toContain('Co-signature by supervisor verified');
+      expect(both.stdout).toContain('Required signers present: org, supervisor (2 of 2 required)');
+      expect(both.code).toBe(0);
+
+      const witness = await runCli(['verify', logPath, '--require-signers=org,supervisor,witness']);
+      expect(witness.stdout).toContain('Required signers missing: witness (2 of 3 required)');
+      expect(witness.code).toBe(1);
+
+      const threshold = await runCli(['verify', logPath, '--require-signers=2:org,supervisor,witness']);
+      expect(threshold.code).toBe(0);
+
+      log.signatures = log.signatures?.map(s => ({ ...s, role: 'witness' }));
+      writeFileSync(logPath, JSON.stringify(log));
+      const relabelled = await runCli(['verify', logPath, '--require-signers=2:org,supervisor,witness']);
+      expect(relabelled.stdout).toContain('Co-signature by witness FAILED');
+      expect(relabelled.code).toBe(1);
+    }, 60000);
+
+    test('checks approval attestations against --approver-keys', async () => {
+      const approverKeys = generateSigningKeys();
+      const logPath = await createTestLog({ includeDecisions: true, approverKeys });
+      const registryPath = join(testDir, 'approver-keys.json');
+      const register = (owner: string) => writeFileSync(registryPath, JSON.stringify({
+        keys: [{ kid: approverKeys.kid, public_key: approverKeys.publicKey, owner }],
+      }));
+
+      const unchecked = await runCli(['verify', logPath]);
+      expect(unchecked.stdout).toContain('Approval at entry 6 attested by approver-1');
+      expect(unchecked.stdout).toContain('Approver keys not checked against a registry');
+      expect(unchecked.code).toBe(0);
+
+      register('approver-1');
+      const trusted = await runCli(['verify', logPath, `--approver-keys=${registryPath}`]);
+      expect(trusted.code).toBe(0);
+
+      register('approver-2');
+      const otherOwner = await runCli(['verify', logPath, `--approver-keys=${registryPath}`]);
+      expect(otherOwner.stdout).toContain('is not registered to approver-1');
+      expect(otherOwner.code).toBe(1);
+
+      const unattestedPath = await createTestLog({ includeDecisions: true });
+      const unattested = await runCli(['verify', unattestedPath, `--approver-keys=${registryPath}`]);
+      expect(unattested.stdout).toContain('Approval at entry 6 by approver-1 is not attested');
+      expect(unattested.code).toBe(1);
+    }, 60000);
+
+    test('detects an edited session envelope', async () => {
+      const logPath = await createTestLog({ signed: true });
+      const log = JSON.parse(readFileSync(logPath, 'utf-8'));
+      log.session.environment = 'development';
+      writeFileSync(logPath, JSON.stringify(log));
+
+      const result = await runCli(['verify', logPath]);
+      expect(result.stdout).toContain('Signature verification FAILED');
+      expect(result.code).toBe(1);
+    }, 30000);
+
     test('detects tampered log', async () => {
       const logPath = await createTamperedLog();
       const result = await runCli(['verify', logPath]);
@@ -204,6 +403,160 @@ describe('CLI', () => {
       expect(result.code).toBe(1);
     }, 30000);
 
+    test('verifies checkpoints of an open session log', async () => {
+      const logPath = await createOpenLog();
+      writeFileSync(logPath, readFileSync(logPath, 'utf-8') + '{"type":"entry","da');
+      const result = await runCli(['verify', logPath]);
+
+      expect(result.stdout).toContain('Session is still open');
+      expect(result.stdout).toContain('Ignoring incomplete last line');
+      expect(result.stdout).toContain('Checkpoint at 3 entries verified');
+      expect(result.stdout).toContain('All verifications passed');
+      expect(result.code).toBe(0);
+    }, 30000);
+
+    test('detects a rewritten prefix of an open session log', async () => {
+      const logPath = await createOpenLog();
+      const records = readFileSync(logPath, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+
+      // Alter the first entry and re-chain everything after it, so only the checkpoint catches it
+      let previousHash = '';
+      for (const record of records) {
+        if (record.type !== 'entry') continue;
+        if (record.data.sequence === 0) record.data.entry.tool_name = 'rewritten';
+        record.data = createChainedEntry(record.data.entry, record.data.sequence, previousHash);
+        previousHash = record.data.entry_hash;
+      }
+      writeFileSync(logPath, records.map(record => JSON.stringify(record)).join('\n') + '\n');
+
+      const result = await runCli(['verify', logPath]);
+
+      expect(result.stdout).toContain('Chain integrity verified');
+      expect(result.stdout).toContain('Checkpoint at 3 entries FAILED');
+      expect(result.stdout).toContain('root does not match');
+      expect(result.code).toBe(1);
+    }, 30000);
+
+    test('verifies a log encrypted at rest with --key-file', async () => {
+      const keyFile = join(testDir, `master-${Date.now()}.key`);
+      const storagePath = join(testDir, `encrypted-${Date.now()}`);
+      const ledger = new Ledger({
+        orgId: 'test-org',
+        agentId: 'test-agent',
+        environment: 'test',
+        compliance: ['HIPAA'],
+        storage: { type: 'filesystem', path: storagePath },
+        encryption: { keyProvider: LocalKeyProvider.generateKeyFile(keyFile), encryptEntries: true },
+      });
+      const session = await ledger.start({ type: 'user', identifier: 'test-user' });
+      await session.snapshot({ trigger: 'manual', stateHash: hashContent('state'), schemaVersion: '1.0.0' });
+      await session.close();
+      const logPath = join(storagePath, 'test-org', session.sessionId, 'audit.final.json');
+
+      const withoutKey = await runCli(['verify', logPath]);
+      expect(withoutKey.stdout).toContain('pass --key-file');
+      expect(withoutKey.code).toBe(1);
+
+      const result = await runCli(['verify', logPath, `--key-file=${keyFile}`]);
+      expect(result.stdout).toContain('Encrypted at rest (AES-256-GCM');
+      expect(result.stdout).toContain('Chain integrity verified (1 entries)');
+      expect(result.stdout).toContain('All verifications passed');
+      expect(result.code).toBe(0);
+    }, 30000);
+
+    test('verifies a log with a subject erasure', async () => {
+      const logPath = await createErasureLog();
+      const result = await runCli(['verify', logPath]);
+
+      expect(result.stdout).toContain('Erasure Verification');
+      expect(result.stdout).toContain('Erasure at entry 3 signed');
+      expect(result.stdout).toContain('All verifications passed');
+      expect(result.code).toBe(0);
+    }, 30000);
+
+    test('detects a forged subject erasure', async () => {
+      const logPath = await createErasureLog();
+      const log = JSON.parse(readFileSync(logPath, 'utf-8'));
+      log.entries[3].entry.reason = 'forged';
+      writeFileSync(logPath, JSON.stringify(log));
+
+      const result = await runCli(['verify', logPath]);
+
+      expect(result.stdout).toContain('Erasure at entry 3 has an invalid signature');
+      expect(result.code).toBe(1);
+    }, 30000);
+
+    test('checks signatures against --trusted-keys', async () => {
+      const keys = generateSigningKeys();
+      const logPath = await createTestLog({ signingKeys: keys });
+      const registryPath = join(testDir, `trusted-keys-${Date.now()}.json`);
+      writeFileSync(registryPath, JSON.stringify({ keys: [{ kid: keys.kid, public_key: keys.publicKey }] }));
+
+      const trusted = await runCli(['verify', logPath, `--trusted-keys=${registryPath}`]);
+      expect(trusted.stdout).toContain('Organization signature verified with a trusted key');
+      expect(trusted.stdout).toContain(`Key: ${keys.kid}`);
+      expect(trusted.code).toBe(0);
+
+      // Drop an entry and re-sign with a key the org never issued
+      const log = JSON.parse(readFileSync(logPath, 'utf-8'));
+      log.entries.pop();
+      log.merkle_root = buildMerkleTree(log.entries.map((e: { entry_hash: string }) => e.entry_hash)).root;
+      const attacker = generateSigningKeys();
+      log.org_signature = signAuditLog(log, attacker.privateKey, attacker.publicKey);
+      writeFileSync(logPath, JSON.stringify(log));
+
+      const resigned = await runCli(['verify', logPath, `--trusted-keys=${registryPath}`]);
+      expect(resigned.stdout).toContain(`Key ${attacker.kid} is not in the trusted key registry`);
+      expect(resigned.code).toBe(1);
+    }, 60000);
+
+    test('rejects revoked and expired keys', async () => {
+      const keys = generateSigningKeys();
+      const logPath = await createTestLog({ signingKeys: keys });
+      const registryPath = join(testDir, `revoked-keys-${Date.now()}.json`);
+      const key = { kid: keys.kid, public_key: keys.publicKey };
+
+      writeFileSync(registryPath, JSON.stringify({
+        keys: [{ ...key, revoked_at: '2026-01-01T00:00:00.000Z', revocation_reason: 'key compromise' }],
+      }));
+      const revoked = await runCli(['verify', logPath, `--trusted-keys=${registryPath}`]);
+      expect(revoked.stdout).toContain('was revoked at 2026-01-01T00:00:00.000Z (key compromise)');
+      expect(revoked.code).toBe(1);
+
+      writeFileSync(registryPath, JSON.stringify({ keys: [{ ...key, not_after: '2020-01-01T00:00:00.000Z' }] }));
+      const expired = await runCli(['verify', logPath, `--trusted-keys=${registryPath}`]);
+      expect(expired.stdout).toContain('expired at 2020-01-01T00:00:00.000Z');
+      expect(expired.code).toBe(1);
+    }, 60000);
+
+    test('checks RFC 3161 timestamps against --tsa-cert', async () => {
+      const tsa = new LocalTimestampAuthority();
+      const logPath = await createTestLog({ timestampAuthority: tsa });
+      const certPath = join(testDir, `tsa-${Date.now()}.pem`);
+      writeFileSync(certPath, tsa.certificate);
+
+      const trusted = await runCli(['verify', logPath, `--tsa-cert=${certPath}`]);
+      expect(trusted.stdout).toContain('Merkle root timestamped at');
+      expect(trusted.stdout).toContain('TSA: CN=AgentLedger Local TSA');
+      expect(trusted.code).toBe(0);
+
+      writeFileSync(certPath, new LocalTimestampAuthority().certificate);
+      const untrusted = await runCli(['verify', logPath, `--tsa-cert=${certPath}`]);
+      expect(untrusted.stdout).toContain('Merkle root timestamp FAILED');
+      expect(untrusted.stdout).toContain('is not trusted');
+      expect(untrusted.code).toBe(1);
+    }, 60000);
+
+    test('requires a timestamp with --tsa-cert', async () => {
+      const logPath = await createTestLog();
+      const certPath = join(testDir, `tsa-${Date.now()}.pem`);
+      writeFileSync(certPath, new LocalTimestampAuthority().certificate);
+
+      const result = await runCli(['verify', logPath, `--tsa-cert=${certPath}`]);
+      expect(result.stdout).toContain('No Merkle root timestamp present (required with --tsa-cert)');
+      expect(result.code).toBe(1);
+    }, 30000);
+
     test('handles missing file', async () => {
       const result = await runCli(['verify', 'nonexistent.json']);
 
@@ -259,6 +612,57 @@ describe('CLI', () => {
       expect(result.code).toBe(0);
     }, 30000);
 
+    test('exports to parquet format', async () => {
+      const outputPath = join(testDir, 'export.parquet');
+      const result = await runCli(['export', logPath, '--format=parquet', `--output=${outputPath}`]);
+
+      expect(result.stdout).toContain('Format: parquet');
+      expect(result.code).toBe(0);
+      const file = readFileSync(outputPath);
+      expect(file.subarray(0, 4).toString()).toBe('PAR1');
+      expect(file.subarray(-4).toString()).toBe('PAR1');
+    }, 30000);
+
+    test('exports to servicenow_grc format', async () => {
+      const outputPath = join(testDir, 'export.servicenow.json');
+      const result = await runCli(['export', logPath, '--format=servicenow_grc', `--output=${outputPath}`]);
+
+      expect(result.stdout).toContain('Format: servicenow_grc');
+      expect(result.code).toBe(0);
+      const record = JSON.parse(readFileSync(outputPath, 'utf-8'));
+      expect(record.format).toBe('servicenow_grc');
+      expect(record.indicator_results.length).toBeGreaterThan(0);
+    }, 30000);
+
+    test('exports to onetrust format', async () => {
+      const outputPath = join(testDir, 'export.onetrust.json');
+      const result = await runCli(['export', logPath, '--format=onetrust', `--output=${outputPath}`]);
+
+      expect(result.stdout).toContain('Format: onetrust');
+      expect(result.code).toBe(0);
+      const record = JSON.parse(readFileSync(outputPath, 'utf-8'));
+      expect(record.format).toBe('onetrust');
+      expect(record.activity.events.length).toBeGreaterThan(0);
+    }, 30000);
+
+    test('exports with a format registered by --require', async () => {
+      const pluginPath = join(testDir, 'csv-exporter.js');
+      writeFileSync(pluginPath, `
+        const { registerExporter } = require('agentledger-core');
+        registerExporter('csv', log => log.entries.map(e => e.sequence + ',' + e.entry.type).join('\\n'), {
+          extension: 'csv',
+          description: 'Sequence and entry type per line',
+        });
+      `);
+      const outputPath = join(testDir, 'export.csv');
+      const result = await runCli(['export', logPath, '--format=csv', `--require=${pluginPath}`, `--output=${outputPath}`]);
+
+      expect(result.stdout).toContain('Export complete');
+      expect(result.code).toBe(0);
+      const output = readFileSync(outputPath, 'utf-8');
+      expect(output.split('\n')[0]).toBe('0,model_call');
+    }, 30000);
+
     test('handles unknown format', async () => {
       const result = await runCli(['export', logPath, '--format=unknown']);
 
@@ -304,6 +708,55 @@ describe('CLI', () => {
       expect(result.stdout).toContain('Compliance Score:');
       expect(result.code).toBe(0);
     }, 30000);
+
+    test('reports shredded content references', async () => {
+      const logPath = await createErasureLog();
+      const result = await runCli(['summary', logPath]);
+
+      expect(result.stdout).toContain('Subject erasures: 1');
+      expect(result.stdout).toContain('Subject content references: 3');
+      expect(result.stdout).toContain('References shredded: 2');
+      expect(result.code).toBe(0);
+    }, 30000);
+  });
+
+  describe('prove-consistency command', () => {
+    test('proves a prefix of the log and writes the proof', async () => {
+      const logPath = await createTestLog({ entries: 5 });
+      const log = JSON.parse(readFileSync(logPath, 'utf-8'));
+      const outputPath = join(testDir, 'consistency.json');
+      const result = await runCli(['prove-consistency', logPath, '--old-size=3', `--output=${outputPath}`]);
+
+      expect(result.stdout).toContain('Consistency proof verified');
+      expect(result.code).toBe(0);
+      const proof = JSON.parse(readFileSync(outputPath, 'utf-8'));
+      expect(proof.old_size).toBe(3);
+      expect(proof.new_size).toBe(log.entries.length);
+      expect(verifyConsistencyProof(proof.old_size, proof.new_size, proof.old_root, proof.new_root, proof.proof)).toBe(true);
+    }, 30000);
+
+    test('checks a published root', async () => {
+      const logPath = await createTestLog({ entries: 5 });
+      const log = JSON.parse(readFileSync(logPath, 'utf-8'));
+      const hashes = log.entries.map((e: { entry_hash: string }) => e.entry_hash);
+      const publishedRoot = buildMerkleTree(hashes.slice(0, 2), { mode: 'rfc6962' }).root;
+
+      const consistent = await runCli(['prove-consistency', logPath, '--old-size=2', `--old-root=${publishedRoot}`]);
+      expect(consistent.stdout).toContain('Published root is a prefix of the current log');
+      expect(consistent.code).toBe(0);
+
+      const forged = await runCli(['prove-consistency', logPath, '--old-size=2', `--old-root=${hashContent('forged')}`]);
+      expect(forged.stdout).toContain('is not a prefix of the current log');
+      expect(forged.code).toBe(1);
+    }, 60000);
+
+    test('rejects an invalid range', async () => {
+      const logPath = await createTestLog({ entries: 2 });
+      const result = await runCli(['prove-consistency', logPath, '--old-size=100']);
+
+      expect(result.stdout).toContain('Invalid consistency proof range');
+      expect(result.code).toBe(1);
+    }, 30000);
   });
 
   describe('error handling', () => {
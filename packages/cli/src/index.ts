@@ -6,13 +6,42 @@
 
 import { readFileSync, writeFileSync, existsSync } from 'fs';
 import { resolve, basename } from 'path';
+import { X509Certificate } from 'crypto';
 import {
   AuditLog,
+  ChainedEntry,
+  Checkpoint,
+  Canonicalization,
+  CryptoSuite,
+  LOG_FORMAT_VERSION,
+  logCanonicalization,
+  DEFAULT_SUITE,
+  suiteAlgorithms,
+  logSuite,
   verifyChain,
   verifyAuditLogSignature,
+  AUDIT_LOG_SIGNATURE_VERSION,
+  ORG_SIGNER_ROLE,
+  verifyCosignature,
+  SignerRequirement,
   buildMerkleTree,
   verifyMerkleProof,
   getMerkleProof,
+  getConsistencyProof,
+  verifyConsistencyProof,
+  verifyCheckpoint,
+  verifyErasure,
+  verifyApproval,
+  verifyTimestampToken,
+  TimestampToken,
+  exportAuditLog,
+  listExporters,
+  LocalKeyProvider,
+  KeyRegistry,
+  decryptAuditLog,
+  isSealedEntry,
+  StoredAuditLog,
+  ExporterInfo,
 } from 'agentledger-core';
 
 // ============================================================================
@@ -50,7 +79,17 @@ function info(msg: string): string {
 // COMMAND: VERIFY
 // ============================================================================
 
-function verify(logPath: string, options: { verbose?: boolean }): void {
+async function verify(
+  logPath: string,
+  options: {
+    verbose?: boolean;
+    keyFile?: string;
+    trustedKeys?: string;
+    approverKeys?: string;
+    tsaCert?: string;
+    requireSigners?: string;
+  },
+): Promise<void> {
   console.log(`\n${colors.bright}AgentLedger Verification${colors.reset}`);
   console.log(`${colors.gray}${'─'.repeat(50)}${colors.reset}\n`);
   
@@ -61,23 +100,113 @@ function verify(logPath: string, options: { verbose?: boolean }): void {
   }
   
   let log: AuditLog;
+  let incompleteTail = false;
   try {
     const content = readFileSync(logPath, 'utf-8');
-    log = JSON.parse(content);
+    if (logPath.endsWith('.jsonl')) {
+      ({ log, incompleteTail } = parseSessionLog(content));
+    } else {
+      log = JSON.parse(content);
+    }
   } catch (e) {
     console.log(error(`Failed to parse log: ${(e as Error).message}`));
     process.exit(1);
   }
   
+  // Entry hashes can only be recomputed with the scheme the log was written with
+  const suite = logSuite(log);
+  const canonicalization = logCanonicalization(log);
+  if (
+    !CryptoSuite.safeParse(suite).success ||
+    (log.hash_algorithm ?? 'sha256') !== suiteAlgorithms(suite).hash ||
+    !Canonicalization.safeParse(canonicalization).success
+  ) {
+    console.log(error(`Unsupported log format ${log.version} (${suite}, ${log.hash_algorithm}, ${canonicalization})`));
+    process.exit(1);
+  }
+  const { hash } = suiteAlgorithms(suite);
+  
+  // Without a registry, signatures are only checked against the keys embedded in the log
+  let registry: KeyRegistry | undefined;
+  if (options.trustedKeys) {
+    try {
+      registry = KeyRegistry.fromFile(options.trustedKeys);
+    } catch (e) {
+      console.log(error(`Failed to load trusted keys: ${(e as Error).message}`));
+      process.exit(1);
+    }
+  }
+  
+  // Approvers sign with their own keys, registered under their approver_id as owner
+  let approverRegistry: KeyRegistry | undefined;
+  if (options.approverKeys) {
+    try {
+      approverRegistry = KeyRegistry.fromFile(options.approverKeys);
+    } catch (e) {
+      console.log(error(`Failed to load approver keys: ${(e as Error).message}`));
+      process.exit(1);
+    }
+  }
+  
+  // Roles that must have signed, e.g. "org,supervisor" or "2:org,supervisor,witness"
+  let requireSigners: SignerRequirement | undefined;
+  if (options.requireSigners !== undefined) {
+    const match = /^(?:(\d+):)?([^,:]+(?:,[^,:]+)*)$/.exec(options.requireSigners);
+    const roles = match?.[2]?.split(',') ?? [];
+    const threshold = match?.[1] === undefined ? roles.length : Number(match[1]);
+    if (roles.length === 0 || threshold < 1 || threshold > roles.length) {
+      console.log(error(`Invalid --require-signers: ${options.requireSigners} (expected [<k>:]<role>,<role>,...)`));
+      process.exit(1);
+    }
+    requireSigners = { roles, threshold };
+  }
+  
+  // Likewise, without a TSA certificate timestamps are only checked against the one in each token
+  let tsaCertificates: string[] | undefined;
+  if (options.tsaCert) {
+    try {
+      const pem = readFileSync(options.tsaCert, 'utf-8');
+      new X509Certificate(pem);
+      tsaCertificates = [pem];
+    } catch (e) {
+      console.log(error(`Failed to load TSA certificate: ${(e as Error).message}`));
+      process.exit(1);
+    }
+  }
+  
+  // Entries encrypted at rest: hashes are over the plaintext, so decrypt first
+  if ((log as StoredAuditLog).entries.some(isSealedEntry)) {
+    if (!options.keyFile) {
+      console.log(error('Log entries are encrypted at rest; pass --key-file=<master key file>'));
+      process.exit(1);
+    }
+    try {
+      log = await decryptAuditLog(log as StoredAuditLog, LocalKeyProvider.fromFile(options.keyFile));
+    } catch (e) {
+      console.log(error(`Failed to decrypt log: ${(e as Error).message}`));
+      process.exit(1);
+    }
+  }
+  
   console.log(info(`Session: ${log.session.session_id}`));
   console.log(info(`Organization: ${log.session.org_id}`));
   console.log(info(`Agent: ${log.session.agent_id}`));
   console.log(info(`Entries: ${log.entries.length}`));
+  console.log(info(`Log format: ${log.version} (${suite}, ${canonicalization === 'jcs' ? 'RFC 8785 JCS' : 'sorted-keys JSON'})`));
+  if (log.session.encryption) {
+    console.log(info(`Encrypted at rest (${log.session.encryption.algorithm}, master key ${log.session.encryption.key_id})`));
+  }
+  if (!log.session.closed_at) {
+    console.log(warn('Session is still open (no Merkle root or signature yet)'));
+  }
+  if (incompleteTail) {
+    console.log(warn('Ignoring incomplete last line (interrupted write)'));
+  }
   console.log('');
   
   // Verify hash chain
   console.log(`${colors.cyan}Hash Chain Verification${colors.reset}`);
-  const chainResult = verifyChain(log.entries);
+  const chainResult = verifyChain(log.entries, { canonicalization, suite });
   
   if (chainResult.valid) {
     console.log(success(`Chain integrity verified (${chainResult.verified_count} entries)`));
@@ -92,7 +221,7 @@ function verify(logPath: string, options: { verbose?: boolean }): void {
   console.log(`\n${colors.cyan}Merkle Tree Verification${colors.reset}`);
   if (log.merkle_root) {
     const hashes = log.entries.map(e => e.entry_hash);
-    const { root } = buildMerkleTree(hashes);
+    const { root } = buildMerkleTree(hashes, { suite });
     
     if (root === log.merkle_root) {
       console.log(success('Merkle root verified'));
@@ -107,23 +236,198 @@ function verify(logPath: string, options: { verbose?: boolean }): void {
   
   // Verify signature
   console.log(`\n${colors.cyan}Signature Verification${colors.reset}`);
+  let signatureValid = !registry;
+  const signedRoles = new Set<string>();
   if (log.org_signature) {
-    const sigValid = verifyAuditLogSignature(log);
-    if (sigValid) {
-      console.log(success('Organization signature verified'));
+    const trust = registry?.check(log.org_signature, log.org_signature.signed_at);
+    // Only org_signature here; co-signatures are reported one by one below
+    signatureValid = verifyAuditLogSignature({ ...log, signatures: undefined }) && (trust?.valid ?? true);
+    if (signatureValid) {
+      signedRoles.add(ORG_SIGNER_ROLE);
+      console.log(success(registry ? 'Organization signature verified with a trusted key' : 'Organization signature verified'));
       console.log(`  ${colors.gray}Signed at: ${log.org_signature.signed_at}${colors.reset}`);
     } else {
       console.log(error('Signature verification FAILED'));
+      for (const err of trust?.errors ?? []) {
+        console.log(`  ${colors.red}→${colors.reset} ${err}`);
+      }
+    }
+    if (log.org_signature.kid) {
+      console.log(`  ${colors.gray}Key: ${log.org_signature.kid}${colors.reset}`);
     }
+    const version = log.org_signature.version ?? 1;
+    if (version === AUDIT_LOG_SIGNATURE_VERSION) {
+      console.log(`  ${colors.gray}Signature version: v${version} (session envelope, Merkle root, integrity)${colors.reset}`);
+    } else if (version === 1) {
+      console.log(warn('Signature version: v1 (legacy; covers only session_id, merkle_root, entry_count and closed_at)'));
+    } else {
+      console.log(`  ${colors.red}→${colors.reset} Unsupported signature version v${version}`);
+    }
+  } else if (registry) {
+    console.log(error('No organization signature present (required with --trusted-keys)'));
   } else {
     console.log(warn('No organization signature present'));
   }
+  for (const cosignature of log.signatures ?? []) {
+    const trust = registry?.check(cosignature, cosignature.signed_at);
+    if (verifyCosignature(log, cosignature) && (trust?.valid ?? true)) {
+      signedRoles.add(cosignature.role);
+      console.log(success(`Co-signature by ${cosignature.role} verified`));
+      console.log(`  ${colors.gray}Key: ${cosignature.kid}, signed at ${cosignature.signed_at}${colors.reset}`);
+    } else {
+      signatureValid = false;
+      console.log(error(`Co-signature by ${cosignature.role} FAILED`));
+      for (const err of trust?.errors ?? []) {
+        console.log(`  ${colors.red}→${colors.reset} ${err}`);
+      }
+    }
+  }
+  if (requireSigners) {
+    const { roles, threshold = roles.length } = requireSigners;
+    const signed = roles.filter(role => signedRoles.has(role));
+    if (signed.length >= threshold) {
+      console.log(success(`Required signers present: ${signed.join(', ')} (${threshold} of ${roles.length} required)`));
+    } else {
+      signatureValid = false;
+      const missing = roles.filter(role => !signedRoles.has(role));
+      console.log(error(`Required signers missing: ${missing.join(', ')} (${signed.length} of ${threshold} required)`));
+    }
+  }
+  
+  // Verify checkpoints
+  console.log(`\n${colors.cyan}Checkpoint Verification${colors.reset}`);
+  const checkpoints = log.checkpoints ?? [];
+  let checkpointsValid = true;
+  for (const checkpoint of checkpoints) {
+    const result = verifyCheckpoint(checkpoint, log.entries, registry);
+    if (checkpoint.session_id !== log.session.session_id) {
+      result.valid = false;
+      result.errors.push(`belongs to session ${checkpoint.session_id}`);
+    }
+    if ((checkpoint.suite ?? DEFAULT_SUITE) !== suite) {
+      result.valid = false;
+      result.errors.push(`uses suite ${checkpoint.suite ?? DEFAULT_SUITE}, not the log's ${suite}`);
+    }
+    
+    if (result.valid) {
+      console.log(success(`Checkpoint at ${checkpoint.tree_size} entries verified`));
+      if (options.verbose) {
+        console.log(`  ${colors.gray}Root: ${checkpoint.root_hash} (${checkpoint.timestamp})${colors.reset}`);
+      }
+    } else {
+      checkpointsValid = false;
+      console.log(error(`Checkpoint at ${checkpoint.tree_size} entries FAILED`));
+      for (const err of result.errors) {
+        console.log(`  ${colors.red}→${colors.reset} ${err}`);
+      }
+    }
+  }
+  if (checkpoints.length === 0) {
+    console.log(warn('No checkpoints present'));
+  }
+  
+  // RFC 3161 timestamps (only shown when the log has any, or --tsa-cert requires one)
+  let timestampsValid = true;
+  if (log.tsa_token || checkpoints.some(c => c.tsa_token) || tsaCertificates) {
+    console.log(`\n${colors.cyan}Timestamp Verification${colors.reset}`);
+    const check = (label: string, token: TimestampToken, root: string, showTsa: boolean) => {
+      const result = verifyTimestampToken(token, root, { trustedCertificates: tsaCertificates, hashAlgorithm: hash });
+      if (result.valid) {
+        console.log(success(`${label} timestamped at ${result.genTime}`));
+        if (showTsa) {
+          console.log(`  ${colors.gray}TSA: ${result.signer}${colors.reset}`);
+        }
+      } else {
+        timestampsValid = false;
+        console.log(error(`${label} timestamp FAILED`));
+        for (const err of result.errors) {
+          console.log(`  ${colors.red}→${colors.reset} ${err}`);
+        }
+      }
+    };
+    
+    if (log.tsa_token && log.merkle_root) {
+      check('Merkle root', log.tsa_token, log.merkle_root, true);
+    } else if (tsaCertificates) {
+      timestampsValid = false;
+      console.log(error('No Merkle root timestamp present (required with --tsa-cert)'));
+    }
+    for (const checkpoint of checkpoints) {
+      if (checkpoint.tsa_token) {
+        check(`Checkpoint at ${checkpoint.tree_size} entries`, checkpoint.tsa_token, checkpoint.root_hash, !!options.verbose);
+      }
+    }
+    if (!tsaCertificates) {
+      console.log(warn('TSA certificate not checked against a trusted one (pass --tsa-cert=<pem>)'));
+    }
+  }
+  
+  // Subject erasures (only shown when the log has any)
+  let erasuresValid = true;
+  const erasures = log.entries.filter(e => e.entry.type === 'subject_erasure');
+  if (erasures.length > 0) {
+    console.log(`\n${colors.cyan}Erasure Verification${colors.reset}`);
+    for (const { sequence, entry } of erasures) {
+      if (entry.type !== 'subject_erasure') continue;
+      const trust = registry?.check(entry, entry.timestamp);
+      if (!verifyErasure(entry, undefined, { suite })) {
+        erasuresValid = false;
+        console.log(error(`Erasure at entry ${sequence} has an invalid signature`));
+      } else if (trust && !trust.valid) {
+        erasuresValid = false;
+        console.log(error(`Erasure at entry ${sequence} is not signed by a trusted key`));
+        for (const err of trust.errors) {
+          console.log(`  ${colors.red}→${colors.reset} ${err}`);
+        }
+      } else {
+        console.log(success(`Erasure at entry ${sequence} signed`));
+      }
+    }
+  }
+  
+  // Approver attestations (only shown when the log has approvals)
+  let approvalsValid = true;
+  const approvals = log.entries.filter(e => e.entry.type === 'human_approval');
+  if (approvals.length > 0) {
+    console.log(`\n${colors.cyan}Approval Verification${colors.reset}`);
+    for (const { sequence, entry } of approvals) {
+      if (entry.type !== 'human_approval') continue;
+      if (!entry.attestation_signature) {
+        if (approverRegistry) approvalsValid = false;
+        const message = `Approval at entry ${sequence} by ${entry.approver_id} is not attested`;
+        console.log(approverRegistry ? error(message) : warn(message));
+        continue;
+      }
+      const trust = approverRegistry && entry.attestation_public_key && entry.attested_at
+        ? approverRegistry.check(
+          { kid: entry.attestation_kid, public_key: entry.attestation_public_key },
+          entry.attested_at,
+          { owner: entry.approver_id },
+        )
+        : undefined;
+      if (!verifyApproval(entry)) {
+        approvalsValid = false;
+        console.log(error(`Approval at entry ${sequence} has an invalid attestation`));
+      } else if (trust && !trust.valid) {
+        approvalsValid = false;
+        console.log(error(`Approval at entry ${sequence} is not attested by a key trusted for ${entry.approver_id}`));
+        for (const err of trust.errors) {
+          console.log(`  ${colors.red}→${colors.reset} ${err}`);
+        }
+      } else {
+        console.log(success(`Approval at entry ${sequence} attested by ${entry.approver_id}`));
+      }
+    }
+    if (!approverRegistry && approvals.some(e => e.entry.type === 'human_approval' && e.entry.attestation_signature)) {
+      console.log(warn('Approver keys not checked against a registry (pass --approver-keys=<path>)'));
+    }
+  }
   
   // Summary
   console.log(`\n${colors.gray}${'─'.repeat(50)}${colors.reset}`);
-  const allValid = chainResult.valid && 
-    (!log.merkle_root || log.merkle_root === buildMerkleTree(log.entries.map(e => e.entry_hash)).root) &&
-    (!log.org_signature || verifyAuditLogSignature(log));
+  const allValid = chainResult.valid && checkpointsValid && erasuresValid && approvalsValid && signatureValid &&
+    timestampsValid &&
+    (!log.merkle_root || log.merkle_root === buildMerkleTree(log.entries.map(e => e.entry_hash), { suite }).root);
   
   if (allValid) {
     console.log(`\n${colors.green}${colors.bright}✓ All verifications passed${colors.reset}\n`);
@@ -134,6 +438,45 @@ function verify(logPath: string, options: { verbose?: boolean }): void {
   }
 }
 
+/**
+ * Read an open session's audit.jsonl (as written by FileSystemStorage)
+ * A last line cut off mid-write is skipped rather than treated as corruption.
+ */
+function parseSessionLog(content: string): { log: AuditLog; incompleteTail: boolean } {
+  const lines = content.split('\n');
+  const tail = lines.pop() ?? '';
+  let incompleteTail = false;
+  
+  const records = lines.filter(line => line.trim()).map(line => JSON.parse(line) as { type: string; data: unknown });
+  if (tail.trim()) {
+    try {
+      records.push(JSON.parse(tail));
+    } catch {
+      incompleteTail = true;
+    }
+  }
+  
+  const header = records[0];
+  if (header?.type !== 'session') {
+    throw new Error('missing session header');
+  }
+  
+  const session = header.data as AuditLog['session'];
+  const log: AuditLog = {
+    version: LOG_FORMAT_VERSION,
+    hash_algorithm: suiteAlgorithms(session.suite).hash,
+    canonicalization: 'jcs',
+    session,
+    entries: records.filter(r => r.type === 'entry').map(r => r.data as ChainedEntry),
+  };
+  const checkpoints = records.filter(r => r.type === 'checkpoint').map(r => r.data as Checkpoint);
+  if (checkpoints.length > 0) {
+    log.checkpoints = checkpoints;
+  }
+  
+  return { log, incompleteTail };
+}
+
 // ============================================================================
 // COMMAND: EXPORT
 // ============================================================================
@@ -160,40 +503,17 @@ function exportLog(logPath: string, format: string, outputPath?: string): void {
   console.log(info(`Format: ${format}`));
   console.log(info(`Entries: ${log.entries.length}`));
   
-  // Export based on format
-  let output: string;
-  let extension: string;
-  
-  switch (format) {
-    case 'jsonl':
-      output = exportJsonl(log);
-      extension = 'jsonl';
-      break;
-    case 'splunk':
-    case 'splunk_cim':
-      output = exportSplunkCIM(log);
-      extension = 'json';
-      break;
-    case 'elastic':
-    case 'elastic_ecs':
-      output = exportElasticECS(log);
-      extension = 'ndjson';
-      break;
-    case 'finra':
-    case 'finra_4511':
-      output = exportFINRA4511(log);
-      extension = 'json';
-      break;
-    case 'eu_ai_act':
-      output = exportEUAIAct(log);
-      extension = 'json';
-      break;
-    default:
-      console.log(error(`Unknown format: ${format}`));
-      console.log(info('Available formats: jsonl, splunk_cim, elastic_ecs, finra_4511, eu_ai_act'));
-      process.exit(1);
+  // Export through the shared registry (built-ins plus anything --require registered)
+  const exporter = findExporter(format);
+  if (!exporter) {
+    console.log(error(`Unknown format: ${format}`));
+    console.log(info(`Available formats: ${listExporters().map(e => e.format).join(', ')}`));
+    process.exit(1);
   }
   
+  const output = exportAuditLog(log, { format: exporter.format });
+  const extension = exporter.extension;
+  
   // Write output
   const finalPath = outputPath || `${basename(logPath, '.json')}.${format}.${extension}`;
   writeFileSync(finalPath, output);
@@ -202,102 +522,8 @@ function exportLog(logPath: string, format: string, outputPath?: string): void {
   console.log(`\n${colors.green}${colors.bright}✓ Export complete${colors.reset}\n`);
 }
 
-function exportJsonl(log: AuditLog): string {
-  const lines = [
-    JSON.stringify({ type: 'session', ...log.session }),
-    ...log.entries.map(e => JSON.stringify({ type: 'entry', ...e })),
-    JSON.stringify({ type: 'integrity', ...log.integrity }),
-  ];
-  return lines.join('\n');
-}
-
-function exportSplunkCIM(log: AuditLog): string {
-  const events = log.entries.map(entry => ({
-    time: new Date(entry.entry.timestamp).getTime() / 1000,
-    host: log.session.agent_id,
-    source: 'agentledger',
-    sourcetype: 'ai:audit',
-    event: {
-      session_id: log.session.session_id,
-      org_id: log.session.org_id,
-      entry_type: entry.entry.type,
-      sequence: entry.sequence,
-      ...entry.entry,
-    },
-  }));
-  return events.map(e => JSON.stringify(e)).join('\n');
-}
-
-function exportElasticECS(log: AuditLog): string {
-  const docs = log.entries.map(entry => ({
-    '@timestamp': entry.entry.timestamp,
-    'ecs.version': '8.0.0',
-    'event.kind': 'event',
-    'event.category': ['process'],
-    'event.action': entry.entry.type,
-    'event.id': entry.entry.entry_id,
-    'agent.id': log.session.agent_id,
-    'organization.id': log.session.org_id,
-    'session.id': log.session.session_id,
-    agentledger: entry.entry,
-  }));
-  return docs.map(d => JSON.stringify(d)).join('\n');
-}
-
-function exportFINRA4511(log: AuditLog): string {
-  const record = {
-    record_type: 'AI_AGENT_AUDIT_LOG',
-    finra_rule: '4511',
-    firm_id: log.session.org_id,
-    record_id: log.session.session_id,
-    creation_date: log.session.initiated_at,
-    closure_date: log.session.closed_at,
-    retention_period_years: Math.ceil(log.session.retention_days / 365),
-    integrity: {
-      chain_verified: log.integrity?.chain_valid,
-      merkle_root: log.merkle_root,
-      digital_signature: log.org_signature?.signature,
-    },
-    record_count: log.entries.length,
-    records: log.entries.map(entry => ({
-      sequence_number: entry.sequence,
-      timestamp: entry.entry.timestamp,
-      record_type: entry.entry.type,
-      record_hash: entry.entry_hash,
-      data: entry.entry,
-    })),
-  };
-  return JSON.stringify(record, null, 2);
-}
-
-function exportEUAIAct(log: AuditLog): string {
-  const record = {
-    schema_version: '1.0',
-    regulation: 'EU_AI_ACT',
-    article: '12',
-    ai_system: {
-      provider: log.session.org_id,
-      system_id: log.session.agent_id,
-      version: log.session.agent_version,
-    },
-    operation_log: {
-      session_id: log.session.session_id,
-      start_time: log.session.initiated_at,
-      end_time: log.session.closed_at,
-    },
-    traceability: {
-      total_events: log.entries.length,
-      merkle_root: log.merkle_root,
-      chain_integrity: log.integrity?.chain_valid,
-    },
-    events: log.entries.map(entry => ({
-      event_id: entry.entry.entry_id,
-      timestamp: entry.entry.timestamp,
-      event_type: entry.entry.type,
-      hash: entry.entry_hash,
-    })),
-  };
-  return JSON.stringify(record, null, 2);
+function findExporter(format: string): ExporterInfo | undefined {
+  return listExporters().find(e => e.format === format || e.aliases.includes(format));
 }
 
 // ============================================================================
@@ -393,6 +619,13 @@ function replay(logPath: string, options: { session?: string }): void {
           desc += ` ${colors.yellow}[PII]${colors.reset}`;
         }
         break;
+      case 'subject_erasure':
+        icon = '🗑️';
+        desc = `Erasure: subject ${entry.entry.subject_ref}`;
+        if (!entry.entry.key_destroyed) {
+          desc += ` ${colors.gray}(no key held)${colors.reset}`;
+        }
+        break;
       default:
         icon = '•';
         desc = `Unknown: ${type}`;
@@ -490,6 +723,19 @@ function summary(logPath: string): void {
   console.log(`  Human approvals: ${approvals.length}`);
   console.log(`  Errors: ${errors.length}`);
   
+  // Crypto-shredding: references whose subject is erased by an entry in this log
+  const erasures = log.entries.flatMap(e => e.entry.type === 'subject_erasure' ? [e.entry] : []);
+  const erasedSubjects = new Set(erasures.map(e => e.subject_ref));
+  const subjectRefs = log.entries.flatMap(e =>
+    e.entry.type === 'content_reference' && e.entry.subject_ref !== undefined ? [e.entry] : []);
+  if (erasures.length > 0 || subjectRefs.length > 0) {
+    const shredded = subjectRefs.filter(e => e.subject_ref !== undefined && erasedSubjects.has(e.subject_ref));
+    console.log(`\n${colors.cyan}Erasure${colors.reset}`);
+    console.log(`  Subject erasures: ${erasures.length}`);
+    console.log(`  Subject content references: ${subjectRefs.length}`);
+    console.log(`  References shredded: ${shredded.length}`);
+  }
+  
   // Token usage
   const tokensByModel: Record<string, { prompt: number; completion: number }> = {};
   for (const entry of modelCalls) {
@@ -553,12 +799,125 @@ function summary(logPath: string): void {
   console.log(`\n${colors.cyan}Compliance Score: ${(passRate * 100).toFixed(0)}%${colors.reset}\n`);
 }
 
+// ============================================================================
+// COMMAND: PROVE-CONSISTENCY
+// ============================================================================
+
+function proveConsistency(
+  logPath: string,
+  options: { oldSize?: string; newSize?: string; oldRoot?: string; output?: string },
+): void {
+  console.log(`\n${colors.bright}AgentLedger Consistency Proof${colors.reset}`);
+  console.log(`${colors.gray}${'─'.repeat(50)}${colors.reset}\n`);
+  
+  // Load log
+  if (!existsSync(logPath)) {
+    console.log(error(`File not found: ${logPath}`));
+    process.exit(1);
+  }
+  
+  let log: AuditLog;
+  try {
+    const content = readFileSync(logPath, 'utf-8');
+    log = JSON.parse(content);
+  } catch (e) {
+    console.log(error(`Failed to parse log: ${(e as Error).message}`));
+    process.exit(1);
+  }
+  
+  if (!options.oldSize) {
+    console.log(error('Please provide --old-size=<n>'));
+    process.exit(1);
+  }
+  
+  const suite = logSuite(log);
+  const hashes = log.entries.map(e => e.entry_hash);
+  const oldSize = Number(options.oldSize);
+  const newSize = options.newSize ? Number(options.newSize) : hashes.length;
+  
+  let proof: string[];
+  try {
+    proof = getConsistencyProof(hashes, oldSize, newSize, { suite });
+  } catch (e) {
+    console.log(error((e as Error).message));
+    process.exit(1);
+  }
+  
+  // Roots use RFC 6962 hashing, not the legacy merkle_root of the log
+  const oldRoot = buildMerkleTree(hashes.slice(0, oldSize), { mode: 'rfc6962', suite }).root;
+  const newRoot = buildMerkleTree(hashes.slice(0, newSize), { mode: 'rfc6962', suite }).root;
+  
+  console.log(info(`Session: ${log.session.session_id}`));
+  console.log(info(`Old tree: ${oldSize} entries, root ${oldRoot}`));
+  console.log(info(`New tree: ${newSize} entries, root ${newRoot}`));
+  console.log('');
+  
+  console.log(`${colors.cyan}Proof (${proof.length} hashes)${colors.reset}`);
+  for (const hash of proof) {
+    console.log(`  ${colors.gray}${hash}${colors.reset}`);
+  }
+  console.log('');
+  
+  // Check against a previously published root when given, else self-check
+  const expectedOldRoot = options.oldRoot ?? oldRoot;
+  if (!verifyConsistencyProof(oldSize, newSize, expectedOldRoot, newRoot, proof, { suite })) {
+    console.log(error(options.oldRoot
+      ? `Published root for ${oldSize} entries is not a prefix of the current log`
+      : 'Consistency proof FAILED'));
+    console.log(`\n${colors.red}${colors.bright}✗ Log is not an append-only extension${colors.reset}\n`);
+    process.exit(1);
+  }
+  console.log(success(options.oldRoot
+    ? 'Published root is a prefix of the current log'
+    : 'Consistency proof verified'));
+  
+  if (options.output) {
+    const record = {
+      session_id: log.session.session_id,
+      tree_mode: 'rfc6962',
+      suite,
+      old_size: oldSize,
+      new_size: newSize,
+      old_root: oldRoot,
+      new_root: newRoot,
+      proof,
+    };
+    writeFileSync(options.output, JSON.stringify(record, null, 2));
+    console.log(success(`Proof written to: ${options.output}`));
+  }
+  
+  console.log(`\n${colors.green}${colors.bright}✓ Log is an append-only extension${colors.reset}\n`);
+}
+
 // ============================================================================
 // MAIN
 // ============================================================================
 
+function loadModule(specifier: string): void {
+  const local = specifier.startsWith('.') || specifier.startsWith('/');
+  try {
+    require(local ? resolve(specifier) : require.resolve(specifier, { paths: [process.cwd()] }));
+  } catch (e) {
+    console.log(error(`Failed to load ${specifier}: ${(e as Error).message}`));
+    process.exit(1);
+  }
+}
+
+function formatList(): string {
+  const width = Math.max(...listExporters().map(e => e.format.length)) + 2;
+  return listExporters()
+    .map(e => `  ${e.format.padEnd(width)}${e.description}`)
+    .join('\n');
+}
+
 function main(): void {
-  const args = process.argv.slice(2);
+  const argv = process.argv.slice(2);
+  const args = argv.filter(a => !a.startsWith('--require='));
+  
+  // Plugins register their exporters before --help lists the formats
+  for (const arg of argv.filter(a => a.startsWith('--require='))) {
+    loadModule(arg.slice('--require='.length));
+  }
   
   if (args.length === 0 || args[0] === '--help' || args[0] === '-h') {
     console.log(`
@@ -566,23 +925,43 @@ ${colors.bright}AgentLedger CLI${colors.reset}
 AI Agent Audit Trail SDK
 
 ${colors.cyan}Usage:${colors.reset}
-  agentledger verify <log-file>              Verify hash chain integrity
+  agentledger verify <log-file>              Verify hash chain integrity and checkpoints
+                                             (audit.json, or an open session's audit.jsonl)
   agentledger export <log-file> --format=<f> Export to compliance format
   agentledger replay <log-file>              Replay session timeline
   agentledger summary <log-file>             Show statistics and compliance
+  agentledger prove-consistency <log-file> --old-size=<n> [--new-size=<n>] [--old-root=<hash>]
+                                             Prove the first n entries are a prefix of the log
+
+${colors.cyan}Options:${colors.reset}
+  --require=<module>  Load a module first (e.g. one that calls registerExporter)
+  --key-file=<path>   Master key file for verifying logs encrypted at rest
+  --trusted-keys=<path>
+                      Key registry (JSON or JWKS); verify fails unless every
+                      signature is by a registered key that was valid and unrevoked
+  --approver-keys=<path>
+                      Approvers' key registry; verify fails unless every human
+                      approval is attested by a key registered to its approver
+  --tsa-cert=<path>   Trusted TSA certificate(s), PEM; verify fails unless the
+                      Merkle root carries an RFC 3161 timestamp from that TSA
+  --require-signers=[<k>:]<role>,...
+                      Roles that must have validly signed the log (org for the
+                      org signature, else a co-signer's role); with k, any k of them
 
 ${colors.cyan}Export Formats:${colors.reset}
-  jsonl        Raw JSONL
-  splunk_cim   Splunk Common Information Model
-  elastic_ecs  Elastic Common Schema
-  finra_4511   FINRA Books and Records
-  eu_ai_act    EU AI Act Article 12
+${formatList()}
 
 ${colors.cyan}Examples:${colors.reset}
   agentledger verify audit.json
+  agentledger verify ./audit-logs/acme/<session-id>/audit.jsonl
+  agentledger verify audit.json --trusted-keys=trusted-keys.json
+  agentledger verify audit.json --tsa-cert=tsa.pem
+  agentledger verify audit.json --require-signers=org,supervisor
+  agentledger verify audit.json --approver-keys=approver-keys.json
   agentledger export audit.json --format=finra_4511
   agentledger replay audit.json
   agentledger summary audit.json
+  agentledger prove-consistency audit.json --old-size=100 --output=proof.json
 `);
     return;
   }
@@ -600,7 +979,14 @@ ${colors.cyan}Examples:${colors.reset}
 
   switch (command) {
     case 'verify':
-      verify(resolvedPath, { verbose: args.includes('--verbose') || args.includes('-v') });
+      void verify(resolvedPath, {
+        verbose: args.includes('--verbose') || args.includes('-v'),
+        keyFile: args.find(a => a.startsWith('--key-file='))?.slice('--key-file='.length),
+        trustedKeys: args.find(a => a.startsWith('--trusted-keys='))?.slice('--trusted-keys='.length),
+        approverKeys: args.find(a => a.startsWith('--approver-keys='))?.slice('--approver-keys='.length),
+        tsaCert: args.find(a => a.startsWith('--tsa-cert='))?.slice('--tsa-cert='.length),
+        requireSigners: args.find(a => a.startsWith('--require-signers='))?.slice('--require-signers='.length),
+      });
       break;
     
     case 'export': {
@@ -620,6 +1006,17 @@ ${colors.cyan}Examples:${colors.reset}
       summary(resolvedPath);
       break;
     
+    case 'prove-consistency': {
+      const option = (name: string) => args.find(a => a.startsWith(`--${name}=`))?.split('=')[1];
+      proveConsistency(resolvedPath, {
+        oldSize: option('old-size'),
+        newSize: option('new-size'),
+        oldRoot: option('old-root'),
+        output: option('output'),
+      });
+      break;
+    }
+    
     default:
       console.log(error(`Unknown command: ${command}`));
       console.log(info('Run "agentledger --help" for usage'));
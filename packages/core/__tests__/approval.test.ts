@@ -0,0 +1,141 @@
+/**
+ * Tests for approver-signed attestations on human approvals
+ */
+
+import { generateSigningKeys } from '../src/ledger';
+import { createTestLedger } from './helpers';
+import { LocalSigner } from '../src/signer';
+import { KeyRegistry } from '../src/keys';
+import { signApproval, verifyApproval, hashContent } from '../src/crypto';
+import type { ApprovalStatement } from '../src/crypto';
+import { ValidationError } from '../src/errors';
+
+import type { HumanApproval } from '../src/types';
+
+const approverKeys = generateSigningKeys();
+const statement: ApprovalStatement = {
+  approver_id: 'alice',
+  decision_ref: 'decision-1',
+  approval_type: 'modified',
+  modification_hash: hashContent('new limit'),
+};
+
+function approvalParams(attestation?: ReturnType<typeof signApproval>) {
+  return {
+    approverId: 'alice',
+    approverRole: 'risk_officer',
+    decisionRef: 'decision-1',
+    approvalType: 'modified' as const,
+    modificationHash: statement.modification_hash,
+    attestation,
+  };
+}
+
+describe('signApproval', () => {
+  test('signs with a local key or a Signer', async () => {
+    const local = signApproval(statement, approverKeys.privateKey, approverKeys.publicKey, approverKeys.kid);
+    const remote = await signApproval(statement, new LocalSigner(approverKeys));
+
+    for (const attestation of [local, remote]) {
+      expect(attestation).toEqual({
+        kid: approverKeys.kid,
+        public_key: approverKeys.publicKey,
+        signature: expect.any(String),
+        signed_at: expect.any(String),
+      });
+    }
+  });
+});
+
+describe('verifyApproval', () => {
+  const attestation = signApproval(statement, approverKeys.privateKey, approverKeys.publicKey, approverKeys.kid);
+  const entry: HumanApproval = {
+    type: 'human_approval',
+    entry_id: 'e1',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    approver_role: 'risk_officer',
+    ...statement,
+    attestation_signature: attestation.signature,
+    attestation_kid: attestation.kid,
+    attestation_public_key: attestation.public_key,
+    attested_at: attestation.signed_at,
+  };
+
+  test('fails when the statement was changed', () => {
+    expect(verifyApproval(entry)).toBe(true);
+    expect(verifyApproval({ ...entry, approval_type: 'approved' })).toBe(false);
+    expect(verifyApproval({ ...entry, modification_hash: undefined })).toBe(false);
+    expect(verifyApproval({ ...entry, approver_id: 'bob' })).toBe(false);
+    expect(verifyApproval({ ...entry, attested_at: '2025-01-01T00:00:00.000Z' })).toBe(false);
+    expect(verifyApproval({ ...entry, attestation_signature: undefined })).toBe(false);
+  });
+
+  test('requires a key registered to the approver when given a registry', () => {
+    const registered = (owner?: string) =>
+      new KeyRegistry([{ kid: approverKeys.kid, public_key: approverKeys.publicKey, owner }]);
+
+    expect(verifyApproval(entry, registered('alice'))).toBe(true);
+    expect(verifyApproval(entry, registered('bob'))).toBe(false);
+    expect(verifyApproval(entry, registered())).toBe(false);
+    expect(verifyApproval(entry, new KeyRegistry())).toBe(false);
+  });
+});
+
+describe('Ledger.logApproval', () => {
+  test('records the attestation on the entry', async () => {
+    const ledger = createTestLedger();
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+    const attestation = signApproval(statement, approverKeys.privateKey, approverKeys.publicKey, approverKeys.kid);
+
+    const chained = await ledger.logApproval(approvalParams(attestation));
+
+    expect(chained.entry).toMatchObject({
+      attestation_signature: attestation.signature,
+      attestation_kid: approverKeys.kid,
+      attestation_public_key: approverKeys.publicKey,
+      attested_at: attestation.signed_at,
+    });
+    expect(verifyApproval(chained.entry as HumanApproval)).toBe(true);
+  });
+
+  test('without approverKeys, records that the attestation key was not checked', async () => {
+    const ledger = createTestLedger();
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+
+    const attested = await ledger.logApproval(approvalParams(await signApproval(statement, new LocalSigner(approverKeys))));
+    const unattested = await ledger.logApproval(approvalParams());
+
+    expect((attested.entry as HumanApproval).attestation_key_checked).toBe(false);
+    expect((unattested.entry as HumanApproval).attestation_key_checked).toBeUndefined();
+  });
+
+  test('rejects an attestation for a different approval', async () => {
+    const ledger = createTestLedger();
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+    const other = signApproval(
+      { ...statement, approval_type: 'rejected' },
+      approverKeys.privateKey,
+      approverKeys.publicKey,
+    );
+
+    await expect(ledger.logApproval(approvalParams(other))).rejects.toThrow(ValidationError);
+  });
+
+  test('with approverKeys, requires an attestation by a key registered to the approver', async () => {
+    const bobKeys = generateSigningKeys();
+    const approvers = new KeyRegistry([
+      { kid: approverKeys.kid, public_key: approverKeys.publicKey, owner: 'alice' },
+      { kid: bobKeys.kid, public_key: bobKeys.publicKey, owner: 'bob' },
+    ]);
+    const ledger = createTestLedger({ approverKeys: approvers });
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+
+    await expect(ledger.logApproval(approvalParams())).rejects.toThrow('Approval by alice needs an attestation');
+    await expect(ledger.logApproval(approvalParams(await signApproval(statement, new LocalSigner(bobKeys)))))
+      .rejects.toThrow(`Key ${bobKeys.kid} is not registered to alice`);
+
+    const chained = await ledger.logApproval(approvalParams(await signApproval(statement, new LocalSigner(approverKeys))));
+    expect(verifyApproval(chained.entry as HumanApproval, approvers)).toBe(true);
+    expect((chained.entry as HumanApproval).attestation_key_checked).toBe(true);
+  });
+});
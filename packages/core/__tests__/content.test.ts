@@ -0,0 +1,186 @@
+/**
+ * Tests for content stores and Ledger content retrieval
+ */
+
+import { FileSystemContentStore } from '../src/content';
+import type { ContentStore } from '../src/content';
+import { Ledger } from '../src/ledger';
+import type { LedgerConfig } from '../src/ledger';
+import { hashContent } from '../src/crypto';
+import { StorageError, CryptoError } from '../src/errors';
+import { mkdirSync, rmSync, existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+
+const testDir = join(__dirname, '../.test-content');
+
+function createLedger(contentStore?: LedgerConfig['contentStore']): Ledger {
+  return new Ledger({
+    orgId: 'test-org',
+    agentId: 'test-agent',
+    environment: 'test',
+    compliance: ['FINRA_4511'],
+    contentStore,
+  });
+}
+
+describe('FileSystemContentStore', () => {
+  let store: FileSystemContentStore;
+
+  beforeEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+    store = new FileSystemContentStore(testDir);
+  });
+
+  afterAll(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  test('stores content under its hash and returns a file URI', async () => {
+    const content = Buffer.from('full prompt text');
+    const hash = hashContent(content);
+
+    const uri = await store.put(hash, content);
+
+    expect(uri).toMatch(/^file:\/\//);
+    expect(fileURLToPath(uri)).toBe(join(testDir, 'sha256', hash.slice(0, 2), hash));
+    expect(readFileSync(fileURLToPath(uri))).toEqual(content);
+    expect(await store.get(hash)).toEqual(content);
+  });
+
+  test('deduplicates identical content', async () => {
+    const content = Buffer.from('same bytes');
+    const hash = hashContent(content);
+
+    expect(await store.put(hash, content)).toBe(await store.put(hash, content));
+  });
+
+  test('keeps content sealed in different contexts apart', async () => {
+    const hash = hashContent('same text');
+
+    const plainUri = await store.put(hash, Buffer.from('plain'));
+    const sealedUri = await store.put(hash, Buffer.from('sealed'), 'session-1');
+
+    expect(fileURLToPath(sealedUri)).toBe(join(testDir, 'sha256', hash.slice(0, 2), `${hash}.session-1`));
+    expect(sealedUri).not.toBe(plainUri);
+    expect((await store.get(hash))?.toString()).toBe('plain');
+    expect((await store.get(hash, 'session-1'))?.toString()).toBe('sealed');
+    await expect(store.get(hash, '../x')).rejects.toThrow(StorageError);
+  });
+
+  test('returns undefined for unknown hashes', async () => {
+    expect(await store.get(hashContent('never stored'))).toBeUndefined();
+  });
+
+  test('rejects malformed hashes', async () => {
+    await expect(store.get('../../etc/passwd')).rejects.toThrow(StorageError);
+  });
+});
+
+describe('Ledger content store', () => {
+  beforeEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+  });
+
+  test('storeContent writes to the content store and fills storage_uri', async () => {
+    const ledger = createLedger({ type: 'filesystem', path: testDir });
+    const session = await ledger.start({ type: 'user', identifier: 'test-user' });
+
+    const chained = await session.storeContent({
+      contentType: 'prompt',
+      parentEntryId: 'entry-001',
+      content: 'What is my balance?',
+    });
+
+    const entry = chained.entry as any;
+    expect(entry.storage_uri).toMatch(/^file:\/\//);
+    expect(readFileSync(fileURLToPath(entry.storage_uri), 'utf-8')).toBe('What is my balance?');
+  });
+
+  test('an explicit storageUri is kept and nothing is written', async () => {
+    const puts: string[] = [];
+    const store: ContentStore = {
+      put: async hash => { puts.push(hash); return 'unused'; },
+      get: async () => undefined,
+    };
+    const session = await createLedger(store).start({ type: 'user', identifier: 'test-user' });
+
+    const chained = await session.storeContent({
+      contentType: 'prompt',
+      parentEntryId: 'entry-001',
+      content: 'uploaded elsewhere',
+      storageUri: 'https://example.com/blob',
+    });
+
+    expect((chained.entry as any).storage_uri).toBe('https://example.com/blob');
+    expect(puts).toEqual([]);
+  });
+
+  test('getContent returns the stored bytes', async () => {
+    const ledger = createLedger({ type: 'filesystem', path: testDir });
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+    const content = Buffer.from([0, 1, 2, 250, 255]);
+
+    const chained = await ledger.storeContent({ contentType: 'tool_output', parentEntryId: 'entry-001', content });
+
+    expect(await ledger.getContent(chained.entry.entry_id)).toEqual(content);
+  });
+
+  test('getContent detects content altered in the store', async () => {
+    const session = await createLedger({ type: 'filesystem', path: testDir }).start({ type: 'user', identifier: 'test-user' });
+    const chained = await session.storeContent({ contentType: 'completion', parentEntryId: 'entry-001', content: 'Approved' });
+
+    writeFileSync(fileURLToPath((chained.entry as any).storage_uri), 'Denied');
+
+    await expect(session.getContent(chained.entry.entry_id)).rejects.toThrow(CryptoError);
+  });
+
+  test('getContent falls back to content kept by the storage backend', async () => {
+    const session = await createLedger().start({ type: 'user', identifier: 'test-user' });
+    const chained = await session.storeContent({ contentType: 'prompt', parentEntryId: 'entry-001', content: 'in memory' });
+
+    expect((chained.entry as any).storage_uri).toBeUndefined();
+    expect((await session.getContent(chained.entry.entry_id)).toString()).toBe('in memory');
+  });
+
+  test('getContent rejects entries that are not content references', async () => {
+    const session = await createLedger({ type: 'filesystem', path: testDir }).start({ type: 'user', identifier: 'test-user' });
+    const snapshot = await session.snapshot({ trigger: 'manual', stateHash: hashContent('state'), schemaVersion: '1.0.0' });
+
+    await expect(session.getContent(snapshot.entry.entry_id)).rejects.toThrow(StorageError);
+    await expect(session.getContent('missing')).rejects.toThrow(StorageError);
+  });
+
+  test('getContent reports content missing from the store', async () => {
+    const store: ContentStore = {
+      put: async () => 'memory://dropped',
+      get: async () => undefined,
+    };
+    const ledger = new Ledger({
+      orgId: 'test-org',
+      agentId: 'test-agent',
+      environment: 'test',
+      compliance: ['FINRA_4511'],
+      storage: { type: 'filesystem', path: join(testDir, 'logs') },
+      contentStore: store,
+    });
+    const session = await ledger.start({ type: 'user', identifier: 'test-user' });
+    const chained = await session.storeContent({ contentType: 'prompt', parentEntryId: 'entry-001', content: 'gone' });
+
+    await expect(session.getContent(chained.entry.entry_id)).rejects.toThrow('is not stored');
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Tests for multi-party co-signing of closed logs
+ */
+
+import { generateSigningKeys } from '../src/ledger';
+import type { LedgerConfig } from '../src/ledger';
+import { createTestLedger } from './helpers';
+import { LocalSigner } from '../src/signer';
+import { KeyRegistry } from '../src/keys';
+import { cosign, verifyCosignature, verifyAuditLogSignature, hashContent } from '../src/crypto';
+import { CryptoError, SessionError, ValidationError } from '../src/errors';
+
+import type { AuditLog, Cosignature } from '../src/types';
+
+async function closedLog(overrides: Partial<LedgerConfig> = { signingKeys: generateSigningKeys() }): Promise<AuditLog> {
+  const ledger = createTestLedger(overrides);
+  await ledger.start({ type: 'user', identifier: 'test-user' });
+  await ledger.snapshot({ trigger: 'manual', stateHash: hashContent('state'), schemaVersion: '1.0.0' });
+  return ledger.close();
+}
+
+const supervisorKeys = generateSigningKeys();
+const witnessKeys = generateSigningKeys();
+const supervisor = new LocalSigner(supervisorKeys);
+const witness = new LocalSigner(witnessKeys);
+
+describe('cosign', () => {
+  test('appends a signature under its role', async () => {
+    const log = await closedLog();
+
+    const cosigned = await cosign(log, supervisor, 'supervisor');
+
+    expect(log.signatures).toBeUndefined();
+    expect(cosigned.signatures).toEqual([{
+      role: 'supervisor',
+      version: 2,
+      kid: supervisorKeys.kid,
+      public_key: supervisorKeys.publicKey,
+      signature: expect.any(String),
+      signed_at: expect.any(String),
+    }]);
+    expect(cosigned.org_signature).toEqual(log.org_signature);
+    expect(verifyCosignature(cosigned, cosigned.signatures?.[0] as Cosignature)).toBe(true);
+    expect(verifyAuditLogSignature(cosigned)).toBe(true);
+  });
+
+  test('parties can sign in any order', async () => {
+    const log = await closedLog();
+
+    const one = await cosign(await cosign(log, supervisor, 'supervisor'), witness, 'witness');
+    const other = await cosign(await cosign(log, witness, 'witness'), supervisor, 'supervisor');
+
+    expect(verifyAuditLogSignature(one)).toBe(true);
+    expect(verifyAuditLogSignature(other)).toBe(true);
+  });
+
+  test('only signs closed logs, once per role', async () => {
+    const log = await closedLog();
+    const cosigned = await cosign(log, supervisor, 'supervisor');
+    const open = { ...log, session: { ...log.session, closed_at: undefined } };
+
+    await expect(cosign(open, supervisor, 'supervisor')).rejects.toThrow(SessionError);
+    await expect(cosign(cosigned, witness, 'supervisor')).rejects.toThrow('Log already has a supervisor signature');
+    await expect(cosign(log, witness, 'org')).rejects.toThrow(ValidationError);
+    await expect(cosign(log, witness, '')).rejects.toThrow(ValidationError);
+    await expect(cosign(log, new LocalSigner(generateSigningKeys('sha384+ecdsa-p384')), 'witness'))
+      .rejects.toThrow(CryptoError);
+  });
+
+  test('signs logs closed without an org signature', async () => {
+    const log = await closedLog({});
+
+    const cosigned = await cosign(log, supervisor, 'supervisor');
+
+    expect(verifyAuditLogSignature(log)).toBe(false);
+    expect(verifyAuditLogSignature(cosigned)).toBe(true);
+    expect(verifyAuditLogSignature(cosigned, undefined, { requireSigners: { roles: ['org', 'supervisor'] } }))
+      .toBe(false);
+  });
+});
+
+describe('verifyAuditLogSignature with co-signatures', () => {
+  test('fails when any co-signature is invalid', async () => {
+    const cosigned = await cosign(await cosign(await closedLog(), supervisor, 'supervisor'), witness, 'witness');
+    const [first, second] = cosigned.signatures ?? [];
+
+    const relabelled = { ...cosigned, signatures: [{ ...first, role: 'compliance' }, second] } as AuditLog;
+    const edited = { ...cosigned, session: { ...cosigned.session, environment: 'development' } };
+
+    expect(verifyCosignature(relabelled, relabelled.signatures?.[0] as Cosignature)).toBe(false);
+    expect(verifyAuditLogSignature(relabelled)).toBe(false);
+    expect(verifyAuditLogSignature(edited)).toBe(false);
+  });
+
+  test('checks required roles', async () => {
+    const log = await cosign(await closedLog(), supervisor, 'supervisor');
+    const check = (roles: string[], threshold?: number) =>
+      verifyAuditLogSignature(log, undefined, { requireSigners: { roles, threshold } });
+
+    expect(check(['org', 'supervisor'])).toBe(true);
+    expect(check(['org', 'supervisor', 'witness'])).toBe(false);
+    expect(check(['org', 'supervisor', 'witness'], 2)).toBe(true);
+    expect(check(['witness', 'compliance'], 1)).toBe(false);
+    expect(() => check(['org'], 2)).toThrow(ValidationError);
+    expect(() => check(['org'], 0)).toThrow(ValidationError);
+  });
+
+  test('requires co-signers to be trusted when given a registry', async () => {
+    const orgKeys = generateSigningKeys();
+    const log = await cosign(await closedLog({ signingKeys: orgKeys }), supervisor, 'supervisor');
+    const registry = new KeyRegistry([{ kid: orgKeys.kid, public_key: orgKeys.publicKey }]);
+
+    expect(verifyAuditLogSignature(log, registry)).toBe(false);
+
+    registry.add({ kid: supervisorKeys.kid, public_key: supervisorKeys.publicKey });
+    expect(verifyAuditLogSignature(log, registry)).toBe(true);
+
+    registry.revoke(supervisorKeys.kid, { at: '2020-01-01T00:00:00.000Z' });
+    expect(verifyCosignature(log, log.signatures?.[0] as Cosignature, registry)).toBe(false);
+  });
+});
@@ -12,6 +12,8 @@ import {
   buildMerkleTree,
   getMerkleProof,
   verifyMerkleProof,
+  getConsistencyProof,
+  verifyConsistencyProof,
   generateKeyPair,
   sign,
   verify,
@@ -20,6 +22,9 @@ import {
   generateId,
   timestamp,
 } from '../src/crypto';
+import { CryptoError } from '../src/errors';
+import { readFileSync } from 'fs';
+import { join } from 'path';
 
 import type { ModelCall, AuditLog, ChainedEntry, SessionEnvelope } from '../src/types';
 
@@ -440,6 +445,121 @@ describe('Merkle Tree', () => {
   });
 });
 
+// RFC 6962 reference leaves (certificate-transparency test data), as hex
+const RFC6962_LEAVES = ['', '00', '10', '2021', '3031', '40414243', '5051525354555657', '606162636465666768696a6b6c6d6e6f'];
+
+const RFC6962_ROOTS = [
+  '6e340b9cffb37a989ca544e6bb780a2c78901d3fb33738768511a30617afa01d',
+  'fac54203e7cc696cf0dfcb42c92a1d9dbaf70ad9e621f4bd8d98662f00e3c125',
+  'aeb6bcfe274b70a14fb067a5e5578264db0fa9b51af5e0ba159158f329e06e77',
+  'd37ee418976dd95753c1c73862b9398fa2a2cf9b4ff0fdfe8b30cd95209614b7',
+  '4e3bbb1f7b478dcfe71fb631631519a3bca12c9aefca1612bfce4c13a86264d4',
+  '76e67dadbcdf1e10e1b74ddc608abd2f98dfb16fbce75277b5232a127f2087ef',
+  'ddb89be403809e325750d3d263cd78929c2942b7942a34b77e122c9594a74c8c',
+  '5dc9da79a70659a9ad559cb701ded9a2ab9d823aad2f4960cfe370eff4604328',
+];
+
+function rfc6962Root(hashes: string[]): string {
+  return buildMerkleTree(hashes, { mode: 'rfc6962' }).root;
+}
+
+describe('RFC 6962 Merkle Tree', () => {
+  test('matches the reference roots', () => {
+    for (let n = 1; n <= RFC6962_LEAVES.length; n++) {
+      expect(rfc6962Root(RFC6962_LEAVES.slice(0, n))).toBe(RFC6962_ROOTS[n - 1]);
+    }
+  });
+
+  test('differs from the legacy tree', () => {
+    const hashes = ['a', 'b', 'c'].map(sha256);
+
+    expect(rfc6962Root(hashes)).not.toBe(buildMerkleTree(hashes).root);
+  });
+
+  test('generates and verifies inclusion proofs for unbalanced trees', () => {
+    for (let n = 1; n <= 9; n++) {
+      const hashes = Array.from({ length: n }, (_, i) => sha256(`leaf-${i}`));
+      const { root, tree } = buildMerkleTree(hashes, { mode: 'rfc6962' });
+
+      for (let i = 0; i < n; i++) {
+        const proof = getMerkleProof(tree, i);
+        expect(verifyMerkleProof(hashes[i]!, proof, root, { mode: 'rfc6962' })).toBe(true);
+        expect(verifyMerkleProof(hashes[i]!, proof, root)).toBe(false);
+      }
+    }
+  });
+});
+
+describe('Merkle Consistency Proofs', () => {
+  test('matches the reference proofs', () => {
+    expect(getConsistencyProof(RFC6962_LEAVES, 1, 1)).toEqual([]);
+    expect(getConsistencyProof(RFC6962_LEAVES, 1, 8)).toEqual([
+      '96a296d224f285c67bee93c30f8a309157f0daa35dc5b87e410b78630a09cfc7',
+      '5f083f0a1a33ca076a95279832580db3e0ef4584bdff1f54c8a360f50de3031e',
+      '6b47aaf29ee3c2af9af889bc1fb9254dabd31177f16232dd6aab035ca39bf6e4',
+    ]);
+    expect(getConsistencyProof(RFC6962_LEAVES, 6, 8)).toEqual([
+      '0ebc5d3437fbe2db158b9f126a1d118e308181031d0a949f8dededebc558ef6a',
+      'ca854ea128ed050b41b35ffc1b87b8eb2bde461e9e3b5596ece6b9d5975a0ae0',
+      'd37ee418976dd95753c1c73862b9398fa2a2cf9b4ff0fdfe8b30cd95209614b7',
+    ]);
+    expect(getConsistencyProof(RFC6962_LEAVES, 2, 5)).toEqual([
+      '5f083f0a1a33ca076a95279832580db3e0ef4584bdff1f54c8a360f50de3031e',
+      'bc1a0643b12e4d2d7c77918f44e0f4f79a838b6cf9ec5b5c283e1f4d88599e6b',
+    ]);
+  });
+
+  test('verifies proofs between every pair of sizes', () => {
+    const hashes = Array.from({ length: 17 }, (_, i) => sha256(`entry-${i}`));
+    const roots = hashes.map((_, i) => rfc6962Root(hashes.slice(0, i + 1)));
+
+    for (let m = 1; m <= hashes.length; m++) {
+      for (let n = m; n <= hashes.length; n++) {
+        const proof = getConsistencyProof(hashes, m, n);
+        expect(verifyConsistencyProof(m, n, roots[m - 1]!, roots[n - 1]!, proof)).toBe(true);
+      }
+    }
+  });
+
+  test('defaults the new size to all hashes', () => {
+    const hashes = Array.from({ length: 5 }, (_, i) => sha256(`entry-${i}`));
+
+    expect(getConsistencyProof(hashes, 3)).toEqual(getConsistencyProof(hashes, 3, 5));
+  });
+
+  test('rejects a rewritten history', () => {
+    const hashes = Array.from({ length: 8 }, (_, i) => sha256(`entry-${i}`));
+    const oldRoot = rfc6962Root(hashes.slice(0, 3));
+    const rewritten = [...hashes];
+    rewritten[1] = sha256('tampered');
+    const proof = getConsistencyProof(rewritten, 3, 8);
+
+    expect(verifyConsistencyProof(3, 8, oldRoot, rfc6962Root(rewritten), proof)).toBe(false);
+  });
+
+  test('rejects tampered proofs and mismatched sizes', () => {
+    const hashes = Array.from({ length: 8 }, (_, i) => sha256(`entry-${i}`));
+    const oldRoot = rfc6962Root(hashes.slice(0, 3));
+    const newRoot = rfc6962Root(hashes);
+    const proof = getConsistencyProof(hashes, 3, 8);
+
+    expect(verifyConsistencyProof(3, 8, oldRoot, newRoot, [...proof.slice(0, -1), sha256('x')])).toBe(false);
+    expect(verifyConsistencyProof(3, 8, oldRoot, newRoot, proof.slice(0, -1))).toBe(false);
+    expect(verifyConsistencyProof(4, 8, oldRoot, newRoot, proof)).toBe(false);
+    expect(verifyConsistencyProof(8, 3, oldRoot, newRoot, proof)).toBe(false);
+    expect(verifyConsistencyProof(3, 3, oldRoot, oldRoot, [])).toBe(true);
+    expect(verifyConsistencyProof(3, 3, oldRoot, newRoot, [])).toBe(false);
+  });
+
+  test('throws CryptoError for an invalid range', () => {
+    const hashes = [sha256('a'), sha256('b')];
+
+    expect(() => getConsistencyProof(hashes, 0, 2)).toThrow(CryptoError);
+    expect(() => getConsistencyProof(hashes, 2, 1)).toThrow(CryptoError);
+    expect(() => getConsistencyProof(hashes, 1, 3)).toThrow(CryptoError);
+  });
+});
+
 describe('Ed25519 Signatures', () => {
   describe('generateKeyPair', () => {
     test('generates valid key pair', () => {
@@ -595,6 +715,48 @@ describe('Ed25519 Signatures', () => {
       const isValid = verifyAuditLogSignature(log);
       expect(isValid).toBe(false);
     });
+
+    test('v2 signatures cover the whole session envelope', () => {
+      const { publicKey, privateKey } = generateKeyPair();
+      const chained = createChainedEntry(createModelCallEntry(), 0, '');
+      const log: AuditLog = {
+        version: '1.0.0',
+        session: createSessionEnvelope({ closed_at: timestamp() }),
+        entries: [chained],
+        merkle_root: buildMerkleTree([chained.entry_hash]).root,
+        integrity: { chain_valid: true, merkle_valid: true, verified_at: timestamp() },
+      };
+      log.org_signature = signAuditLog(log, privateKey, publicKey);
+
+      expect(log.org_signature?.version).toBe(2);
+      const tampered = (edit: (copy: AuditLog) => void) => {
+        const copy: AuditLog = JSON.parse(JSON.stringify(log));
+        edit(copy);
+        return verifyAuditLogSignature(copy);
+      };
+      expect(tampered(() => undefined)).toBe(true);
+      expect(tampered(copy => { copy.session.org_id = 'other-org'; })).toBe(false);
+      expect(tampered(copy => { copy.session.environment = 'development'; })).toBe(false);
+      expect(tampered(copy => { copy.session.compliance_contexts = []; })).toBe(false);
+      expect(tampered(copy => { copy.session.retention_days = 1; })).toBe(false);
+      expect(tampered(copy => { copy.session.initiated_by.identifier = 'someone-else'; })).toBe(false);
+      expect(tampered(copy => { copy.integrity!.chain_valid = false; })).toBe(false);
+      expect(tampered(copy => { copy.org_signature!.signed_at = '2020-01-01T00:00:00.000Z'; })).toBe(false);
+      // A v2 signature cannot be passed off as a v1 one
+      expect(tampered(copy => { delete copy.org_signature!.version; })).toBe(false);
+      expect(tampered(copy => { copy.org_signature!.version = 3; })).toBe(false);
+    });
+
+    test('verifies legacy v1 signatures', () => {
+      // Signed before payload versions existed
+      const legacy: AuditLog = JSON.parse(readFileSync(join(__dirname, 'fixtures/demo-audit-log.json'), 'utf-8'));
+
+      expect(legacy.org_signature?.version).toBeUndefined();
+      expect(verifyAuditLogSignature(legacy)).toBe(true);
+
+      legacy.merkle_root = 'tampered';
+      expect(verifyAuditLogSignature(legacy)).toBe(false);
+    });
   });
 });
 
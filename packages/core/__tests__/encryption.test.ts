@@ -0,0 +1,336 @@
+/**
+ * Tests for envelope encryption at rest
+ */
+
+import {
+  LocalKeyProvider,
+  encryptPayload,
+  decryptPayload,
+  sealEntry,
+  openEntry,
+  decryptAuditLog,
+  isSealedContent,
+} from '../src/encryption';
+import type { StoredAuditLog } from '../src/encryption';
+import { Ledger } from '../src/ledger';
+import type { LedgerConfig } from '../src/ledger';
+import { FileSystemStorage, InMemoryStorage, SqliteStorage } from '../src/storage';
+import { createChainedEntry, verifyChain, buildMerkleTree, hashContent, generateId, timestamp } from '../src/crypto';
+import { CryptoError, StorageError } from '../src/errors';
+import type { SessionEnvelope, ToolInvocation } from '../src/types';
+import { mkdirSync, rmSync, existsSync, readFileSync, writeFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { randomBytes } from 'crypto';
+import Database from 'better-sqlite3';
+
+const testDir = join(__dirname, '../.test-encryption');
+
+function createEntry(toolName = 'patient_lookup'): ToolInvocation {
+  return {
+    type: 'tool_invocation',
+    entry_id: generateId(),
+    timestamp: timestamp(),
+    tool_name: toolName,
+    input_hash: hashContent('input'),
+    output_hash: hashContent('output'),
+    duration_ms: 10,
+    success: true,
+  };
+}
+
+function createConfig(keyProvider: LocalKeyProvider, overrides: Partial<LedgerConfig> = {}): LedgerConfig {
+  return {
+    orgId: 'mercy-health',
+    agentId: 'triage',
+    environment: 'test',
+    compliance: ['HIPAA'],
+    storage: { type: 'filesystem', path: join(testDir, 'logs') },
+    contentStore: { type: 'filesystem', path: join(testDir, 'content') },
+    encryption: { keyProvider, encryptEntries: true },
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  if (existsSync(testDir)) {
+    rmSync(testDir, { recursive: true });
+  }
+  mkdirSync(testDir, { recursive: true });
+});
+
+afterAll(() => {
+  if (existsSync(testDir)) {
+    rmSync(testDir, { recursive: true });
+  }
+});
+
+describe('LocalKeyProvider', () => {
+  test('wraps and unwraps data keys', async () => {
+    const provider = new LocalKeyProvider(randomBytes(32));
+    const context = { session_id: 's1', org_id: 'org' };
+
+    const dataKey = await provider.generateDataKey(context);
+
+    expect(dataKey.plaintext).toHaveLength(32);
+    expect(dataKey.keyId).toBe(provider.keyId);
+    expect(dataKey.encryptedKey).not.toContain(dataKey.plaintext.toString('base64'));
+    expect(await provider.decryptDataKey(dataKey.encryptedKey, dataKey.keyId, context)).toEqual(dataKey.plaintext);
+  });
+
+  test('binds wrapped keys to their context', async () => {
+    const provider = new LocalKeyProvider(randomBytes(32));
+    const dataKey = await provider.generateDataKey({ session_id: 's1', org_id: 'org' });
+
+    await expect(provider.decryptDataKey(dataKey.encryptedKey, dataKey.keyId, { session_id: 's2', org_id: 'org' }))
+      .rejects.toThrow(CryptoError);
+  });
+
+  test('refuses keys wrapped by another master key', async () => {
+    const dataKey = await new LocalKeyProvider(randomBytes(32)).generateDataKey({});
+
+    await expect(new LocalKeyProvider(randomBytes(32)).decryptDataKey(dataKey.encryptedKey, dataKey.keyId, {}))
+      .rejects.toThrow('not local:');
+  });
+
+  test('generates and loads key files', async () => {
+    const path = join(testDir, 'master.key');
+    const generated = LocalKeyProvider.generateKeyFile(path);
+    const loaded = LocalKeyProvider.fromFile(path);
+
+    expect(loaded.keyId).toBe(generated.keyId);
+    const dataKey = await generated.generateDataKey({ a: 'b' });
+    expect(await loaded.decryptDataKey(dataKey.encryptedKey, dataKey.keyId, { a: 'b' })).toEqual(dataKey.plaintext);
+    expect(() => LocalKeyProvider.generateKeyFile(path)).toThrow();
+  });
+
+  test('rejects master keys of the wrong size', () => {
+    expect(() => new LocalKeyProvider(randomBytes(16))).toThrow(CryptoError);
+  });
+});
+
+describe('AES-256-GCM payloads', () => {
+  const key = randomBytes(32);
+
+  test('round-trips with a fresh IV each time', () => {
+    const first = encryptPayload(key, Buffer.from('phi'), 'aad');
+    const second = encryptPayload(key, Buffer.from('phi'), 'aad');
+
+    expect(first.iv).not.toBe(second.iv);
+    expect(decryptPayload(key, first, 'aad').toString()).toBe('phi');
+  });
+
+  test('detects modified ciphertext and mismatched AAD', () => {
+    const payload = encryptPayload(key, Buffer.from('phi'), 'aad');
+    const flipped = Buffer.from(payload.ciphertext, 'base64');
+    flipped[0] = (flipped[0] ?? 0) ^ 1;
+
+    expect(() => decryptPayload(key, { ...payload, ciphertext: flipped.toString('base64') }, 'aad')).toThrow(CryptoError);
+    expect(() => decryptPayload(key, payload, 'other')).toThrow(CryptoError);
+  });
+
+  test('sealed entries keep plaintext hashes and open back for verifyChain', () => {
+    const first = createChainedEntry(createEntry(), 0, '');
+    const second = createChainedEntry(createEntry(), 1, first.entry_hash);
+
+    const sealed = [first, second].map(e => sealEntry(e, key, 'session'));
+
+    expect(sealed[1]?.entry_hash).toBe(second.entry_hash);
+    expect(JSON.stringify(sealed)).not.toContain('patient_lookup');
+    expect(verifyChain(sealed.map(e => openEntry(e, key, 'session'))).valid).toBe(true);
+  });
+
+  test('sealed entries cannot be moved to another position', () => {
+    const first = createChainedEntry(createEntry(), 0, '');
+    const sealed = sealEntry(first, key, 'session');
+
+    expect(() => openEntry({ ...sealed, sequence: 1 }, key, 'session')).toThrow(CryptoError);
+  });
+});
+
+describe('encrypted sessions', () => {
+  test('entries and content are encrypted on disk', async () => {
+    const ledger = new Ledger(createConfig(new LocalKeyProvider(randomBytes(32))));
+    const session = await ledger.start({ type: 'user', identifier: 'nurse-1' });
+    await session.logToolInvocation({
+      toolName: 'patient_lookup',
+      inputHash: hashContent('input'),
+      outputHash: hashContent('output'),
+      durationMs: 10,
+      success: true,
+    });
+    await session.storeContent({ contentType: 'completion', parentEntryId: 'e1', content: 'Chest pain, ESI 2' });
+
+    const logPath = join(testDir, 'logs', 'mercy-health', session.sessionId, 'audit.jsonl');
+    const raw = readFileSync(logPath, 'utf-8');
+    expect(raw).toContain('"encrypted_key"');
+    expect(raw).not.toContain('patient_lookup');
+
+    const contentDir = join(testDir, 'content', 'sha256');
+    const [prefix] = readdirSync(contentDir);
+    const [blob] = readdirSync(join(contentDir, prefix!));
+    expect(readFileSync(join(contentDir, prefix!, blob!), 'utf-8')).not.toContain('Chest pain');
+
+    const entries = await session.getEntries();
+    expect((entries[0]?.entry as ToolInvocation).tool_name).toBe('patient_lookup');
+    expect((await session.verify()).valid).toBe(true);
+  });
+
+  test('getContent decrypts and re-verifies content', async () => {
+    const keyProvider = new LocalKeyProvider(randomBytes(32));
+    const ledger = new Ledger(createConfig(keyProvider, { encryption: { keyProvider } }));
+    const session = await ledger.start({ type: 'user', identifier: 'nurse-1' });
+
+    const chained = await session.storeContent({ contentType: 'prompt', parentEntryId: 'e1', content: 'Allergic to penicillin' });
+
+    expect(session.getSession().encryption?.entries).toBe(false);
+    expect((await session.getContent(chained.entry.entry_id)).toString()).toBe('Allergic to penicillin');
+  });
+
+  test('exports inline decrypted, re-verified content', async () => {
+    const keyProvider = new LocalKeyProvider(randomBytes(32));
+    const session = await new Ledger(createConfig(keyProvider, { encryption: { keyProvider } }))
+      .start({ type: 'user', identifier: 'nurse-1' });
+    await session.storeContent({ contentType: 'prompt', parentEntryId: 'e1', content: 'Allergic to penicillin' });
+    await session.storeContent({ contentType: 'completion', parentEntryId: 'e1', content: 'Noted' });
+
+    // Swap the second blob for other content stored under its address
+    const other = await new Ledger(createConfig(keyProvider, { encryption: undefined }))
+      .start({ type: 'user', identifier: 'nurse-2' });
+    const contentDir = join(testDir, 'content', 'sha256');
+    const blob = (text: string, context?: string) => {
+      const hash = hashContent(text);
+      return join(contentDir, hash.slice(0, 2), context ? `${hash}.${context}` : hash);
+    };
+    await other.storeContent({ contentType: 'prompt', parentEntryId: 'e2', content: 'Tampered' });
+    writeFileSync(blob('Noted', session.sessionId), readFileSync(blob('Tampered')));
+
+    const lines = (await session.export({ format: 'jsonl', include_content: true })).toString()
+      .split('\n')
+      .map(line => JSON.parse(line))
+      .filter(line => line.type === 'entry');
+
+    expect(Buffer.from(lines[0].content_base64, 'base64').toString()).toBe('Allergic to penicillin');
+    expect(lines[1].content_base64).toBeUndefined();
+  });
+
+  test('plaintext content is not handed to the storage backend', async () => {
+    const keyProvider = new LocalKeyProvider(randomBytes(32));
+    const storeContent = jest.spyOn(InMemoryStorage.prototype, 'storeContent');
+    try {
+      const session = await new Ledger(createConfig(keyProvider, { storage: 'memory', encryption: { keyProvider } }))
+        .start({ type: 'user', identifier: 'nurse-1' });
+      const chained = await session.storeContent({ contentType: 'prompt', parentEntryId: 'e1', content: 'Allergic to penicillin' });
+
+      expect(storeContent).not.toHaveBeenCalled();
+      expect((await session.getContent(chained.entry.entry_id)).toString()).toBe('Allergic to penicillin');
+    } finally {
+      storeContent.mockRestore();
+    }
+  });
+
+  test('sealed and plaintext copies of the same content do not replace each other', async () => {
+    const keyProvider = new LocalKeyProvider(randomBytes(32));
+    const encrypted = await new Ledger(createConfig(keyProvider, { encryption: { keyProvider } }))
+      .start({ type: 'user', identifier: 'nurse-1' });
+    const plain = await new Ledger(createConfig(keyProvider, { encryption: undefined }))
+      .start({ type: 'user', identifier: 'nurse-2' });
+
+    const sealed = await encrypted.storeContent({ contentType: 'prompt', parentEntryId: 'e1', content: 'shared' });
+    const reference = await plain.storeContent({ contentType: 'prompt', parentEntryId: 'e2', content: 'shared' });
+
+    expect((sealed.entry as any).storage_uri).not.toBe((reference.entry as any).storage_uri);
+    expect(isSealedContent(readFileSync(fileURLToPath((sealed.entry as any).storage_uri)))).toBe(true);
+    expect((await encrypted.getContent(sealed.entry.entry_id)).toString()).toBe('shared');
+    expect((await plain.getContent(reference.entry.entry_id)).toString()).toBe('shared');
+  });
+
+  test('the closed log stays sealed and decrypts for key holders', async () => {
+    const keyProvider = new LocalKeyProvider(randomBytes(32));
+    const ledger = new Ledger(createConfig(keyProvider));
+    const session = await ledger.start({ type: 'user', identifier: 'nurse-1' });
+    for (let i = 0; i < 3; i++) {
+      await session.snapshot({ trigger: 'manual', stateHash: hashContent(`state-${i}`), schemaVersion: '1.0.0' });
+    }
+    const log = await session.close();
+
+    const finalPath = join(testDir, 'logs', 'mercy-health', session.sessionId, 'audit.final.json');
+    const stored = JSON.parse(readFileSync(finalPath, 'utf-8')) as StoredAuditLog;
+    expect(stored.entries.every(e => 'encrypted_entry' in e)).toBe(true);
+    expect(stored.merkle_root).toBe(log.merkle_root);
+
+    const decrypted = await decryptAuditLog(stored, keyProvider);
+    expect(decrypted.entries).toEqual(log.entries);
+    expect(verifyChain(decrypted.entries).valid).toBe(true);
+    expect(buildMerkleTree(decrypted.entries.map(e => e.entry_hash)).root).toBe(stored.merkle_root);
+
+    await expect(decryptAuditLog(stored, new LocalKeyProvider(randomBytes(32)))).rejects.toThrow(CryptoError);
+  });
+
+  test('resumes an encrypted session after a crash', async () => {
+    const keyProvider = new LocalKeyProvider(randomBytes(32));
+    const first = new Ledger(createConfig(keyProvider));
+    const session = await first.start({ type: 'user', identifier: 'nurse-1' });
+    await session.snapshot({ trigger: 'manual', stateHash: hashContent('state'), schemaVersion: '1.0.0' });
+
+    const logPath = join(testDir, 'logs', 'mercy-health', session.sessionId, 'audit.jsonl');
+    writeFileSync(logPath, readFileSync(logPath, 'utf-8') + '{"type":"entry","data":{"seq');
+
+    const resumed = await new Ledger(createConfig(keyProvider)).resume(session.sessionId);
+    await resumed.snapshot({ trigger: 'manual', stateHash: hashContent('after'), schemaVersion: '1.0.0' });
+
+    expect(await resumed.count()).toBe(2);
+    expect((await resumed.verify()).valid).toBe(true);
+    await expect(new Ledger(createConfig(keyProvider, { encryption: undefined })).resume(session.sessionId))
+      .rejects.toThrow();
+  });
+
+  test('backends without a keyProvider refuse sessions with encrypted entries', async () => {
+    const keyProvider = new LocalKeyProvider(randomBytes(32));
+    const ledger = new Ledger(createConfig(keyProvider, { storage: new FileSystemStorage(join(testDir, 'logs')) }));
+
+    await expect(ledger.start({ type: 'user', identifier: 'nurse-1' })).rejects.toThrow(StorageError);
+  });
+
+  test('SqliteStorage encrypts the entry column', async () => {
+    const keyProvider = new LocalKeyProvider(randomBytes(32));
+    const dbPath = join(testDir, 'audit.db');
+    const storage = new SqliteStorage(dbPath, { keyProvider });
+    const ledger = new Ledger(createConfig(keyProvider, { storage }));
+    const session = await ledger.start({ type: 'user', identifier: 'nurse-1' });
+    await session.logToolInvocation({
+      toolName: 'patient_lookup',
+      inputHash: hashContent('input'),
+      outputHash: hashContent('output'),
+      durationMs: 10,
+      success: true,
+    });
+
+    const db = new Database(dbPath, { readonly: true });
+    const rows = db.prepare('SELECT type, entry FROM entries').all() as { type: string; entry: string }[];
+    db.close();
+
+    expect(rows[0]?.type).toBe('tool_invocation');
+    expect(rows[0]?.entry).not.toContain('patient_lookup');
+    expect(((await session.getEntries())[0]?.entry as ToolInvocation).tool_name).toBe('patient_lookup');
+    expect((await session.close()).integrity?.chain_valid).toBe(true);
+    storage.dispose();
+  });
+
+  test('unencrypted sessions are stored as before', async () => {
+    const ledger = new Ledger(createConfig(new LocalKeyProvider(randomBytes(32)), { encryption: undefined }));
+    const session = await ledger.start({ type: 'user', identifier: 'nurse-1' });
+    await session.logToolInvocation({
+      toolName: 'patient_lookup',
+      inputHash: hashContent('input'),
+      outputHash: hashContent('output'),
+      durationMs: 10,
+      success: true,
+    });
+
+    const envelope: SessionEnvelope = session.getSession();
+    expect(envelope.encryption).toBeUndefined();
+    const logPath = join(testDir, 'logs', 'mercy-health', session.sessionId, 'audit.jsonl');
+    expect(readFileSync(logPath, 'utf-8')).toContain('patient_lookup');
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Tests for GDPR erasure via crypto-shredding
+ */
+
+import { InMemorySubjectKeyStore, FileSystemSubjectKeyStore, isSubjectContent, subjectRef } from '../src/erasure';
+import { LocalKeyProvider } from '../src/encryption';
+import { Ledger } from '../src/ledger';
+import type { LedgerConfig } from '../src/ledger';
+import { verifyChain, verifyErasure, generateKeyPair, generateId, sha256 } from '../src/crypto';
+import { CryptoError, ValidationError } from '../src/errors';
+import { mkdirSync, rmSync, existsSync, readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { randomBytes } from 'crypto';
+
+const testDir = join(__dirname, '../.test-erasure');
+const subjectRefKey = randomBytes(32);
+
+function createConfig(overrides: Partial<LedgerConfig> = {}): LedgerConfig {
+  return {
+    orgId: 'test-org',
+    agentId: 'support-agent',
+    environment: 'test',
+    compliance: ['GDPR'],
+    signingKeys: generateKeyPair(),
+    contentStore: { type: 'filesystem', path: join(testDir, 'content') },
+    subjectKeys: new InMemorySubjectKeyStore(),
+    subjectRefKey,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  if (existsSync(testDir)) {
+    rmSync(testDir, { recursive: true });
+  }
+  mkdirSync(testDir, { recursive: true });
+});
+
+afterAll(() => {
+  if (existsSync(testDir)) {
+    rmSync(testDir, { recursive: true });
+  }
+});
+
+describe('subjectRef', () => {
+  test('is keyed by the org secret', () => {
+    const ref = subjectRef('customer-42', subjectRefKey);
+
+    expect(ref).toMatch(/^[0-9a-f]{64}$/);
+    expect(ref).toBe(subjectRef('customer-42', subjectRefKey));
+    expect(ref).not.toBe(sha256('customer-42'));
+    expect(ref).not.toBe(subjectRef('customer-42', randomBytes(32)));
+  });
+});
+
+describe('FileSystemSubjectKeyStore', () => {
+  const keyProvider = new LocalKeyProvider(randomBytes(32));
+
+  const customer = subjectRef('customer-42', subjectRefKey);
+
+  test('keeps one wrapped key per subject', async () => {
+    const store = new FileSystemSubjectKeyStore(testDir, keyProvider);
+
+    const key = await store.getOrCreateKey(customer);
+
+    expect(await store.getOrCreateKey(customer)).toEqual(key);
+    expect(await new FileSystemSubjectKeyStore(testDir, keyProvider).getKey(customer)).toEqual(key);
+    expect(await store.getKey(subjectRef('customer-43', subjectRefKey))).toBeUndefined();
+  });
+
+  test('does not write subject ids or plaintext keys to disk', async () => {
+    const store = new FileSystemSubjectKeyStore(testDir, keyProvider);
+    const key = await store.getOrCreateKey(subjectRef('jane@example.com', subjectRefKey));
+
+    const [file] = readdirSync(testDir);
+    expect(file).toBe(`${subjectRef('jane@example.com', subjectRefKey)}.key`);
+    expect(readFileSync(join(testDir, file)).includes(key.toString('base64'))).toBe(false);
+  });
+
+  test('only accepts subject references', async () => {
+    const store = new FileSystemSubjectKeyStore(testDir, keyProvider);
+
+    await expect(store.getOrCreateKey('../customer-42')).rejects.toThrow(CryptoError);
+    expect(readdirSync(testDir)).toEqual([]);
+  });
+
+  test('destroys keys and refuses to recreate them', async () => {
+    const store = new FileSystemSubjectKeyStore(testDir, keyProvider);
+    await store.getOrCreateKey(customer);
+
+    expect(await store.destroyKey(customer)).toBe(true);
+
+    expect(await store.getKey(customer)).toBeUndefined();
+    expect(await store.isErased(customer)).toBe(true);
+    await expect(store.getOrCreateKey(customer)).rejects.toThrow(CryptoError);
+    expect(await store.destroyKey(subjectRef('never-seen', subjectRefKey))).toBe(false);
+  });
+});
+
+describe('Ledger subject erasure', () => {
+  test('subject content is encrypted with the subject key and readable until erasure', async () => {
+    const ledger = new Ledger(createConfig());
+    const session = await ledger.start({ type: 'user', identifier: 'customer-42' });
+
+    const chained = await session.storeContent({
+      contentType: 'prompt',
+      parentEntryId: generateId(),
+      content: 'My address is 1 Main St',
+      subjectId: 'customer-42',
+    });
+
+    const entry = chained.entry as any;
+    expect(entry.subject_ref).toBe(subjectRef('customer-42', subjectRefKey));
+    const blob = readFileSync(fileURLToPath(entry.storage_uri));
+    expect(isSubjectContent(blob)).toBe(true);
+    expect(blob.toString()).not.toContain('Main St');
+    expect(blob.toString()).not.toContain('customer-42');
+    expect((await session.getContent(entry.entry_id)).toString()).toBe('My address is 1 Main St');
+  });
+
+  test('eraseSubject shreds the content and the chain still verifies', async () => {
+    const ledger = new Ledger(createConfig());
+    const session = await ledger.start({ type: 'user', identifier: 'customer-42' });
+    const erased = await session.storeContent({
+      contentType: 'prompt',
+      parentEntryId: generateId(),
+      content: 'personal data',
+      subjectId: 'customer-42',
+    });
+    const kept = await session.storeContent({
+      contentType: 'prompt',
+      parentEntryId: generateId(),
+      content: 'other subject',
+      subjectId: 'customer-7',
+    });
+
+    const erasure = await session.eraseSubject('customer-42', { reason: 'GDPR Art. 17', requestedBy: 'dpo@example.com' });
+
+    expect(erasure.entry.type).toBe('subject_erasure');
+    const record = erasure.entry as any;
+    expect(record.key_destroyed).toBe(true);
+    expect(record.subject_ref).toBe(subjectRef('customer-42', subjectRefKey));
+    expect(JSON.stringify(record)).not.toContain('customer-42');
+    expect(verifyErasure(record)).toBe(true);
+    await expect(session.getContent(erased.entry.entry_id)).rejects.toThrow('was erased');
+    expect((await session.getContent(kept.entry.entry_id)).toString()).toBe('other subject');
+
+    const log = await session.close();
+    expect(verifyChain(log.entries).valid).toBe(true);
+    expect(log.integrity?.signature_valid).toBe(true);
+  });
+
+  test('plaintext copies of the same content do not replace erased subject content', async () => {
+    const session = await new Ledger(createConfig()).start({ type: 'user', identifier: 'customer-42' });
+    const erased = await session.storeContent({
+      contentType: 'prompt',
+      parentEntryId: generateId(),
+      content: 'shared text',
+      subjectId: 'customer-42',
+    });
+    const plain = await session.storeContent({ contentType: 'prompt', parentEntryId: generateId(), content: 'shared text' });
+
+    await session.eraseSubject('customer-42');
+
+    expect(isSubjectContent(readFileSync(fileURLToPath((erased.entry as any).storage_uri)))).toBe(true);
+    await expect(session.getContent(erased.entry.entry_id)).rejects.toThrow('was erased');
+    expect((await session.getContent(plain.entry.entry_id)).toString()).toBe('shared text');
+  });
+
+  test('erasure entries are tamper-evident', async () => {
+    const session = await new Ledger(createConfig()).start({ type: 'user', identifier: 'customer-42' });
+    const erasure = await session.eraseSubject('customer-42');
+
+    expect((erasure.entry as any).key_destroyed).toBe(false);
+    expect(verifyErasure({ ...(erasure.entry as any), subject_ref: subjectRef('customer-7', subjectRefKey) })).toBe(false);
+  });
+
+  test('content of an erased subject is no longer accepted', async () => {
+    const session = await new Ledger(createConfig()).start({ type: 'user', identifier: 'customer-42' });
+    await session.eraseSubject('customer-42');
+
+    await expect(session.storeContent({
+      contentType: 'prompt',
+      parentEntryId: generateId(),
+      content: 'again',
+      subjectId: 'customer-42',
+    })).rejects.toThrow('has been erased');
+  });
+
+  test('subject content is not kept by the storage backend', async () => {
+    const session = await new Ledger(createConfig()).start({ type: 'user', identifier: 'customer-42' });
+    await session.storeContent({ contentType: 'prompt', parentEntryId: generateId(), content: 'pii', subjectId: 'customer-42' });
+    await session.eraseSubject('customer-42');
+
+    const exported = (await session.export({ format: 'jsonl', include_content: true })).toString();
+    expect(exported).not.toContain(Buffer.from('pii').toString('base64'));
+  });
+
+  test('requires signing keys, a subject key store, a subjectRefKey and a content store', async () => {
+    const unsigned = await new Ledger(createConfig({ signingKeys: undefined })).start({ type: 'user', identifier: 'u' });
+    await expect(unsigned.eraseSubject('customer-42')).rejects.toThrow(CryptoError);
+
+    const noKeys = await new Ledger(createConfig({ subjectKeys: undefined })).start({ type: 'user', identifier: 'u' });
+    await expect(noKeys.eraseSubject('customer-42')).rejects.toThrow(ValidationError);
+
+    const noStore = await new Ledger(createConfig({ contentStore: undefined })).start({ type: 'user', identifier: 'u' });
+    await expect(noStore.storeContent({
+      contentType: 'prompt',
+      parentEntryId: generateId(),
+      content: 'pii',
+      subjectId: 'customer-42',
+    })).rejects.toThrow(ValidationError);
+
+    expect(() => new Ledger(createConfig({ subjectKeys: { type: 'filesystem', path: testDir } })))
+      .toThrow(ValidationError);
+    expect(() => new Ledger(createConfig({ subjectRefKey: undefined }))).toThrow('subjectRefKey');
+    expect(() => new Ledger(createConfig({ subjectRefKey: randomBytes(16) }))).toThrow(ValidationError);
+  });
+
+  test('filesystem subject keys are shared across ledger instances', async () => {
+    const keyProvider = new LocalKeyProvider(randomBytes(32));
+    const config = createConfig({
+      encryption: { keyProvider },
+      subjectKeys: { type: 'filesystem', path: join(testDir, 'subject-keys') },
+    });
+    const session = await new Ledger(config).start({ type: 'user', identifier: 'customer-42' });
+    const chained = await session.storeContent({
+      contentType: 'prompt',
+      parentEntryId: generateId(),
+      content: 'remember me',
+      subjectId: 'customer-42',
+    });
+
+    const restarted = await new Ledger(config).start({ type: 'user', identifier: 'customer-42' });
+    const reference = chained.entry as any;
+    await restarted.storeContent({
+      contentType: 'prompt',
+      parentEntryId: generateId(),
+      content: 'remember me',
+      subjectId: 'customer-42',
+    });
+    // The second instance re-sealed the blob with the key the first one created
+    expect((await session.getContent(reference.entry_id)).toString()).toBe('remember me');
+
+    await restarted.eraseSubject('customer-42');
+    await expect(session.getContent(reference.entry_id)).rejects.toThrow('was erased');
+  });
+});
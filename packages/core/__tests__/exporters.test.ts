@@ -0,0 +1,125 @@
+/**
+ * Tests for the exporter registry
+ */
+
+import { gunzipSync } from 'zlib';
+import { exportAuditLog, registerExporter, listExporters } from '../src/exporters';
+import { ExportError } from '../src/errors';
+import { Ledger } from '../src/ledger';
+import type { AuditLog } from '../src/types';
+
+async function createLog(): Promise<AuditLog> {
+  const ledger = new Ledger({
+    orgId: 'test-org',
+    agentId: 'test-agent',
+    environment: 'test',
+    compliance: ['FINRA_4511'],
+  });
+  const session = await ledger.start({ type: 'user', identifier: 'test' });
+  await session.logToolInvocation({
+    toolName: 'web_search',
+    inputHash: 'input',
+    outputHash: 'output',
+    durationMs: 20,
+    success: true,
+  });
+  return session.close();
+}
+
+describe('exporter registry', () => {
+  test('lists the built-in formats with extensions and aliases', () => {
+    const formats = listExporters();
+
+    expect(formats.map(e => e.format)).toEqual([
+      'jsonl',
+      'parquet',
+      'splunk_cim',
+      'elastic_ecs',
+      'finra_4511',
+      'eu_ai_act',
+      'servicenow_grc',
+      'onetrust',
+    ]);
+    expect(formats.find(e => e.format === 'elastic_ecs')).toMatchObject({
+      extension: 'ndjson',
+      aliases: ['elastic'],
+    });
+    for (const info of formats) {
+      expect(info.description).not.toBe('');
+    }
+  });
+
+  test('registered formats are used by exportAuditLog and Ledger.export', async () => {
+    registerExporter('csv', log => log.entries.map(e => `${e.sequence},${e.entry.type}`).join('\n'), {
+      extension: 'csv',
+      description: 'Sequence and entry type per line',
+    });
+    const ledger = new Ledger({
+      orgId: 'test-org',
+      agentId: 'test-agent',
+      environment: 'test',
+      compliance: ['FINRA_4511'],
+    });
+    const session = await ledger.start({ type: 'user', identifier: 'test' });
+    await session.logToolInvocation({
+      toolName: 'web_search',
+      inputHash: 'input',
+      outputHash: 'output',
+      durationMs: 20,
+      success: true,
+    });
+
+    expect((await session.export({ format: 'csv' })).toString()).toBe('0,tool_invocation');
+    expect(listExporters().map(e => e.format)).toContain('csv');
+  });
+
+  test('custom exporters receive the prepared log', async () => {
+    const log = await createLog();
+    const exporter = jest.fn(() => Buffer.from('ok'));
+    registerExporter('spy', exporter);
+
+    exportAuditLog(log, { format: 'spy', date_range: { start: new Date(0), end: new Date(0) } });
+
+    expect(exporter).toHaveBeenCalledWith(
+      expect.objectContaining({ entries: [] }),
+      expect.objectContaining({ format: 'spy' }),
+    );
+  });
+
+  test('compresses custom output unless the exporter handles compression', async () => {
+    const log = await createLog();
+    registerExporter('plain', () => 'plain output');
+    registerExporter('self-compressed', () => 'own compression', { handlesCompression: true });
+
+    expect(gunzipSync(exportAuditLog(log, { format: 'plain', compress: true })).toString()).toBe('plain output');
+    expect(exportAuditLog(log, { format: 'self-compressed', compress: true }).toString()).toBe('own compression');
+  });
+
+  test('resolves aliases', async () => {
+    const log = await createLog();
+
+    expect(exportAuditLog(log, { format: 'finra' })).toEqual(exportAuditLog(log, { format: 'finra_4511' }));
+  });
+
+  test('re-registering a format replaces it and its aliases', async () => {
+    const log = await createLog();
+    registerExporter('custom', () => 'v1', { aliases: ['old-name'] });
+    registerExporter('custom', () => 'v2', { aliases: ['new-name'] });
+
+    expect(exportAuditLog(log, { format: 'custom' }).toString()).toBe('v2');
+    expect(exportAuditLog(log, { format: 'new-name' }).toString()).toBe('v2');
+    expect(() => exportAuditLog(log, { format: 'old-name' })).toThrow(ExportError);
+    expect(listExporters().filter(e => e.format === 'custom')).toHaveLength(1);
+  });
+
+  test('throws ExportError for unknown formats', async () => {
+    const log = await createLog();
+
+    expect(() => exportAuditLog(log, { format: 'nope' })).toThrow('Unknown export format: nope');
+  });
+
+  test('rejects invalid registrations', () => {
+    expect(() => registerExporter('', () => '')).toThrow(ExportError);
+    expect(() => registerExporter('broken', undefined as never)).toThrow(ExportError);
+  });
+});
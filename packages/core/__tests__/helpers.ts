@@ -0,0 +1,19 @@
+/**
+ * Shared test helpers
+ */
+
+import { Ledger } from '../src/ledger';
+import type { LedgerConfig } from '../src/ledger';
+
+/**
+ * A ledger with test org, agent and environment; overrides replace any field
+ */
+export function createTestLedger(overrides: Partial<LedgerConfig> = {}): Ledger {
+  return new Ledger({
+    orgId: 'test-org',
+    agentId: 'test-agent',
+    environment: 'test',
+    compliance: ['SOC2'],
+    ...overrides,
+  });
+}
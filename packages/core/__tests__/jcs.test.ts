@@ -0,0 +1,124 @@
+/**
+ * Tests for RFC 8785 JSON canonicalization and the 2.0.0 log format
+ */
+
+import { canonicalize } from '../src/jcs';
+import {
+  sha256,
+  hashObject,
+  logCanonicalization,
+  createChainedEntry,
+  verifyChain,
+  buildMerkleTree,
+  verifyAuditLogSignature,
+} from '../src/crypto';
+import { Ledger } from '../src/ledger';
+import { CryptoError } from '../src/errors';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import type { AuditLog, ChainedEntry } from '../src/types';
+
+// Also consumed by non-JavaScript verifiers: changing an expected value is a format change
+const vectors = JSON.parse(readFileSync(join(__dirname, 'fixtures/jcs-vectors.json'), 'utf-8'));
+
+function fixture(name: string): AuditLog {
+  return JSON.parse(readFileSync(join(__dirname, 'fixtures', name), 'utf-8'));
+}
+
+describe('canonicalize', () => {
+  test.each(vectors.canonicalization.map((v: { name: string }) => [v.name, v]))('%s', (_, vector) => {
+    const { input, canonical, sha256: hash } = vector as { input: string; canonical: string; sha256: string };
+
+    expect(canonicalize(JSON.parse(input))).toBe(canonical);
+    expect(sha256(canonical)).toBe(hash);
+  });
+
+  test('serializes numbers like ECMAScript (RFC 8785 appendix B)', () => {
+    for (const { ieee754, canonical } of vectors.numbers as { ieee754: string; canonical: string }[]) {
+      expect(canonicalize(Buffer.from(ieee754, 'hex').readDoubleBE(0))).toBe(canonical);
+    }
+  });
+
+  test('rejects values that are not I-JSON', () => {
+    for (const { input } of vectors.invalid as { input: string }[]) {
+      expect(() => canonicalize(JSON.parse(input))).toThrow(CryptoError);
+    }
+    expect(() => canonicalize({ cost: NaN })).toThrow('Cannot canonicalize $.cost: NaN is not a JSON number');
+    expect(() => canonicalize([Infinity])).toThrow(CryptoError);
+    expect(() => canonicalize({ tokens: 10n })).toThrow('bigint is not a JSON value');
+    expect(() => canonicalize([undefined])).toThrow('Cannot canonicalize $[0]');
+  });
+
+  test('omits undefined properties and honours toJSON', () => {
+    expect(canonicalize({ b: undefined, a: new Date('2025-01-01T00:00:00Z') })).toBe('{"a":"2025-01-01T00:00:00.000Z"}');
+  });
+});
+
+describe('Log format 2.0.0', () => {
+  test('entry hashes match the vectors', () => {
+    const entries: ChainedEntry[] = [];
+    for (const vector of vectors.entries) {
+      expect(canonicalize({ sequence: vector.sequence, entry: vector.entry, previous_hash: vector.previous_hash }))
+        .toBe(vector.canonical);
+
+      const chained = createChainedEntry(vector.entry, vector.sequence, vector.previous_hash);
+      expect(chained.entry_hash).toBe(vector.entry_hash);
+      expect(sha256(vector.canonical)).toBe(vector.entry_hash);
+      entries.push(chained);
+    }
+
+    expect(verifyChain(entries).valid).toBe(true);
+  });
+
+  test('the signed log vector verifies', () => {
+    const { log, session_hash, signed_data } = vectors.audit_log as {
+      log: AuditLog;
+      session_hash: string;
+      signed_data: string;
+    };
+
+    expect(logCanonicalization(log)).toBe('jcs');
+    expect(verifyChain(log.entries).valid).toBe(true);
+    expect(buildMerkleTree(log.entries.map(e => e.entry_hash)).root).toBe(log.merkle_root);
+    expect(hashObject(log.session)).toBe(session_hash);
+    expect(JSON.parse(signed_data).session_hash).toBe(session_hash);
+    expect(verifyAuditLogSignature(log)).toBe(true);
+  });
+
+  test('new logs record the format', async () => {
+    const ledger = new Ledger({ orgId: 'test-org', agentId: 'test-agent', environment: 'test', compliance: ['SOC2'] });
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+
+    const log = await ledger.close();
+
+    expect(log).toMatchObject({ version: '2.0.0', hash_algorithm: 'sha256', canonicalization: 'jcs' });
+  });
+
+  test('entries that cannot be canonicalized fail verification instead of throwing', () => {
+    const entry = createChainedEntry(vectors.entries[0].entry, 0, '');
+    const tampered = { ...entry, entry: { ...entry.entry, latency_ms: Infinity } } as ChainedEntry;
+
+    const result = verifyChain([tampered]);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain('Entry at sequence 0 cannot be hashed');
+  });
+});
+
+describe('Log format 1.0.0', () => {
+  test('verifies with sorted-keys hashing', () => {
+    const log = fixture('demo-audit-log.json');
+
+    expect(log.version).toBe('1.0.0');
+    expect(logCanonicalization(log)).toBe('sorted-keys');
+    expect(verifyChain(log.entries, { canonicalization: 'sorted-keys' }).valid).toBe(true);
+  });
+
+  test('sorted-keys hashing keeps JSON.stringify coercions', () => {
+    const value = { b: NaN, a: '\ud800' };
+
+    expect(hashObject(value, { canonicalization: 'sorted-keys' })).toBe(sha256('{"a":"\\ud800","b":null}'));
+    expect(() => hashObject(value)).toThrow(CryptoError);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Tests for key IDs, rotation and the trusted key registry
+ */
+
+import { KeyRegistry } from '../src/keys';
+import { generateSigningKeys } from '../src/ledger';
+import { createTestLedger } from './helpers';
+import { InMemorySubjectKeyStore } from '../src/erasure';
+import {
+  keyId,
+  generateKeyPair,
+  signAuditLog,
+  verifyAuditLogSignature,
+  verifyCheckpoint,
+  verifyErasure,
+  hashContent,
+} from '../src/crypto';
+import { CryptoError, ValidationError } from '../src/errors';
+import { createPublicKey, randomBytes } from 'crypto';
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+const testDir = join(__dirname, '../.test-keys');
+
+async function signedLog(keys = generateSigningKeys()) {
+  const ledger = createTestLedger({ signingKeys: keys });
+  await ledger.start({ type: 'user', identifier: 'test-user' });
+  await ledger.snapshot({ trigger: 'manual', stateHash: hashContent('state'), schemaVersion: '1.0.0' });
+  return ledger.close();
+}
+
+beforeEach(() => {
+  if (existsSync(testDir)) {
+    rmSync(testDir, { recursive: true });
+  }
+  mkdirSync(testDir, { recursive: true });
+});
+
+afterAll(() => {
+  if (existsSync(testDir)) {
+    rmSync(testDir, { recursive: true });
+  }
+});
+
+describe('keyId', () => {
+  test('is the RFC 7638 thumbprint of the public key', () => {
+    const { publicKey } = generateKeyPair();
+
+    expect(keyId(publicKey)).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(keyId(publicKey)).toBe(keyId(publicKey));
+    expect(keyId(generateKeyPair().publicKey)).not.toBe(keyId(publicKey));
+    expect(() => keyId('not a key')).toThrow(CryptoError);
+  });
+
+  test('is recorded on every signature', async () => {
+    const keys = { ...generateKeyPair(), kid: 'org-2026-01' };
+    const ledger = createTestLedger({ signingKeys: keys, subjectKeys: new InMemorySubjectKeyStore(), subjectRefKey: randomBytes(32) });
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+
+    const checkpoint = await ledger.checkpoint();
+    const erasure = await ledger.eraseSubject('customer-42');
+    const log = await ledger.close();
+
+    expect(checkpoint.kid).toBe('org-2026-01');
+    expect((erasure.entry as any).kid).toBe('org-2026-01');
+    expect(log.org_signature?.kid).toBe('org-2026-01');
+    expect((await signedLog()).org_signature?.kid).toMatch(/^[A-Za-z0-9_-]{43}$/);
+  });
+});
+
+describe('KeyRegistry', () => {
+  const keys = generateSigningKeys();
+  const signer = { kid: keys.kid, public_key: keys.publicKey };
+  const at = '2026-06-01T00:00:00.000Z';
+
+  test('trusts a registered key', () => {
+    const registry = new KeyRegistry([{ kid: keys.kid, public_key: keys.publicKey }]);
+
+    expect(registry.check(signer, at)).toEqual({ valid: true, errors: [] });
+    // Logs signed before kids were recorded are matched on the public key
+    expect(registry.check({ public_key: keys.publicKey }, at).valid).toBe(true);
+  });
+
+  test('rejects unknown keys and keys that do not match their kid', () => {
+    const registry = new KeyRegistry([{ kid: keys.kid, public_key: keys.publicKey }]);
+    const attacker = generateKeyPair();
+
+    expect(registry.check({ public_key: attacker.publicKey }, at).errors[0]).toContain('is not in the trusted key registry');
+    expect(registry.check({ kid: 'other', public_key: keys.publicKey }, at).valid).toBe(false);
+    expect(registry.check({ kid: keys.kid, public_key: attacker.publicKey }, at).errors)
+      .toEqual([`Key ${keys.kid} does not match the registered public key`]);
+  });
+
+  test('enforces validity windows', () => {
+    const registry = new KeyRegistry([{
+      ...signer,
+      not_before: '2026-01-01T00:00:00.000Z',
+      not_after: '2026-12-31T23:59:59.000Z',
+    }]);
+
+    expect(registry.check(signer, at).valid).toBe(true);
+    expect(registry.check(signer, '2025-12-31T00:00:00.000Z').errors[0]).toContain('is not valid before');
+    expect(registry.check(signer, '2027-01-01T00:00:00.000Z').errors[0]).toContain('expired at');
+  });
+
+  test('revoked keys are never trusted', () => {
+    const registry = new KeyRegistry([{ kid: keys.kid, public_key: keys.publicKey }])
+      .revoke(keys.kid, { at: '2026-09-01T00:00:00.000Z', reason: 'key compromise' });
+
+    expect(registry.check(signer, at).errors)
+      .toEqual([`Key ${keys.kid} was revoked at 2026-09-01T00:00:00.000Z (key compromise)`]);
+    expect(() => registry.revoke('unknown')).toThrow(ValidationError);
+  });
+
+  test('parses registry files and JWKS', () => {
+    const jwk = createPublicKey(Buffer.from(keys.publicKey, 'base64').toString('utf-8')).export({ format: 'jwk' });
+    const other = generateSigningKeys();
+    const path = join(testDir, 'trusted-keys.json');
+    writeFileSync(path, JSON.stringify({
+      keys: [
+        { ...jwk, kid: 'org-2026-01', not_after: '2026-12-31T23:59:59.000Z' },
+        { public_key: other.publicKey },
+      ],
+    }));
+
+    const registry = KeyRegistry.fromFile(path);
+
+    expect(registry.get('org-2026-01')?.public_key).toBe(keys.publicKey);
+    expect(registry.get('org-2026-01')?.not_after).toBe('2026-12-31T23:59:59.000Z');
+    expect(registry.get(other.kid)?.public_key).toBe(other.publicKey);
+    expect(KeyRegistry.parse(JSON.parse(JSON.stringify(registry))).list()).toEqual(registry.list());
+  });
+
+  test('rejects malformed registries', () => {
+    expect(() => KeyRegistry.parse({ keys: [{ kid: 'a' }] })).toThrow(ValidationError);
+    expect(() => KeyRegistry.parse({ keys: [{ public_key: keys.publicKey, not_after: 'soon' }] })).toThrow(ValidationError);
+    expect(() => KeyRegistry.parse({ keys: [{ public_key: 'bm90IGEga2V5' }] })).toThrow(ValidationError);
+    expect(() => new KeyRegistry([signer, signer])).toThrow('already registered');
+    expect(() => KeyRegistry.fromFile(join(testDir, 'missing.json'))).toThrow(CryptoError);
+  });
+});
+
+describe('verification against a registry', () => {
+  test('a log re-signed with another key is rejected', async () => {
+    const keys = generateSigningKeys();
+    const registry = new KeyRegistry([{ kid: keys.kid, public_key: keys.publicKey }]);
+    const log = await signedLog(keys);
+
+    expect(verifyAuditLogSignature(log, registry)).toBe(true);
+
+    const attacker = generateKeyPair();
+    log.entries.pop();
+    log.org_signature = signAuditLog(log, attacker.privateKey, attacker.publicKey);
+
+    expect(verifyAuditLogSignature(log)).toBe(true);
+    expect(verifyAuditLogSignature(log, registry)).toBe(false);
+  });
+
+  test('checkpoints and erasures are checked too', async () => {
+    const keys = generateSigningKeys();
+    const ledger = createTestLedger({ signingKeys: keys, subjectKeys: new InMemorySubjectKeyStore(), subjectRefKey: randomBytes(32) });
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+    const checkpoint = await ledger.checkpoint();
+    const erasure = (await ledger.eraseSubject('customer-42')).entry as any;
+    const log = await ledger.close();
+
+    const revoked = new KeyRegistry([{ kid: keys.kid, public_key: keys.publicKey }]).revoke(keys.kid);
+
+    expect(verifyCheckpoint(checkpoint, log.entries, revoked).errors).toEqual([
+      expect.stringContaining(`Checkpoint at size 0: Key ${keys.kid} was revoked`),
+    ]);
+    expect(verifyErasure(erasure)).toBe(true);
+    expect(verifyErasure(erasure, revoked)).toBe(false);
+  });
+});
+
+describe('Ledger.rotateSigningKeys', () => {
+  test('open sessions sign with the new key from then on', async () => {
+    const before = generateSigningKeys();
+    const after = generateSigningKeys();
+    const ledger = createTestLedger({ signingKeys: before });
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+    const first = await ledger.checkpoint();
+
+    ledger.rotateSigningKeys(after);
+    const log = await ledger.close();
+
+    expect(first.kid).toBe(before.kid);
+    expect(log.org_signature?.kid).toBe(after.kid);
+    expect(log.integrity?.signature_valid).toBe(true);
+
+    const registry = new KeyRegistry([
+      { kid: before.kid, public_key: before.publicKey, not_after: first.timestamp },
+      { kid: after.kid, public_key: after.publicKey },
+    ]);
+    expect(verifyCheckpoint(first, log.entries, registry).valid).toBe(true);
+    expect(verifyAuditLogSignature(log, registry)).toBe(true);
+  });
+
+  test('rejects a private key that does not match the public key', () => {
+    const ledger = createTestLedger({ signingKeys: generateSigningKeys() });
+
+    expect(() => ledger.rotateSigningKeys({ ...generateKeyPair(), publicKey: generateKeyPair().publicKey }))
+      .toThrow(ValidationError);
+  });
+});
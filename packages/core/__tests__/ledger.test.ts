@@ -2,8 +2,12 @@
  * Comprehensive tests for AgentLedger main API
  */
 
-import { Ledger, createLedger, generateSigningKeys, hashContent, generateId } from '../src/ledger';
+import { Ledger, SessionHandle, createLedger, generateSigningKeys, hashContent, generateId } from '../src/ledger';
 import { InMemoryStorage, FileSystemStorage } from '../src/storage';
+import type { StorageBackend } from '../src/storage';
+import { createChainedEntry, verifyChain, verifyCheckpoint, buildMerkleTree } from '../src/crypto';
+import type { AuditEntry, ChainedEntry, SessionEnvelope } from '../src/types';
+import { SessionError, CryptoError, ValidationError } from '../src/errors';
 import { mkdirSync, rmSync, existsSync } from 'fs';
 import { join } from 'path';
 import type { LedgerConfig } from '../src/ledger';
@@ -41,11 +45,12 @@ describe('Ledger', () => {
       })).rejects.toThrow('Ledger not initialized. Call start() first.');
     });
 
-    test('start initializes session and returns session ID', async () => {
-      const sessionId = await ledger.start({ type: 'user', identifier: 'test-user' });
+    test('start initializes session and returns its handle', async () => {
+      const session = await ledger.start({ type: 'user', identifier: 'test-user' });
 
-      expect(sessionId).toHaveLength(36); // UUID format
-      expect(ledger.getSession().session_id).toBe(sessionId);
+      expect(session).toBeInstanceOf(SessionHandle);
+      expect(session.sessionId).toHaveLength(36); // UUID format
+      expect(ledger.getSession().session_id).toBe(session.sessionId);
     });
 
     test('session contains correct metadata', async () => {
@@ -342,7 +347,7 @@ describe('Ledger', () => {
 
   describe('full session lifecycle', () => {
     test('complete session with multiple entry types', async () => {
-      const sessionId = await ledger.start({ type: 'user', identifier: 'test-user' });
+      const { sessionId } = await ledger.start({ type: 'user', identifier: 'test-user' });
 
       // Log model call
       await ledger.logModelCall({
@@ -392,7 +397,7 @@ describe('Ledger', () => {
 
       // Close
       const log = await ledger.close();
-      expect(log.version).toBe('1.0.0');
+      expect(log.version).toBe('2.0.0');
       expect(log.session.session_id).toBe(sessionId);
       expect(log.entries).toHaveLength(3);
       expect(log.merkle_root).toHaveLength(64);
@@ -525,6 +530,309 @@ describe('Ledger', () => {
       const record = JSON.parse(buffer.toString());
       expect(record.regulation).toBe('EU_AI_ACT');
     });
+
+    test('inlines content stored through the ledger', async () => {
+      await ledger.storeContent({
+        contentType: 'prompt',
+        parentEntryId: generateId(),
+        content: 'What is my balance?',
+      });
+
+      const buffer = await ledger.export({ format: 'jsonl', include_content: true });
+      const stored = buffer.toString()
+        .split('\n')
+        .map(line => JSON.parse(line))
+        .find(line => line.type === 'entry' && line.entry.type === 'content_reference');
+      expect(Buffer.from(stored.content_base64, 'base64').toString()).toBe('What is my balance?');
+    });
+  });
+});
+
+// Backend that yields between reading the chain head and writing, like a network store
+class YieldingStorage extends InMemoryStorage implements StorageBackend {
+  private written: Map<string, ChainedEntry[]> = new Map();
+
+  async initialize(session: SessionEnvelope): Promise<void> {
+    await super.initialize(session);
+    this.written.set(session.session_id, []);
+  }
+
+  async append(sessionId: string, entry: AuditEntry): Promise<ChainedEntry> {
+    const written = this.written.get(sessionId)!;
+    const head = written[written.length - 1];
+    const sequence = written.length;
+    await new Promise(resolve => setImmediate(resolve));
+
+    const chained = createChainedEntry(entry, sequence, head ? head.entry_hash : '');
+    written.push(chained);
+    return chained;
+  }
+
+  async getAll(sessionId: string): Promise<ChainedEntry[]> {
+    return [...this.written.get(sessionId)!];
+  }
+
+  async count(sessionId: string): Promise<number> {
+    return this.written.get(sessionId)!.length;
+  }
+}
+
+describe('concurrent appends', () => {
+  const logCall = (ledger: Ledger, i: number) => ledger.logModelCall({
+    provider: 'openai',
+    modelId: 'gpt-4',
+    promptHash: hashContent(`prompt-${i}`),
+    promptTokens: i,
+    completionHash: hashContent(`response-${i}`),
+    completionTokens: 1,
+    latencyMs: 1,
+  });
+
+  test('thousands of concurrent log calls produce a valid chain', async () => {
+    const ledger = new Ledger(createConfig({ storage: new YieldingStorage() }));
+    await ledger.start({ type: 'user', identifier: 'test' });
+
+    const results = await Promise.all(
+      Array.from({ length: 2000 }, (_, i) => logCall(ledger, i)),
+    );
+
+    // Returned sequence matches call order
+    expect(results.map(r => r.sequence)).toEqual([...Array(2000).keys()]);
+    results.forEach((r, i) => {
+      expect(r.entry.type === 'model_call' && r.entry.prompt_tokens).toBe(i);
+    });
+
+    const entries = await ledger.getEntries();
+    expect(entries).toHaveLength(2000);
+    expect(verifyChain(entries).valid).toBe(true);
+  });
+
+  test('mixed entry types and auto-snapshots stay ordered', async () => {
+    const ledger = new Ledger(createConfig({ storage: new YieldingStorage(), snapshotInterval: 10 }));
+    await ledger.start({ type: 'user', identifier: 'test' });
+
+    await Promise.all(Array.from({ length: 500 }, (_, i) => i % 2 === 0
+      ? logCall(ledger, i)
+      : ledger.logToolInvocation({
+        toolName: `tool-${i}`,
+        inputHash: hashContent(`input-${i}`),
+        outputHash: hashContent(`output-${i}`),
+        durationMs: 1,
+        success: true,
+      })));
+
+    const entries = await ledger.getEntries();
+    expect(verifyChain(entries).valid).toBe(true);
+    expect(entries.filter(e => e.entry.type === 'state_snapshot').length).toBeGreaterThan(0);
+  });
+
+  test('close() drains queued appends and rejects new ones', async () => {
+    const storage = new YieldingStorage();
+    const ledger = new Ledger(createConfig({ storage }));
+    const session = await ledger.start({ type: 'user', identifier: 'test' });
+
+    const sizeAtClose: number[] = [];
+    const close = storage.close.bind(storage);
+    storage.close = async (...args: Parameters<typeof close>) => {
+      sizeAtClose.push(await storage.count(session.sessionId));
+      return close(...args);
+    };
+
+    const queued = Array.from({ length: 5 }, (_, i) => logCall(ledger, i));
+    const closing = ledger.close();
+    await expect(logCall(ledger, 5)).rejects.toThrow(SessionError);
+
+    await Promise.all(queued);
+    await closing;
+    expect(sizeAtClose).toEqual([5]);
+  });
+
+  test('a failed append does not block later appends', async () => {
+    const storage = new YieldingStorage();
+    const ledger = new Ledger(createConfig({ storage }));
+    await ledger.start({ type: 'user', identifier: 'test' });
+
+    const original = storage.append.bind(storage);
+    storage.append = jest.fn()
+      .mockRejectedValueOnce(new Error('disk full'))
+      .mockImplementation(original);
+
+    const [failed, ok] = await Promise.allSettled([logCall(ledger, 0), logCall(ledger, 1)]);
+
+    expect(failed.status).toBe('rejected');
+    expect(ok.status).toBe('fulfilled');
+    expect(await ledger.count()).toBe(1);
+  });
+
+  test('a failed auto-snapshot does not fail the append that triggered it', async () => {
+    const storage = new YieldingStorage();
+    const ledger = new Ledger(createConfig({ storage, snapshotInterval: 2 }));
+    await ledger.start({ type: 'user', identifier: 'test' });
+
+    const original = storage.append.bind(storage);
+    storage.append = jest.fn(async (sessionId: string, entry: AuditEntry) => {
+      if (entry.type === 'state_snapshot' && (storage.append as jest.Mock).mock.calls.length === 3) {
+        throw new Error('disk full');
+      }
+      return original(sessionId, entry);
+    });
+
+    await logCall(ledger, 0);
+    await expect(logCall(ledger, 1)).resolves.toMatchObject({ sequence: 1 });
+    await logCall(ledger, 2);
+
+    // Retried after the next append instead of being lost
+    const types = (await ledger.getEntries()).map(e => e.entry.type);
+    expect(types).toEqual(['model_call', 'model_call', 'model_call', 'state_snapshot']);
+  });
+});
+
+describe('multiple sessions', () => {
+  const logCall = (session: SessionHandle, i: number) => session.logModelCall({
+    provider: 'openai',
+    modelId: 'gpt-4',
+    promptHash: hashContent(`prompt-${i}`),
+    promptTokens: i,
+    completionHash: hashContent(`response-${i}`),
+    completionTokens: 1,
+    latencyMs: 1,
+  });
+
+  test('interleaved sessions keep independent chains', async () => {
+    const ledger = new Ledger(createConfig({ storage: new YieldingStorage() }));
+    const alice = await ledger.start({ type: 'user', identifier: 'alice' });
+    const bob = await ledger.start({ type: 'user', identifier: 'bob' });
+
+    await Promise.all(Array.from({ length: 100 }, (_, i) => logCall(i % 2 === 0 ? alice : bob, i)));
+
+    const aliceEntries = await alice.getEntries();
+    const bobEntries = await bob.getEntries();
+    expect(aliceEntries).toHaveLength(50);
+    expect(bobEntries).toHaveLength(50);
+    expect(verifyChain(aliceEntries).valid).toBe(true);
+    expect(verifyChain(bobEntries).valid).toBe(true);
+    expect(aliceEntries.every(e => e.entry.type === 'model_call' && e.entry.prompt_tokens % 2 === 0)).toBe(true);
+  });
+
+  test('lists open sessions until they are closed', async () => {
+    const ledger = new Ledger(createConfig());
+    const first = await ledger.start({ type: 'user', identifier: 'alice' });
+    const second = await ledger.start({ type: 'user', identifier: 'bob' });
+
+    expect(ledger.listOpenSessions().map(s => s.session_id)).toEqual([first.sessionId, second.sessionId]);
+
+    const log = await first.close();
+    expect(log.session.session_id).toBe(first.sessionId);
+    expect(first.isClosed).toBe(true);
+    expect(ledger.listOpenSessions().map(s => s.session_id)).toEqual([second.sessionId]);
+  });
+
+  test('closed handles reject further logging', async () => {
+    const ledger = new Ledger(createConfig());
+    const session = await ledger.start({ type: 'user', identifier: 'test' });
+    await session.close();
+
+    await expect(logCall(session, 0)).rejects.toThrow(SessionError);
+    await expect(session.close()).rejects.toThrow('already been closed');
+  });
+
+  test('single-session methods act on the most recent session', async () => {
+    const ledger = new Ledger(createConfig());
+    await ledger.start({ type: 'user', identifier: 'alice' });
+    const latest = await ledger.start({ type: 'user', identifier: 'bob' });
+
+    await ledger.logDecision({
+      decisionId: 'd1',
+      category: 'routing',
+      optionsConsidered: [{ option_id: 'a', description: 'A' }],
+      selectedOption: 'a',
+      reasoningHash: hashContent('reasoning'),
+    });
+
+    expect(ledger.getSession().session_id).toBe(latest.sessionId);
+    expect(await latest.count()).toBe(1);
+  });
+});
+
+describe('checkpoints', () => {
+  const logCall = (session: SessionHandle, i: number) => session.logModelCall({
+    provider: 'openai',
+    modelId: 'gpt-4',
+    promptHash: hashContent(`prompt-${i}`),
+    promptTokens: i,
+    completionHash: hashContent(`response-${i}`),
+    completionTokens: 1,
+    latencyMs: 1,
+  });
+
+  test('signs a tree head over the entries logged so far', async () => {
+    const keys = generateSigningKeys();
+    const ledger = new Ledger(createConfig({ signingKeys: keys }));
+    const session = await ledger.start({ type: 'user', identifier: 'test' });
+    await Promise.all([logCall(session, 0), logCall(session, 1), logCall(session, 2)]);
+
+    const checkpoint = await session.checkpoint();
+    const entries = await session.getEntries();
+
+    expect(checkpoint.session_id).toBe(session.sessionId);
+    expect(checkpoint.tree_size).toBe(3);
+    expect(checkpoint.public_key).toBe(keys.publicKey);
+    expect(checkpoint.root_hash).toBe(buildMerkleTree(entries.map(e => e.entry_hash), { mode: 'rfc6962' }).root);
+    expect(verifyCheckpoint(checkpoint, entries).valid).toBe(true);
+  });
+
+  test('includes checkpoints in the closed log', async () => {
+    const ledger = new Ledger(createConfig({ signingKeys: generateSigningKeys() }));
+    const session = await ledger.start({ type: 'user', identifier: 'test' });
+    await logCall(session, 0);
+    const first = await session.checkpoint();
+    await logCall(session, 1);
+    const second = await session.checkpoint();
+
+    const log = await session.close();
+
+    expect(log.checkpoints).toEqual([first, second]);
+    for (const checkpoint of log.checkpoints ?? []) {
+      expect(verifyCheckpoint(checkpoint, log.entries).valid).toBe(true);
+    }
+  });
+
+  test('detects tampering with entries covered by a checkpoint', async () => {
+    const ledger = new Ledger(createConfig({ signingKeys: generateSigningKeys() }));
+    const session = await ledger.start({ type: 'user', identifier: 'test' });
+    await logCall(session, 0);
+    await logCall(session, 1);
+    const checkpoint = await session.checkpoint();
+
+    // Rewrite the first entry and rebuild a valid-looking chain
+    const entries = await session.getEntries();
+    const forged = createChainedEntry({ ...entries[0]!.entry, entry_id: generateId() }, 0, '');
+    const rechained = [forged, createChainedEntry(entries[1]!.entry, 1, forged.entry_hash)];
+
+    expect(verifyChain(rechained).valid).toBe(true);
+    expect(verifyCheckpoint(checkpoint, rechained).valid).toBe(false);
+    expect(verifyCheckpoint(checkpoint, entries.slice(0, 1)).errors[0]).toContain('truncated');
+  });
+
+  test('takes checkpoints automatically on an interval', async () => {
+    const ledger = new Ledger(createConfig({ signingKeys: generateSigningKeys(), checkpointIntervalMs: 10 }));
+    const session = await ledger.start({ type: 'user', identifier: 'test' });
+    await logCall(session, 0);
+
+    await new Promise(resolve => setTimeout(resolve, 60));
+    const log = await session.close();
+
+    // Skipped while no new entries arrive
+    expect(log.checkpoints).toHaveLength(1);
+    expect(log.checkpoints?.[0]?.tree_size).toBe(1);
+  });
+
+  test('requires signing keys', async () => {
+    const ledger = new Ledger(createConfig());
+    const session = await ledger.start({ type: 'user', identifier: 'test' });
+
+    await expect(session.checkpoint()).rejects.toThrow(CryptoError);
+    expect(() => new Ledger(createConfig({ checkpointIntervalMs: 1000 }))).toThrow(ValidationError);
   });
 });
 
@@ -602,6 +910,86 @@ describe('storage backend selection', () => {
       const log = await ledger.close();
       expect(log.entries).toHaveLength(1);
     });
+
+    test('resumes an unclosed session in a new ledger', async () => {
+      const config = createConfig({
+        storage: { type: 'filesystem', path: testBasePath },
+      });
+
+      const first = new Ledger(config);
+      const { sessionId } = await first.start({ type: 'user', identifier: 'test' });
+      await first.logModelCall({
+        provider: 'openai',
+        modelId: 'gpt-4',
+        promptHash: hashContent('before crash'),
+        promptTokens: 10,
+        completionHash: hashContent('response'),
+        completionTokens: 5,
+        latencyMs: 100,
+      });
+
+      const second = new Ledger(config);
+      expect((await second.resume(sessionId)).sessionId).toBe(sessionId);
+
+      const chained = await second.logModelCall({
+        provider: 'openai',
+        modelId: 'gpt-4',
+        promptHash: hashContent('after crash'),
+        promptTokens: 10,
+        completionHash: hashContent('response'),
+        completionTokens: 5,
+        latencyMs: 100,
+      });
+      expect(chained.sequence).toBe(1);
+
+      const log = await second.close();
+      expect(log.entries).toHaveLength(2);
+      expect(log.integrity?.chain_valid).toBe(true);
+    });
+
+    test('exports content from a filesystem content store', async () => {
+      const ledger = new Ledger(createConfig({
+        storage: { type: 'filesystem', path: join(testBasePath, 'logs') },
+        contentStore: { type: 'filesystem', path: join(testBasePath, 'content') },
+      }));
+      await ledger.start({ type: 'user', identifier: 'test' });
+      await ledger.storeContent({ contentType: 'prompt', parentEntryId: generateId(), content: 'What is my balance?' });
+
+      const buffer = await ledger.export({ format: 'jsonl', include_content: true });
+      const stored = buffer.toString()
+        .split('\n')
+        .map(line => JSON.parse(line))
+        .find(line => line.type === 'entry' && line.entry.type === 'content_reference');
+      expect(Buffer.from(stored.content_base64, 'base64').toString()).toBe('What is my balance?');
+    });
+  });
+
+  test('resume throws for backends without resume support', async () => {
+    const ledger = new Ledger(createConfig());
+    await expect(ledger.resume(generateId())).rejects.toThrow('does not support resuming');
+  });
+
+  test('uses SqliteStorage with sqlite option', async () => {
+    const ledger = new Ledger(createConfig({
+      storage: { type: 'sqlite', path: ':memory:' },
+    }));
+
+    await ledger.start({ type: 'user', identifier: 'test' });
+    await ledger.logModelCall({
+      provider: 'openai',
+      modelId: 'gpt-4',
+      promptHash: hashContent('test'),
+      promptTokens: 10,
+      completionHash: hashContent('response'),
+      completionTokens: 5,
+      latencyMs: 100,
+    });
+
+    const result = await ledger.verify();
+    expect(result.valid).toBe(true);
+
+    const log = await ledger.close();
+    expect(log.entries).toHaveLength(1);
   });
 });
 
@@ -0,0 +1,157 @@
+/**
+ * Tests for the Parquet writer and Parquet export
+ */
+
+import { writeParquet } from '../src/parquet';
+import type { ParquetColumn } from '../src/parquet';
+import { ExportError } from '../src/errors';
+import { Ledger } from '../src/ledger';
+import { ParquetReader } from 'parquets';
+
+const columns: ParquetColumn[] = [
+  { name: 'id', type: 'int64', values: [1, 2, 3] },
+  { name: 'label', type: 'string', values: ['a', null, 'ü'] },
+  { name: 'score', type: 'double', values: [0.5, 1.25, null] },
+  { name: 'ok', type: 'boolean', values: [true, false, null] },
+  { name: 'at', type: 'timestamp', values: [Date.parse('2025-01-01T00:00:00.000Z'), null, 0] },
+];
+
+function footerOf(file: Buffer): Buffer {
+  const length = file.readUInt32LE(file.length - 8);
+  return file.subarray(file.length - 8 - length, file.length - 8);
+}
+
+describe('writeParquet', () => {
+  test('frames the file with PAR1 magic and a footer length', () => {
+    const file = writeParquet(columns);
+
+    expect(file.subarray(0, 4).toString()).toBe('PAR1');
+    expect(file.subarray(-4).toString()).toBe('PAR1');
+    expect(footerOf(file).length).toBeGreaterThan(0);
+    expect(footerOf(file).length).toBeLessThan(file.length);
+  });
+
+  test.each([false, true])('reads back with an independent reader (compress: %s)', async compress => {
+    const reader = await ParquetReader.openBuffer<Record<string, unknown>>(
+      writeParquet(columns, { metadata: { source: 'test' }, compress }),
+    );
+    const rows: Record<string, unknown>[] = [];
+    const cursor = reader.getCursor();
+    for (let row = await cursor.next(); row; row = await cursor.next()) {
+      rows.push(row);
+    }
+    const fields = reader.getSchema().fields;
+    const rowCount = Number(reader.getRowCount());
+    const metadata = reader.getMetadata();
+    await reader.close();
+
+    expect(rowCount).toBe(3);
+    expect(metadata).toEqual({ source: 'test' });
+    expect(Object.fromEntries(Object.entries(fields).map(([name, f]) => [name, [f.primitiveType, f.originalType]])))
+      .toEqual({
+        id: ['INT64', undefined],
+        label: ['BYTE_ARRAY', 'UTF8'],
+        score: ['DOUBLE', undefined],
+        ok: ['BOOLEAN', undefined],
+        at: ['INT64', 'TIMESTAMP_MILLIS'],
+      });
+    // The reader leaves null columns out of a row
+    expect(rows).toEqual([
+      { id: 1, label: 'a', score: 0.5, ok: true, at: new Date('2025-01-01T00:00:00.000Z') },
+      { id: 2, score: 1.25, ok: false },
+      { id: 3, label: 'ü', at: new Date(0) },
+    ]);
+  });
+
+  test('writes column names and footer metadata', () => {
+    const footer = footerOf(writeParquet(columns, { metadata: { 'agentledger.session_id': 'abc' } })).toString();
+
+    for (const column of columns) {
+      expect(footer).toContain(column.name);
+    }
+    expect(footer).toContain('agentledger.session_id');
+    expect(footer).toContain('abc');
+  });
+
+  test('stores string values as plain byte arrays', () => {
+    const file = writeParquet([{ name: 'label', type: 'string', values: ['hello parquet'] }]);
+
+    expect(file.includes(Buffer.from('hello parquet'))).toBe(true);
+  });
+
+  test('compresses pages with gzip', () => {
+    const values = Array.from({ length: 500 }, () => 'repetitive value');
+    const plain = writeParquet([{ name: 'label', type: 'string', values }]);
+    const compressed = writeParquet([{ name: 'label', type: 'string', values }], { compress: true });
+
+    expect(compressed.length).toBeLessThan(plain.length);
+    expect(compressed.includes(Buffer.from([0x1f, 0x8b]))).toBe(true);
+    expect(compressed.includes(Buffer.from('repetitive value'))).toBe(false);
+  });
+
+  test('handles zero rows', () => {
+    const file = writeParquet([{ name: 'id', type: 'int64', values: [] }]);
+
+    expect(file.subarray(0, 4).toString()).toBe('PAR1');
+    expect(file.subarray(-4).toString()).toBe('PAR1');
+  });
+
+  test('rejects columns of different lengths', () => {
+    expect(() => writeParquet([
+      { name: 'a', type: 'int64', values: [1, 2] },
+      { name: 'b', type: 'int64', values: [1] },
+    ])).toThrow(ExportError);
+  });
+});
+
+describe('parquet export', () => {
+  test('Ledger.export writes one row per entry with typed columns', async () => {
+    const ledger = new Ledger({
+      orgId: 'test-org',
+      agentId: 'test-agent',
+      environment: 'test',
+      compliance: ['FINRA_4511'],
+    });
+    const session = await ledger.start({ type: 'user', identifier: 'test' });
+    await session.logModelCall({
+      provider: 'openai',
+      modelId: 'gpt-4',
+      promptHash: 'prompt',
+      promptTokens: 10,
+      completionHash: 'completion',
+      completionTokens: 5,
+      latencyMs: 100,
+    });
+    await session.logToolInvocation({
+      toolName: 'web_search',
+      inputHash: 'input',
+      outputHash: 'output',
+      durationMs: 20,
+      success: true,
+    });
+
+    const file = await session.export({ format: 'parquet' });
+    const footer = footerOf(file).toString();
+
+    expect(file.subarray(0, 4).toString()).toBe('PAR1');
+    for (const column of ['session_id', 'sequence', 'entry_type', 'prompt_tokens', 'cost_usd', 'tool_name', 'decision_category']) {
+      expect(footer).toContain(column);
+    }
+    expect(footer).toContain(session.sessionId);
+    expect(file.includes(Buffer.from('web_search'))).toBe(true);
+  });
+
+  test('compress keeps a readable parquet file', async () => {
+    const ledger = new Ledger({
+      orgId: 'test-org',
+      agentId: 'test-agent',
+      environment: 'test',
+      compliance: ['FINRA_4511'],
+    });
+    const session = await ledger.start({ type: 'user', identifier: 'test' });
+
+    const file = await session.export({ format: 'parquet', compress: true });
+
+    expect(file.subarray(0, 4).toString()).toBe('PAR1');
+  });
+});
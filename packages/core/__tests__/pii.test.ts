@@ -0,0 +1,155 @@
+/**
+ * Tests for PII detection
+ */
+
+import { DefaultPiiDetector, patternRecognizer, luhnCheck, piiTypesOf } from '../src/pii';
+import { createTestLedger } from './helpers';
+import { generateId } from '../src/crypto';
+
+const detector = new DefaultPiiDetector();
+
+function typesIn(text: string): string[] {
+  return piiTypesOf(detector.detect(text));
+}
+
+describe('DefaultPiiDetector', () => {
+  test.each([
+    ['email', 'Contact jane.doe+billing@example.co.uk for details'],
+    ['ssn', 'SSN on file: 123-45-6789'],
+    ['financial', 'Card 4111 1111 1111 1111 exp 12/27'],
+    ['financial', 'Wire to GB82 WEST 1234 5698 7654 32'],
+    ['phone', 'Call me at (415) 555-0123'],
+    ['phone', 'Office: +44 20 7946 0958'],
+    ['dob', 'Patient DOB: 03/14/1962'],
+    ['dob', 'date of birth 1985-07-30'],
+    ['medical', 'MRN: 00482913'],
+    ['address', 'Ship to 1600 Pennsylvania Ave NW'],
+    ['address', 'Mail to PO Box 1234'],
+  ])('detects %s in "%s"', (type, text) => {
+    expect(typesIn(text)).toContain(type);
+  });
+
+  test.each([
+    ['an invalid SSN area', 'Ref 000-12-3456'],
+    ['a card number failing Luhn', 'Order 4111 1111 1111 1112'],
+    ['an IBAN with a bad checksum', 'Account GB82 WEST 1234 5698 7654 33'],
+    ['a date without a birth-date label', 'Meeting on 03/14/1962'],
+    ['an impossible birth date', 'DOB: 02/30/1990'],
+    ['a future birth date', 'DOB: 2999-01-01'],
+    ['plain prose', 'The quarterly report is attached; totals are up 12% over 2023.'],
+  ])('ignores %s', (_description, text) => {
+    expect(detector.detect(text)).toEqual([]);
+  });
+
+  test('reports match offsets in text order', () => {
+    const text = 'Email a@b.io, SSN 123-45-6789';
+    const matches = detector.detect(text);
+
+    expect(matches.map(m => [m.recognizer, text.slice(m.start, m.end)])).toEqual([
+      ['email', 'a@b.io'],
+      ['us_ssn', '123-45-6789'],
+    ]);
+  });
+
+  test('labelled matches cover only the value', () => {
+    const text = 'MRN: 00482913';
+    const [match] = detector.detect(text);
+
+    expect(text.slice(match!.start, match!.end)).toBe('00482913');
+  });
+
+  test('accepts custom recognizers', () => {
+    const custom = new DefaultPiiDetector({ builtins: false })
+      .addRecognizer(patternRecognizer('member_id', 'medical', /\bMBR\d{8}\b/));
+
+    expect(piiTypesOf(custom.detect('Member MBR12345678, jane@example.com'))).toEqual(['medical']);
+  });
+
+  test('luhnCheck', () => {
+    expect(luhnCheck('79927398713')).toBe(true);
+    expect(luhnCheck('79927398710')).toBe(false);
+  });
+});
+
+describe('Ledger PII detection', () => {
+  test('storeContent fills contains_pii and pii_types', async () => {
+    const ledger = createTestLedger();
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+
+    const chained = await ledger.storeContent({
+      contentType: 'prompt',
+      parentEntryId: generateId(),
+      content: 'Patient DOB: 03/14/1962, reach at jane@example.com',
+    });
+
+    const entry = chained.entry as any;
+    expect(entry.contains_pii).toBe(true);
+    expect(entry.pii_types).toEqual(['dob', 'email']);
+  });
+
+  test('content without PII is not flagged', async () => {
+    const ledger = createTestLedger();
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+
+    const chained = await ledger.storeContent({ contentType: 'completion', parentEntryId: generateId(), content: 'Approved.' });
+
+    expect((chained.entry as any).contains_pii).toBe(false);
+    expect((chained.entry as any).pii_types).toBeUndefined();
+  });
+
+  test('caller-supplied types are merged with detected ones', async () => {
+    const ledger = createTestLedger();
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+
+    const chained = await ledger.storeContent({
+      contentType: 'prompt',
+      parentEntryId: generateId(),
+      content: 'Jane Doe, SSN 123-45-6789',
+      piiTypes: ['name'],
+    });
+
+    expect((chained.entry as any).pii_types).toEqual(['name', 'ssn']);
+  });
+
+  test('containsPii: false skips detection', async () => {
+    const ledger = createTestLedger();
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+
+    const chained = await ledger.storeContent({
+      contentType: 'prompt',
+      parentEntryId: generateId(),
+      content: 'test fixture 123-45-6789',
+      containsPii: false,
+    });
+
+    expect((chained.entry as any).contains_pii).toBe(false);
+    expect((chained.entry as any).pii_types).toBeUndefined();
+  });
+
+  test('uses a configured detector, or none', async () => {
+    const custom = createTestLedger({
+      piiDetector: new DefaultPiiDetector({ builtins: false, recognizers: [patternRecognizer('mbr', 'medical', /MBR\d+/)] }),
+    });
+    await custom.start({ type: 'user', identifier: 'test-user' });
+    const flagged = await custom.storeContent({ contentType: 'prompt', parentEntryId: generateId(), content: 'MBR123' });
+    expect((flagged.entry as any).pii_types).toEqual(['medical']);
+
+    const disabled = createTestLedger({ piiDetector: false });
+    await disabled.start({ type: 'user', identifier: 'test-user' });
+    const unflagged = await disabled.storeContent({ contentType: 'prompt', parentEntryId: generateId(), content: 'a@b.io' });
+    expect((unflagged.entry as any).contains_pii).toBe(false);
+  });
+
+  test('binary content is not scanned', async () => {
+    const ledger = createTestLedger();
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+
+    const chained = await ledger.storeContent({
+      contentType: 'tool_output',
+      parentEntryId: generateId(),
+      content: Buffer.concat([Buffer.from([0]), Buffer.from('jane@example.com')]),
+    });
+
+    expect((chained.entry as any).contains_pii).toBe(false);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Tests for PII redaction before persistence
+ */
+
+import { redact, redactionToken, redactionCommitment } from '../src/redaction';
+import type { RedactionPolicy } from '../src/redaction';
+import { DefaultPiiDetector } from '../src/pii';
+import { Ledger } from '../src/ledger';
+import type { LedgerConfig } from '../src/ledger';
+import { createTestLedger } from './helpers';
+import { generateId, hashContent } from '../src/crypto';
+import { ValidationError } from '../src/errors';
+import { mkdirSync, rmSync, existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { randomBytes } from 'crypto';
+
+const testDir = join(__dirname, '../.test-redaction');
+const detector = new DefaultPiiDetector();
+const hmacKey = randomBytes(32);
+
+function createRedactingLedger(overrides: Partial<LedgerConfig> = {}): Ledger {
+  return createTestLedger({
+    contentStore: { type: 'filesystem', path: testDir },
+    redaction: { version: 'phi-2025.1', hmacKey },
+    ...overrides,
+  });
+}
+
+beforeEach(() => {
+  if (existsSync(testDir)) {
+    rmSync(testDir, { recursive: true });
+  }
+  mkdirSync(testDir, { recursive: true });
+});
+
+afterAll(() => {
+  if (existsSync(testDir)) {
+    rmSync(testDir, { recursive: true });
+  }
+});
+
+describe('redact', () => {
+  test('replaces matches with typed placeholders', () => {
+    const text = 'SSN 123-45-6789, email jane@example.com';
+
+    const result = redact(text, detector.detect(text), { version: '1', hmacKey });
+
+    expect(result.text).toBe('SSN [SSN], email [EMAIL]');
+    expect(result.redacted).toHaveLength(2);
+  });
+
+  test('hmac tokens are stable for the same value and key', () => {
+    const policy: RedactionPolicy = { version: '1', mode: 'hmac', hmacKey };
+    const first = 'SSN 123-45-6789';
+    const second = 'ssn: 123 45 6789';
+
+    const a = redact(first, detector.detect(first), policy).text;
+    const b = redact(second, detector.detect(second), policy).text;
+
+    expect(a).toMatch(/^SSN \[SSN:[0-9a-f]{16}\]$/);
+    expect(a.slice(4)).toBe(b.slice(5));
+    expect(redactionToken('ssn', '123-45-6789', randomBytes(32))).not.toBe(a.slice(4));
+  });
+
+  test('only masks the policy types', () => {
+    const text = 'jane@example.com, 123-45-6789';
+
+    expect(redact(text, detector.detect(text), { version: '1', hmacKey, types: ['ssn'] }).text)
+      .toBe('jane@example.com, [SSN]');
+  });
+
+  test('merges overlapping matches', () => {
+    const text = 'card 4111 1111 1111 1111';
+    const matches = detector.detect(text);
+    const overlapping = [...matches, { ...matches[0]!, recognizer: 'inner', start: matches[0]!.start + 5 }];
+
+    expect(redact(text, overlapping, { version: '1', hmacKey }).text).toBe('card [FINANCIAL]');
+  });
+
+  test('rejects policies without a key, short keys and missing versions', () => {
+    expect(() => redact('x', [], { version: '1' } as RedactionPolicy)).toThrow(ValidationError);
+    expect(() => redact('x', [], { version: '1', hmacKey: randomBytes(16) })).toThrow(ValidationError);
+    expect(() => redact('x', [], { version: '', hmacKey })).toThrow(ValidationError);
+  });
+});
+
+describe('Ledger redaction', () => {
+  test('never persists the raw identifiers', async () => {
+    const ledger = createRedactingLedger();
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+    const original = 'Patient MRN: 00482913, SSN 123-45-6789';
+
+    const chained = await ledger.storeContent({ contentType: 'prompt', parentEntryId: generateId(), content: original });
+
+    const entry = chained.entry as any;
+    const stored = readFileSync(fileURLToPath(entry.storage_uri), 'utf-8');
+    expect(stored).toBe('Patient MRN: [MEDICAL], SSN [SSN]');
+    expect(entry.content_hash).toBe(hashContent(stored));
+    expect(entry.redaction).toEqual({
+      policy_version: 'phi-2025.1',
+      original_hmac: redactionCommitment(original, hmacKey),
+      redacted_count: 2,
+    });
+    expect(entry.pii_types).toEqual(['medical', 'ssn']);
+    expect(entry.contains_pii).toBe(false);
+    expect((await ledger.getContent(entry.entry_id)).toString()).toBe(stored);
+  });
+
+  test('commits to the original with the policy key', async () => {
+    const ledger = createRedactingLedger();
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+    const original = 'SSN 123-45-6789';
+
+    const chained = await ledger.storeContent({ contentType: 'prompt', parentEntryId: generateId(), content: original });
+
+    const commitment = (chained.entry as any).redaction.original_hmac;
+    expect(commitment).toBe(redactionCommitment(original, hmacKey));
+    expect(commitment).not.toBe(hashContent(original));
+    expect(redactionCommitment('SSN 123-45-6780', hmacKey)).not.toBe(commitment);
+    expect(redactionCommitment(original, randomBytes(32))).not.toBe(commitment);
+  });
+
+  test('records the policy even when nothing was masked', async () => {
+    const ledger = createRedactingLedger();
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+
+    const chained = await ledger.storeContent({ contentType: 'completion', parentEntryId: generateId(), content: 'Approved.' });
+
+    expect((chained.entry as any).redaction).toMatchObject({ policy_version: 'phi-2025.1', redacted_count: 0 });
+  });
+
+  test('PII outside the policy types stays flagged', async () => {
+    const ledger = createRedactingLedger({ redaction: { version: '2', hmacKey, types: ['ssn'] } });
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+
+    const chained = await ledger.storeContent({
+      contentType: 'prompt',
+      parentEntryId: generateId(),
+      content: 'jane@example.com 123-45-6789',
+    });
+
+    expect((chained.entry as any).contains_pii).toBe(true);
+  });
+
+  test('a per-call policy overrides the ledger policy', async () => {
+    const ledger = createRedactingLedger();
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+
+    const unredacted = await ledger.storeContent({
+      contentType: 'prompt',
+      parentEntryId: generateId(),
+      content: 'SSN 123-45-6789',
+      redaction: false,
+    });
+    const tokenized = await ledger.storeContent({
+      contentType: 'prompt',
+      parentEntryId: generateId(),
+      content: 'SSN 123-45-6789',
+      redaction: { version: 'tokens-1', mode: 'hmac', hmacKey },
+    });
+
+    expect((unredacted.entry as any).redaction).toBeUndefined();
+    expect((unredacted.entry as any).content_hash).toBe(hashContent('SSN 123-45-6789'));
+    expect((tokenized.entry as any).redaction.policy_version).toBe('tokens-1');
+    expect((await ledger.getContent(tokenized.entry.entry_id)).toString())
+      .toBe(`SSN ${redactionToken('ssn', '123-45-6789', hmacKey)}`);
+  });
+
+  test('contentHash() matches the content_hash storeContent() records', async () => {
+    const ledger = createRedactingLedger();
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+    const original = 'SSN 123-45-6789';
+
+    const chained = await ledger.storeContent({ contentType: 'prompt', parentEntryId: generateId(), content: original });
+
+    expect(ledger.contentHash(original)).toBe((chained.entry as any).content_hash);
+    expect(ledger.contentHash(original, { redaction: false })).toBe(hashContent(original));
+  });
+
+  test('requires a valid policy and a detector', () => {
+    expect(() => createRedactingLedger({ redaction: { version: '1', mode: 'hmac' } as RedactionPolicy })).toThrow(ValidationError);
+    expect(() => createRedactingLedger({ piiDetector: false })).toThrow(ValidationError);
+  });
+});
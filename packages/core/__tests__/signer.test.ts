@@ -0,0 +1,154 @@
+/**
+ * Tests for pluggable signers
+ */
+
+import { LocalSigner, RemoteSigner, serveSigner } from '../src/signer';
+import type { Signer } from '../src/signer';
+import { generateSigningKeys } from '../src/ledger';
+import { createTestLedger } from './helpers';
+import { InMemorySubjectKeyStore } from '../src/erasure';
+import { verify, verifyAuditLogSignature, verifyCheckpoint, verifyErasure, keyId } from '../src/crypto';
+import { CryptoError, ValidationError } from '../src/errors';
+import { createServer, Server } from 'net';
+import { mkdirSync, rmSync, existsSync, statSync, readdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+
+const testDir = join(__dirname, '../.test-signer');
+const socketPath = join(testDir, 'signer.sock');
+const servers: Server[] = [];
+
+async function serve(signers: Signer | Signer[]): Promise<Server> {
+  const server = await serveSigner(socketPath, signers);
+  servers.push(server);
+  return server;
+}
+
+beforeEach(() => {
+  if (existsSync(testDir)) {
+    rmSync(testDir, { recursive: true });
+  }
+  mkdirSync(testDir, { recursive: true });
+});
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+});
+
+afterAll(() => {
+  if (existsSync(testDir)) {
+    rmSync(testDir, { recursive: true });
+  }
+});
+
+describe('LocalSigner', () => {
+  test('signs with the in-memory key', async () => {
+    const keys = generateSigningKeys();
+    const signer = new LocalSigner({ publicKey: keys.publicKey, privateKey: keys.privateKey });
+
+    expect(signer.keyId).toBe(keyId(keys.publicKey));
+    expect(verify('payload', await signer.sign('payload'), keys.publicKey)).toBe(true);
+    expect(new LocalSigner({ ...keys, kid: 'org-2026-01' }).keyId).toBe('org-2026-01');
+  });
+
+  test('rejects a private key that does not match the public key', () => {
+    const keys = generateSigningKeys();
+
+    expect(() => new LocalSigner({ ...keys, publicKey: generateSigningKeys().publicKey })).toThrow(ValidationError);
+    expect(() => new LocalSigner({ ...keys, privateKey: 'bm90IGEga2V5' })).toThrow(ValidationError);
+  });
+});
+
+describe('RemoteSigner', () => {
+  test('signs through a daemon on a Unix socket', async () => {
+    const keys = generateSigningKeys();
+    await serve(new LocalSigner(keys));
+
+    const signer = await RemoteSigner.connect(socketPath);
+
+    expect(signer.keyId).toBe(keys.kid);
+    expect(signer.publicKey).toBe(keys.publicKey);
+    expect(verify('payload', await signer.sign('payload'), keys.publicKey)).toBe(true);
+    expect(statSync(socketPath).mode & 0o777).toBe(0o600);
+  });
+
+  test('binds the socket privately, replaces stale sockets and removes it on close', async () => {
+    const first = await serveSigner(socketPath, new LocalSigner(generateSigningKeys()));
+    const keys = generateSigningKeys();
+    const second = await serve(new LocalSigner(keys));
+
+    expect(readdirSync(testDir)).toEqual(['signer.sock']);
+    await new Promise(resolve => first.close(resolve));
+    expect((await RemoteSigner.connect(socketPath)).keyId).toBe(keys.kid);
+
+    await new Promise(resolve => second.close(resolve));
+    expect(existsSync(socketPath)).toBe(false);
+
+    writeFileSync(socketPath, 'not a socket');
+    await expect(serveSigner(socketPath, new LocalSigner(generateSigningKeys()))).rejects.toThrow(ValidationError);
+  });
+
+  test('selects a key by id', async () => {
+    const first = generateSigningKeys();
+    const second = { ...generateSigningKeys(), kid: 'org-2026-02' };
+    await serve([new LocalSigner(first), new LocalSigner(second)]);
+
+    const signer = await RemoteSigner.connect(socketPath, { keyId: 'org-2026-02' });
+
+    expect(signer.publicKey).toBe(second.publicKey);
+    await expect(RemoteSigner.connect(socketPath, { keyId: 'retired' })).rejects.toThrow('unknown key retired');
+  });
+
+  test('a ledger signs checkpoints, erasures and the log without the private key', async () => {
+    await serve(new LocalSigner(generateSigningKeys()));
+    const signer = await RemoteSigner.connect(socketPath);
+    const ledger = createTestLedger({ signer, subjectKeys: new InMemorySubjectKeyStore(), subjectRefKey: randomBytes(32) });
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+
+    const checkpoint = await ledger.checkpoint();
+    const erasure = await ledger.eraseSubject('customer-42');
+    const log = await ledger.close();
+
+    expect(checkpoint.kid).toBe(signer.keyId);
+    expect(verifyCheckpoint(checkpoint, log.entries).valid).toBe(true);
+    expect(verifyErasure(erasure.entry as any)).toBe(true);
+    expect(log.org_signature?.public_key).toBe(signer.publicKey);
+    expect(verifyAuditLogSignature(log)).toBe(true);
+  });
+
+  test('rejects signatures that do not verify', async () => {
+    const keys = generateSigningKeys();
+    await serve({ keyId: keys.kid, publicKey: keys.publicKey, sign: async () => Buffer.alloc(64).toString('base64') });
+    const signer = await RemoteSigner.connect(socketPath);
+
+    await expect(signer.sign('payload')).rejects.toThrow('returned an invalid signature');
+  });
+
+  test('fails with CryptoError when the daemon is down or silent', async () => {
+    await expect(RemoteSigner.connect(join(testDir, 'missing.sock'))).rejects.toThrow(CryptoError);
+
+    const silent = createServer(socket => socket.resume().on('error', () => undefined).on('end', () => socket.destroy()));
+    servers.push(silent);
+    await new Promise<void>(resolve => silent.listen(socketPath, resolve));
+    await expect(RemoteSigner.connect(socketPath, { timeoutMs: 50 })).rejects.toThrow('did not answer within 50 ms');
+  });
+});
+
+describe('Ledger signer config', () => {
+  test('accepts signingKeys or a signer, not both', () => {
+    const keys = generateSigningKeys();
+
+    expect(() => createTestLedger({ signingKeys: keys, signer: new LocalSigner(keys) })).toThrow(ValidationError);
+    expect(() => createTestLedger({ checkpointIntervalMs: 1000 })).toThrow(ValidationError);
+  });
+
+  test('rotates to a signer', async () => {
+    const ledger = createTestLedger({ signingKeys: generateSigningKeys() });
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+    const next = new LocalSigner({ ...generateSigningKeys(), kid: 'hsm-2026-01' });
+
+    ledger.rotateSigningKeys(next);
+
+    expect((await ledger.close()).org_signature?.kid).toBe('hsm-2026-01');
+  });
+});
@@ -2,11 +2,34 @@
  * Comprehensive tests for AgentLedger storage backends
  */
 
-import { mkdirSync, rmSync, existsSync, readFileSync } from 'fs';
+import { mkdirSync, rmSync, existsSync, readFileSync, writeFileSync, appendFileSync } from 'fs';
 import { join } from 'path';
-import { InMemoryStorage, FileSystemStorage } from '../src/storage';
-import { generateId, timestamp, hashContent, verifyChain, generateKeyPair } from '../src/crypto';
-import type { ModelCall, SessionEnvelope, ToolInvocation, DecisionPoint } from '../src/types';
+import { gunzipSync } from 'zlib';
+import { createServer, Server, IncomingMessage } from 'http';
+import type { AddressInfo } from 'net';
+import Database from 'better-sqlite3';
+import { InMemoryStorage, FileSystemStorage, SqliteStorage, S3Storage } from '../src/storage';
+import { S3ContentStore } from '../src/content';
+import { Ledger } from '../src/ledger';
+import { LocalKeyProvider, createSessionKey } from '../src/encryption';
+import { LocalSigner } from '../src/signer';
+import { randomBytes } from 'crypto';
+import { exportAuditLog } from '../src/exporters';
+import { signRequest } from '../src/sigv4';
+import { StorageError, SessionError } from '../src/errors';
+import {
+  generateId,
+  timestamp,
+  hashContent,
+  verifyChain,
+  generateKeyPair,
+  createChainedEntry,
+  buildMerkleTree,
+  verifyMerkleProof,
+  signCheckpoint,
+  verifyCheckpoint,
+} from '../src/crypto';
+import type { ModelCall, SessionEnvelope, ToolInvocation, DecisionPoint, HumanApproval, ContentReference } from '../src/types';
 
 // Helper to create a valid session envelope
 function createSessionEnvelope(overrides: Partial<SessionEnvelope> = {}): SessionEnvelope {
@@ -97,26 +120,36 @@ describe('InMemoryStorage', () => {
 
       await newStorage.initialize(newSession);
 
-      expect(newStorage.getSession()).toEqual(newSession);
+      expect(newStorage.getSession(newSession.session_id)).toEqual(newSession);
     });
 
-    test('resets entries on re-initialize', async () => {
-      await storage.append(createModelCallEntry());
-      await storage.append(createModelCallEntry());
+    test('keeps concurrent sessions independent', async () => {
+      await storage.append(session.session_id, createModelCallEntry());
+      await storage.append(session.session_id, createModelCallEntry());
 
-      expect(await storage.count()).toBe(2);
+      const other = createSessionEnvelope();
+      await storage.initialize(other);
+      const chained = await storage.append(other.session_id, createModelCallEntry());
 
-      // Re-initialize
-      await storage.initialize(createSessionEnvelope());
+      expect(chained.sequence).toBe(0);
+      expect(chained.previous_hash).toBe('');
+      expect(await storage.count(session.session_id)).toBe(2);
+      expect(await storage.count(other.session_id)).toBe(1);
+      expect(storage.listOpenSessions().map(s => s.session_id)).toEqual([session.session_id, other.session_id]);
+    });
 
-      expect(await storage.count()).toBe(0);
+    test('releases a session on close', async () => {
+      await storage.close(session.session_id);
+
+      expect(storage.listOpenSessions()).toEqual([]);
+      await expect(storage.append(session.session_id, createModelCallEntry())).rejects.toThrow(SessionError);
     });
   });
 
   describe('append', () => {
     test('appends single entry', async () => {
       const entry = createModelCallEntry();
-      const chained = await storage.append(entry);
+      const chained = await storage.append(session.session_id, entry);
 
       expect(chained.sequence).toBe(0);
       expect(chained.entry).toEqual(entry);
@@ -129,9 +162,9 @@ describe('InMemoryStorage', () => {
       const entry2 = createModelCallEntry({ prompt_tokens: 200 });
       const entry3 = createModelCallEntry({ prompt_tokens: 300 });
 
-      const chained1 = await storage.append(entry1);
-      const chained2 = await storage.append(entry2);
-      const chained3 = await storage.append(entry3);
+      const chained1 = await storage.append(session.session_id, entry1);
+      const chained2 = await storage.append(session.session_id, entry2);
+      const chained3 = await storage.append(session.session_id, entry3);
 
       expect(chained1.sequence).toBe(0);
       expect(chained2.sequence).toBe(1);
@@ -146,13 +179,13 @@ describe('InMemoryStorage', () => {
       const toolInvocation = createToolInvocationEntry();
       const decisionPoint = createDecisionPointEntry();
 
-      await storage.append(modelCall);
-      await storage.append(toolInvocation);
-      await storage.append(decisionPoint);
+      await storage.append(session.session_id, modelCall);
+      await storage.append(session.session_id, toolInvocation);
+      await storage.append(session.session_id, decisionPoint);
 
-      expect(await storage.count()).toBe(3);
+      expect(await storage.count(session.session_id)).toBe(3);
 
-      const all = await storage.getAll();
+      const all = await storage.getAll(session.session_id);
       expect(all[0]!.entry.type).toBe('model_call');
       expect(all[1]!.entry.type).toBe('tool_invocation');
       expect(all[2]!.entry.type).toBe('decision_point');
@@ -162,53 +195,53 @@ describe('InMemoryStorage', () => {
   describe('getRange', () => {
     beforeEach(async () => {
       for (let i = 0; i < 10; i++) {
-        await storage.append(createModelCallEntry({ prompt_tokens: i * 10 }));
+        await storage.append(session.session_id, createModelCallEntry({ prompt_tokens: i * 10 }));
       }
     });
 
     test('gets specified range', async () => {
-      const range = await storage.getRange(2, 5);
+      const range = await storage.getRange(session.session_id, 2, 5);
       expect(range).toHaveLength(3);
       expect(range[0]!.sequence).toBe(2);
       expect(range[2]!.sequence).toBe(4);
     });
 
     test('handles start at 0', async () => {
-      const range = await storage.getRange(0, 3);
+      const range = await storage.getRange(session.session_id, 0, 3);
       expect(range).toHaveLength(3);
       expect(range[0]!.sequence).toBe(0);
     });
 
     test('handles range beyond entries', async () => {
-      const range = await storage.getRange(8, 20);
+      const range = await storage.getRange(session.session_id, 8, 20);
       expect(range).toHaveLength(2);
     });
 
     test('returns empty for out of range', async () => {
-      const range = await storage.getRange(20, 30);
+      const range = await storage.getRange(session.session_id, 20, 30);
       expect(range).toHaveLength(0);
     });
   });
 
   describe('getAll', () => {
     test('returns empty array initially', async () => {
-      const all = await storage.getAll();
+      const all = await storage.getAll(session.session_id);
       expect(all).toHaveLength(0);
     });
 
     test('returns all entries', async () => {
-      await storage.append(createModelCallEntry());
-      await storage.append(createModelCallEntry());
-      await storage.append(createModelCallEntry());
+      await storage.append(session.session_id, createModelCallEntry());
+      await storage.append(session.session_id, createModelCallEntry());
+      await storage.append(session.session_id, createModelCallEntry());
 
-      const all = await storage.getAll();
+      const all = await storage.getAll(session.session_id);
       expect(all).toHaveLength(3);
     });
 
     test('returns copy (not reference)', async () => {
-      await storage.append(createModelCallEntry());
-      const all1 = await storage.getAll();
-      const all2 = await storage.getAll();
+      await storage.append(session.session_id, createModelCallEntry());
+      const all1 = await storage.getAll(session.session_id);
+      const all2 = await storage.getAll(session.session_id);
 
       expect(all1).toEqual(all2);
       expect(all1).not.toBe(all2);
@@ -217,31 +250,31 @@ describe('InMemoryStorage', () => {
 
   describe('count', () => {
     test('returns 0 initially', async () => {
-      expect(await storage.count()).toBe(0);
+      expect(await storage.count(session.session_id)).toBe(0);
     });
 
     test('returns correct count after appends', async () => {
-      await storage.append(createModelCallEntry());
-      expect(await storage.count()).toBe(1);
+      await storage.append(session.session_id, createModelCallEntry());
+      expect(await storage.count(session.session_id)).toBe(1);
 
-      await storage.append(createModelCallEntry());
-      expect(await storage.count()).toBe(2);
+      await storage.append(session.session_id, createModelCallEntry());
+      expect(await storage.count(session.session_id)).toBe(2);
     });
   });
 
   describe('verify', () => {
     test('verifies empty chain', async () => {
-      const result = await storage.verify();
+      const result = await storage.verify(session.session_id);
       expect(result.valid).toBe(true);
       expect(result.errors).toHaveLength(0);
     });
 
     test('verifies valid chain', async () => {
       for (let i = 0; i < 5; i++) {
-        await storage.append(createModelCallEntry({ prompt_tokens: i * 10 }));
+        await storage.append(session.session_id, createModelCallEntry({ prompt_tokens: i * 10 }));
       }
 
-      const result = await storage.verify();
+      const result = await storage.verify(session.session_id);
       expect(result.valid).toBe(true);
       expect(result.errors).toHaveLength(0);
     });
@@ -249,12 +282,14 @@ describe('InMemoryStorage', () => {
 
   describe('close', () => {
     test('closes session without signing', async () => {
-      await storage.append(createModelCallEntry());
-      await storage.append(createModelCallEntry());
+      await storage.append(session.session_id, createModelCallEntry());
+      await storage.append(session.session_id, createModelCallEntry());
 
-      const log = await storage.close();
+      const log = await storage.close(session.session_id);
 
-      expect(log.version).toBe('1.0.0');
+      expect(log.version).toBe('2.0.0');
+      expect(log.hash_algorithm).toBe('sha256');
+      expect(log.canonicalization).toBe('jcs');
       expect(log.session.closed_at).toBeTruthy();
       expect(log.entries).toHaveLength(2);
       expect(log.merkle_root).toHaveLength(64);
@@ -266,9 +301,9 @@ describe('InMemoryStorage', () => {
     test('closes session with signing', async () => {
       const { publicKey, privateKey } = generateKeyPair();
 
-      await storage.append(createModelCallEntry());
+      await storage.append(session.session_id, createModelCallEntry());
 
-      const log = await storage.close(privateKey, publicKey);
+      const log = await storage.close(session.session_id, new LocalSigner({ privateKey, publicKey }));
 
       expect(log.org_signature).toBeTruthy();
       expect(log.org_signature?.public_key).toBe(publicKey);
@@ -277,11 +312,11 @@ describe('InMemoryStorage', () => {
     });
 
     test('closed log can be verified', async () => {
-      await storage.append(createModelCallEntry());
-      await storage.append(createModelCallEntry());
-      await storage.append(createModelCallEntry());
+      await storage.append(session.session_id, createModelCallEntry());
+      await storage.append(session.session_id, createModelCallEntry());
+      await storage.append(session.session_id, createModelCallEntry());
 
-      const log = await storage.close();
+      const log = await storage.close(session.session_id);
 
       // Verify chain externally
       const chainResult = verifyChain(log.entries);
@@ -291,12 +326,12 @@ describe('InMemoryStorage', () => {
 
   describe('export', () => {
     beforeEach(async () => {
-      await storage.append(createModelCallEntry());
-      await storage.append(createToolInvocationEntry());
+      await storage.append(session.session_id, createModelCallEntry());
+      await storage.append(session.session_id, createToolInvocationEntry());
     });
 
     test('exports to jsonl format', async () => {
-      const buffer = await storage.export({ format: 'jsonl' });
+      const buffer = await storage.export(session.session_id, { format: 'jsonl' });
       const content = buffer.toString();
       const lines = content.split('\n');
 
@@ -310,7 +345,7 @@ describe('InMemoryStorage', () => {
     });
 
     test('exports to splunk_cim format', async () => {
-      const buffer = await storage.export({ format: 'splunk_cim' });
+      const buffer = await storage.export(session.session_id, { format: 'splunk_cim' });
       const content = buffer.toString();
       const lines = content.split('\n');
 
@@ -325,7 +360,7 @@ describe('InMemoryStorage', () => {
     });
 
     test('exports to elastic_ecs format', async () => {
-      const buffer = await storage.export({ format: 'elastic_ecs' });
+      const buffer = await storage.export(session.session_id, { format: 'elastic_ecs' });
       const content = buffer.toString();
       const lines = content.split('\n');
 
@@ -339,7 +374,7 @@ describe('InMemoryStorage', () => {
     });
 
     test('exports to finra_4511 format', async () => {
-      const buffer = await storage.export({ format: 'finra_4511' });
+      const buffer = await storage.export(session.session_id, { format: 'finra_4511' });
       const record = JSON.parse(buffer.toString());
 
       expect(record.record_type).toBe('AI_AGENT_AUDIT_LOG');
@@ -348,13 +383,181 @@ describe('InMemoryStorage', () => {
     });
 
     test('exports to eu_ai_act format', async () => {
-      const buffer = await storage.export({ format: 'eu_ai_act' });
+      const buffer = await storage.export(session.session_id, { format: 'eu_ai_act' });
       const record = JSON.parse(buffer.toString());
 
       expect(record.regulation).toBe('EU_AI_ACT');
       expect(record.article).toBe('12');
       expect(record.events).toBeInstanceOf(Array);
     });
+
+    test('exports to servicenow_grc format', async () => {
+      const buffer = await storage.export(session.session_id, { format: 'servicenow_grc' });
+      const record = JSON.parse(buffer.toString());
+
+      expect(record.format).toBe('servicenow_grc');
+      expect(record.session.session_id).toBe(session.session_id);
+      expect(record.indicator_results.map((r: { indicator: string }) => r.indicator)).toEqual([
+        'AGENTLEDGER_CHAIN_INTEGRITY',
+        'AGENTLEDGER_ORG_SIGNATURE',
+        'AGENTLEDGER_HUMAN_OVERSIGHT',
+        'AGENTLEDGER_ERROR_FREE',
+      ]);
+      expect(record.evidence).toEqual([]);
+    });
+
+    test('exports to onetrust format', async () => {
+      const buffer = await storage.export(session.session_id, { format: 'onetrust' });
+      const record = JSON.parse(buffer.toString());
+
+      expect(record.inventory.external_id).toBe(`${session.org_id}:${session.agent_id}`);
+      expect(record.inventory.tools).toEqual(['test-tool']);
+      expect(record.activity.external_id).toBe(session.session_id);
+      expect(record.activity.metrics.model_calls).toBe(1);
+      expect(record.activity.events).toHaveLength(2);
+    });
+
+    test('links human approvals to their decision as servicenow_grc evidence', async () => {
+      const reviewed = createDecisionPointEntry({ human_review_required: true });
+      const unreviewed = createDecisionPointEntry({ decision_id: 'decision-2', human_review_required: true });
+      const approval: HumanApproval = {
+        type: 'human_approval',
+        entry_id: generateId(),
+        timestamp: timestamp(),
+        approver_id: 'reviewer-1',
+        approver_role: 'supervisor',
+        decision_ref: reviewed.entry_id,
+        approval_type: 'APPROVE',
+      };
+      await storage.append(session.session_id, reviewed);
+      await storage.append(session.session_id, unreviewed);
+      await storage.append(session.session_id, approval);
+
+      const record = JSON.parse((await storage.export(session.session_id, { format: 'servicenow_grc' })).toString());
+      const oversight = record.indicator_results.find(
+        (r: { indicator: string }) => r.indicator === 'AGENTLEDGER_HUMAN_OVERSIGHT',
+      );
+
+      expect(oversight.passed).toBe(false);
+      expect(oversight.supporting_data.unreviewed_decisions).toEqual([unreviewed.entry_id]);
+      expect(record.evidence.map((e: { evidence_type: string }) => e.evidence_type)).toEqual([
+        'decision_point',
+        'decision_point',
+        'human_approval',
+      ]);
+      expect(record.evidence[2].related_evidence).toBe(record.evidence[0].correlation_id);
+    });
+  });
+
+  describe('export fixtures', () => {
+    // Expected outputs for the demo's audit log (examples/demo/output/audit-log.json)
+    const fixtures = join(__dirname, 'fixtures');
+    const demoLog = JSON.parse(readFileSync(join(fixtures, 'demo-audit-log.json'), 'utf-8'));
+
+    test.each([
+      ['servicenow_grc', 'demo.servicenow-grc.json'],
+      ['onetrust', 'demo.onetrust.json'],
+    ] as const)('%s output matches %s', (format, fixture) => {
+      const output = JSON.parse(exportAuditLog(demoLog, { format }).toString());
+      const expected = JSON.parse(readFileSync(join(fixtures, fixture), 'utf-8'));
+
+      expect(output).toEqual(expected);
+    });
+  });
+
+  describe('export options', () => {
+    const jsonlEntries = (buffer: Buffer) => buffer.toString()
+      .split('\n')
+      .map(line => JSON.parse(line))
+      .filter(line => line.type === 'entry');
+
+    function createContentReference(content: string, containsPii: boolean): ContentReference {
+      return {
+        type: 'content_reference',
+        entry_id: generateId(),
+        timestamp: timestamp(),
+        content_type: 'prompt',
+        parent_entry_id: generateId(),
+        content_hash: hashContent(content),
+        size_bytes: Buffer.byteLength(content),
+        contains_pii: containsPii,
+      };
+    }
+
+    test('filters by date_range and ships inclusion proofs', async () => {
+      await storage.append(session.session_id, createModelCallEntry({ timestamp: '2025-01-01T00:00:00.000Z' }));
+      await storage.append(session.session_id, createModelCallEntry({ timestamp: '2025-02-01T00:00:00.000Z' }));
+      await storage.append(session.session_id, createModelCallEntry({ timestamp: '2025-03-01T00:00:00.000Z' }));
+      const all = await storage.getAll(session.session_id);
+
+      const buffer = await storage.export(session.session_id, {
+        format: 'jsonl',
+        date_range: { start: new Date('2025-01-15T00:00:00Z'), end: new Date('2025-03-01T00:00:00Z') },
+      });
+      const entries = jsonlEntries(buffer);
+
+      expect(entries.map(e => e.sequence)).toEqual([1, 2]);
+      const { root } = buildMerkleTree(all.map(e => e.entry_hash));
+      for (const entry of entries) {
+        expect(entry.merkle_proof.root).toBe(root);
+        expect(verifyMerkleProof(entry.entry_hash, entry.merkle_proof.path, root)).toBe(true);
+      }
+    });
+
+    test('omits proofs when nothing is filtered', async () => {
+      await storage.append(session.session_id, createModelCallEntry());
+
+      const entries = jsonlEntries(await storage.export(session.session_id, { format: 'jsonl' }));
+
+      expect(entries[0].merkle_proof).toBeUndefined();
+    });
+
+    test('redact_pii drops content references flagged as PII', async () => {
+      await storage.append(session.session_id, createModelCallEntry());
+      await storage.append(session.session_id, createContentReference('jane@example.com', true));
+      await storage.append(session.session_id, createContentReference('weather', false));
+
+      const record = JSON.parse((await storage.export(session.session_id, {
+        format: 'finra_4511',
+        redact_pii: true,
+      })).toString());
+
+      expect(record.records.map((r: { sequence_number: number }) => r.sequence_number)).toEqual([0, 2]);
+      expect(record.records[1].merkle_proof.leaf_index).toBe(2);
+    });
+
+    test('include_content inlines stored content', async () => {
+      storage.storeContent(hashContent('hello world'), Buffer.from('hello world'));
+      await storage.append(session.session_id, createContentReference('hello world', false));
+      await storage.append(session.session_id, createContentReference('never stored', false));
+
+      const entries = jsonlEntries(await storage.export(session.session_id, {
+        format: 'jsonl',
+        include_content: true,
+      }));
+
+      expect(Buffer.from(entries[0].content_base64, 'base64').toString()).toBe('hello world');
+      expect(entries[1].content_base64).toBeUndefined();
+    });
+
+    test('does not inline content unless requested', async () => {
+      storage.storeContent(hashContent('hello world'), Buffer.from('hello world'));
+      await storage.append(session.session_id, createContentReference('hello world', false));
+
+      const entries = jsonlEntries(await storage.export(session.session_id, { format: 'jsonl' }));
+
+      expect(entries[0].content_base64).toBeUndefined();
+    });
+
+    test('compress gzips the output', async () => {
+      await storage.append(session.session_id, createModelCallEntry());
+
+      const buffer = await storage.export(session.session_id, { format: 'eu_ai_act', compress: true });
+
+      expect(buffer[0]).toBe(0x1f);
+      expect(buffer[1]).toBe(0x8b);
+      expect(JSON.parse(gunzipSync(buffer).toString()).regulation).toBe('EU_AI_ACT');
+    });
   });
 
   describe('content storage', () => {
@@ -410,6 +613,20 @@ describe('FileSystemStorage', () => {
       expect(existsSync(join(sessionDir, 'audit.jsonl'))).toBe(true);
     });
 
+    test('writes interleaved sessions to separate logs', async () => {
+      const other = createSessionEnvelope();
+      await storage.initialize(other);
+
+      await storage.append(session.session_id, createModelCallEntry());
+      await storage.append(other.session_id, createModelCallEntry());
+      await storage.append(session.session_id, createModelCallEntry());
+
+      expect(await storage.count(session.session_id)).toBe(2);
+      expect(await storage.count(other.session_id)).toBe(1);
+      expect((await storage.verify(session.session_id)).valid).toBe(true);
+      expect((await storage.verify(other.session_id)).valid).toBe(true);
+    });
+
     test('writes session header', async () => {
       const sessionDir = join(testBasePath, session.org_id, session.session_id);
       const content = readFileSync(join(sessionDir, 'audit.jsonl'), 'utf-8');
@@ -425,7 +642,7 @@ describe('FileSystemStorage', () => {
   describe('append', () => {
     test('appends entries to file', async () => {
       const entry = createModelCallEntry();
-      await storage.append(entry);
+      await storage.append(session.session_id, entry);
 
       const sessionDir = join(testBasePath, session.org_id, session.session_id);
       const content = readFileSync(join(sessionDir, 'audit.jsonl'), 'utf-8');
@@ -435,31 +652,31 @@ describe('FileSystemStorage', () => {
     });
 
     test('maintains correct chain across appends', async () => {
-      await storage.append(createModelCallEntry());
-      await storage.append(createModelCallEntry());
-      await storage.append(createModelCallEntry());
+      await storage.append(session.session_id, createModelCallEntry());
+      await storage.append(session.session_id, createModelCallEntry());
+      await storage.append(session.session_id, createModelCallEntry());
 
-      const result = await storage.verify();
+      const result = await storage.verify(session.session_id);
       expect(result.valid).toBe(true);
     });
   });
 
   describe('getAll', () => {
     test('retrieves all entries from file', async () => {
-      await storage.append(createModelCallEntry());
-      await storage.append(createModelCallEntry());
-      await storage.append(createModelCallEntry());
+      await storage.append(session.session_id, createModelCallEntry());
+      await storage.append(session.session_id, createModelCallEntry());
+      await storage.append(session.session_id, createModelCallEntry());
 
-      const all = await storage.getAll();
+      const all = await storage.getAll(session.session_id);
       expect(all).toHaveLength(3);
     });
   });
 
   describe('close', () => {
     test('writes final log file', async () => {
-      await storage.append(createModelCallEntry());
+      await storage.append(session.session_id, createModelCallEntry());
 
-      const log = await storage.close();
+      const log = await storage.close(session.session_id);
 
       const sessionDir = join(testBasePath, session.org_id, session.session_id);
       const finalPath = join(sessionDir, 'audit.final.json');
@@ -469,7 +686,7 @@ describe('FileSystemStorage', () => {
       const content = readFileSync(finalPath, 'utf-8');
       const parsedLog = JSON.parse(content);
 
-      expect(parsedLog.version).toBe('1.0.0');
+      expect(parsedLog.version).toBe('2.0.0');
       expect(parsedLog.entries).toHaveLength(1);
     });
   });
@@ -478,17 +695,683 @@ describe('FileSystemStorage', () => {
     test('complete lifecycle', async () => {
       // Append entries
       for (let i = 0; i < 10; i++) {
-        await storage.append(createModelCallEntry({ prompt_tokens: i * 10 }));
+        await storage.append(session.session_id, createModelCallEntry({ prompt_tokens: i * 10 }));
       }
 
       // Verify
-      const verifyResult = await storage.verify();
+      const verifyResult = await storage.verify(session.session_id);
       expect(verifyResult.valid).toBe(true);
 
       // Close
-      const log = await storage.close();
+      const log = await storage.close(session.session_id);
       expect(log.entries).toHaveLength(10);
       expect(log.integrity?.chain_valid).toBe(true);
     });
   });
+
+  describe('crash recovery', () => {
+    let logPath: string;
+
+    beforeEach(async () => {
+      logPath = join(testBasePath, session.org_id, session.session_id, 'audit.jsonl');
+      for (let i = 0; i < 3; i++) {
+        await storage.append(session.session_id, createModelCallEntry({ prompt_tokens: i * 10 }));
+      }
+    });
+
+    test('open replays the log and continues the chain', async () => {
+      const reopened = await FileSystemStorage.open(logPath);
+
+      expect(reopened.getSession(session.session_id).session_id).toBe(session.session_id);
+      expect(await reopened.count(session.session_id)).toBe(3);
+
+      const chained = await reopened.append(session.session_id, createModelCallEntry());
+      const all = await reopened.getAll(session.session_id);
+
+      expect(chained.sequence).toBe(3);
+      expect(chained.previous_hash).toBe(all[2]!.entry_hash);
+      expect((await reopened.verify(session.session_id)).valid).toBe(true);
+    });
+
+    test('writes checkpoints into the log and restores them on resume', async () => {
+      const { publicKey, privateKey } = generateKeyPair();
+      const entries = await storage.getAll(session.session_id);
+      const checkpoint = signCheckpoint(session.session_id, entries.map(e => e.entry_hash), privateKey, publicKey);
+      await storage.appendCheckpoint(session.session_id, checkpoint);
+
+      const lines = readFileSync(logPath, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+      expect(lines[lines.length - 1]).toEqual({ type: 'checkpoint', data: checkpoint });
+
+      const resumed = new FileSystemStorage(testBasePath);
+      await resumed.resume(session.org_id, session.session_id);
+      await resumed.append(session.session_id, createModelCallEntry());
+      const log = await resumed.close(session.session_id);
+
+      expect(log.entries).toHaveLength(4);
+      expect(log.checkpoints).toEqual([checkpoint]);
+      expect(verifyCheckpoint(checkpoint, log.entries).valid).toBe(true);
+    });
+
+    test('resume locates the session by org and session id', async () => {
+      const resumed = new FileSystemStorage(testBasePath);
+      const resumedSession = await resumed.resume(session.org_id, session.session_id);
+
+      expect(resumedSession).toEqual(session);
+      expect(await resumed.count(session.session_id)).toBe(3);
+    });
+
+    test('quarantines a torn last line', async () => {
+      appendFileSync(logPath, '{"type":"entry","data":{"sequence":3,"entr');
+
+      const reopened = await FileSystemStorage.open(logPath);
+
+      expect(await reopened.count(session.session_id)).toBe(3);
+      expect(existsSync(`${logPath}.quarantine`)).toBe(true);
+
+      const quarantined = JSON.parse(readFileSync(`${logPath}.quarantine`, 'utf-8'));
+      expect(quarantined.data).toBe('{"type":"entry","data":{"sequence":3,"entr');
+
+      await reopened.append(session.session_id, createModelCallEntry());
+      expect((await reopened.verify(session.session_id)).valid).toBe(true);
+      expect(await reopened.getAll(session.session_id)).toHaveLength(4);
+    });
+
+    test('keeps a complete last entry missing its newline', async () => {
+      const content = readFileSync(logPath, 'utf-8');
+      writeFileSync(logPath, content.slice(0, -1));
+
+      const reopened = await FileSystemStorage.open(logPath);
+
+      expect(await reopened.count(session.session_id)).toBe(3);
+      expect(existsSync(`${logPath}.quarantine`)).toBe(false);
+
+      await reopened.append(session.session_id, createModelCallEntry());
+      expect((await reopened.verify(session.session_id)).valid).toBe(true);
+    });
+
+    test('refuses to resume a closed session', async () => {
+      await storage.close(session.session_id);
+
+      await expect(FileSystemStorage.open(logPath)).rejects.toThrow('already been closed');
+    });
+
+    test('refuses to resume a broken chain', async () => {
+      const lines = readFileSync(logPath, 'utf-8').trim().split('\n');
+      const tampered = JSON.parse(lines[2]!);
+      tampered.data.entry.prompt_tokens = 9999;
+      lines[2] = JSON.stringify(tampered);
+      writeFileSync(logPath, lines.join('\n') + '\n');
+
+      await expect(FileSystemStorage.open(logPath)).rejects.toThrow('broken hash chain');
+    });
+
+    test('throws for a missing session', async () => {
+      const resumed = new FileSystemStorage(testBasePath);
+
+      await expect(resumed.resume(session.org_id, generateId())).rejects.toThrow('No session log found');
+    });
+  });
+});
+
+describe('SqliteStorage', () => {
+  const testBasePath = join(__dirname, '../.test-sqlite');
+  const dbPath = join(testBasePath, 'audit.db');
+  let storage: SqliteStorage;
+  let session: SessionEnvelope;
+
+  beforeEach(async () => {
+    if (existsSync(testBasePath)) {
+      rmSync(testBasePath, { recursive: true });
+    }
+
+    storage = new SqliteStorage(dbPath);
+    session = createSessionEnvelope();
+    await storage.initialize(session);
+  });
+
+  afterEach(() => {
+    storage.dispose();
+    if (existsSync(testBasePath)) {
+      rmSync(testBasePath, { recursive: true });
+    }
+  });
+
+  describe('initialize', () => {
+    test('creates database file', () => {
+      expect(existsSync(dbPath)).toBe(true);
+      expect(storage.getSession(session.session_id)).toEqual(session);
+    });
+
+    test('supports in-memory databases', async () => {
+      const memoryStorage = new SqliteStorage(':memory:');
+      const memorySession = createSessionEnvelope();
+      await memoryStorage.initialize(memorySession);
+      await memoryStorage.append(memorySession.session_id, createModelCallEntry());
+
+      expect(await memoryStorage.count(memorySession.session_id)).toBe(1);
+      memoryStorage.dispose();
+    });
+
+    test('throws SessionError for a session that was never initialized', async () => {
+      const uninitialized = new SqliteStorage(':memory:');
+      await expect(uninitialized.getAll(generateId())).rejects.toThrow(SessionError);
+    });
+  });
+
+  describe('append', () => {
+    test('produces the same chain as createChainedEntry', async () => {
+      const entry1 = createModelCallEntry();
+      const entry2 = createToolInvocationEntry();
+
+      const chained1 = await storage.append(session.session_id, entry1);
+      const chained2 = await storage.append(session.session_id, entry2);
+
+      expect(chained1).toEqual(createChainedEntry(entry1, 0, ''));
+      expect(chained2).toEqual(createChainedEntry(entry2, 1, chained1.entry_hash));
+    });
+
+    test('round-trips entries through the database', async () => {
+      const chained = await storage.append(session.session_id, createDecisionPointEntry());
+      const [stored] = await storage.getAll(session.session_id);
+
+      expect(stored).toEqual(chained);
+    });
+  });
+
+  describe('getRange', () => {
+    beforeEach(async () => {
+      for (let i = 0; i < 10; i++) {
+        await storage.append(session.session_id, createModelCallEntry({ prompt_tokens: i * 10 }));
+      }
+    });
+
+    test('gets specified range', async () => {
+      const range = await storage.getRange(session.session_id, 2, 5);
+      expect(range.map(e => e.sequence)).toEqual([2, 3, 4]);
+    });
+
+    test('handles range beyond entries', async () => {
+      const range = await storage.getRange(session.session_id, 8, 20);
+      expect(range).toHaveLength(2);
+    });
+
+    test('returns empty for out of range', async () => {
+      const range = await storage.getRange(session.session_id, 20, 30);
+      expect(range).toHaveLength(0);
+    });
+  });
+
+  describe('multiple sessions', () => {
+    test('keeps sessions in the same database separate', async () => {
+      await storage.append(session.session_id, createModelCallEntry());
+      await storage.append(session.session_id, createModelCallEntry());
+
+      const other = new SqliteStorage(dbPath);
+      const otherSession = createSessionEnvelope();
+      await other.initialize(otherSession);
+      await other.append(otherSession.session_id, createModelCallEntry());
+
+      expect(await storage.getAll(session.session_id)).toHaveLength(2);
+      expect(await other.getAll(otherSession.session_id)).toHaveLength(1);
+      expect((await other.verify(otherSession.session_id)).valid).toBe(true);
+      other.dispose();
+    });
+  });
+
+  describe('close', () => {
+    test('closes session with signing', async () => {
+      const { publicKey, privateKey } = generateKeyPair();
+
+      for (let i = 0; i < 5; i++) {
+        await storage.append(session.session_id, createModelCallEntry({ prompt_tokens: i * 10 }));
+      }
+
+      const log = await storage.close(session.session_id, new LocalSigner({ privateKey, publicKey }));
+
+      expect(log.entries).toHaveLength(5);
+      expect(log.merkle_root).toHaveLength(64);
+      expect(log.integrity?.chain_valid).toBe(true);
+      expect(log.integrity?.signature_valid).toBe(true);
+    });
+
+    test('persists checkpoints and includes them in the closed log', async () => {
+      const { publicKey, privateKey } = generateKeyPair();
+      await storage.append(session.session_id, createModelCallEntry());
+      const entries = await storage.getAll(session.session_id);
+      const checkpoint = signCheckpoint(session.session_id, entries.map(e => e.entry_hash), privateKey, publicKey);
+      await storage.appendCheckpoint(session.session_id, checkpoint);
+
+      const log = await storage.close(session.session_id);
+      expect(log.checkpoints).toEqual([checkpoint]);
+
+      const db = new Database(dbPath, { readonly: true });
+      const rows = db.prepare('SELECT tree_size, root_hash FROM checkpoints WHERE session_id = ?').all(session.session_id);
+      db.close();
+      expect(rows).toEqual([{ tree_size: 1, root_hash: checkpoint.root_hash }]);
+    });
+  });
+
+  describe('dispose', () => {
+    test('releases the database and reopens it on next use', async () => {
+      await storage.append(session.session_id, createModelCallEntry());
+
+      storage.dispose();
+      storage.dispose();
+
+      await storage.append(session.session_id, createModelCallEntry());
+      expect((await storage.verify(session.session_id)).valid).toBe(true);
+      expect(await storage.getAll(session.session_id)).toHaveLength(2);
+    });
+  });
+});
+
+// Minimal S3 stand-in: checks SigV4 signatures and serves PUT/GET/ListObjectsV2
+interface MockS3 {
+  server: Server;
+  endpoint: string;
+  objects: Map<string, string>;
+  headers: Map<string, Record<string, string>>;
+  legalHolds: Map<string, string>;
+  failures: number[];
+  /** Delay before answering a PUT */
+  putDelayMs: number;
+  objectLockEnabled: boolean;
+}
+
+const s3Credentials = { accessKeyId: 'test-access-key', secretAccessKey: 'test-secret-key' };
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+  });
+}
+
+async function startMockS3(): Promise<MockS3> {
+  const objects = new Map<string, string>();
+  const objectHeaders = new Map<string, Record<string, string>>();
+  const legalHolds = new Map<string, string>();
+  const failures: number[] = [];
+  let mock: MockS3;
+
+  const server = createServer(async (req, res) => {
+    const body = await readBody(req);
+    const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+
+    // Re-sign what arrived and compare with the client's Authorization header
+    const authorization = String(req.headers['authorization'] ?? '');
+    const signedHeaderNames = authorization.match(/SignedHeaders=([^,]+)/)?.[1]?.split(';') ?? [];
+    const headers: Record<string, string> = {};
+    for (const name of signedHeaderNames) {
+      if (!['host', 'x-amz-date', 'x-amz-content-sha256'].includes(name)) {
+        headers[name] = String(req.headers[name]);
+      }
+    }
+    const amzDate = String(req.headers['x-amz-date'] ?? '');
+    const signedAt = new Date(amzDate.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, '$1-$2-$3T$4:$5:$6Z'));
+    const expected = signRequest(
+      { method: req.method ?? 'GET', url, headers, body: body || undefined },
+      s3Credentials,
+      'us-east-1',
+      's3',
+      signedAt,
+    );
+
+    if (expected['authorization'] !== authorization) {
+      res.writeHead(403).end('<Error><Code>SignatureDoesNotMatch</Code></Error>');
+      return;
+    }
+
+    const failure = failures.shift();
+    if (failure) {
+      res.writeHead(failure).end('<Error><Code>InternalError</Code></Error>');
+      return;
+    }
+
+    if (req.method === 'PUT' && mock.putDelayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, mock.putDelayMs));
+    }
+
+    const [, bucket, ...rest] = url.pathname.split('/');
+    const key = decodeURIComponent(rest.join('/'));
+
+    if (url.searchParams.has('object-lock')) {
+      if (mock.objectLockEnabled) {
+        res.writeHead(200).end('<ObjectLockConfiguration><ObjectLockEnabled>Enabled</ObjectLockEnabled></ObjectLockConfiguration>');
+      } else {
+        res.writeHead(404).end('<Error><Code>ObjectLockConfigurationNotFoundError</Code></Error>');
+      }
+    } else if (req.method === 'PUT' && url.searchParams.has('legal-hold')) {
+      legalHolds.set(`${bucket}/${key}`, body.match(/<Status>(\w+)<\/Status>/)?.[1] ?? '');
+      res.writeHead(200).end();
+    } else if (req.method === 'PUT') {
+      objects.set(`${bucket}/${key}`, body);
+      objectHeaders.set(`${bucket}/${key}`, headers);
+      res.writeHead(200).end();
+    } else if (url.searchParams.get('list-type') === '2') {
+      const prefix = `${bucket}/${url.searchParams.get('prefix') ?? ''}`;
+      const keys = [...objects.keys()]
+        .filter(k => k.startsWith(prefix))
+        .map(k => `<Contents><Key>${k.slice(bucket!.length + 1)}</Key></Contents>`);
+      res.writeHead(200, { 'content-type': 'application/xml' })
+        .end(`<ListBucketResult><IsTruncated>false</IsTruncated>${keys.join('')}</ListBucketResult>`);
+    } else if (objects.has(`${bucket}/${key}`)) {
+      res.writeHead(200).end(objects.get(`${bucket}/${key}`));
+    } else {
+      res.writeHead(404).end('<Error><Code>NoSuchKey</Code></Error>');
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  mock = {
+    server,
+    endpoint: `http://127.0.0.1:${port}`,
+    objects,
+    headers: objectHeaders,
+    legalHolds,
+    failures,
+    putDelayMs: 0,
+    objectLockEnabled: false,
+  };
+  return mock;
+}
+
+describe('S3Storage', () => {
+  let s3: MockS3;
+  let storage: S3Storage;
+  let session: SessionEnvelope;
+
+  beforeAll(async () => {
+    s3 = await startMockS3();
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => s3.server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    s3.objects.clear();
+    s3.headers.clear();
+    s3.legalHolds.clear();
+    s3.failures.length = 0;
+    s3.putDelayMs = 0;
+    s3.objectLockEnabled = false;
+    storage = new S3Storage({ endpoint: s3.endpoint, bucket: 'audit', ...s3Credentials });
+    session = createSessionEnvelope();
+    await storage.initialize(session);
+  });
+
+  afterEach(async () => {
+    // Stops the flush interval
+    s3.failures.length = 0;
+    if (storage.listOpenSessions().length > 0) {
+      await storage.close(session.session_id);
+    }
+  });
+
+  test('writes signed session metadata', () => {
+    const stored = s3.objects.get(`audit/${session.org_id}/${session.session_id}/session.json`);
+    expect(JSON.parse(stored!)).toEqual(session);
+  });
+
+  test('rejects requests with a wrong secret', async () => {
+    const badStorage = new S3Storage({ endpoint: s3.endpoint, bucket: 'audit', accessKeyId: 'test-access-key', secretAccessKey: 'wrong' });
+
+    await expect(badStorage.initialize(createSessionEnvelope())).rejects.toThrow(StorageError);
+    expect(badStorage.listOpenSessions()).toEqual([]);
+  });
+
+  test('surfaces non-2xx responses as StorageError', async () => {
+    s3.failures.push(500);
+
+    const error = await storage.getObject('missing').catch(e => e);
+    expect(error).toBeInstanceOf(StorageError);
+    expect(error.details.status).toBe(500);
+
+    await expect(storage.getObject('missing')).rejects.toThrow('status 404');
+  });
+
+  test('flushes batches of 100 entries to S3', async () => {
+    for (let i = 0; i < 150; i++) {
+      await storage.append(session.session_id, createModelCallEntry({ prompt_tokens: i }));
+    }
+
+    const keys = await storage.listObjects(`${session.org_id}/${session.session_id}/entries/`);
+    expect(keys).toEqual([`${session.org_id}/${session.session_id}/entries/0-99.jsonl`]);
+  });
+
+  test('rebuilds the chain from persisted batches', async () => {
+    for (let i = 0; i < 250; i++) {
+      await storage.append(session.session_id, createModelCallEntry({ prompt_tokens: i }));
+    }
+
+    const all = await storage.getAll(session.session_id);
+    expect(all).toHaveLength(250);
+    expect(all.map(e => e.sequence)).toEqual([...Array(250).keys()]);
+    expect((await storage.verify(session.session_id)).valid).toBe(true);
+
+    const range = await storage.getRange(session.session_id, 95, 205);
+    expect(range.map(e => e.sequence)).toEqual([...Array(110).keys()].map(i => i + 95));
+  });
+
+  test('flushes pending entries before writing a checkpoint', async () => {
+    const { publicKey, privateKey } = generateKeyPair();
+    for (let i = 0; i < 3; i++) {
+      await storage.append(session.session_id, createModelCallEntry({ prompt_tokens: i }));
+    }
+    const entries = await storage.getAll(session.session_id);
+    const checkpoint = signCheckpoint(session.session_id, entries.map(e => e.entry_hash), privateKey, publicKey);
+
+    await storage.appendCheckpoint(session.session_id, checkpoint);
+
+    const prefix = `audit/${session.org_id}/${session.session_id}`;
+    expect(s3.objects.has(`${prefix}/entries/0-2.jsonl`)).toBe(true);
+    expect(JSON.parse(s3.objects.get(`${prefix}/checkpoints/3.json`)!)).toEqual(checkpoint);
+    expect((await storage.close(session.session_id)).checkpoints).toEqual([checkpoint]);
+  });
+
+  test('verify detects tampering in a persisted batch', async () => {
+    for (let i = 0; i < 100; i++) {
+      await storage.append(session.session_id, createModelCallEntry({ prompt_tokens: i }));
+    }
+
+    const key = `audit/${session.org_id}/${session.session_id}/entries/0-99.jsonl`;
+    s3.objects.set(key, s3.objects.get(key)!.replace('"prompt_tokens":42', '"prompt_tokens":4200'));
+
+    const result = await storage.verify(session.session_id);
+    expect(result.valid).toBe(false);
+  });
+
+  test('re-queues a batch whose upload failed under its own key range', async () => {
+    for (let i = 0; i < 99; i++) {
+      await storage.append(session.session_id, createModelCallEntry({ prompt_tokens: i }));
+    }
+
+    s3.failures.push(503);
+    const chained = await storage.append(session.session_id, createModelCallEntry());
+    expect(chained.sequence).toBe(99);
+    for (let i = 0; i < 50; i++) {
+      await storage.append(session.session_id, createModelCallEntry({ prompt_tokens: i }));
+    }
+
+    const log = await storage.close(session.session_id);
+    expect(log.entries.map(e => e.sequence)).toEqual([...Array(150).keys()]);
+    expect(log.integrity?.chain_valid).toBe(true);
+    const prefix = `audit/${session.org_id}/${session.session_id}`;
+    expect([...s3.objects.keys()].filter(k => k.startsWith(`${prefix}/entries/`)).sort())
+      .toEqual([`${prefix}/entries/0-99.jsonl`, `${prefix}/entries/100-149.jsonl`]);
+    expect(s3.objects.has(`${prefix}/audit.final.json`)).toBe(true);
+  });
+
+  test('close() and reads wait for a batch still being written', async () => {
+    for (let i = 0; i < 99; i++) {
+      await storage.append(session.session_id, createModelCallEntry({ prompt_tokens: i }));
+    }
+
+    s3.putDelayMs = 200;
+    const flushing = storage.append(session.session_id, createModelCallEntry());
+    const all = storage.getAll(session.session_id);
+    const log = storage.close(session.session_id);
+
+    await flushing;
+    expect(await all).toHaveLength(100);
+    expect((await log).entries).toHaveLength(100);
+  });
+
+  test('close() fails while a batch cannot be written', async () => {
+    for (let i = 0; i < 100; i++) {
+      if (i === 99) s3.failures.push(503);
+      await storage.append(session.session_id, createModelCallEntry({ prompt_tokens: i }));
+    }
+
+    s3.failures.push(503);
+    await expect(storage.close(session.session_id)).rejects.toThrow(StorageError);
+    expect(storage.listOpenSessions()).toHaveLength(1);
+    expect((await storage.close(session.session_id)).entries).toHaveLength(100);
+  });
+
+  test('keeps a session open for a retry when the final upload fails', async () => {
+    const ledger = new Ledger({
+      orgId: 'test-org',
+      agentId: 'test-agent',
+      environment: 'test',
+      compliance: ['SOC2'],
+      storage,
+    });
+    const handle = await ledger.start({ type: 'user', identifier: 'test-user' });
+    await handle.snapshot({ trigger: 'manual', stateHash: hashContent('state'), schemaVersion: '1.0.0' });
+
+    s3.failures.push(503);
+    await expect(handle.close()).rejects.toThrow(StorageError);
+    expect(handle.isClosed).toBe(false);
+    expect(ledger.listOpenSessions()).toHaveLength(1);
+
+    const log = await handle.close();
+    expect(log.entries).toHaveLength(1);
+    expect(handle.isClosed).toBe(true);
+    expect(s3.objects.has(`audit/test-org/${handle.sessionId}/audit.final.json`)).toBe(true);
+  });
+
+  describe('object lock', () => {
+    test('sets retention headers derived from retention_days', async () => {
+      const lockedSession = createSessionEnvelope({
+        initiated_at: '2025-01-01T00:00:00.000Z',
+        retention_days: 2555,
+      });
+      const locked = new S3Storage({
+        endpoint: s3.endpoint,
+        bucket: 'audit',
+        ...s3Credentials,
+        objectLock: { mode: 'COMPLIANCE' },
+      });
+      await locked.initialize(lockedSession);
+      await locked.close(lockedSession.session_id);
+
+      const headers = s3.headers.get(`audit/${lockedSession.org_id}/${lockedSession.session_id}/audit.final.json`);
+      expect(headers?.['x-amz-object-lock-mode']).toBe('COMPLIANCE');
+      expect(headers?.['x-amz-object-lock-retain-until-date']).toBe('2031-12-31T00:00:00.000Z');
+      expect(headers?.['content-md5']).toBeTruthy();
+    });
+
+    test('omits lock headers when not configured', () => {
+      const headers = s3.headers.get(`audit/${session.org_id}/${session.session_id}/session.json`);
+      expect(headers?.['x-amz-object-lock-mode']).toBeUndefined();
+      expect(headers?.['x-amz-object-lock-legal-hold']).toBeUndefined();
+    });
+
+    test('refuses to start in production without bucket object lock', async () => {
+      const locked = new S3Storage({
+        endpoint: s3.endpoint,
+        bucket: 'audit',
+        ...s3Credentials,
+        objectLock: { mode: 'GOVERNANCE' },
+      });
+
+      await expect(locked.initialize(createSessionEnvelope({ environment: 'production' })))
+        .rejects.toThrow('does not have Object Lock enabled');
+    });
+
+    test('starts in production when bucket reports object lock enabled', async () => {
+      s3.objectLockEnabled = true;
+      const locked = new S3Storage({
+        endpoint: s3.endpoint,
+        bucket: 'audit',
+        ...s3Credentials,
+        objectLock: { mode: 'GOVERNANCE' },
+      });
+
+      const productionSession = createSessionEnvelope({ environment: 'production' });
+      await locked.initialize(productionSession);
+      await locked.close(productionSession.session_id);
+    });
+
+    test('applies legal hold to existing and future objects', async () => {
+      await storage.append(session.session_id, createModelCallEntry());
+      await storage.setLegalHold(session.session_id, true);
+
+      const prefix = `audit/${session.org_id}/${session.session_id}`;
+      expect(s3.legalHolds.get(`${prefix}/session.json`)).toBe('ON');
+
+      await storage.close(session.session_id);
+      expect(s3.headers.get(`${prefix}/entries/0-0.jsonl`)?.['x-amz-object-lock-legal-hold']).toBe('ON');
+      expect(s3.headers.get(`${prefix}/audit.final.json`)?.['x-amz-object-lock-legal-hold']).toBe('ON');
+    });
+  });
+
+  describe('encryption at rest', () => {
+    test('writes sealed entry batches and final log', async () => {
+      const keyProvider = new LocalKeyProvider(randomBytes(32));
+      const encryptedSession = createSessionEnvelope();
+      encryptedSession.encryption = (await createSessionKey(keyProvider, encryptedSession, { entries: true })).encryption;
+      const encrypted = new S3Storage({ endpoint: s3.endpoint, bucket: 'audit', ...s3Credentials }, { keyProvider });
+
+      await encrypted.initialize(encryptedSession);
+      await encrypted.append(encryptedSession.session_id, createModelCallEntry({ model_id: 'secret-model' }));
+      const log = await encrypted.close(encryptedSession.session_id);
+
+      const prefix = `audit/${encryptedSession.org_id}/${encryptedSession.session_id}`;
+      expect(s3.objects.get(`${prefix}/entries/0-0.jsonl`)).toContain('encrypted_entry');
+      expect(s3.objects.get(`${prefix}/entries/0-0.jsonl`)).not.toContain('secret-model');
+      expect(s3.objects.get(`${prefix}/audit.final.json`)).not.toContain('secret-model');
+      expect((log.entries[0]?.entry as ModelCall).model_id).toBe('secret-model');
+      expect(log.integrity?.chain_valid).toBe(true);
+    });
+  });
+
+  describe('S3ContentStore', () => {
+    test('stores content under its hash', async () => {
+      const store = new S3ContentStore({ endpoint: s3.endpoint, bucket: 'audit', ...s3Credentials });
+      const content = Buffer.from('full completion text');
+      const hash = hashContent(content);
+
+      const uri = await store.put(hash, content);
+
+      expect(uri).toBe(`s3://audit/content/sha256/${hash}`);
+      expect(s3.objects.get(`audit/content/sha256/${hash}`)).toBe('full completion text');
+      expect(await store.get(hash)).toEqual(content);
+    });
+
+    test('honours a custom prefix', async () => {
+      const store = new S3ContentStore({ endpoint: s3.endpoint, bucket: 'audit', ...s3Credentials, prefix: 'blobs/' });
+      const hash = hashContent('x');
+
+      expect(await store.put(hash, Buffer.from('x'))).toBe(`s3://audit/blobs/sha256/${hash}`);
+    });
+
+    test('returns undefined for missing content', async () => {
+      const store = new S3ContentStore({ endpoint: s3.endpoint, bucket: 'audit', ...s3Credentials });
+
+      expect(await store.get(hashContent('never stored'))).toBeUndefined();
+    });
+
+    test('surfaces other failures as StorageError', async () => {
+      const store = new S3ContentStore({ endpoint: s3.endpoint, bucket: 'audit', ...s3Credentials });
+      s3.failures.push(500);
+
+      await expect(store.get(hashContent('x'))).rejects.toThrow(StorageError);
+    });
+  });
 });
@@ -0,0 +1,238 @@
+/**
+ * Tests for per-log hash and signature suites
+ */
+
+import { Ledger, generateSigningKeys } from '../src/ledger';
+import { createTestLedger } from './helpers';
+import { KeyRegistry } from '../src/keys';
+import { LocalTimestampAuthority, verifyTimestampToken } from '../src/tsa';
+import {
+  digest,
+  hashObject,
+  logSuite,
+  keyAlgorithm,
+  keyId,
+  sign,
+  verify,
+  generateKeyPair,
+  suiteAlgorithms,
+  createChainedEntry,
+  verifyChain,
+  buildMerkleTree,
+  getConsistencyProof,
+  verifyConsistencyProof,
+  signCheckpoint,
+  verifyCheckpoint,
+  signAuditLog,
+  verifyAuditLogSignature,
+  signErasure,
+  verifyErasure,
+  hashContent,
+  generateId,
+  timestamp,
+} from '../src/crypto';
+import { CryptoError, ValidationError } from '../src/errors';
+import { createHash, createPublicKey, generateKeyPairSync } from 'crypto';
+import { mkdirSync, rmSync, existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+import type { AuditLog, CryptoSuite } from '../src/types';
+
+const testDir = join(__dirname, '../.test-suite');
+const suites: CryptoSuite[] = ['sha256+ed25519', 'sha384+ecdsa-p384', 'sha3-256+ed25519'];
+
+async function snapshot(ledger: Ledger): Promise<void> {
+  await ledger.snapshot({ trigger: 'manual', stateHash: hashContent('state'), schemaVersion: '1.0.0' });
+}
+
+beforeEach(() => {
+  if (existsSync(testDir)) {
+    rmSync(testDir, { recursive: true });
+  }
+  mkdirSync(testDir, { recursive: true });
+});
+
+afterAll(() => {
+  if (existsSync(testDir)) {
+    rmSync(testDir, { recursive: true });
+  }
+});
+
+describe('suites', () => {
+  test('name their algorithms', () => {
+    expect(suiteAlgorithms()).toEqual({ hash: 'sha256', signature: 'ed25519' });
+    expect(suiteAlgorithms('sha384+ecdsa-p384')).toEqual({ hash: 'sha384', signature: 'ecdsa-p384' });
+    expect(suiteAlgorithms('sha3-256+ed25519')).toEqual({ hash: 'sha3-256', signature: 'ed25519' });
+    expect(() => suiteAlgorithms('md5+rsa' as CryptoSuite)).toThrow(CryptoError);
+  });
+
+  test('hash entries with the suite hash', () => {
+    expect(digest('abc', 'sha384')).toHaveLength(96);
+    expect(digest('abc', 'sha3-256')).toBe('3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532');
+    expect(hashObject({ a: 1 }, { suite: 'sha384+ecdsa-p384' })).toBe(digest('{"a":1}', 'sha384'));
+
+    const snapshotEntry = {
+      type: 'state_snapshot',
+      entry_id: 'e1',
+      timestamp: '2025-01-01T00:00:00.000Z',
+      trigger: 'manual',
+      state_hash: hashContent('state'),
+      schema_version: '1.0.0',
+    } as const;
+    const entry = createChainedEntry(snapshotEntry, 0, '', { suite: 'sha3-256+ed25519' });
+    expect(verifyChain([entry], { suite: 'sha3-256+ed25519' }).valid).toBe(true);
+    expect(verifyChain([entry]).valid).toBe(false);
+  });
+
+  test('build Merkle trees and consistency proofs with the suite hash', () => {
+    const hashes = ['a', 'b', 'c'].map(s => digest(s, 'sha384'));
+    const options = { suite: 'sha384+ecdsa-p384' as const };
+
+    const oldRoot = buildMerkleTree(hashes.slice(0, 2), { mode: 'rfc6962', ...options }).root;
+    const newRoot = buildMerkleTree(hashes, { mode: 'rfc6962', ...options }).root;
+    const proof = getConsistencyProof(hashes, 2, 3, options);
+
+    expect(newRoot).toHaveLength(96);
+    expect(buildMerkleTree(hashes, options).root).not.toBe(buildMerkleTree(hashes).root);
+    expect(verifyConsistencyProof(2, 3, oldRoot, newRoot, proof, options)).toBe(true);
+    expect(verifyConsistencyProof(2, 3, oldRoot, newRoot, proof)).toBe(false);
+  });
+});
+
+describe('ECDSA P-384 keys', () => {
+  test('sign and verify', () => {
+    const { publicKey, privateKey } = generateKeyPair('sha384+ecdsa-p384');
+
+    const signature = sign('data', privateKey);
+
+    expect(keyAlgorithm(publicKey)).toBe('ecdsa-p384');
+    expect(Buffer.from(signature, 'base64')).toHaveLength(96);
+    expect(verify('data', signature, publicKey)).toBe(true);
+    expect(verify('other', signature, publicKey)).toBe(false);
+    expect(verify('data', signature, generateKeyPair().publicKey)).toBe(false);
+  });
+
+  test('have an RFC 7638 thumbprint over crv, kty, x and y', () => {
+    const { publicKey } = generateKeyPair('sha384+ecdsa-p384');
+    const jwk = createPublicKey(Buffer.from(publicKey, 'base64').toString('utf-8')).export({ format: 'jwk' });
+
+    const members = JSON.stringify({ crv: 'P-384', kty: 'EC', x: jwk.x, y: jwk.y });
+
+    expect(keyId(publicKey)).toBe(createHash('sha256').update(members).digest('base64url'));
+  });
+
+  test('register from a JWK', () => {
+    const { publicKey } = generateKeyPair('sha384+ecdsa-p384');
+    const jwk = createPublicKey(Buffer.from(publicKey, 'base64').toString('utf-8')).export({ format: 'jwk' });
+
+    const registry = KeyRegistry.parse({ keys: [{ kid: 'hsm-p384', kty: 'EC', crv: 'P-384', x: jwk.x, y: jwk.y }] });
+
+    expect(keyId(registry.get('hsm-p384')?.public_key as string)).toBe(keyId(publicKey));
+    expect(() => KeyRegistry.parse({ keys: [{ kty: 'EC', crv: 'P-384', x: jwk.x }] })).toThrow(ValidationError);
+  });
+
+  test('reject keys of other algorithms', () => {
+    const { publicKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+
+    expect(() => keyAlgorithm(Buffer.from(publicKey).toString('base64'))).toThrow(CryptoError);
+  });
+});
+
+describe.each(suites)('Ledger with %s', suite => {
+  test('signs, checkpoints and verifies the closed log', async () => {
+    const tsa = new LocalTimestampAuthority();
+    const ledger = createTestLedger({ suite, signingKeys: generateSigningKeys(suite), timestampAuthority: tsa });
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+    await snapshot(ledger);
+    const checkpoint = await ledger.checkpoint();
+    await snapshot(ledger);
+
+    const log = await ledger.close();
+    const { hash } = suiteAlgorithms(suite);
+    const hashes = log.entries.map(e => e.entry_hash);
+
+    expect(log).toMatchObject({ suite, hash_algorithm: hash, session: { suite } });
+    expect(logSuite(log)).toBe(suite);
+    expect(checkpoint.suite).toBe(suite);
+    expect(log.integrity).toMatchObject({ chain_valid: true, signature_valid: true });
+    expect(verifyChain(log.entries, { suite }).valid).toBe(true);
+    expect(buildMerkleTree(hashes, { suite }).root).toBe(log.merkle_root);
+    expect(verifyCheckpoint(checkpoint, log.entries)).toEqual({ valid: true, errors: [] });
+    expect(verifyAuditLogSignature(log)).toBe(true);
+    expect(verifyTimestampToken(log.tsa_token as any, log.merkle_root as string, { hashAlgorithm: hash }).valid)
+      .toBe(true);
+  });
+
+  test('persists the suite with an open session', async () => {
+    const ledger = createTestLedger({ suite, storage: { type: 'filesystem', path: testDir } });
+    const session = await ledger.start({ type: 'user', identifier: 'test-user' });
+    await snapshot(ledger);
+
+    const resumed = await createTestLedger({ storage: { type: 'filesystem', path: testDir } }).resume(session.sessionId);
+    await resumed.snapshot({ trigger: 'manual', stateHash: hashContent('more'), schemaVersion: '1.0.0' });
+    const log = await resumed.close();
+
+    expect(log.suite).toBe(suite);
+    expect(verifyChain(log.entries, { suite }).valid).toBe(true);
+    expect(JSON.parse(readFileSync(join(testDir, 'test-org', session.sessionId, 'audit.final.json'), 'utf-8')).suite)
+      .toBe(suite);
+  });
+});
+
+describe('suite mismatches', () => {
+  const erasure = {
+    type: 'subject_erasure' as const,
+    entry_id: generateId(),
+    timestamp: timestamp(),
+    subject_ref: hashContent('customer-42'),
+    key_destroyed: true,
+  };
+
+  test('a signing key must use the suite signature algorithm', () => {
+    expect(() => createTestLedger({ suite: 'sha384+ecdsa-p384', signingKeys: generateSigningKeys() }))
+      .toThrow(ValidationError);
+    expect(() => createTestLedger({ signingKeys: generateSigningKeys('sha384+ecdsa-p384') }))
+      .toThrow('Suite sha256+ed25519 needs a ed25519 signing key, got ecdsa-p384');
+
+    const ledger = createTestLedger({ suite: 'sha3-256+ed25519', signingKeys: generateSigningKeys() });
+    expect(() => ledger.rotateSigningKeys(generateSigningKeys('sha384+ecdsa-p384'))).toThrow(ValidationError);
+  });
+
+  test('signing a log, checkpoint or erasure with the wrong key fails', () => {
+    const ed25519 = generateKeyPair();
+    const log = { session: { suite: 'sha384+ecdsa-p384' }, entries: [] } as unknown as AuditLog;
+
+    expect(() => signAuditLog(log, ed25519.privateKey, ed25519.publicKey)).toThrow(CryptoError);
+    expect(() => signCheckpoint('s', [], ed25519.privateKey, ed25519.publicKey, undefined, { suite: 'sha384+ecdsa-p384' }))
+      .toThrow(CryptoError);
+    expect(() => signErasure(erasure, ed25519.privateKey, ed25519.publicKey, undefined, { suite: 'sha384+ecdsa-p384' }))
+      .toThrow(CryptoError);
+  });
+
+  test('an erasure only verifies with a key of the log suite', () => {
+    const ecdsa = generateKeyPair('sha384+ecdsa-p384');
+    const signed = signErasure(erasure, ecdsa.privateKey, ecdsa.publicKey, undefined, { suite: 'sha384+ecdsa-p384' });
+
+    expect(verifyErasure(signed, undefined, { suite: 'sha384+ecdsa-p384' })).toBe(true);
+    expect(verifyErasure(signed)).toBe(false);
+  });
+
+  test('a log whose recorded suite was changed no longer verifies', async () => {
+    const suite = 'sha3-256+ed25519';
+    const ledger = createTestLedger({ suite, signingKeys: generateSigningKeys(suite) });
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+    await snapshot(ledger);
+    const checkpoint = await ledger.checkpoint();
+    const log = await ledger.close();
+
+    const downgraded: AuditLog = { ...log, suite: 'sha256+ed25519' };
+
+    expect(verifyAuditLogSignature(downgraded)).toBe(false);
+    expect(verifyChain(log.entries, { suite: logSuite(downgraded) }).valid).toBe(false);
+    expect(verifyCheckpoint({ ...checkpoint, suite: 'sha256+ed25519' }, log.entries).valid).toBe(false);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Tests for RFC 3161 trusted timestamping
+ */
+
+import {
+  LocalTimestampAuthority,
+  HttpTimestampAuthority,
+  acquireTimestamp,
+  verifyTimestampToken,
+} from '../src/tsa';
+import type { TimestampAuthority } from '../src/tsa';
+import { Ledger, generateSigningKeys } from '../src/ledger';
+import { createTestLedger } from './helpers';
+import { sha256, hashContent } from '../src/crypto';
+import { CryptoError, ValidationError } from '../src/errors';
+import { X509Certificate, createHash } from 'crypto';
+import { mkdirSync, rmSync, existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+const testDir = join(__dirname, '../.test-tsa');
+const root = sha256('merkle root');
+
+async function snapshot(ledger: Ledger): Promise<void> {
+  await ledger.snapshot({ trigger: 'manual', stateHash: hashContent('state'), schemaVersion: '1.0.0' });
+}
+
+beforeEach(() => {
+  if (existsSync(testDir)) {
+    rmSync(testDir, { recursive: true });
+  }
+  mkdirSync(testDir, { recursive: true });
+});
+
+afterAll(() => {
+  if (existsSync(testDir)) {
+    rmSync(testDir, { recursive: true });
+  }
+});
+
+describe('LocalTimestampAuthority', () => {
+  test('issues tokens that verify against its certificate', async () => {
+    const tsa = new LocalTimestampAuthority();
+
+    const token = await acquireTimestamp(tsa, root);
+
+    expect(token.tsa).toBe('AgentLedger Local TSA');
+    expect(Math.abs(Date.parse(token.gen_time) - Date.now())).toBeLessThan(60_000);
+    expect(verifyTimestampToken(token, root, { trustedCertificates: [tsa.certificate] })).toEqual({
+      valid: true,
+      errors: [],
+      genTime: token.gen_time,
+      signer: 'CN=AgentLedger Local TSA',
+    });
+  });
+
+  test('has a time-stamping certificate', () => {
+    const certificate = new X509Certificate(new LocalTimestampAuthority({ name: 'Test TSA' }).certificate);
+
+    expect(certificate.subject).toBe('CN=Test TSA');
+    expect(certificate.keyUsage).toEqual(['1.3.6.1.5.5.7.3.8']);
+  });
+});
+
+describe('verifyTimestampToken', () => {
+  test('rejects tokens over another root', async () => {
+    const token = await acquireTimestamp(new LocalTimestampAuthority(), root);
+
+    expect(verifyTimestampToken(token, sha256('other root')).errors)
+      .toEqual(['Timestamp token is not over this Merkle root']);
+  });
+
+  test('rejects a gen_time that differs from the token', async () => {
+    const token = await acquireTimestamp(new LocalTimestampAuthority(), root);
+
+    expect(verifyTimestampToken({ ...token, gen_time: '2020-01-01T00:00:00.000Z' }, root).errors[0])
+      .toContain('does not match the token');
+  });
+
+  test('rejects tampered signatures', async () => {
+    const token = await acquireTimestamp(new LocalTimestampAuthority(), root);
+    const bytes = Buffer.from(token.token, 'base64');
+    bytes[bytes.length - 1] ^= 0x01;
+
+    expect(verifyTimestampToken({ ...token, token: bytes.toString('base64') }, root).errors)
+      .toContain('Timestamp token signature is invalid');
+    expect(verifyTimestampToken({ ...token, token: 'bm90IGEgdG9rZW4=' }, root).errors[0])
+      .toContain('Timestamp token is unreadable');
+  });
+
+  test('requires a signing certificate attribute that names the TSA certificate', async () => {
+    const tsa = new LocalTimestampAuthority();
+    const token = await acquireTimestamp(tsa, root);
+    const tamper = (find: Buffer, replace: Buffer) => {
+      const bytes = Buffer.from(token.token, 'base64');
+      const offset = bytes.indexOf(find);
+      expect(offset).toBeGreaterThan(0);
+      replace.copy(bytes, offset);
+      return { ...token, token: bytes.toString('base64') };
+    };
+
+    // id-aa-signingCertificateV2 (1.2.840.113549.1.9.16.2.47) turned into an unknown attribute
+    const essOid = Buffer.from('060b2a864886f70d010910022f', 'hex');
+    const withoutEss = tamper(essOid, Buffer.from('060b2a864886f70d0109100230', 'hex'));
+    expect(verifyTimestampToken(withoutEss, root).errors)
+      .toContain('Timestamp token has no signing certificate attribute (ESSCertID or ESSCertIDv2)');
+
+    const certHash = createHash('sha256').update(new X509Certificate(tsa.certificate).raw).digest();
+    const otherCert = tamper(certHash, createHash('sha256').update('another certificate').digest());
+    expect(verifyTimestampToken(otherCert, root).errors)
+      .toContain('Timestamp token signing certificate attribute does not match the TSA certificate');
+  });
+
+  test('only trusts the given TSA certificates', async () => {
+    const tsa = new LocalTimestampAuthority();
+    const other = new LocalTimestampAuthority();
+    const token = await acquireTimestamp(tsa, root);
+
+    expect(verifyTimestampToken(token, root).valid).toBe(true);
+    expect(verifyTimestampToken(token, root, { trustedCertificates: [other.certificate] }).errors)
+      .toEqual(['TSA certificate CN=AgentLedger Local TSA is not trusted']);
+    expect(verifyTimestampToken(token, root, { trustedCertificates: [other.certificate + tsa.certificate] }).valid)
+      .toBe(true);
+    expect(() => verifyTimestampToken(token, root, { trustedCertificates: ['not a certificate'] }))
+      .toThrow(ValidationError);
+  });
+
+  test('verifies tokens from other TSAs', () => {
+    // Issued by `openssl ts -reply` with an RSA key
+    const fixture = JSON.parse(readFileSync(join(__dirname, 'fixtures/openssl-tsa-token.json'), 'utf-8'));
+
+    const result = verifyTimestampToken(fixture.tsa_token, fixture.merkle_root, {
+      trustedCertificates: [fixture.certificate],
+    });
+
+    expect(result).toMatchObject({ valid: true, signer: 'CN=OpenSSL Test TSA' });
+  });
+});
+
+describe('acquireTimestamp', () => {
+  test('fails with CryptoError when the TSA is unreachable or refuses', async () => {
+    const down: TimestampAuthority = { name: 'down', timestamp: async () => { throw new Error('ECONNREFUSED'); } };
+    const refusing = new LocalTimestampAuthority();
+
+    await expect(acquireTimestamp(down, root)).rejects.toThrow('Timestamp authority down failed: ECONNREFUSED');
+    await expect(acquireTimestamp({ name: 'garbage', timestamp: async () => Buffer.from('nope') }, root))
+      .rejects.toThrow(CryptoError);
+    await expect(acquireTimestamp({ name: 'refusing', timestamp: () => refusing.timestamp(Buffer.from('bad')) }, root))
+      .rejects.toThrow('refused the request (status 2)');
+    await expect(acquireTimestamp(new HttpTimestampAuthority('http://127.0.0.1:9/tsr', { timeoutMs: 1000 }), root))
+      .rejects.toThrow(CryptoError);
+  });
+
+  test('rejects a replayed response', async () => {
+    const tsa = new LocalTimestampAuthority();
+    let first: Buffer | undefined;
+    const replaying: TimestampAuthority = {
+      name: 'replaying',
+      timestamp: async request => (first ??= await tsa.timestamp(request)),
+    };
+
+    await acquireTimestamp(replaying, root);
+
+    await expect(acquireTimestamp(replaying, root)).rejects.toThrow('returned a token for another request');
+  });
+
+  test('only timestamps SHA-256 roots', async () => {
+    await expect(acquireTimestamp(new LocalTimestampAuthority(), 'abc')).rejects.toThrow(ValidationError);
+  });
+});
+
+describe('Ledger timestamping', () => {
+  test('timestamps checkpoints and the closed log', async () => {
+    const tsa = new LocalTimestampAuthority();
+    const ledger = createTestLedger({ signingKeys: generateSigningKeys(), timestampAuthority: tsa });
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+    await snapshot(ledger);
+
+    const checkpoint = await ledger.checkpoint();
+    const log = await ledger.close();
+    const trustedCertificates = [tsa.certificate];
+
+    expect(verifyTimestampToken(log.tsa_token as any, log.merkle_root as string, { trustedCertificates }).valid)
+      .toBe(true);
+    expect(log.checkpoints?.[0]?.tsa_token).toEqual(checkpoint.tsa_token);
+    expect(verifyTimestampToken(checkpoint.tsa_token as any, checkpoint.root_hash, { trustedCertificates }).valid)
+      .toBe(true);
+  });
+
+  test('persists the token with the final log', async () => {
+    const ledger = createTestLedger({
+      storage: { type: 'filesystem', path: testDir },
+      timestampAuthority: new LocalTimestampAuthority(),
+    });
+    const session = await ledger.start({ type: 'user', identifier: 'test-user' });
+    await snapshot(ledger);
+
+    const log = await ledger.close();
+
+    const finalPath = join(testDir, 'test-org', session.sessionId, 'audit.final.json');
+    expect(JSON.parse(readFileSync(finalPath, 'utf-8')).tsa_token).toEqual(log.tsa_token);
+  });
+
+  test('close fails when the TSA does', async () => {
+    const ledger = createTestLedger({
+      timestampAuthority: { name: 'down', timestamp: async () => { throw new Error('ECONNREFUSED'); } },
+    });
+    await ledger.start({ type: 'user', identifier: 'test-user' });
+    await snapshot(ledger);
+
+    await expect(ledger.close()).rejects.toThrow(CryptoError);
+  });
+});
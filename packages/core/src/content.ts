@@ -0,0 +1,154 @@
+/**
+ * AgentLedger Content Stores
+ * Content-addressed storage for the bytes behind ContentReference entries.
+ *
+ * The audit log only ever holds the SHA-256 of prompts, completions and tool
+ * payloads; a ContentStore keeps the content itself, keyed by that hash, so it
+ * can be retrieved (and re-verified) later. Stores treat the data as opaque:
+ * for encrypted sessions it is a sealed envelope, not the plaintext.
+ *
+ * Sealed content is keyed by hash plus the context it was sealed in (the
+ * session id, or the subject_ref for subject-encrypted content), so the same
+ * text stored in plaintext or under another key never replaces it.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { StorageError } from './errors';
+import { signRequest } from './sigv4';
+import type { S3Config } from './storage';
+
+// ============================================================================
+// CONTENT STORE INTERFACE
+// ============================================================================
+
+export interface ContentStore {
+  /** Store data under the SHA-256 hash of the plaintext content and sealing context, and return its storage URI */
+  put(hash: string, data: Buffer, context?: string): Promise<string>;
+
+  /** Read content by hash and sealing context; undefined if nothing is stored under them */
+  get(hash: string, context?: string): Promise<Buffer | undefined>;
+}
+
+/**
+ * Object name for a hash and optional sealing context: {hash} or {hash}.{context}
+ */
+function objectName(hash: string, context?: string): string {
+  if (!/^[0-9a-f]{64}$/.test(hash)) {
+    throw new StorageError(`Invalid content hash: ${hash}`, 'content', { hash });
+  }
+  if (context !== undefined && !/^[0-9A-Za-z_-]{1,128}$/.test(context)) {
+    throw new StorageError(`Invalid content context: ${context}`, 'content', { hash, context });
+  }
+  return context === undefined ? hash : `${hash}.${context}`;
+}
+
+// ============================================================================
+// FILESYSTEM CONTENT STORE
+// ============================================================================
+
+/**
+ * Stores content at {basePath}/sha256/{hash[0..2]}/{hash}[.{context}]
+ */
+export class FileSystemContentStore implements ContentStore {
+  private basePath: string;
+
+  constructor(basePath: string) {
+    this.basePath = resolve(basePath);
+  }
+
+  async put(hash: string, data: Buffer, context?: string): Promise<string> {
+    const path = this.pathFor(hash, context);
+
+    // Written via rename so a reader never sees a partial object
+    mkdirSync(dirname(path), { recursive: true });
+    const tmpPath = `${path}.${process.pid}.tmp`;
+    writeFileSync(tmpPath, data);
+    renameSync(tmpPath, path);
+
+    return pathToFileURL(path).href;
+  }
+
+  async get(hash: string, context?: string): Promise<Buffer | undefined> {
+    const path = this.pathFor(hash, context);
+    return existsSync(path) ? readFileSync(path) : undefined;
+  }
+
+  private pathFor(hash: string, context?: string): string {
+    return join(this.basePath, 'sha256', hash.slice(0, 2), objectName(hash, context));
+  }
+}
+
+// ============================================================================
+// S3-COMPATIBLE CONTENT STORE
+// ============================================================================
+
+export type S3ContentStoreConfig = Pick<
+  S3Config,
+  'endpoint' | 'bucket' | 'accessKeyId' | 'secretAccessKey' | 'sessionToken' | 'region'
+> & {
+  /** Key prefix (default: content/) */
+  prefix?: string;
+};
+
+/**
+ * Stores content at s3://{bucket}/{prefix}sha256/{hash}[.{context}]
+ */
+export class S3ContentStore implements ContentStore {
+  private config: S3ContentStoreConfig;
+
+  constructor(config: S3ContentStoreConfig) {
+    this.config = config;
+  }
+
+  async put(hash: string, data: Buffer, context?: string): Promise<string> {
+    const key = this.keyFor(hash, context);
+    await this.request('PUT', key, data);
+    return `s3://${this.config.bucket}/${key}`;
+  }
+
+  async get(hash: string, context?: string): Promise<Buffer | undefined> {
+    try {
+      const response = await this.request('GET', this.keyFor(hash, context));
+      return Buffer.from(await response.arrayBuffer());
+    } catch (e) {
+      if (e instanceof StorageError && e.details?.status === 404) return undefined;
+      throw e;
+    }
+  }
+
+  private keyFor(hash: string, context?: string): string {
+    return `${this.config.prefix ?? 'content/'}sha256/${objectName(hash, context)}`;
+  }
+
+  /**
+   * Send a SigV4-signed path-style request, throwing StorageError on non-2xx
+   */
+  private async request(method: string, key: string, body?: Buffer): Promise<Response> {
+    const url = new URL(`${this.config.endpoint.replace(/\/+$/, '')}/${this.config.bucket}/${key}`);
+    const headers: Record<string, string> = body ? { 'content-type': 'application/octet-stream' } : {};
+    const signed = signRequest(
+      { method, url, headers, body },
+      this.config,
+      this.config.region ?? 'us-east-1',
+    );
+
+    let response: Response;
+    try {
+      response = await fetch(url, { method, headers: signed, body });
+    } catch (e) {
+      throw new StorageError(`S3 ${method} ${key} failed: ${(e as Error).message}`, method, { key });
+    }
+
+    if (!response.ok) {
+      throw new StorageError(
+        `S3 ${method} ${key} failed with status ${response.status}`,
+        method,
+        { key, status: response.status },
+      );
+    }
+
+    return response;
+  }
+}
@@ -1,12 +1,31 @@
 /**
  * AgentLedger Cryptographic Utilities
- * Hash chains, Merkle trees, and Ed25519 signatures for tamper-evident logging.
+ * Hash chains, Merkle trees, and signatures for tamper-evident logging.
+ * Each log's hash function and signature algorithm come from its crypto suite
+ * (SHA-256 and Ed25519 by default).
  *
  * Uses Node.js crypto module - no external dependencies.
  */
 
 import { createHash, sign as cryptoSign, verify as cryptoVerify, generateKeyPairSync, randomUUID, createPrivateKey, createPublicKey } from 'crypto';
-import type { ChainedEntry, AuditEntry, AuditLog } from './types';
+import type { KeyObject } from 'crypto';
+import type {
+  ChainedEntry,
+  AuditEntry,
+  AuditLog,
+  Canonicalization,
+  Checkpoint,
+  Cosignature,
+  CryptoSuite,
+  HashAlgorithm,
+  HumanApproval,
+  SessionEnvelope,
+  SubjectErasure,
+} from './types';
+import type { KeyRegistry } from './keys';
+import type { Signer } from './signer';
+import { CryptoError, SessionError, ValidationError } from './errors';
+import { canonicalize } from './jcs';
 
 // ============================================================================
 // HASHING
@@ -20,11 +39,44 @@ export function sha256(data: string | Buffer): string {
 }
 
 /**
- * Hash an object deterministically (sorted keys recursively)
+ * Compute a hex digest with one of the suite hash functions
  */
-export function hashObject(obj: unknown): string {
-  const normalized = JSON.stringify(obj, sortedReplacer());
-  return sha256(normalized);
+export function digest(data: string | Buffer, algorithm: HashAlgorithm = 'sha256'): string {
+  return createHash(algorithm).update(data).digest('hex');
+}
+
+/** Log format written by the storage backends */
+export const LOG_FORMAT_VERSION = '2.0.0' as const;
+
+export interface HashOptions {
+  /** How objects are canonicalized before hashing (default: jcs) */
+  canonicalization?: Canonicalization;
+
+  /** Suite whose hash function is used (default: sha256+ed25519) */
+  suite?: CryptoSuite;
+}
+
+/**
+ * Hash an object deterministically: the suite hash of its RFC 8785 canonical
+ * JSON, or of the sorted-keys JSON.stringify output 1.0.0 logs were hashed with
+ */
+export function hashObject(obj: unknown, options: HashOptions = {}): string {
+  const algorithm = suiteAlgorithms(options.suite).hash;
+  switch (options.canonicalization ?? 'jcs') {
+    case 'jcs':
+      return digest(canonicalize(obj), algorithm);
+    case 'sorted-keys':
+      return digest(JSON.stringify(obj, sortedReplacer()), algorithm);
+    default:
+      throw new CryptoError(`Unsupported canonicalization ${String(options.canonicalization)}`, 'hash');
+  }
+}
+
+/**
+ * The canonicalization a log's entry hashes were computed with
+ */
+export function logCanonicalization(log: Pick<AuditLog, 'version' | 'canonicalization'>): Canonicalization {
+  return log.canonicalization ?? (log.version === '1.0.0' ? 'sorted-keys' : 'jcs');
 }
 
 /**
@@ -45,12 +97,102 @@ function sortedReplacer() {
 }
 
 /**
- * Hash content for storage reference
+ * Hash content for storage reference. Always SHA-256, whatever the log's
+ * suite: content stores are addressed by it.
  */
 export function hashContent(content: string | Buffer): string {
   return sha256(typeof content === 'string' ? Buffer.from(content, 'utf-8') : content);
 }
 
+// ============================================================================
+// CRYPTO SUITES
+// ============================================================================
+
+export type SignatureAlgorithm = 'ed25519' | 'ecdsa-p384';
+
+/** Suite of sessions and logs that do not record one */
+export const DEFAULT_SUITE: CryptoSuite = 'sha256+ed25519';
+
+const SUITES: Record<CryptoSuite, { hash: HashAlgorithm; signature: SignatureAlgorithm }> = {
+  'sha256+ed25519': { hash: 'sha256', signature: 'ed25519' },
+  'sha384+ecdsa-p384': { hash: 'sha384', signature: 'ecdsa-p384' },
+  'sha3-256+ed25519': { hash: 'sha3-256', signature: 'ed25519' },
+};
+
+/**
+ * The hash function and signature algorithm of a suite
+ *
+ * @throws CryptoError for an unknown suite
+ */
+export function suiteAlgorithms(suite: CryptoSuite = DEFAULT_SUITE): {
+  hash: HashAlgorithm;
+  signature: SignatureAlgorithm;
+} {
+  const algorithms = SUITES[suite] as (typeof SUITES)[CryptoSuite] | undefined;
+  if (!algorithms) {
+    throw new CryptoError(`Unsupported crypto suite ${String(suite)}`, 'suite', { suite });
+  }
+  return algorithms;
+}
+
+/**
+ * The suite a log was written with; for an open session's log (no top-level
+ * suite yet) the one in its envelope
+ */
+export function logSuite(log: { suite?: CryptoSuite; session: Pick<SessionEnvelope, 'suite'> }): CryptoSuite {
+  return log.suite ?? log.session.suite ?? DEFAULT_SUITE;
+}
+
+/**
+ * Signature algorithm of a key (base64 PEM, public or private)
+ *
+ * @throws CryptoError if the key is unreadable or of a type no suite uses
+ */
+export function keyAlgorithm(keyBase64: string): SignatureAlgorithm {
+  let key: KeyObject;
+  try {
+    key = createPublicKey(Buffer.from(keyBase64, 'base64').toString('utf-8'));
+  } catch (e) {
+    throw new CryptoError(`Invalid key: ${(e as Error).message}`, 'key_algorithm');
+  }
+  return algorithmOf(key);
+}
+
+function algorithmOf(key: KeyObject): SignatureAlgorithm {
+  if (key.asymmetricKeyType === 'ed25519') return 'ed25519';
+  if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'secp384r1') return 'ecdsa-p384';
+  const curve = key.asymmetricKeyDetails?.namedCurve;
+  throw new CryptoError(
+    `Unsupported key type ${key.asymmetricKeyType}${curve ? ` (${curve})` : ''}; use Ed25519 or ECDSA P-384`,
+    'key_algorithm',
+  );
+}
+
+/**
+ * Whether a key can sign for a suite, so a signature cannot claim a weaker
+ * or different suite than the log records
+ */
+function keyFitsSuite(publicKeyBase64: string, suite: CryptoSuite): boolean {
+  try {
+    return keyAlgorithm(publicKeyBase64) === suiteAlgorithms(suite).signature;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * @throws CryptoError if the key's algorithm is not the suite's
+ */
+function assertKeyFitsSuite(signer: Pick<Signer, 'keyId' | 'publicKey'>, suite: CryptoSuite, operation: string): void {
+  if (!keyFitsSuite(signer.publicKey, suite)) {
+    throw new CryptoError(
+      `Key ${signer.keyId} cannot sign for suite ${suite}, which needs an ${suiteAlgorithms(suite).signature} key`,
+      operation,
+      { kid: signer.keyId, suite },
+    );
+  }
+}
+
 // ============================================================================
 // HASH CHAIN
 // ============================================================================
@@ -61,7 +203,8 @@ export function hashContent(content: string | Buffer): string {
 export function createChainedEntry(
   entry: AuditEntry,
   sequence: number,
-  previousHash: string
+  previousHash: string,
+  options: HashOptions = {},
 ): ChainedEntry {
   const entryWithPrevious = {
     sequence,
@@ -69,7 +212,7 @@ export function createChainedEntry(
     previous_hash: previousHash,
   };
 
-  const entryHash = hashObject(entryWithPrevious);
+  const entryHash = hashObject(entryWithPrevious, options);
 
   return {
     ...entryWithPrevious,
@@ -82,7 +225,8 @@ export function createChainedEntry(
  */
 export function verifyChainLink(
   current: ChainedEntry,
-  previous: ChainedEntry | null
+  previous: ChainedEntry | null,
+  options: HashOptions = {},
 ): { valid: boolean; error?: string } {
   // Check sequence
   const expectedSequence = previous ? previous.sequence + 1 : 0;
@@ -103,11 +247,19 @@ export function verifyChainLink(
   }
 
   // Verify entry hash
-  const recomputed = hashObject({
-    sequence: current.sequence,
-    entry: current.entry,
-    previous_hash: current.previous_hash,
-  });
+  let recomputed: string;
+  try {
+    recomputed = hashObject({
+      sequence: current.sequence,
+      entry: current.entry,
+      previous_hash: current.previous_hash,
+    }, options);
+  } catch (e) {
+    return {
+      valid: false,
+      error: `Entry at sequence ${current.sequence} cannot be hashed: ${(e as Error).message}`
+    };
+  }
 
   if (current.entry_hash !== recomputed) {
     return {
@@ -122,7 +274,7 @@ export function verifyChainLink(
 /**
  * Verify entire hash chain
  */
-export function verifyChain(entries: ChainedEntry[]): {
+export function verifyChain(entries: ChainedEntry[], options: HashOptions = {}): {
   valid: boolean;
   errors: string[];
   verified_count: number;
@@ -133,7 +285,7 @@ export function verifyChain(entries: ChainedEntry[]): {
     const current = entries[i];
     const previous = i > 0 ? entries[i - 1] ?? null : null;
     if (!current) continue;
-    const result = verifyChainLink(current, previous);
+    const result = verifyChainLink(current, previous, options);
 
     if (!result.valid && result.error) {
       errors.push(result.error);
@@ -151,11 +303,28 @@ export function verifyChain(entries: ChainedEntry[]): {
 // MERKLE TREE
 // ============================================================================
 
+/**
+ * Merkle tree hashing mode
+ * - legacy: pads to a power of two by repeating the last hash and hashes the
+ *   concatenated hex strings (the default, used for merkle_root)
+ * - rfc6962: RFC 6962 / 9162 domain separation, H(0x00 || leaf) for leaves
+ *   and H(0x01 || left || right) for nodes over the raw hash bytes, with no
+ *   padding. Required for consistency proofs.
+ */
+export type MerkleTreeMode = 'legacy' | 'rfc6962';
+
+export interface MerkleTreeOptions {
+  mode?: MerkleTreeMode;
+
+  /** Suite whose hash function H is used (default: sha256+ed25519) */
+  suite?: CryptoSuite;
+}
+
 /**
  * Build a Merkle tree from entry hashes
  * Returns the root hash and proof data
  */
-export function buildMerkleTree(hashes: string[]): {
+export function buildMerkleTree(hashes: string[], options: MerkleTreeOptions = {}): {
   root: string;
   tree: string[][];
 } {
@@ -163,6 +332,11 @@ export function buildMerkleTree(hashes: string[]): {
     return { root: '', tree: [] };
   }
 
+  const algorithm = suiteAlgorithms(options.suite).hash;
+  if (options.mode === 'rfc6962') {
+    return buildRfc6962Tree(hashes, algorithm);
+  }
+
   // Pad to power of 2
   const paddedHashes = [...hashes];
   while (paddedHashes.length & (paddedHashes.length - 1)) {
@@ -180,7 +354,7 @@ export function buildMerkleTree(hashes: string[]): {
       const left = currentLevel[i] ?? '';
       const right = currentLevel[i + 1] ?? '';
       const combined = left + right;
-      nextLevel.push(sha256(combined));
+      nextLevel.push(digest(combined, algorithm));
     }
 
     tree.push(nextLevel);
@@ -196,6 +370,39 @@ export function buildMerkleTree(hashes: string[]): {
   };
 }
 
+/**
+ * RFC 6962 tree as levels. Level 0 holds leaf hashes; an unpaired last node
+ * moves up a level unchanged, which yields the same root as splitting at the
+ * largest power of two below n.
+ */
+function buildRfc6962Tree(hashes: string[], algorithm: HashAlgorithm): { root: string; tree: string[][] } {
+  const tree: string[][] = [hashes.map(hash => rfc6962LeafHash(hash, algorithm))];
+
+  let currentLevel = tree[0] ?? [];
+  while (currentLevel.length > 1) {
+    const nextLevel: string[] = [];
+
+    for (let i = 0; i < currentLevel.length; i += 2) {
+      const left = currentLevel[i] ?? '';
+      const right = currentLevel[i + 1];
+      nextLevel.push(right === undefined ? left : rfc6962NodeHash(left, right, algorithm));
+    }
+
+    tree.push(nextLevel);
+    currentLevel = nextLevel;
+  }
+
+  return { root: currentLevel[0] ?? '', tree };
+}
+
+function rfc6962LeafHash(hash: string, algorithm: HashAlgorithm): string {
+  return digest(Buffer.concat([Buffer.from([0x00]), Buffer.from(hash, 'hex')]), algorithm);
+}
+
+function rfc6962NodeHash(left: string, right: string, algorithm: HashAlgorithm): string {
+  return digest(Buffer.concat([Buffer.from([0x01]), Buffer.from(left, 'hex'), Buffer.from(right, 'hex')]), algorithm);
+}
+
 /**
  * Generate Merkle proof for a specific entry
  */
@@ -233,15 +440,21 @@ export function getMerkleProof(
 export function verifyMerkleProof(
   leafHash: string,
   proof: { hash: string; position: 'left' | 'right' }[],
-  root: string
+  root: string,
+  options: MerkleTreeOptions = {},
 ): boolean {
-  let currentHash = leafHash;
+  const rfc6962 = options.mode === 'rfc6962';
+  const algorithm = suiteAlgorithms(options.suite).hash;
+  const combine = rfc6962
+    ? (left: string, right: string) => rfc6962NodeHash(left, right, algorithm)
+    : (left: string, right: string) => digest(left + right, algorithm);
+  let currentHash = rfc6962 ? rfc6962LeafHash(leafHash, algorithm) : leafHash;
 
   for (const { hash, position } of proof) {
     if (position === 'left') {
-      currentHash = sha256(hash + currentHash);
+      currentHash = combine(hash, currentHash);
     } else {
-      currentHash = sha256(currentHash + hash);
+      currentHash = combine(currentHash, hash);
     }
   }
 
@@ -249,20 +462,138 @@ export function verifyMerkleProof(
 }
 
 // ============================================================================
-// ED25519 SIGNATURES
+// MERKLE CONSISTENCY PROOFS (RFC 6962 / 9162)
 // ============================================================================
 
 /**
- * Generate an Ed25519 key pair
+ * Prove that the tree over the first oldSize hashes is a prefix of the tree
+ * over the first newSize hashes. Roots are those of
+ * buildMerkleTree(hashes, { mode: 'rfc6962' }).
+ *
+ * @throws CryptoError if the sizes are out of range
  */
-export function generateKeyPair(): {
+export function getConsistencyProof(
+  hashes: string[],
+  oldSize: number,
+  newSize: number = hashes.length,
+  options: Pick<MerkleTreeOptions, 'suite'> = {},
+): string[] {
+  if (!Number.isInteger(oldSize) || !Number.isInteger(newSize) || oldSize < 1 || oldSize > newSize || newSize > hashes.length) {
+    throw new CryptoError(
+      `Invalid consistency proof range ${oldSize}..${newSize} for ${hashes.length} entries`,
+      'consistency_proof',
+      { oldSize, newSize, entries: hashes.length },
+    );
+  }
+
+  const algorithm = suiteAlgorithms(options.suite).hash;
+  const leaves = hashes.slice(0, newSize).map(hash => rfc6962LeafHash(hash, algorithm));
+  return consistencySubproof(oldSize, leaves, true, algorithm);
+}
+
+/** SUBPROOF(m, D[n], b) from RFC 9162 section 2.1.4.1 */
+function consistencySubproof(m: number, leaves: string[], complete: boolean, algorithm: HashAlgorithm): string[] {
+  if (m === leaves.length) {
+    return complete ? [] : [subtreeHash(leaves, algorithm)];
+  }
+
+  const k = largestPowerOfTwoBelow(leaves.length);
+  if (m <= k) {
+    return [
+      ...consistencySubproof(m, leaves.slice(0, k), complete, algorithm),
+      subtreeHash(leaves.slice(k), algorithm),
+    ];
+  }
+  return [
+    ...consistencySubproof(m - k, leaves.slice(k), false, algorithm),
+    subtreeHash(leaves.slice(0, k), algorithm),
+  ];
+}
+
+function subtreeHash(leaves: string[], algorithm: HashAlgorithm): string {
+  if (leaves.length === 1) return leaves[0] ?? '';
+  const k = largestPowerOfTwoBelow(leaves.length);
+  return rfc6962NodeHash(subtreeHash(leaves.slice(0, k), algorithm), subtreeHash(leaves.slice(k), algorithm), algorithm);
+}
+
+function largestPowerOfTwoBelow(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+/**
+ * Verify a consistency proof between two RFC 6962 roots
+ * (RFC 9162 section 2.1.4.2)
+ */
+export function verifyConsistencyProof(
+  oldSize: number,
+  newSize: number,
+  oldRoot: string,
+  newRoot: string,
+  proof: string[],
+  options: Pick<MerkleTreeOptions, 'suite'> = {},
+): boolean {
+  if (!Number.isInteger(oldSize) || !Number.isInteger(newSize) || oldSize < 1 || oldSize > newSize) {
+    return false;
+  }
+
+  if (oldSize === newSize) {
+    return proof.length === 0 && oldRoot === newRoot;
+  }
+
+  // A power-of-two old tree is itself a node of the new tree
+  const path = (oldSize & (oldSize - 1)) === 0 ? [oldRoot, ...proof] : [...proof];
+  if (path.length === 0) return false;
+
+  let fn = oldSize - 1;
+  let sn = newSize - 1;
+  while (fn & 1) {
+    fn >>= 1;
+    sn >>= 1;
+  }
+
+  const algorithm = suiteAlgorithms(options.suite).hash;
+  let fr = path[0] ?? '';
+  let sr = fr;
+
+  for (const c of path.slice(1)) {
+    if (sn === 0) return false;
+
+    if (fn & 1 || fn === sn) {
+      fr = rfc6962NodeHash(c, fr, algorithm);
+      sr = rfc6962NodeHash(c, sr, algorithm);
+      while (!(fn & 1) && fn !== 0) {
+        fn >>= 1;
+        sn >>= 1;
+      }
+    } else {
+      sr = rfc6962NodeHash(sr, c, algorithm);
+    }
+
+    fn >>= 1;
+    sn >>= 1;
+  }
+
+  return fr === oldRoot && sr === newRoot && sn === 0;
+}
+
+// ============================================================================
+// SIGNATURES (Ed25519, ECDSA P-384)
+// ============================================================================
+
+/**
+ * Generate a key pair for a suite's signature algorithm (default: Ed25519)
+ */
+export function generateKeyPair(suite: CryptoSuite = DEFAULT_SUITE): {
   publicKey: string;
   privateKey: string;
 } {
-  const { publicKey, privateKey } = generateKeyPairSync('ed25519', {
-    publicKeyEncoding: { type: 'spki', format: 'pem' },
-    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
-  });
+  const publicKeyEncoding = { type: 'spki', format: 'pem' } as const;
+  const privateKeyEncoding = { type: 'pkcs8', format: 'pem' } as const;
+  const { publicKey, privateKey } = suiteAlgorithms(suite).signature === 'ecdsa-p384'
+    ? generateKeyPairSync('ec', { namedCurve: 'P-384', publicKeyEncoding, privateKeyEncoding })
+    : generateKeyPairSync('ed25519', { publicKeyEncoding, privateKeyEncoding });
 
   return {
     publicKey: Buffer.from(publicKey).toString('base64'),
@@ -271,22 +602,53 @@ export function generateKeyPair(): {
 }
 
 /**
- * Sign data with Ed25519 private key
+ * Key ID for a public key: its RFC 7638 JWK thumbprint (base64url),
+ * recorded as `kid` on signatures when no explicit ID is configured
+ */
+export function keyId(publicKeyBase64: string): string {
+  let jwk: { kty?: string; crv?: string; x?: string; y?: string };
+  try {
+    jwk = createPublicKey(Buffer.from(publicKeyBase64, 'base64').toString('utf-8')).export({ format: 'jwk' });
+  } catch (e) {
+    throw new CryptoError(`Invalid public key: ${(e as Error).message}`, 'key_id');
+  }
+  // The required members in lexicographic order: OKP has x only, EC x and y
+  const members = jwk.kty === 'EC'
+    ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }
+    : { crv: jwk.crv, kty: jwk.kty, x: jwk.x };
+  return createHash('sha256')
+    .update(JSON.stringify(members))
+    .digest('base64url');
+}
+
+/**
+ * Sign data with an Ed25519 or ECDSA P-384 private key. ECDSA signs the
+ * SHA-384 digest and encodes the signature as r || s (IEEE P1363, as in JWS).
  */
 export function sign(data: string, privateKeyBase64: string): string {
   const privateKeyPem = Buffer.from(privateKeyBase64, 'base64').toString('utf-8');
   const privateKeyObj = createPrivateKey(privateKeyPem);
-  const signature = cryptoSign(null, Buffer.from(data), privateKeyObj);
+  const signature = algorithmOf(privateKeyObj) === 'ecdsa-p384'
+    ? cryptoSign('sha384', Buffer.from(data), { key: privateKeyObj, dsaEncoding: 'ieee-p1363' })
+    : cryptoSign(null, Buffer.from(data), privateKeyObj);
   return signature.toString('base64');
 }
 
 /**
- * Verify Ed25519 signature
+ * Verify an Ed25519 or ECDSA P-384 signature
  */
 export function verify(data: string, signature: string, publicKeyBase64: string): boolean {
   try {
     const publicKeyPem = Buffer.from(publicKeyBase64, 'base64').toString('utf-8');
     const publicKeyObj = createPublicKey(publicKeyPem);
+    if (algorithmOf(publicKeyObj) === 'ecdsa-p384') {
+      return cryptoVerify(
+        'sha384',
+        Buffer.from(data),
+        { key: publicKeyObj, dsaEncoding: 'ieee-p1363' },
+        Buffer.from(signature, 'base64'),
+      );
+    }
     return cryptoVerify(null, Buffer.from(data), publicKeyObj, Buffer.from(signature, 'base64'));
   } catch {
     return false;
@@ -294,41 +656,467 @@ export function verify(data: string, signature: string, publicKeyBase64: string)
 }
 
 /**
- * Sign an audit log (typically on session close)
+ * The signing functions below take either a raw key pair (and sign
+ * synchronously) or a Signer (and return a promise)
+ */
+function rawKey(privateKeyBase64: string, publicKeyBase64 = '', kid?: string) {
+  return {
+    keyId: kid ?? keyId(publicKeyBase64),
+    publicKey: publicKeyBase64,
+    sign: (data: string) => sign(data, privateKeyBase64),
+  };
+}
+
+/** Payload version written by signAuditLog; verification also accepts 1 */
+export const AUDIT_LOG_SIGNATURE_VERSION = 2 as const;
+
+/**
+ * The data an org signature covers, by payload version.
+ *
+ * v1 covered only session_id, merkle_root, entry_count and closed_at, so the
+ * rest of the session envelope (org, agent, environment, compliance contexts,
+ * retention, initiator) could be edited without breaking the signature. v2
+ * commits to a canonical hash of the whole envelope, the Merkle root, the
+ * chain and Merkle integrity flags, signed_at and the log's suite (omitted
+ * when the log records none). v2 payloads and the session hash are RFC 8785
+ * canonical JSON; the session hash uses the suite's hash function.
+ * Co-signatures sign the v2 payload with their role added.
+ */
+function auditLogSignedData(log: AuditLog, version: 1 | 2, signedAt: string, role?: string): string {
+  if (version === 1) {
+    return JSON.stringify({
+      session_id: log.session.session_id,
+      merkle_root: log.merkle_root,
+      entry_count: log.entries.length,
+      closed_at: log.session.closed_at,
+    });
+  }
+  return canonicalize({
+    version: 2,
+    suite: log.suite,
+    session_id: log.session.session_id,
+    session_hash: hashObject(log.session, { suite: logSuite(log) }),
+    merkle_root: log.merkle_root ?? null,
+    entry_count: log.entries.length,
+    integrity: log.integrity
+      ? { chain_valid: log.integrity.chain_valid, merkle_valid: log.integrity.merkle_valid }
+      : null,
+    signed_at: signedAt,
+    role,
+  });
+}
+
+/**
+ * Sign an audit log (typically on session close). Set log.integrity first
+ * if it should be covered.
+ *
+ * @throws CryptoError if the key's algorithm is not the one of the log's suite
  */
 export function signAuditLog(
   log: AuditLog,
   privateKeyBase64: string,
-  publicKeyBase64: string
-): AuditLog['org_signature'] {
-  const dataToSign = JSON.stringify({
-    session_id: log.session.session_id,
-    merkle_root: log.merkle_root,
-    entry_count: log.entries.length,
-    closed_at: log.session.closed_at,
+  publicKeyBase64: string,
+  kid?: string,
+): AuditLog['org_signature'];
+export function signAuditLog(log: AuditLog, signer: Signer): Promise<AuditLog['org_signature']>;
+export function signAuditLog(
+  log: AuditLog,
+  key: string | Signer,
+  publicKeyBase64?: string,
+  kid?: string,
+): AuditLog['org_signature'] | Promise<AuditLog['org_signature']> {
+  const signedAt = new Date().toISOString();
+  const dataToSign = auditLogSignedData(log, AUDIT_LOG_SIGNATURE_VERSION, signedAt);
+  const signed = (signer: Pick<Signer, 'keyId' | 'publicKey'>, signature: string) => ({
+    version: AUDIT_LOG_SIGNATURE_VERSION,
+    kid: signer.keyId,
+    public_key: signer.publicKey,
+    signature,
+    signed_at: signedAt,
   });
 
-  return {
-    public_key: publicKeyBase64,
-    signature: sign(dataToSign, privateKeyBase64),
-    signed_at: new Date().toISOString(),
-  };
+  if (typeof key === 'string') {
+    const raw = rawKey(key, publicKeyBase64, kid);
+    assertKeyFitsSuite(raw, logSuite(log), 'sign_log');
+    return signed(raw, raw.sign(dataToSign));
+  }
+  assertKeyFitsSuite(key, logSuite(log), 'sign_log');
+  return key.sign(dataToSign).then(signature => signed(key, signature));
+}
+
+/** Role of org_signature in signer requirements */
+export const ORG_SIGNER_ROLE = 'org';
+
+/**
+ * Roles that must have signed a log: at least threshold of them (default:
+ * all), e.g. `{ roles: ['org', 'supervisor', 'witness'], threshold: 2 }`
+ */
+export interface SignerRequirement {
+  roles: string[];
+  threshold?: number;
 }
 
 /**
- * Verify audit log signature
+ * Verify a log's signatures: org_signature (v2 or legacy v1, see
+ * org_signature.version) and every co-signature. Any signature that does
+ * not verify fails the log, as does one without any signature.
+ * Without a registry this only proves the log was signed by the keys
+ * embedded in it; pass one to also require each key to be trusted at
+ * signed_at. With options.requireSigners the signed roles must also meet
+ * the requirement (org_signature counts as ORG_SIGNER_ROLE).
+ *
+ * @throws ValidationError if the requirement's threshold is not between 1 and its number of roles
  */
-export function verifyAuditLogSignature(log: AuditLog): boolean {
+export function verifyAuditLogSignature(
+  log: AuditLog,
+  registry?: KeyRegistry,
+  options: { requireSigners?: SignerRequirement } = {},
+): boolean {
+  const requirement = options.requireSigners;
+  const threshold = requirement?.threshold ?? requirement?.roles.length;
+  if (requirement && !(threshold && threshold >= 1 && threshold <= requirement.roles.length)) {
+    throw new ValidationError(`Signer threshold must be between 1 and ${requirement.roles.length}`, {
+      field: 'requireSigners.threshold',
+    });
+  }
+
+  const roles = new Set<string>();
+  if (log.org_signature) {
+    if (!verifyOrgSignature(log, registry)) return false;
+    roles.add(ORG_SIGNER_ROLE);
+  }
+  for (const cosignature of log.signatures ?? []) {
+    if (!verifyCosignature(log, cosignature, registry)) return false;
+    roles.add(cosignature.role);
+  }
+
+  if (roles.size === 0) return false;
+  return !requirement || requirement.roles.filter(role => roles.has(role)).length >= (threshold ?? 0);
+}
+
+function verifyOrgSignature(log: AuditLog, registry?: KeyRegistry): boolean {
   if (!log.org_signature) return false;
+  if (registry && !registry.check(log.org_signature, log.org_signature.signed_at).valid) return false;
 
-  const dataToSign = JSON.stringify({
-    session_id: log.session.session_id,
-    merkle_root: log.merkle_root,
-    entry_count: log.entries.length,
-    closed_at: log.session.closed_at,
+  const version = log.org_signature.version ?? 1;
+  if (version !== 1 && version !== 2) return false;
+  if (!keyFitsSuite(log.org_signature.public_key, logSuite(log))) return false;
+
+  const signedData = auditLogSignedData(log, version, log.org_signature.signed_at);
+  return verify(signedData, log.org_signature.signature, log.org_signature.public_key);
+}
+
+// ============================================================================
+// CO-SIGNATURES
+// ============================================================================
+
+/**
+ * Add a signature by another party to a closed log, e.g. a supervisor's
+ * under FINRA 3110 or an independent witness's. It covers what a v2
+ * org_signature does, plus its role, and not the other signatures, so
+ * parties can sign in any order. Returns a copy of the log with the
+ * co-signature appended to signatures.
+ *
+ * @throws SessionError if the session is not closed
+ * @throws ValidationError if the role is missing, is ORG_SIGNER_ROLE or already signed
+ * @throws CryptoError if the key's algorithm is not the one of the log's suite
+ */
+export async function cosign(log: AuditLog, signer: Signer, role: string): Promise<AuditLog> {
+  if (!log.session.closed_at) {
+    throw new SessionError(
+      `Session ${log.session.session_id} is not closed; only closed logs can be co-signed`,
+      log.session.session_id,
+    );
+  }
+  if (!role || role === ORG_SIGNER_ROLE) {
+    throw new ValidationError(`Co-signatures need a role other than ${ORG_SIGNER_ROLE}, which is org_signature's`, {
+      field: 'role',
+    });
+  }
+  if (log.signatures?.some(s => s.role === role)) {
+    throw new ValidationError(`Log already has a ${role} signature`, { field: 'role' });
+  }
+  assertKeyFitsSuite(signer, logSuite(log), 'cosign');
+
+  const signedAt = new Date().toISOString();
+  const signature = await signer.sign(auditLogSignedData(log, AUDIT_LOG_SIGNATURE_VERSION, signedAt, role));
+  const cosignature: Cosignature = {
+    role,
+    version: AUDIT_LOG_SIGNATURE_VERSION,
+    kid: signer.keyId,
+    public_key: signer.publicKey,
+    signature,
+    signed_at: signedAt,
+  };
+  return { ...log, signatures: [...(log.signatures ?? []), cosignature] };
+}
+
+/**
+ * Verify one co-signature of a log, and with a registry that its key was
+ * trusted at signed_at
+ */
+export function verifyCosignature(log: AuditLog, cosignature: Cosignature, registry?: KeyRegistry): boolean {
+  if (registry && !registry.check(cosignature, cosignature.signed_at).valid) return false;
+  if (cosignature.version !== 2 || cosignature.role === ORG_SIGNER_ROLE) return false;
+  if (!keyFitsSuite(cosignature.public_key, logSuite(log))) return false;
+
+  const signedData = auditLogSignedData(log, 2, cosignature.signed_at, cosignature.role);
+  return verify(signedData, cosignature.signature, cosignature.public_key);
+}
+
+// ============================================================================
+// CHECKPOINTS
+// ============================================================================
+
+/**
+ * Sign a tree head over the first entryHashes.length entries of an open
+ * session. The root uses RFC 6962 hashing so successive checkpoints can be
+ * linked with consistency proofs; options.suite is the session's suite and
+ * is recorded on the checkpoint.
+ *
+ * @throws CryptoError if the key's algorithm is not the one of the suite
+ */
+export function signCheckpoint(
+  sessionId: string,
+  entryHashes: string[],
+  privateKeyBase64: string,
+  publicKeyBase64: string,
+  kid?: string,
+  options?: { suite?: CryptoSuite },
+): Checkpoint;
+export function signCheckpoint(
+  sessionId: string,
+  entryHashes: string[],
+  signer: Signer,
+  options?: { suite?: CryptoSuite },
+): Promise<Checkpoint>;
+export function signCheckpoint(
+  sessionId: string,
+  entryHashes: string[],
+  key: string | Signer,
+  publicKeyOrOptions?: string | { suite?: CryptoSuite },
+  kid?: string,
+  rawKeyOptions: { suite?: CryptoSuite } = {},
+): Checkpoint | Promise<Checkpoint> {
+  const { suite } = typeof publicKeyOrOptions === 'object' ? publicKeyOrOptions : rawKeyOptions;
+  const head = {
+    session_id: sessionId,
+    tree_size: entryHashes.length,
+    root_hash: buildMerkleTree(entryHashes, { mode: 'rfc6962', suite }).root,
+    timestamp: timestamp(),
+    ...(suite && { suite }),
+  };
+  const signed = (signer: Pick<Signer, 'keyId' | 'publicKey'>, signature: string) => ({
+    ...head,
+    kid: signer.keyId,
+    public_key: signer.publicKey,
+    signature,
   });
 
-  return verify(dataToSign, log.org_signature.signature, log.org_signature.public_key);
+  if (typeof key === 'string') {
+    const raw = rawKey(key, typeof publicKeyOrOptions === 'string' ? publicKeyOrOptions : '', kid);
+    assertKeyFitsSuite(raw, suite ?? DEFAULT_SUITE, 'checkpoint');
+    return signed(raw, raw.sign(checkpointPayload(head)));
+  }
+  assertKeyFitsSuite(key, suite ?? DEFAULT_SUITE, 'checkpoint');
+  return key.sign(checkpointPayload(head)).then(signature => signed(key, signature));
+}
+
+/**
+ * Verify a checkpoint's signature and that it matches the given entries
+ */
+export function verifyCheckpoint(
+  checkpoint: Checkpoint,
+  entries: ChainedEntry[],
+  registry?: KeyRegistry,
+): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  const suite = checkpoint.suite ?? DEFAULT_SUITE;
+  if (
+    !keyFitsSuite(checkpoint.public_key, suite) ||
+    !verify(checkpointPayload(checkpoint), checkpoint.signature, checkpoint.public_key)
+  ) {
+    errors.push(`Checkpoint at size ${checkpoint.tree_size}: invalid signature`);
+  }
+  for (const err of registry?.check(checkpoint, checkpoint.timestamp).errors ?? []) {
+    errors.push(`Checkpoint at size ${checkpoint.tree_size}: ${err}`);
+  }
+
+  if (checkpoint.tree_size > entries.length) {
+    errors.push(
+      `Checkpoint at size ${checkpoint.tree_size}: log has only ${entries.length} entries (truncated)`,
+    );
+  } else {
+    const hashes = entries.slice(0, checkpoint.tree_size).map(e => e.entry_hash);
+    if (buildMerkleTree(hashes, { mode: 'rfc6962', suite }).root !== checkpoint.root_hash) {
+      errors.push(
+        `Checkpoint at size ${checkpoint.tree_size}: root does not match the first ${checkpoint.tree_size} entries`,
+      );
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+function checkpointPayload(
+  head: Pick<Checkpoint, 'session_id' | 'tree_size' | 'root_hash' | 'timestamp' | 'suite'>,
+): string {
+  return canonicalize({
+    session_id: head.session_id,
+    tree_size: head.tree_size,
+    root_hash: head.root_hash,
+    timestamp: head.timestamp,
+    suite: head.suite,
+  });
+}
+
+// ============================================================================
+// SUBJECT ERASURES
+// ============================================================================
+
+type UnsignedErasure = Omit<SubjectErasure, 'kid' | 'public_key' | 'signature'>;
+
+/**
+ * Sign an erasure record, so the log shows who attested that a subject's key
+ * was destroyed; options.suite is the session's suite
+ *
+ * @throws CryptoError if the key's algorithm is not the one of the suite
+ */
+export function signErasure(
+  erasure: UnsignedErasure,
+  privateKeyBase64: string,
+  publicKeyBase64: string,
+  kid?: string,
+  options?: { suite?: CryptoSuite },
+): SubjectErasure;
+export function signErasure(
+  erasure: UnsignedErasure,
+  signer: Signer,
+  options?: { suite?: CryptoSuite },
+): Promise<SubjectErasure>;
+export function signErasure(
+  erasure: UnsignedErasure,
+  key: string | Signer,
+  publicKeyOrOptions?: string | { suite?: CryptoSuite },
+  kid?: string,
+  rawKeyOptions: { suite?: CryptoSuite } = {},
+): SubjectErasure | Promise<SubjectErasure> {
+  const { suite } = typeof publicKeyOrOptions === 'object' ? publicKeyOrOptions : rawKeyOptions;
+  const signed = (signer: Pick<Signer, 'keyId' | 'publicKey'>, signature: string) => ({
+    ...erasure,
+    kid: signer.keyId,
+    public_key: signer.publicKey,
+    signature,
+  });
+
+  if (typeof key === 'string') {
+    const raw = rawKey(key, typeof publicKeyOrOptions === 'string' ? publicKeyOrOptions : '', kid);
+    assertKeyFitsSuite(raw, suite ?? DEFAULT_SUITE, 'sign_erasure');
+    return signed(raw, raw.sign(erasurePayload(erasure)));
+  }
+  assertKeyFitsSuite(key, suite ?? DEFAULT_SUITE, 'sign_erasure');
+  return key.sign(erasurePayload(erasure)).then(signature => signed(key, signature));
+}
+
+/**
+ * Verify an erasure entry's signature, made with a key of the log's suite
+ */
+export function verifyErasure(
+  erasure: SubjectErasure,
+  registry?: KeyRegistry,
+  options: { suite?: CryptoSuite } = {},
+): boolean {
+  if (registry && !registry.check(erasure, erasure.timestamp).valid) return false;
+  if (!keyFitsSuite(erasure.public_key, options.suite ?? DEFAULT_SUITE)) return false;
+  return verify(erasurePayload(erasure), erasure.signature, erasure.public_key);
+}
+
+function erasurePayload(erasure: UnsignedErasure): string {
+  return canonicalize({
+    entry_id: erasure.entry_id,
+    timestamp: erasure.timestamp,
+    subject_ref: erasure.subject_ref,
+    reason: erasure.reason ?? null,
+    requested_by: erasure.requested_by ?? null,
+    key_destroyed: erasure.key_destroyed,
+  });
+}
+
+// ============================================================================
+// APPROVAL ATTESTATIONS
+// ============================================================================
+
+/** What an approver signs: their verdict on a decision, as the human_approval entry will record it */
+export type ApprovalStatement = Pick<
+  HumanApproval,
+  'approver_id' | 'decision_ref' | 'approval_type' | 'modification_hash' | 'comment_hash'
+>;
+
+/** An approver's signature over an ApprovalStatement, passed to logApproval() */
+export interface ApprovalAttestation {
+  kid: string;
+  public_key: string;
+  signature: string;
+  signed_at: string;
+}
+
+/**
+ * Sign an approval statement with the approver's own key (on the approver's
+ * side, not the agent's), so the logged approval proves who gave it
+ */
+export function signApproval(
+  statement: ApprovalStatement,
+  privateKeyBase64: string,
+  publicKeyBase64: string,
+  kid?: string,
+): ApprovalAttestation;
+export function signApproval(statement: ApprovalStatement, signer: Signer): Promise<ApprovalAttestation>;
+export function signApproval(
+  statement: ApprovalStatement,
+  key: string | Signer,
+  publicKeyBase64?: string,
+  kid?: string,
+): ApprovalAttestation | Promise<ApprovalAttestation> {
+  const signedAt = new Date().toISOString();
+  const signed = (signer: Pick<Signer, 'keyId' | 'publicKey'>, signature: string) => ({
+    kid: signer.keyId,
+    public_key: signer.publicKey,
+    signature,
+    signed_at: signedAt,
+  });
+
+  if (typeof key === 'string') {
+    const raw = rawKey(key, publicKeyBase64, kid);
+    return signed(raw, raw.sign(approvalPayload(statement, signedAt)));
+  }
+  return key.sign(approvalPayload(statement, signedAt)).then(signature => signed(key, signature));
+}
+
+/**
+ * Verify a human_approval entry's attestation. Without a registry this only
+ * proves the statement was signed by the key embedded in the entry; pass the
+ * approvers' registry to also require a key registered to approver_id and
+ * valid at attested_at. Unattested approvals do not verify.
+ */
+export function verifyApproval(approval: HumanApproval, registry?: KeyRegistry): boolean {
+  const { attestation_signature: signature, attestation_public_key: publicKey, attested_at: signedAt } = approval;
+  if (!signature || !publicKey || !signedAt) return false;
+  const signer = { kid: approval.attestation_kid, public_key: publicKey };
+  if (registry && !registry.check(signer, signedAt, { owner: approval.approver_id }).valid) return false;
+  return verify(approvalPayload(approval, signedAt), signature, publicKey);
+}
+
+function approvalPayload(statement: ApprovalStatement, signedAt: string): string {
+  return canonicalize({
+    type: 'human_approval',
+    approver_id: statement.approver_id,
+    decision_ref: statement.decision_ref,
+    approval_type: statement.approval_type,
+    modification_hash: statement.modification_hash ?? null,
+    comment_hash: statement.comment_hash ?? null,
+    timestamp: signedAt,
+  });
 }
 
 // ============================================================================
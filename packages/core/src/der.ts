@@ -0,0 +1,232 @@
+/**
+ * AgentLedger DER
+ * The small subset of ASN.1 DER needed to build and read RFC 3161
+ * timestamp requests, responses and tokens (CMS SignedData) and X.509
+ * certificates. Not a general-purpose ASN.1 library.
+ */
+
+import { CryptoError } from './errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const Tag = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+} as const;
+
+export interface DerNode {
+  tag: number;
+
+  /** Contents octets, without tag and length */
+  contents: Buffer;
+
+  /** The complete encoding, tag and length included */
+  raw: Buffer;
+}
+
+// ============================================================================
+// DECODING
+// ============================================================================
+
+function malformed(message: string): CryptoError {
+  return new CryptoError(`Malformed DER: ${message}`, 'der');
+}
+
+function readNode(buffer: Buffer, offset: number): DerNode {
+  const tag = buffer[offset];
+  const first = buffer[offset + 1];
+  if (tag === undefined || first === undefined) throw malformed('truncated header');
+  if ((tag & 0x1f) === 0x1f) throw malformed('high tag numbers are not supported');
+
+  let length = first;
+  let header = 2;
+  if (first & 0x80) {
+    const octets = first & 0x7f;
+    if (octets === 0 || octets > 4) throw malformed('unsupported length');
+    length = 0;
+    for (let i = 0; i < octets; i++) {
+      const octet = buffer[offset + 2 + i];
+      if (octet === undefined) throw malformed('truncated length');
+      length = length * 256 + octet;
+    }
+    header += octets;
+  }
+
+  const end = offset + header + length;
+  if (end > buffer.length) throw malformed('length runs past the end of the input');
+  return {
+    tag,
+    contents: buffer.subarray(offset + header, end),
+    raw: buffer.subarray(offset, end),
+  };
+}
+
+/**
+ * Decode a buffer holding exactly one DER element
+ */
+export function decode(buffer: Buffer): DerNode {
+  const node = readNode(buffer, 0);
+  if (node.raw.length !== buffer.length) throw malformed('trailing data');
+  return node;
+}
+
+/**
+ * The elements inside a constructed node (SEQUENCE, SET, explicit tags)
+ */
+export function children(node: DerNode): DerNode[] {
+  const nodes: DerNode[] = [];
+  for (let offset = 0; offset < node.contents.length;) {
+    const child = readNode(node.contents, offset);
+    nodes.push(child);
+    offset += child.raw.length;
+  }
+  return nodes;
+}
+
+/**
+ * Assert a node's tag, for reading fixed structures
+ */
+export function expectTag(node: DerNode | undefined, tag: number, what: string): DerNode {
+  if (!node || node.tag !== tag) throw malformed(`expected ${what}`);
+  return node;
+}
+
+export function readOid(node: DerNode | undefined): string {
+  const bytes = expectTag(node, Tag.OID, 'an object identifier').contents;
+  const arcs: number[] = [];
+  let value = 0;
+  for (const byte of bytes) {
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      arcs.push(value);
+      value = 0;
+    }
+  }
+  const [first = 0, ...rest] = arcs;
+  const top = first < 80 ? Math.floor(first / 40) : 2;
+  return [top, first - top * 40, ...rest].join('.');
+}
+
+/** Unsigned big-endian magnitude of an INTEGER, as lowercase hex without leading zeros */
+export function readIntegerHex(node: DerNode | undefined): string {
+  const hex = expectTag(node, Tag.INTEGER, 'an integer').contents.toString('hex').replace(/^(00)+/, '');
+  return hex === '' ? '0' : hex;
+}
+
+export function readInteger(node: DerNode | undefined): number {
+  return parseInt(readIntegerHex(node), 16);
+}
+
+/**
+ * GeneralizedTime (YYYYMMDDHHMMSS[.f]Z) or UTCTime as ISO 8601, keeping
+ * any fractional seconds
+ */
+export function readTime(node: DerNode): string {
+  const text = node.contents.toString('latin1');
+  const match = node.tag === Tag.GENERALIZED_TIME
+    ? /^(\d{4})(\d\d)(\d\d)(\d\d)(\d\d)(\d\d)(?:[.,](\d+))?Z$/.exec(text)
+    : node.tag === Tag.UTC_TIME ? /^(\d\d)(\d\d)(\d\d)(\d\d)(\d\d)(\d\d)()Z$/.exec(text) : null;
+  if (!match) throw malformed(`unsupported time ${text}`);
+
+  const [, year = '', month, day, hour, minute, second, fraction] = match;
+  const fullYear = year.length === 2 ? `${Number(year) < 50 ? '20' : '19'}${year}` : year;
+  return `${fullYear}-${month}-${day}T${hour}:${minute}:${second}${fraction ? `.${fraction}` : ''}Z`;
+}
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+export function encode(tag: number, ...contents: Buffer[]): Buffer {
+  const body = Buffer.concat(contents);
+  let length: Buffer;
+  if (body.length < 0x80) {
+    length = Buffer.from([body.length]);
+  } else {
+    const octets = Buffer.from(padHex(body.length.toString(16)), 'hex');
+    length = Buffer.concat([Buffer.from([0x80 | octets.length]), octets]);
+  }
+  return Buffer.concat([Buffer.from([tag]), length, body]);
+}
+
+export function sequence(...items: Buffer[]): Buffer {
+  return encode(Tag.SEQUENCE, ...items);
+}
+
+/** SET OF, with its elements in DER (sorted) order */
+export function set(...items: Buffer[]): Buffer {
+  return encode(Tag.SET, ...[...items].sort(Buffer.compare));
+}
+
+/** Constructed context-specific tag [n] */
+export function context(n: number, ...contents: Buffer[]): Buffer {
+  return encode(0xa0 | n, ...contents);
+}
+
+/** INTEGER from a number, a bigint or an unsigned big-endian magnitude */
+export function integer(value: number | bigint | Buffer): Buffer {
+  let bytes = Buffer.isBuffer(value) ? value : Buffer.from(padHex(BigInt(value).toString(16)), 'hex');
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0) start++;
+  bytes = bytes.subarray(start);
+  if ((bytes[0] ?? 0) & 0x80) bytes = Buffer.concat([Buffer.from([0]), bytes]);
+  return encode(Tag.INTEGER, bytes.length === 0 ? Buffer.from([0]) : bytes);
+}
+
+export function oid(dotted: string): Buffer {
+  const [top = 0, second = 0, ...rest] = dotted.split('.').map(Number);
+  const bytes: number[] = [];
+  for (const arc of [top * 40 + second, ...rest]) {
+    const groups = [arc & 0x7f];
+    for (let value = Math.floor(arc / 128); value > 0; value = Math.floor(value / 128)) {
+      groups.unshift((value & 0x7f) | 0x80);
+    }
+    bytes.push(...groups);
+  }
+  return encode(Tag.OID, Buffer.from(bytes));
+}
+
+export function octetString(value: Buffer): Buffer {
+  return encode(Tag.OCTET_STRING, value);
+}
+
+export function bitString(value: Buffer): Buffer {
+  return encode(Tag.BIT_STRING, Buffer.from([0]), value);
+}
+
+export function boolean(value: boolean): Buffer {
+  return encode(Tag.BOOLEAN, Buffer.from([value ? 0xff : 0]));
+}
+
+export function utf8String(value: string): Buffer {
+  return encode(Tag.UTF8_STRING, Buffer.from(value, 'utf-8'));
+}
+
+export function generalizedTime(date: Date): Buffer {
+  const text = date.toISOString().replace(/[-:T]/g, '').replace(/\.?0*Z$/, 'Z');
+  return encode(Tag.GENERALIZED_TIME, Buffer.from(text, 'latin1'));
+}
+
+/** UTCTime for years 1950-2049, GeneralizedTime after (RFC 5280 validity rules) */
+export function certificateTime(date: Date): Buffer {
+  if (date.getUTCFullYear() >= 2050) {
+    return generalizedTime(new Date(Math.floor(date.getTime() / 1000) * 1000));
+  }
+  const text = date.toISOString().slice(2, 19).replace(/[-:T]/g, '') + 'Z';
+  return encode(Tag.UTC_TIME, Buffer.from(text, 'latin1'));
+}
+
+function padHex(hex: string): string {
+  return hex.length % 2 ? `0${hex}` : hex;
+}
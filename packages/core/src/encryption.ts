@@ -0,0 +1,339 @@
+/**
+ * AgentLedger Encryption at Rest
+ * AES-256-GCM envelope encryption for stored content and entry payloads.
+ *
+ * Each session gets its own data key, persisted only in wrapped form (encrypted
+ * by a master key that a KeyProvider holds). Hashes are always computed over the
+ * plaintext, so chains, Merkle roots and signatures are unchanged; key holders
+ * decrypt and verify as usual.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { readFileSync, writeFileSync } from 'fs';
+import type {
+  AuditLog,
+  ChainedEntry,
+  EncryptedPayload,
+  SealedEntry,
+  SessionEncryption,
+  SessionEnvelope,
+} from './types';
+import { sha256 } from './crypto';
+import { CryptoError } from './errors';
+
+// ============================================================================
+// KEY PROVIDERS
+// ============================================================================
+
+/** Non-secret values bound to a wrapped data key; the same context is needed to unwrap it */
+export type EncryptionContext = Record<string, string>;
+
+export interface DataKey {
+  /** The data key itself; never persisted */
+  plaintext: Buffer;
+
+  /** The data key wrapped by the master key (base64) */
+  encryptedKey: string;
+
+  /** Master key that wrapped it */
+  keyId: string;
+}
+
+/**
+ * Source of data keys, shaped after KMS GenerateDataKey / Decrypt so a cloud
+ * KMS or HSM can stand in for LocalKeyProvider
+ */
+export interface KeyProvider {
+  /** Create a fresh 256-bit data key, returned in plaintext and wrapped */
+  generateDataKey(context: EncryptionContext): Promise<DataKey>;
+
+  /** Unwrap a data key produced by generateDataKey with the same context */
+  decryptDataKey(encryptedKey: string, keyId: string, context: EncryptionContext): Promise<Buffer>;
+}
+
+/**
+ * Master key held locally (e.g. in a keyfile readable only by the agent)
+ *
+ * @example
+ * const keyProvider = LocalKeyProvider.fromFile('/etc/agentledger/master.key');
+ */
+export class LocalKeyProvider implements KeyProvider {
+  readonly keyId: string;
+  private masterKey: Buffer;
+
+  /**
+   * @param masterKey - 32-byte AES-256 key
+   * @param keyId - Identifier recorded with wrapped keys (default: derived from the key)
+   */
+  constructor(masterKey: Buffer, keyId?: string) {
+    if (masterKey.length !== 32) {
+      throw new CryptoError(`Master key must be 32 bytes, got ${masterKey.length}`, 'key_provider');
+    }
+    this.masterKey = masterKey;
+    this.keyId = keyId ?? `local:${sha256(masterKey).slice(0, 16)}`;
+  }
+
+  /**
+   * Load a master key from a file holding it in base64
+   */
+  static fromFile(path: string, keyId?: string): LocalKeyProvider {
+    let encoded: string;
+    try {
+      encoded = readFileSync(path, 'utf-8').trim();
+    } catch (e) {
+      throw new CryptoError(`Cannot read master key file ${path}: ${(e as Error).message}`, 'key_provider', { path });
+    }
+    return new LocalKeyProvider(Buffer.from(encoded, 'base64'), keyId);
+  }
+
+  /**
+   * Create a new random master key file (mode 0600) and return its provider
+   */
+  static generateKeyFile(path: string, keyId?: string): LocalKeyProvider {
+    const masterKey = randomBytes(32);
+    writeFileSync(path, masterKey.toString('base64') + '\n', { mode: 0o600, flag: 'wx' });
+    return new LocalKeyProvider(masterKey, keyId);
+  }
+
+  async generateDataKey(context: EncryptionContext): Promise<DataKey> {
+    const plaintext = randomBytes(32);
+    const wrapped = encryptPayload(this.masterKey, plaintext, canonicalContext(context));
+
+    return {
+      plaintext,
+      encryptedKey: Buffer.concat([
+        Buffer.from(wrapped.iv, 'base64'),
+        Buffer.from(wrapped.tag, 'base64'),
+        Buffer.from(wrapped.ciphertext, 'base64'),
+      ]).toString('base64'),
+      keyId: this.keyId,
+    };
+  }
+
+  async decryptDataKey(encryptedKey: string, keyId: string, context: EncryptionContext): Promise<Buffer> {
+    if (keyId !== this.keyId) {
+      throw new CryptoError(`Data key was wrapped by master key ${keyId}, not ${this.keyId}`, 'unwrap_key', { keyId });
+    }
+
+    const raw = Buffer.from(encryptedKey, 'base64');
+    return decryptPayload(this.masterKey, {
+      iv: raw.subarray(0, 12).toString('base64'),
+      tag: raw.subarray(12, 28).toString('base64'),
+      ciphertext: raw.subarray(28).toString('base64'),
+    }, canonicalContext(context));
+  }
+}
+
+function canonicalContext(context: EncryptionContext): string {
+  return JSON.stringify(Object.keys(context).sort().map(key => [key, context[key]]));
+}
+
+// ============================================================================
+// AES-256-GCM
+// ============================================================================
+
+/**
+ * Encrypt with AES-256-GCM under a fresh random IV
+ *
+ * @param aad - Additional authenticated data; decryption fails unless it matches
+ */
+export function encryptPayload(key: Buffer, plaintext: Buffer, aad: string): EncryptedPayload {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(aad, 'utf-8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt and authenticate an AES-256-GCM payload
+ *
+ * @throws CryptoError if the key, AAD or ciphertext is wrong
+ */
+export function decryptPayload(key: Buffer, payload: EncryptedPayload, aad: string): Buffer {
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(payload.iv, 'base64'));
+    decipher.setAAD(Buffer.from(aad, 'utf-8'));
+    decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(payload.ciphertext, 'base64')), decipher.final()]);
+  } catch (e) {
+    throw new CryptoError(`Decryption failed: ${(e as Error).message}`, 'decrypt');
+  }
+}
+
+// ============================================================================
+// SESSION DATA KEYS
+// ============================================================================
+
+function sessionContext(session: SessionEnvelope): EncryptionContext {
+  return { session_id: session.session_id, org_id: session.org_id };
+}
+
+/**
+ * Generate a data key for a new session. The returned encryption block goes
+ * into the session envelope; the key itself stays in memory.
+ */
+export async function createSessionKey(
+  keyProvider: KeyProvider,
+  session: SessionEnvelope,
+  options: { entries: boolean },
+): Promise<{ key: Buffer; encryption: SessionEncryption }> {
+  const dataKey = await keyProvider.generateDataKey(sessionContext(session));
+  return {
+    key: dataKey.plaintext,
+    encryption: {
+      algorithm: 'AES-256-GCM',
+      key_id: dataKey.keyId,
+      encrypted_key: dataKey.encryptedKey,
+      entries: options.entries,
+    },
+  };
+}
+
+/**
+ * Unwrap the data key of a session with an encryption block
+ */
+export async function unwrapSessionKey(keyProvider: KeyProvider, session: SessionEnvelope): Promise<Buffer> {
+  if (!session.encryption) {
+    throw new CryptoError(`Session ${session.session_id} is not encrypted`, 'unwrap_key', {
+      sessionId: session.session_id,
+    });
+  }
+  return keyProvider.decryptDataKey(
+    session.encryption.encrypted_key,
+    session.encryption.key_id,
+    sessionContext(session),
+  );
+}
+
+// ============================================================================
+// ENTRIES
+// ============================================================================
+
+/** Binds an entry's ciphertext to its session and chain position */
+function entryAad(sessionId: string, sequence: number, entryHash: string): string {
+  return `${sessionId}:${sequence}:${entryHash}`;
+}
+
+/**
+ * Encrypt a chained entry's payload, keeping sequence and hashes in the clear
+ */
+export function sealEntry(chained: ChainedEntry, key: Buffer, sessionId: string): SealedEntry {
+  return {
+    sequence: chained.sequence,
+    encrypted_entry: encryptPayload(
+      key,
+      Buffer.from(JSON.stringify(chained.entry), 'utf-8'),
+      entryAad(sessionId, chained.sequence, chained.entry_hash),
+    ),
+    previous_hash: chained.previous_hash,
+    entry_hash: chained.entry_hash,
+  };
+}
+
+/**
+ * Decrypt a stored entry; plaintext entries are returned unchanged
+ */
+export function openEntry(stored: ChainedEntry | SealedEntry, key: Buffer, sessionId: string): ChainedEntry {
+  if (!isSealedEntry(stored)) return stored;
+
+  const plaintext = decryptPayload(
+    key,
+    stored.encrypted_entry,
+    entryAad(sessionId, stored.sequence, stored.entry_hash),
+  );
+  return {
+    sequence: stored.sequence,
+    entry: JSON.parse(plaintext.toString('utf-8')),
+    previous_hash: stored.previous_hash,
+    entry_hash: stored.entry_hash,
+  };
+}
+
+export function isSealedEntry(entry: ChainedEntry | SealedEntry): entry is SealedEntry {
+  return 'encrypted_entry' in entry;
+}
+
+/** A closed log as persisted; entries are sealed when the session encrypts them */
+export type StoredAuditLog = Omit<AuditLog, 'entries'> & { entries: (ChainedEntry | SealedEntry)[] };
+
+/**
+ * Seal the entries of a closed log for persistence
+ */
+export function sealAuditLog(log: AuditLog, key: Buffer): StoredAuditLog {
+  return { ...log, entries: log.entries.map(e => sealEntry(e, key, log.session.session_id)) };
+}
+
+/**
+ * Decrypt a persisted log so verifyChain, Merkle and signature checks can run
+ */
+export async function decryptAuditLog(log: StoredAuditLog, keyProvider: KeyProvider): Promise<AuditLog> {
+  if (!log.entries.some(isSealedEntry)) {
+    return log as AuditLog;
+  }
+
+  const key = await unwrapSessionKey(keyProvider, log.session);
+  return { ...log, entries: log.entries.map(e => openEntry(e, key, log.session.session_id)) };
+}
+
+// ============================================================================
+// CONTENT
+// ============================================================================
+
+const CONTENT_FORMAT = 'agentledger-encrypted-content/1';
+
+/**
+ * Encrypted content blob. It carries its session's wrapped data key, so it
+ * can be decrypted without the session log.
+ */
+interface SealedContent extends EncryptedPayload {
+  format: typeof CONTENT_FORMAT;
+  session_id: string;
+  org_id: string;
+  key_id: string;
+  encrypted_key: string;
+}
+
+/**
+ * Encrypt content for a content store with the session's data key
+ *
+ * @param hash - SHA-256 of the plaintext, bound as AAD
+ */
+export function sealContent(content: Buffer, hash: string, key: Buffer, session: SessionEnvelope): Buffer {
+  if (!session.encryption) {
+    throw new CryptoError(`Session ${session.session_id} is not encrypted`, 'encrypt', {
+      sessionId: session.session_id,
+    });
+  }
+
+  const sealed: SealedContent = {
+    format: CONTENT_FORMAT,
+    session_id: session.session_id,
+    org_id: session.org_id,
+    key_id: session.encryption.key_id,
+    encrypted_key: session.encryption.encrypted_key,
+    ...encryptPayload(key, content, hash),
+  };
+  return Buffer.from(JSON.stringify(sealed), 'utf-8');
+}
+
+export function isSealedContent(blob: Buffer): boolean {
+  return blob.subarray(0, 64).toString('utf-8').startsWith(`{"format":"${CONTENT_FORMAT}"`);
+}
+
+/**
+ * Decrypt a blob written by sealContent
+ */
+export async function openContent(blob: Buffer, hash: string, keyProvider: KeyProvider): Promise<Buffer> {
+  const sealed = JSON.parse(blob.toString('utf-8')) as SealedContent;
+  const key = await keyProvider.decryptDataKey(sealed.encrypted_key, sealed.key_id, {
+    session_id: sealed.session_id,
+    org_id: sealed.org_id,
+  });
+  return decryptPayload(key, sealed, hash);
+}
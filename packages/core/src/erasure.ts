@@ -0,0 +1,212 @@
+/**
+ * AgentLedger Subject Erasure
+ * Crypto-shredding for GDPR Article 17 requests.
+ *
+ * Content that belongs to a data subject is encrypted with that subject's own
+ * key. The chain only ever holds hashes and storage references, so destroying
+ * the key makes the content unrecoverable without touching a single entry:
+ * verifyChain, Merkle roots and signatures stay valid.
+ *
+ * Entries, sealed blobs and key stores only see a subject's reference
+ * (subjectRef()), never the identifier passed to storeContent().
+ */
+
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { createHmac, randomBytes } from 'crypto';
+import type { EncryptedPayload } from './types';
+import { KeyProvider, encryptPayload, decryptPayload } from './encryption';
+import { timestamp } from './crypto';
+import { CryptoError } from './errors';
+
+// ============================================================================
+// SUBJECT REFERENCES
+// ============================================================================
+
+/**
+ * Pseudonymous reference to a data subject: HMAC-SHA256 of the identifier
+ * under the org's subjectRefKey. Without the key, a reference cannot be
+ * matched against a list of candidate identifiers.
+ */
+export function subjectRef(subjectId: string, key: Buffer): string {
+  return createHmac('sha256', key).update(subjectId).digest('hex');
+}
+
+// ============================================================================
+// SUBJECT KEY STORES
+// ============================================================================
+
+/** Keys are looked up by subjectRef(subjectId), not the identifier itself */
+export interface SubjectKeyStore {
+  /** The subject's key, created on first use; throws CryptoError once the subject is erased */
+  getOrCreateKey(subjectRef: string): Promise<Buffer>;
+
+  /** The subject's key; undefined if it was destroyed or never created */
+  getKey(subjectRef: string): Promise<Buffer | undefined>;
+
+  /** Destroy the subject's key; false if there was none */
+  destroyKey(subjectRef: string): Promise<boolean>;
+
+  /** Whether destroyKey() has been called for the subject */
+  isErased(subjectRef: string): Promise<boolean>;
+}
+
+/**
+ * Keeps subject keys in memory (tests and short-lived processes)
+ */
+export class InMemorySubjectKeyStore implements SubjectKeyStore {
+  private keys: Map<string, Buffer> = new Map();
+  private erased: Set<string> = new Set();
+
+  async getOrCreateKey(subjectRef: string): Promise<Buffer> {
+    if (this.erased.has(subjectRef)) {
+      throw erasedError(subjectRef);
+    }
+
+    let key = this.keys.get(subjectRef);
+    if (!key) {
+      key = randomBytes(32);
+      this.keys.set(subjectRef, key);
+    }
+    return key;
+  }
+
+  async getKey(subjectRef: string): Promise<Buffer | undefined> {
+    return this.keys.get(subjectRef);
+  }
+
+  async destroyKey(subjectRef: string): Promise<boolean> {
+    this.erased.add(subjectRef);
+    const key = this.keys.get(subjectRef);
+    key?.fill(0);
+    return this.keys.delete(subjectRef);
+  }
+
+  async isErased(subjectRef: string): Promise<boolean> {
+    return this.erased.has(subjectRef);
+  }
+}
+
+/**
+ * Keeps each subject key wrapped by the KeyProvider's master key in
+ * {basePath}/{subjectRef}.key. Erasure deletes the file and leaves a
+ * .erased tombstone. Keep this directory out of long-lived backups, or a
+ * restored copy brings the key back.
+ */
+export class FileSystemSubjectKeyStore implements SubjectKeyStore {
+  private basePath: string;
+  private keyProvider: KeyProvider;
+
+  constructor(basePath: string, keyProvider: KeyProvider) {
+    this.basePath = resolve(basePath);
+    this.keyProvider = keyProvider;
+    mkdirSync(this.basePath, { recursive: true });
+  }
+
+  async getOrCreateKey(subjectRef: string): Promise<Buffer> {
+    if (await this.isErased(subjectRef)) {
+      throw erasedError(subjectRef);
+    }
+
+    const existing = await this.getKey(subjectRef);
+    if (existing) return existing;
+
+    const dataKey = await this.keyProvider.generateDataKey({ subject_ref: subjectRef });
+    try {
+      // 'wx' so two writers racing on a new subject cannot replace each other's key
+      writeFileSync(
+        this.pathFor(subjectRef, 'key'),
+        JSON.stringify({ key_id: dataKey.keyId, encrypted_key: dataKey.encryptedKey }),
+        { mode: 0o600, flag: 'wx' },
+      );
+    } catch (e) {
+      const winner = (e as NodeJS.ErrnoException).code === 'EEXIST' ? await this.getKey(subjectRef) : undefined;
+      if (!winner) throw e;
+      return winner;
+    }
+    return dataKey.plaintext;
+  }
+
+  async getKey(subjectRef: string): Promise<Buffer | undefined> {
+    const path = this.pathFor(subjectRef, 'key');
+    if (!existsSync(path)) return undefined;
+
+    const stored = JSON.parse(readFileSync(path, 'utf-8')) as { key_id: string; encrypted_key: string };
+    return this.keyProvider.decryptDataKey(stored.encrypted_key, stored.key_id, { subject_ref: subjectRef });
+  }
+
+  async destroyKey(subjectRef: string): Promise<boolean> {
+    writeFileSync(this.pathFor(subjectRef, 'erased'), JSON.stringify({ erased_at: timestamp() }) + '\n');
+
+    const path = this.pathFor(subjectRef, 'key');
+    if (!existsSync(path)) return false;
+    unlinkSync(path);
+    return true;
+  }
+
+  async isErased(subjectRef: string): Promise<boolean> {
+    return existsSync(this.pathFor(subjectRef, 'erased'));
+  }
+
+  private pathFor(subjectRef: string, extension: 'key' | 'erased'): string {
+    if (!/^[0-9a-f]{64}$/.test(subjectRef)) {
+      throw new CryptoError('Subject keys are looked up by subjectRef(subjectId)', 'subject_key', { subjectRef });
+    }
+    return join(this.basePath, `${subjectRef}.${extension}`);
+  }
+}
+
+function erasedError(subjectRef: string): CryptoError {
+  return new CryptoError(`Subject ${subjectRef} has been erased`, 'subject_key', { subjectRef });
+}
+
+// ============================================================================
+// SUBJECT CONTENT
+// ============================================================================
+
+const SUBJECT_CONTENT_FORMAT = 'agentledger-subject-content/1';
+
+interface SubjectContent extends EncryptedPayload {
+  format: typeof SUBJECT_CONTENT_FORMAT;
+  subject_ref: string;
+}
+
+/** Binds the ciphertext to its subject reference and plaintext hash */
+function subjectAad(subjectRef: string, hash: string): string {
+  return `${subjectRef}:${hash}`;
+}
+
+/**
+ * Encrypt content for a content store with a subject's key
+ *
+ * @param hash - SHA-256 of the plaintext, bound as AAD
+ */
+export function sealSubjectContent(content: Buffer, hash: string, key: Buffer, subjectRef: string): Buffer {
+  const sealed: SubjectContent = {
+    format: SUBJECT_CONTENT_FORMAT,
+    subject_ref: subjectRef,
+    ...encryptPayload(key, content, subjectAad(subjectRef, hash)),
+  };
+  return Buffer.from(JSON.stringify(sealed), 'utf-8');
+}
+
+export function isSubjectContent(blob: Buffer): boolean {
+  return blob.subarray(0, 64).toString('utf-8').startsWith(`{"format":"${SUBJECT_CONTENT_FORMAT}"`);
+}
+
+/**
+ * Decrypt a blob written by sealSubjectContent
+ *
+ * @throws CryptoError if the subject has been erased
+ */
+export async function openSubjectContent(blob: Buffer, hash: string, keys: SubjectKeyStore): Promise<Buffer> {
+  const sealed = JSON.parse(blob.toString('utf-8')) as SubjectContent;
+  const key = await keys.getKey(sealed.subject_ref);
+  if (!key) {
+    throw new CryptoError(`Content was erased with subject ${sealed.subject_ref}`, 'subject_erased', {
+      subjectRef: sealed.subject_ref,
+      contentHash: hash,
+    });
+  }
+  return decryptPayload(key, sealed, subjectAad(sealed.subject_ref, hash));
+}
@@ -0,0 +1,757 @@
+/**
+ * AgentLedger Exporters
+ * Registry of export formats shared by storage backends, Ledger.export()
+ * and the CLI.
+ *
+ * Built-in formats are registered when this module loads; in-house formats
+ * can be added with registerExporter() and are then available everywhere.
+ */
+
+import { gzipSync } from 'zlib';
+import type { AuditLog, ChainedEntry, ExportOptions } from './types';
+import { buildMerkleTree, getMerkleProof, logSuite } from './crypto';
+import { ExportError } from './errors';
+import { writeParquet, ParquetColumnType, ParquetValue } from './parquet';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Inclusion proof against the full session's Merkle root */
+export interface ExportMerkleProof {
+  root: string;
+  leaf_index: number;
+  path: { hash: string; position: 'left' | 'right' }[];
+}
+
+/** A chained entry as shipped in an export, with optional proof and inlined content */
+export type ExportEntry = ChainedEntry & {
+  merkle_proof?: ExportMerkleProof;
+  content_base64?: string;
+};
+
+/** A log whose entries have been filtered and annotated per ExportOptions */
+export type ExportLog = Omit<AuditLog, 'entries'> & {
+  entries: ExportEntry[];
+};
+
+/**
+ * Render a prepared log. date_range, redact_pii and include_content have
+ * already been applied; compress is applied to the result unless the
+ * exporter was registered with handlesCompression.
+ */
+export type Exporter = (log: ExportLog, options: ExportOptions) => Buffer | string;
+
+export interface ExporterRegistration {
+  /** File extension used by the CLI for output files (default: 'json') */
+  extension?: string;
+  /** One-line description shown in `agentledger --help` */
+  description?: string;
+  /** Alternative names accepted in place of the format */
+  aliases?: string[];
+  /** The exporter applies options.compress itself */
+  handlesCompression?: boolean;
+}
+
+export interface ExporterInfo {
+  format: string;
+  extension: string;
+  description: string;
+  aliases: string[];
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+interface RegisteredExporter extends ExporterInfo {
+  exporter: Exporter;
+  handlesCompression: boolean;
+}
+
+const registry = new Map<string, RegisteredExporter>();
+const aliasTargets = new Map<string, string>();
+
+/**
+ * Register an export format. Registering an existing format replaces it.
+ *
+ * @example
+ * registerExporter('csv', log => log.entries.map(e => `${e.sequence},${e.entry.type}`).join('\n'), {
+ *   extension: 'csv',
+ *   description: 'Sequence and entry type per line',
+ * });
+ */
+export function registerExporter(
+  format: string,
+  exporter: Exporter,
+  registration: ExporterRegistration = {},
+): void {
+  if (!format) {
+    throw new ExportError('Export format name must not be empty');
+  }
+  if (typeof exporter !== 'function') {
+    throw new ExportError(`Exporter for ${format} must be a function`, format);
+  }
+  
+  const previous = registry.get(format);
+  for (const alias of previous?.aliases ?? []) {
+    aliasTargets.delete(alias);
+  }
+  
+  registry.set(format, {
+    format,
+    exporter,
+    extension: registration.extension ?? 'json',
+    description: registration.description ?? '',
+    aliases: [...(registration.aliases ?? [])],
+    handlesCompression: registration.handlesCompression ?? false,
+  });
+  for (const alias of registration.aliases ?? []) {
+    aliasTargets.set(alias, format);
+  }
+}
+
+/** Registered formats, in registration order (built-ins first) */
+export function listExporters(): ExporterInfo[] {
+  return [...registry.values()].map(({ format, extension, description, aliases }) => ({
+    format,
+    extension,
+    description,
+    aliases: [...aliases],
+  }));
+}
+
+function resolveExporter(format: string): RegisteredExporter {
+  const registered = registry.get(format) ?? registry.get(aliasTargets.get(format) ?? '');
+  if (!registered) {
+    throw new ExportError(
+      `Unknown export format: ${format} (available: ${[...registry.keys()].join(', ')})`,
+      format,
+    );
+  }
+  return registered;
+}
+
+/**
+ * Render a closed log in the requested format.
+ *
+ * @param getContent - Lookup for stored content, used when include_content is set
+ * @throws ExportError if the format is not registered
+ */
+export function exportAuditLog(
+  log: AuditLog,
+  options: ExportOptions,
+  getContent?: (hash: string) => Buffer | undefined,
+): Buffer {
+  const { exporter, handlesCompression } = resolveExporter(options.format);
+  const rendered = exporter(prepareExport(log, options, getContent), options);
+  const output = typeof rendered === 'string' ? Buffer.from(rendered) : rendered;
+  
+  return options.compress && !handlesCompression ? gzipSync(output) : output;
+}
+
+// ============================================================================
+// EXPORT PREPARATION
+// ============================================================================
+
+/**
+ * Apply date_range, redact_pii and include_content. When entries are left
+ * out, every retained entry carries a Merkle inclusion proof so it can still
+ * be checked against the session's root without the rest of the chain.
+ */
+function prepareExport(
+  log: AuditLog,
+  options: ExportOptions,
+  getContent?: (hash: string) => Buffer | undefined,
+): ExportLog {
+  const start = options.date_range?.start.getTime() ?? -Infinity;
+  const end = options.date_range?.end.getTime() ?? Infinity;
+  
+  const retained = log.entries
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => {
+      const time = new Date(entry.entry.timestamp).getTime();
+      if (time < start || time > end) return false;
+      return !(options.redact_pii && entry.entry.type === 'content_reference' && entry.entry.contains_pii);
+    });
+  
+  const partial = retained.length < log.entries.length;
+  const { root, tree } = partial
+    ? buildMerkleTree(log.entries.map(e => e.entry_hash), { suite: logSuite(log) })
+    : { root: '', tree: [] };
+  
+  const entries = retained.map(({ entry, index }) => {
+    const exported: ExportEntry = { ...entry };
+    
+    if (partial) {
+      exported.merkle_proof = { root, leaf_index: index, path: getMerkleProof(tree, index) };
+    }
+    
+    if (options.include_content && entry.entry.type === 'content_reference') {
+      const content = getContent?.(entry.entry.content_hash);
+      if (content) {
+        exported.content_base64 = content.toString('base64');
+      }
+    }
+    
+    return exported;
+  });
+  
+  return { ...log, entries };
+}
+
+/** Proof and content fields to carry alongside an entry in formats that reshape it */
+function entryExtras(entry: ExportEntry): Pick<ExportEntry, 'merkle_proof' | 'content_base64'> {
+  const extras: Pick<ExportEntry, 'merkle_proof' | 'content_base64'> = {};
+  if (entry.merkle_proof) extras.merkle_proof = entry.merkle_proof;
+  if (entry.content_base64) extras.content_base64 = entry.content_base64;
+  return extras;
+}
+
+// ============================================================================
+// BUILT-IN EXPORTERS
+// ============================================================================
+
+function exportJsonl(log: ExportLog, _options: ExportOptions): Buffer {
+  const lines = [
+    JSON.stringify({ type: 'session', ...log.session }),
+    ...log.entries.map(e => JSON.stringify({ type: 'entry', ...e })),
+    JSON.stringify({ type: 'integrity', ...log.integrity }),
+  ];
+  return Buffer.from(lines.join('\n'));
+}
+
+/**
+ * Parquet columns: session fields repeated on every row, chain fields, then
+ * typed columns per entry type (null where they do not apply)
+ */
+const PARQUET_COLUMNS: [string, ParquetColumnType, (e: ExportEntry, log: ExportLog) => ParquetValue][] = [
+  // Session
+  ['session_id', 'string', (_, log) => log.session.session_id],
+  ['org_id', 'string', (_, log) => log.session.org_id],
+  ['agent_id', 'string', (_, log) => log.session.agent_id],
+  ['agent_version', 'string', (_, log) => log.session.agent_version],
+  ['environment', 'string', (_, log) => log.session.environment],
+  ['initiated_by_type', 'string', (_, log) => log.session.initiated_by.type],
+  ['initiated_by', 'string', (_, log) => log.session.initiated_by.identifier],
+  ['session_initiated_at', 'timestamp', (_, log) => Date.parse(log.session.initiated_at)],
+  ['session_closed_at', 'timestamp', (_, log) => log.session.closed_at ? Date.parse(log.session.closed_at) : null],
+  ['compliance_contexts', 'string', (_, log) => log.session.compliance_contexts.join(',')],
+  ['retention_days', 'int64', (_, log) => log.session.retention_days],
+  ['merkle_root', 'string', (_, log) => log.merkle_root],
+  
+  // Chain
+  ['sequence', 'int64', e => e.sequence],
+  ['entry_hash', 'string', e => e.entry_hash],
+  ['previous_hash', 'string', e => e.previous_hash],
+  ['entry_id', 'string', e => e.entry.entry_id],
+  ['entry_type', 'string', e => e.entry.type],
+  ['timestamp', 'timestamp', e => Date.parse(e.entry.timestamp)],
+  
+  // model_call
+  ['provider', 'string', e => e.entry.type === 'model_call' ? e.entry.provider : null],
+  ['model_id', 'string', e => e.entry.type === 'model_call' ? e.entry.model_id : null],
+  ['model_version', 'string', e => e.entry.type === 'model_call' ? e.entry.model_version : null],
+  ['temperature', 'double', e => e.entry.type === 'model_call' ? e.entry.parameters.temperature : null],
+  ['max_tokens', 'int64', e => e.entry.type === 'model_call' ? e.entry.parameters.max_tokens : null],
+  ['prompt_hash', 'string', e => e.entry.type === 'model_call' ? e.entry.prompt_hash : null],
+  ['completion_hash', 'string', e => e.entry.type === 'model_call' ? e.entry.completion_hash : null],
+  ['prompt_tokens', 'int64', e => e.entry.type === 'model_call' ? e.entry.prompt_tokens : null],
+  ['completion_tokens', 'int64', e => e.entry.type === 'model_call' ? e.entry.completion_tokens : null],
+  ['total_tokens', 'int64', e => e.entry.type === 'model_call' ? e.entry.prompt_tokens + e.entry.completion_tokens : null],
+  ['latency_ms', 'double', e => e.entry.type === 'model_call' ? e.entry.latency_ms : null],
+  ['cost_usd', 'double', e => e.entry.type === 'model_call' ? e.entry.cost_usd : null],
+  ['streamed', 'boolean', e => e.entry.type === 'model_call' ? e.entry.streamed : null],
+  ['cache_status', 'string', e => e.entry.type === 'model_call' ? e.entry.cache_status : null],
+  
+  // model_call / tool_invocation errors
+  ['error_code', 'string', e => e.entry.type === 'model_call' || e.entry.type === 'tool_invocation' ? e.entry.error?.code : null],
+  ['error_message', 'string', e => e.entry.type === 'model_call' || e.entry.type === 'tool_invocation' ? e.entry.error?.message : null],
+  
+  // tool_invocation
+  ['tool_name', 'string', e => e.entry.type === 'tool_invocation' ? e.entry.tool_name : null],
+  ['tool_version', 'string', e => e.entry.type === 'tool_invocation' ? e.entry.tool_version : null],
+  ['requested_by', 'string', e => e.entry.type === 'tool_invocation' ? e.entry.requested_by : null],
+  ['input_hash', 'string', e => e.entry.type === 'tool_invocation' ? e.entry.input_hash : null],
+  ['output_hash', 'string', e => e.entry.type === 'tool_invocation' ? e.entry.output_hash : null],
+  ['duration_ms', 'double', e => e.entry.type === 'tool_invocation' ? e.entry.duration_ms : null],
+  ['success', 'boolean', e => e.entry.type === 'tool_invocation' ? e.entry.success : null],
+  ['resources_accessed', 'string', e => e.entry.type === 'tool_invocation' && e.entry.resources_accessed
+    ? JSON.stringify(e.entry.resources_accessed)
+    : null],
+  
+  // decision_point
+  ['decision_id', 'string', e => e.entry.type === 'decision_point' ? e.entry.decision_id : null],
+  ['decision_category', 'string', e => e.entry.type === 'decision_point' ? e.entry.category : null],
+  ['options_considered', 'int64', e => e.entry.type === 'decision_point' ? e.entry.options_considered.length : null],
+  ['selected_option', 'string', e => e.entry.type === 'decision_point' ? e.entry.selected_option : null],
+  ['reasoning_hash', 'string', e => e.entry.type === 'decision_point' ? e.entry.reasoning_hash : null],
+  ['confidence_score', 'double', e => e.entry.type === 'decision_point' ? e.entry.confidence_score : null],
+  ['human_review_required', 'boolean', e => e.entry.type === 'decision_point' ? e.entry.human_review_required : null],
+  ['triggered_by', 'string', e => e.entry.type === 'decision_point' ? e.entry.triggered_by?.type : null],
+  
+  // human_approval
+  ['approver_id', 'string', e => e.entry.type === 'human_approval' ? e.entry.approver_id : null],
+  ['approver_role', 'string', e => e.entry.type === 'human_approval' ? e.entry.approver_role : null],
+  ['decision_ref', 'string', e => e.entry.type === 'human_approval' ? e.entry.decision_ref : null],
+  ['approval_type', 'string', e => e.entry.type === 'human_approval' ? e.entry.approval_type : null],
+  ['review_duration_seconds', 'double', e => e.entry.type === 'human_approval' ? e.entry.review_duration_seconds : null],
+  
+  // state_snapshot
+  ['snapshot_trigger', 'string', e => e.entry.type === 'state_snapshot' ? e.entry.trigger : null],
+  ['state_hash', 'string', e => e.entry.type === 'state_snapshot' ? e.entry.state_hash : null],
+  ['schema_version', 'string', e => e.entry.type === 'state_snapshot' ? e.entry.schema_version : null],
+  
+  // content_reference
+  ['content_type', 'string', e => e.entry.type === 'content_reference' ? e.entry.content_type : null],
+  ['parent_entry_id', 'string', e => e.entry.type === 'content_reference' ? e.entry.parent_entry_id : null],
+  ['content_hash', 'string', e => e.entry.type === 'content_reference' ? e.entry.content_hash : null],
+  ['size_bytes', 'int64', e => e.entry.type === 'content_reference' ? e.entry.size_bytes : null],
+  ['storage_uri', 'string', e => e.entry.type === 'content_reference' ? e.entry.storage_uri : null],
+  ['contains_pii', 'boolean', e => e.entry.type === 'content_reference' ? e.entry.contains_pii : null],
+  ['pii_types', 'string', e => e.entry.type === 'content_reference' ? e.entry.pii_types?.join(',') : null],
+  
+  // content_reference, subject_erasure
+  ['subject_ref', 'string', e => e.entry.type === 'content_reference' || e.entry.type === 'subject_erasure'
+    ? e.entry.subject_ref
+    : null],
+  
+  // subject_erasure
+  ['erasure_reason', 'string', e => e.entry.type === 'subject_erasure' ? e.entry.reason : null],
+  ['key_destroyed', 'boolean', e => e.entry.type === 'subject_erasure' ? e.entry.key_destroyed : null],
+  
+  // Export extras
+  ['content_base64', 'string', e => e.content_base64],
+  ['merkle_proof', 'string', e => e.merkle_proof ? JSON.stringify(e.merkle_proof) : null],
+];
+
+function exportParquet(log: ExportLog, options: ExportOptions): Buffer {
+  // One row per chained entry
+  const columns = PARQUET_COLUMNS.map(([name, type, value]) => ({
+    name,
+    type,
+    values: log.entries.map(entry => value(entry, log)),
+  }));
+  
+  return writeParquet(columns, {
+    compress: options.compress,
+    metadata: {
+      'agentledger.version': log.version,
+      'agentledger.session_id': log.session.session_id,
+      'agentledger.merkle_root': log.merkle_root ?? '',
+    },
+  });
+}
+
+function exportSplunkCIM(log: ExportLog, _options: ExportOptions): Buffer {
+  // Splunk Common Information Model format
+  const events = log.entries.map(entry => ({
+    time: new Date(entry.entry.timestamp).getTime() / 1000,
+    host: log.session.agent_id,
+    source: 'agentledger',
+    sourcetype: 'ai:audit',
+    event: {
+      session_id: log.session.session_id,
+      org_id: log.session.org_id,
+      entry_type: entry.entry.type,
+      sequence: entry.sequence,
+      entry_hash: entry.entry_hash,
+      ...entry.entry,
+      ...entryExtras(entry),
+    },
+  }));
+  
+  return Buffer.from(events.map(e => JSON.stringify(e)).join('\n'));
+}
+
+function exportElasticECS(log: ExportLog, _options: ExportOptions): Buffer {
+  // Elastic Common Schema format
+  const docs = log.entries.map(entry => ({
+    '@timestamp': entry.entry.timestamp,
+    'ecs.version': '8.0.0',
+    'event.kind': 'event',
+    'event.category': ['process'],
+    'event.type': ['info'],
+    'event.action': entry.entry.type,
+    'event.id': entry.entry.entry_id,
+    'event.sequence': entry.sequence,
+    'agent.id': log.session.agent_id,
+    'organization.id': log.session.org_id,
+    'session.id': log.session.session_id,
+    'hash.sha256': entry.entry_hash,
+    'agentledger': { ...entry.entry, ...entryExtras(entry) },
+  }));
+  
+  return Buffer.from(docs.map(d => JSON.stringify(d)).join('\n'));
+}
+
+function exportFINRA4511(log: ExportLog, _options: ExportOptions): Buffer {
+  // FINRA Rule 4511 (Books and Records) format
+  // Requires: exact reproduction, timestamps, sequence preservation
+  const record = {
+    record_type: 'AI_AGENT_AUDIT_LOG',
+    finra_rule: '4511',
+    firm_id: log.session.org_id,
+    record_id: log.session.session_id,
+    creation_date: log.session.initiated_at,
+    closure_date: log.session.closed_at,
+    retention_period_years: Math.ceil(log.session.retention_days / 365),
+    integrity: {
+      chain_verified: log.integrity?.chain_valid,
+      merkle_root: log.merkle_root,
+      digital_signature: log.org_signature?.signature,
+    },
+    record_count: log.entries.length,
+    records: log.entries.map(entry => ({
+      sequence_number: entry.sequence,
+      timestamp: entry.entry.timestamp,
+      record_type: entry.entry.type,
+      record_hash: entry.entry_hash,
+      previous_hash: entry.previous_hash,
+      data: entry.entry,
+      ...entryExtras(entry),
+    })),
+  };
+  
+  return Buffer.from(JSON.stringify(record, null, 2));
+}
+
+function exportEUAIAct(log: ExportLog, _options: ExportOptions): Buffer {
+  // EU AI Act Article 12 (Record-keeping) format
+  const record = {
+    schema_version: '1.0',
+    regulation: 'EU_AI_ACT',
+    article: '12',
+    ai_system: {
+      provider: log.session.org_id,
+      system_id: log.session.agent_id,
+      version: log.session.agent_version,
+    },
+    operation_log: {
+      session_id: log.session.session_id,
+      start_time: log.session.initiated_at,
+      end_time: log.session.closed_at,
+      environment: log.session.environment,
+      initiator: log.session.initiated_by,
+    },
+    traceability: {
+      total_events: log.entries.length,
+      merkle_root: log.merkle_root,
+      chain_integrity: log.integrity?.chain_valid,
+    },
+    events: log.entries.map(entry => {
+      const base = {
+        event_id: entry.entry.entry_id,
+        timestamp: entry.entry.timestamp,
+        event_type: entry.entry.type,
+        hash: entry.entry_hash,
+        ...entryExtras(entry),
+      };
+      
+      // Add type-specific fields for explainability
+      if (entry.entry.type === 'model_call') {
+        return {
+          ...base,
+          model: entry.entry.model_id,
+          provider: entry.entry.provider,
+          tokens_used: entry.entry.prompt_tokens + entry.entry.completion_tokens,
+        };
+      }
+      
+      if (entry.entry.type === 'decision_point') {
+        return {
+          ...base,
+          decision_category: entry.entry.category,
+          options_count: entry.entry.options_considered.length,
+          human_review_required: entry.entry.human_review_required,
+        };
+      }
+      
+      if (entry.entry.type === 'human_approval') {
+        return {
+          ...base,
+          approver_role: entry.entry.approver_role,
+          approval_type: entry.entry.approval_type,
+        };
+      }
+      
+      return base;
+    }),
+    compliance_metadata: {
+      retention_days: log.session.retention_days,
+      applicable_frameworks: log.session.compliance_contexts,
+      export_timestamp: new Date().toISOString(),
+    },
+  };
+  
+  return Buffer.from(JSON.stringify(record, null, 2));
+}
+
+function exportServiceNowGRC(log: ExportLog, _options: ExportOptions): Buffer {
+  // ServiceNow GRC import payload: indicator results for the session's
+  // controls, with decision points and human approvals attached as evidence
+  const sessionId = log.session.session_id;
+  const collectedOn = log.session.closed_at ?? log.integrity?.verified_at ?? log.session.initiated_at;
+  const correlationId = (suffix: string) => `agentledger:${sessionId}:${suffix}`;
+  
+  const decisions = log.entries.filter(e => e.entry.type === 'decision_point');
+  const approvals = log.entries.filter(e => e.entry.type === 'human_approval');
+  const approvedRefs = new Set(approvals.map(e => e.entry.type === 'human_approval' ? e.entry.decision_ref : ''));
+  const unreviewed = decisions.filter(e =>
+    e.entry.type === 'decision_point' && e.entry.human_review_required && !approvedRefs.has(e.entry.entry_id));
+  const errors = log.entries.filter(e =>
+    (e.entry.type === 'model_call' && e.entry.error) || (e.entry.type === 'tool_invocation' && !e.entry.success));
+  
+  const indicatorResults = [
+    {
+      indicator: 'AGENTLEDGER_CHAIN_INTEGRITY',
+      name: 'Audit log hash chain is intact',
+      correlation_id: correlationId('chain_integrity'),
+      passed: log.integrity?.chain_valid ?? false,
+      value: log.entries.length,
+      collected_on: collectedOn,
+      supporting_data: { merkle_root: log.merkle_root, verified_at: log.integrity?.verified_at },
+    },
+    {
+      indicator: 'AGENTLEDGER_ORG_SIGNATURE',
+      name: 'Audit log is signed by the organization',
+      correlation_id: correlationId('org_signature'),
+      passed: log.integrity?.signature_valid === true,
+      value: log.org_signature ? 1 : 0,
+      collected_on: collectedOn,
+      supporting_data: { public_key: log.org_signature?.public_key, signed_at: log.org_signature?.signed_at },
+    },
+    {
+      indicator: 'AGENTLEDGER_HUMAN_OVERSIGHT',
+      name: 'Decisions requiring human review have an approval',
+      correlation_id: correlationId('human_oversight'),
+      passed: unreviewed.length === 0,
+      value: unreviewed.length,
+      collected_on: collectedOn,
+      supporting_data: {
+        decisions: decisions.length,
+        approvals: approvals.length,
+        unreviewed_decisions: unreviewed.map(e => e.entry.entry_id),
+      },
+    },
+    {
+      indicator: 'AGENTLEDGER_ERROR_FREE',
+      name: 'Model calls and tool invocations completed without errors',
+      correlation_id: correlationId('error_free'),
+      passed: errors.length === 0,
+      value: errors.length,
+      collected_on: collectedOn,
+      supporting_data: { failed_entries: errors.map(e => e.entry.entry_id) },
+    },
+  ];
+  
+  const evidence = [...decisions, ...approvals]
+    .sort((a, b) => a.sequence - b.sequence)
+    .map(entry => {
+      const base = {
+        correlation_id: correlationId(entry.entry.entry_id),
+        source_table: 'agentledger_entry',
+        sequence: entry.sequence,
+        collected_on: entry.entry.timestamp,
+        entry_hash: entry.entry_hash,
+        ...entryExtras(entry),
+      };
+      
+      if (entry.entry.type === 'human_approval') {
+        return {
+          ...base,
+          evidence_type: 'human_approval',
+          name: `${entry.entry.approval_type} by ${entry.entry.approver_role}`,
+          related_evidence: correlationId(entry.entry.decision_ref),
+          details: entry.entry,
+        };
+      }
+      
+      return {
+        ...base,
+        evidence_type: 'decision_point',
+        name: entry.entry.type === 'decision_point'
+          ? `${entry.entry.category}: ${entry.entry.selected_option}`
+          : entry.entry.type,
+        details: entry.entry,
+      };
+    });
+  
+  const record = {
+    source: 'agentledger',
+    format: 'servicenow_grc',
+    schema_version: '1.0',
+    profile: {
+      name: log.session.agent_id,
+      profile_type: 'AI Agent',
+      owned_by: log.session.org_id,
+      version: log.session.agent_version,
+      environment: log.session.environment,
+    },
+    session: {
+      correlation_id: correlationId('session'),
+      session_id: sessionId,
+      opened_at: log.session.initiated_at,
+      closed_at: log.session.closed_at,
+      initiated_by: log.session.initiated_by,
+      compliance_frameworks: log.session.compliance_contexts,
+      retention_days: log.session.retention_days,
+    },
+    indicator_results: indicatorResults,
+    evidence,
+  };
+  
+  return Buffer.from(JSON.stringify(record, null, 2));
+}
+
+function exportOneTrust(log: ExportLog, _options: ExportOptions): Buffer {
+  // OneTrust AI Governance: an inventory item for the agent plus one
+  // activity record for the session
+  const inventoryId = `${log.session.org_id}:${log.session.agent_id}`;
+  
+  const models = new Map<string, { provider: string; model_id: string; model_version?: string }>();
+  const tools = new Set<string>();
+  const dataCategories = new Set<string>();
+  const metrics = {
+    model_calls: 0,
+    total_tokens: 0,
+    total_cost_usd: 0,
+    tool_invocations: 0,
+    decisions: 0,
+    human_approvals: 0,
+    errors: 0,
+  };
+  
+  const events = log.entries.map(entry => {
+    const e = entry.entry;
+    let summary: string;
+    
+    switch (e.type) {
+      case 'model_call':
+        models.set(`${e.provider}/${e.model_id}/${e.model_version ?? ''}`, {
+          provider: e.provider,
+          model_id: e.model_id,
+          model_version: e.model_version,
+        });
+        metrics.model_calls++;
+        metrics.total_tokens += e.prompt_tokens + e.completion_tokens;
+        metrics.total_cost_usd += e.cost_usd ?? 0;
+        if (e.error) metrics.errors++;
+        summary = `${e.provider}/${e.model_id}: ${e.prompt_tokens + e.completion_tokens} tokens`;
+        break;
+      case 'tool_invocation':
+        tools.add(e.tool_name);
+        metrics.tool_invocations++;
+        if (!e.success) metrics.errors++;
+        summary = `${e.tool_name}: ${e.success ? 'succeeded' : 'failed'}`;
+        break;
+      case 'decision_point':
+        metrics.decisions++;
+        summary = `${e.category}: selected ${e.selected_option}`;
+        break;
+      case 'human_approval':
+        metrics.human_approvals++;
+        summary = `${e.approval_type} by ${e.approver_role}`;
+        break;
+      case 'state_snapshot':
+        summary = `snapshot (${e.trigger})`;
+        break;
+      case 'content_reference':
+        for (const piiType of e.pii_types ?? []) dataCategories.add(piiType);
+        summary = `${e.content_type} content, ${e.size_bytes} bytes`;
+        break;
+      case 'subject_erasure':
+        summary = `data subject erased${e.reason ? ` (${e.reason})` : ''}`;
+        break;
+    }
+    
+    return {
+      sequence: entry.sequence,
+      timestamp: e.timestamp,
+      event_type: e.type,
+      summary,
+      entry_id: e.entry_id,
+      entry_hash: entry.entry_hash,
+      ...entryExtras(entry),
+    };
+  });
+  
+  const record = {
+    source: 'agentledger',
+    format: 'onetrust',
+    schema_version: '1.0',
+    inventory: {
+      type: 'AI_SYSTEM',
+      external_id: inventoryId,
+      name: log.session.agent_id,
+      version: log.session.agent_version,
+      organization: log.session.org_id,
+      environment: log.session.environment,
+      compliance_frameworks: log.session.compliance_contexts,
+      models: [...models.values()],
+      tools: [...tools],
+      personal_data_categories: [...dataCategories],
+      human_oversight: metrics.human_approvals > 0,
+      retention_days: log.session.retention_days,
+    },
+    activity: {
+      external_id: log.session.session_id,
+      inventory_external_id: inventoryId,
+      started_at: log.session.initiated_at,
+      ended_at: log.session.closed_at,
+      initiated_by: log.session.initiated_by,
+      integrity: {
+        chain_valid: log.integrity?.chain_valid,
+        signature_valid: log.integrity?.signature_valid,
+        merkle_root: log.merkle_root,
+      },
+      metrics,
+      events,
+    },
+  };
+  
+  return Buffer.from(JSON.stringify(record, null, 2));
+}
+
+// ============================================================================
+// BUILT-IN REGISTRATIONS
+// ============================================================================
+
+registerExporter('jsonl', exportJsonl, {
+  extension: 'jsonl',
+  description: 'Raw JSONL',
+});
+registerExporter('parquet', exportParquet, {
+  extension: 'parquet',
+  description: 'Apache Parquet (one row per entry)',
+  // Parquet compresses its pages instead, so the file stays readable
+  handlesCompression: true,
+});
+registerExporter('splunk_cim', exportSplunkCIM, {
+  extension: 'json',
+  description: 'Splunk Common Information Model',
+  aliases: ['splunk'],
+});
+registerExporter('elastic_ecs', exportElasticECS, {
+  extension: 'ndjson',
+  description: 'Elastic Common Schema',
+  aliases: ['elastic'],
+});
+registerExporter('finra_4511', exportFINRA4511, {
+  extension: 'json',
+  description: 'FINRA Books and Records',
+  aliases: ['finra'],
+});
+registerExporter('eu_ai_act', exportEUAIAct, {
+  extension: 'json',
+  description: 'EU AI Act Article 12',
+});
+registerExporter('servicenow_grc', exportServiceNowGRC, {
+  extension: 'json',
+  description: 'ServiceNow GRC indicator results and evidence',
+  aliases: ['servicenow'],
+});
+registerExporter('onetrust', exportOneTrust, {
+  extension: 'json',
+  description: 'OneTrust AI governance inventory and activity',
+});
@@ -47,34 +47,133 @@ export {
 // Cryptography
 export {
   sha256,
+  digest,
   hashObject,
   hashContent,
+  LOG_FORMAT_VERSION,
+  logCanonicalization,
+  DEFAULT_SUITE,
+  suiteAlgorithms,
+  logSuite,
+  keyAlgorithm,
   createChainedEntry,
   verifyChainLink,
   verifyChain,
   buildMerkleTree,
   getMerkleProof,
   verifyMerkleProof,
+  getConsistencyProof,
+  verifyConsistencyProof,
   generateKeyPair,
+  keyId,
   sign,
   verify,
   signAuditLog,
   verifyAuditLogSignature,
+  AUDIT_LOG_SIGNATURE_VERSION,
+  ORG_SIGNER_ROLE,
+  cosign,
+  verifyCosignature,
+  signCheckpoint,
+  verifyCheckpoint,
+  signErasure,
+  verifyErasure,
+  signApproval,
+  verifyApproval,
   generateId,
   timestamp,
 } from './crypto';
+export type {
+  HashOptions,
+  SignatureAlgorithm,
+  MerkleTreeMode,
+  MerkleTreeOptions,
+  SignerRequirement,
+  ApprovalStatement,
+  ApprovalAttestation,
+} from './crypto';
+
+// JSON canonicalization (RFC 8785)
+export { canonicalize } from './jcs';
+
+// Key registry
+export { KeyRegistry } from './keys';
+export type { TrustedKey } from './keys';
+
+// Signers
+export { LocalSigner, RemoteSigner, serveSigner } from './signer';
+export type { Signer, Signature, SigningKeys } from './signer';
+
+// Trusted timestamping (RFC 3161)
+export { acquireTimestamp, verifyTimestampToken, HttpTimestampAuthority, LocalTimestampAuthority } from './tsa';
+export type { TimestampAuthority, TimestampVerification } from './tsa';
 
 // Storage
 export {
   InMemoryStorage,
   FileSystemStorage,
+  SqliteStorage,
   S3Storage,
 } from './storage';
-export type { StorageBackend, S3Config } from './storage';
+export type { StorageBackend, StorageOptions, S3Config, S3ObjectLockConfig } from './storage';
+
+// Encryption at rest
+export {
+  LocalKeyProvider,
+  encryptPayload,
+  decryptPayload,
+  createSessionKey,
+  unwrapSessionKey,
+  sealEntry,
+  openEntry,
+  isSealedEntry,
+  sealAuditLog,
+  decryptAuditLog,
+} from './encryption';
+export type { KeyProvider, DataKey, EncryptionContext, StoredAuditLog } from './encryption';
+
+// Subject erasure (crypto-shredding)
+export {
+  InMemorySubjectKeyStore,
+  FileSystemSubjectKeyStore,
+  subjectRef,
+  sealSubjectContent,
+  isSubjectContent,
+  openSubjectContent,
+} from './erasure';
+export type { SubjectKeyStore } from './erasure';
+
+// PII detection
+export { DefaultPiiDetector, BUILTIN_RECOGNIZERS, patternRecognizer, luhnCheck, piiTypesOf } from './pii';
+export type { PiiDetector, PiiRecognizer, PiiMatch, PiiType } from './pii';
+
+// Redaction
+export { redact, redactionToken, redactionCommitment, validateRedactionPolicy } from './redaction';
+export type { RedactionPolicy, RedactionMode, RedactionResult } from './redaction';
+
+// Content stores
+export { FileSystemContentStore, S3ContentStore } from './content';
+export type { ContentStore, S3ContentStoreConfig } from './content';
+
+// Exporters
+export { exportAuditLog, registerExporter, listExporters } from './exporters';
+export type {
+  Exporter,
+  ExporterRegistration,
+  ExporterInfo,
+  ExportLog,
+  ExportEntry,
+  ExportMerkleProof,
+} from './exporters';
+
+// Parquet
+export { writeParquet } from './parquet';
+export type { ParquetColumn, ParquetColumnType, ParquetValue, ParquetWriteOptions } from './parquet';
 
 // Main API
 export {
   Ledger,
+  SessionHandle,
   createLedger,
   generateSigningKeys,
 } from './ledger';
@@ -0,0 +1,69 @@
+/**
+ * AgentLedger JSON Canonicalization
+ * RFC 8785 JSON Canonicalization Scheme (JCS): the byte-exact JSON that
+ * entry hashes and signature payloads are computed over, reproducible by
+ * any language with a JCS implementation.
+ *
+ * - Object keys sorted by their UTF-16 code units, no whitespace
+ * - Numbers serialized as ECMAScript Number.prototype.toString does
+ * - Strings escaped minimally (", \ and control characters only)
+ *
+ * Input must be I-JSON (RFC 7493): non-finite numbers, lone surrogates,
+ * BigInts and other non-JSON values are rejected instead of being coerced
+ * the way JSON.stringify would. Object properties whose value is undefined
+ * are omitted, as they are when the object is serialized.
+ */
+
+import { CryptoError } from './errors';
+
+const LONE_SURROGATE = /[\ud800-\udbff](?![\udc00-\udfff])|(?<![\ud800-\udbff])[\udc00-\udfff]/;
+
+/**
+ * Serialize a value as RFC 8785 canonical JSON
+ *
+ * @throws CryptoError if the value is not representable as I-JSON
+ */
+export function canonicalize(value: unknown): string {
+  return serialize(value, '$');
+}
+
+function serialize(value: unknown, path: string): string {
+  if (value !== null && typeof value === 'object' && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    value = (value as { toJSON: () => unknown }).toJSON();
+  }
+
+  if (value === null || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw invalid(path, `${value} is not a JSON number`);
+    return String(value);
+  }
+  if (typeof value === 'string') {
+    return serializeString(value, path);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item, i) => serialize(item, `${path}[${i}]`)).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const members: string[] = [];
+    // Default sort order is by UTF-16 code units, as RFC 8785 §3.2.3 requires
+    for (const key of Object.keys(value).sort()) {
+      const member = (value as Record<string, unknown>)[key];
+      if (member === undefined) continue;
+      members.push(`${serializeString(key, path)}:${serialize(member, `${path}.${key}`)}`);
+    }
+    return `{${members.join(',')}}`;
+  }
+  throw invalid(path, `${typeof value} is not a JSON value`);
+}
+
+function serializeString(value: string, path: string): string {
+  if (LONE_SURROGATE.test(value)) throw invalid(path, 'string contains a lone surrogate');
+  // JSON.stringify's escaping of well-formed strings is the one RFC 8785 specifies
+  return JSON.stringify(value);
+}
+
+function invalid(path: string, reason: string): CryptoError {
+  return new CryptoError(`Cannot canonicalize ${path}: ${reason}`, 'canonicalize', { path });
+}
@@ -0,0 +1,228 @@
+/**
+ * AgentLedger Key Registry
+ * Trusted signing keys, their validity windows and revocations.
+ *
+ * Every signature in a log embeds the signer's public key, which proves only
+ * that *some* key signed it. A KeyRegistry is the verifier's independent list
+ * of the org's keys: a signature is trusted only if its kid (or, for logs
+ * written before kids were recorded, its public key) is registered, the
+ * embedded key matches the registered one, and the key was valid when the
+ * signature was made.
+ */
+
+import { readFileSync } from 'fs';
+import { createPublicKey } from 'crypto';
+import { z } from 'zod';
+import { keyId } from './crypto';
+import { CryptoError, ValidationError } from './errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TrustedKey {
+  kid: string;
+
+  /** Ed25519 or ECDSA P-384 public key (base64 PEM, as produced by generateKeyPair) */
+  public_key: string;
+
+  /** Who holds the key, e.g. an approver_id; checked where a signature names its signer */
+  owner?: string;
+
+  /** Signatures made before this time are rejected (ISO 8601) */
+  not_before?: string;
+
+  /** Signatures made after this time are rejected (ISO 8601) */
+  not_after?: string;
+
+  /** Once set, no signature by this key is trusted, whatever its time */
+  revoked_at?: string;
+  revocation_reason?: string;
+}
+
+/**
+ * A registry file entry: either `public_key` or the public members of a JWK,
+ * Ed25519 (kty "OKP", crv "Ed25519", x) or P-384 (kty "EC", crv "P-384", x, y).
+ * kid defaults to the key's thumbprint.
+ */
+const RegistryEntry = z.object({
+  kid: z.string().min(1).optional(),
+  public_key: z.string().optional(),
+  kty: z.enum(['OKP', 'EC']).optional(),
+  crv: z.enum(['Ed25519', 'P-384']).optional(),
+  x: z.string().optional(),
+  y: z.string().optional(),
+  owner: z.string().min(1).optional(),
+  not_before: z.string().datetime().optional(),
+  not_after: z.string().datetime().optional(),
+  revoked_at: z.string().datetime().optional(),
+  revocation_reason: z.string().optional(),
+});
+
+const RegistryFile = z.object({
+  keys: z.array(RegistryEntry),
+});
+
+// ============================================================================
+// KEY REGISTRY
+// ============================================================================
+
+/**
+ * @example
+ * const registry = KeyRegistry.fromFile('/etc/agentledger/trusted-keys.json');
+ * verifyAuditLogSignature(log, registry);
+ */
+export class KeyRegistry {
+  private keys: Map<string, TrustedKey> = new Map();
+  /** keyId() of each registered public key, by kid */
+  private thumbprints: Map<string, string> = new Map();
+
+  constructor(keys: TrustedKey[] = []) {
+    for (const key of keys) {
+      this.add(key);
+    }
+  }
+
+  /**
+   * Parse a registry document: `{ "keys": [...] }`, which also covers a JWKS
+   * whose keys carry the optional validity members
+   *
+   * @throws ValidationError if the document or a key is malformed
+   */
+  static parse(document: unknown): KeyRegistry {
+    const parsed = RegistryFile.safeParse(document);
+    if (!parsed.success) {
+      const [issue] = parsed.error.issues;
+      throw new ValidationError(`Invalid key registry: ${issue?.message ?? 'malformed document'}`, {
+        field: ['keys', ...(issue?.path ?? [])].join('.'),
+      });
+    }
+
+    return new KeyRegistry(parsed.data.keys.map((entry, index) => {
+      const { kty, crv, x, y, ...metadata } = entry;
+      const publicKey = entry.public_key ?? (kty && crv && x ? publicKeyFromJwk({ kty, crv, x, y }) : undefined);
+      if (!publicKey) {
+        throw new ValidationError('Registry keys need public_key or a JWK (kty, crv, x, and y for EC keys)', {
+          field: `keys.${index}`,
+        });
+      }
+      return { ...metadata, kid: entry.kid ?? thumbprintOf(publicKey, `keys.${index}`), public_key: publicKey };
+    }));
+  }
+
+  /**
+   * Load a registry from a JSON or JWKS file
+   */
+  static fromFile(path: string): KeyRegistry {
+    let document: unknown;
+    try {
+      document = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (e) {
+      throw new CryptoError(`Cannot read key registry ${path}: ${(e as Error).message}`, 'key_registry', { path });
+    }
+    return KeyRegistry.parse(document);
+  }
+
+  /**
+   * @throws ValidationError if the kid is already registered or the key is not a valid public key
+   */
+  add(key: TrustedKey): this {
+    if (this.keys.has(key.kid)) {
+      throw new ValidationError(`Key ${key.kid} is already registered`, { field: 'kid' });
+    }
+
+    this.thumbprints.set(key.kid, thumbprintOf(key.public_key, key.kid));
+    this.keys.set(key.kid, { ...key });
+    return this;
+  }
+
+  /**
+   * Mark a key as revoked; signatures it made are no longer trusted
+   */
+  revoke(kid: string, options: { at?: string; reason?: string } = {}): this {
+    const key = this.keys.get(kid);
+    if (!key) {
+      throw new ValidationError(`Key ${kid} is not registered`, { field: 'kid' });
+    }
+    key.revoked_at = options.at ?? new Date().toISOString();
+    key.revocation_reason = options.reason;
+    return this;
+  }
+
+  get(kid: string): TrustedKey | undefined {
+    const key = this.keys.get(kid);
+    return key && { ...key };
+  }
+
+  list(): TrustedKey[] {
+    return [...this.keys.values()].map(key => ({ ...key }));
+  }
+
+  /**
+   * Whether a signature's key is trusted at the time it claims to have been
+   * made. Signatures without a kid are matched on their public key.
+   *
+   * @param options.owner - Also require the key to be registered to this owner
+   */
+  check(
+    signer: { kid?: string; public_key: string },
+    at: string,
+    options: { owner?: string } = {},
+  ): { valid: boolean; errors: string[] } {
+    let thumbprint: string;
+    try {
+      thumbprint = keyId(signer.public_key);
+    } catch {
+      return { valid: false, errors: ['Signature carries an invalid public key'] };
+    }
+
+    const kid = signer.kid ?? [...this.thumbprints].find(([, registered]) => registered === thumbprint)?.[0];
+    const key = kid === undefined ? undefined : this.keys.get(kid);
+    const name = signer.kid ?? thumbprint;
+    if (!key) {
+      return { valid: false, errors: [`Key ${name} is not in the trusted key registry`] };
+    }
+
+    const errors: string[] = [];
+    const time = Date.parse(at);
+    if (this.thumbprints.get(key.kid) !== thumbprint) {
+      errors.push(`Key ${name} does not match the registered public key`);
+    }
+    if (options.owner !== undefined && key.owner !== options.owner) {
+      errors.push(`Key ${name} is not registered to ${options.owner}`);
+    }
+    if (key.revoked_at) {
+      const reason = key.revocation_reason ? ` (${key.revocation_reason})` : '';
+      errors.push(`Key ${name} was revoked at ${key.revoked_at}${reason}`);
+    }
+    if (key.not_before && !(time >= Date.parse(key.not_before))) {
+      errors.push(`Key ${name} is not valid before ${key.not_before} (signed ${at})`);
+    }
+    if (key.not_after && !(time <= Date.parse(key.not_after))) {
+      errors.push(`Key ${name} expired at ${key.not_after} (signed ${at})`);
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  toJSON(): { keys: TrustedKey[] } {
+    return { keys: this.list() };
+  }
+}
+
+function thumbprintOf(publicKey: string, label: string): string {
+  try {
+    return keyId(publicKey);
+  } catch (e) {
+    throw new ValidationError(`Key ${label}: ${(e as Error).message}`, { field: 'public_key' });
+  }
+}
+
+function publicKeyFromJwk(jwk: { kty: string; crv: string; x: string; y?: string }): string {
+  try {
+    const pem = createPublicKey({ key: jwk, format: 'jwk' }).export({ type: 'spki', format: 'pem' });
+    return Buffer.from(pem).toString('base64');
+  } catch (e) {
+    throw new ValidationError(`Invalid JWK: ${(e as Error).message}`, { field: 'x' });
+  }
+}
@@ -12,14 +12,55 @@ import type {
   HumanApproval,
   StateSnapshot,
   ContentReference,
+  SubjectErasure,
   ChainedEntry,
+  Checkpoint,
   AuditLog,
   ComplianceContext,
+  CryptoSuite,
   ExportOptions,
 } from './types';
-import { StorageBackend, InMemoryStorage, FileSystemStorage, S3Storage, S3Config } from './storage';
-import { generateId, timestamp, hashContent, generateKeyPair } from './crypto';
-import { LedgerNotInitializedError } from './errors';
+import { StorageBackend, InMemoryStorage, FileSystemStorage, SqliteStorage, S3Storage, S3Config } from './storage';
+import { ContentStore, FileSystemContentStore, S3ContentStore, S3ContentStoreConfig } from './content';
+import { exportAuditLog } from './exporters';
+import {
+  KeyProvider,
+  createSessionKey,
+  unwrapSessionKey,
+  sealContent,
+  isSealedContent,
+  openContent,
+} from './encryption';
+import {
+  SubjectKeyStore,
+  FileSystemSubjectKeyStore,
+  subjectRef,
+  sealSubjectContent,
+  isSubjectContent,
+  openSubjectContent,
+} from './erasure';
+import { PiiDetector, DefaultPiiDetector, piiTypesOf } from './pii';
+import type { PiiMatch } from './pii';
+import { RedactionPolicy, redact, redactionCommitment, validateRedactionPolicy } from './redaction';
+import { Signer, SigningKeys, LocalSigner } from './signer';
+import { acquireTimestamp } from './tsa';
+import type { TimestampAuthority } from './tsa';
+import {
+  generateId,
+  timestamp,
+  hashContent,
+  generateKeyPair,
+  keyId,
+  keyAlgorithm,
+  DEFAULT_SUITE,
+  suiteAlgorithms,
+  signCheckpoint,
+  signErasure,
+  verifyApproval,
+} from './crypto';
+import type { ApprovalAttestation } from './crypto';
+import type { KeyRegistry } from './keys';
+import { LedgerNotInitializedError, SessionError, StorageError, CryptoError, ValidationError } from './errors';
 
 // ============================================================================
 // CONFIGURATION
@@ -45,73 +86,165 @@ export interface LedgerConfig {
   retentionDays?: number;
   
   /** Storage backend */
-  storage?: StorageBackend | 'memory' | { type: 'filesystem'; path: string } | { type: 's3'; config: S3Config };
+  storage?:
+    | StorageBackend
+    | 'memory'
+    | { type: 'filesystem'; path: string }
+    | { type: 'sqlite'; path: string }
+    | { type: 's3'; config: S3Config };
+  
+  /** Where storeContent() keeps the content itself, keyed by SHA-256 */
+  contentStore?:
+    | ContentStore
+    | { type: 'filesystem'; path: string }
+    | { type: 's3'; config: S3ContentStoreConfig };
+  
+  /**
+   * Envelope encryption at rest: a per-session AES-256-GCM data key, wrapped by
+   * the keyProvider's master key, encrypts stored content and, with
+   * encryptEntries, entry payloads in the built-in backends
+   */
+  encryption?: {
+    keyProvider: KeyProvider;
+    encryptEntries?: boolean;
+  };
+  
+  /**
+   * Per-subject keys for crypto-shredding content passed to storeContent()
+   * with a subjectId. The filesystem store wraps keys with encryption.keyProvider.
+   */
+  subjectKeys?:
+    | SubjectKeyStore
+    | { type: 'filesystem'; path: string };
+  
+  /**
+   * Org-wide secret, at least 32 bytes, that keys subjectRef(); required with
+   * subjectKeys. Erasing a subject later needs the same key.
+   */
+  subjectRefKey?: Buffer;
+  
+  /**
+   * Scans text passed to storeContent() to fill contains_pii / pii_types
+   * (default: DefaultPiiDetector with the built-in recognizers; false to disable)
+   */
+  piiDetector?: PiiDetector | false;
+  
+  /** Mask detected PII in storeContent() text before it is hashed and persisted */
+  redaction?: RedactionPolicy;
   
   /** Auto-snapshot interval (entries between snapshots) */
   snapshotInterval?: number;
   
-  /** Keys for signing (optional) */
-  signingKeys?: {
-    publicKey: string;
-    privateKey: string;
-  };
+  /**
+   * Hash and signature suite of new sessions (default: sha256+ed25519). The
+   * signing key must use the suite's signature algorithm.
+   */
+  suite?: CryptoSuite;
+  
+  /** Keys for signing (optional); replace them with Ledger.rotateSigningKeys() */
+  signingKeys?: SigningKeys;
+  
+  /** Signs instead of in-process signingKeys, e.g. a RemoteSigner in front of an HSM */
+  signer?: Signer;
+  
+  /** Take a signed checkpoint every N milliseconds while a session is open (requires a signer or signingKeys) */
+  checkpointIntervalMs?: number;
+  
+  /** RFC 3161 TSA that timestamps the Merkle root of every checkpoint and closed log */
+  timestampAuthority?: TimestampAuthority;
+  
+  /**
+   * Approvers' public keys, registered with their approver_id as owner. When
+   * set, logApproval() only accepts approvals attested by a key trusted for
+   * the approver at signing time.
+   */
+  approverKeys?: KeyRegistry;
 }
 
 // ============================================================================
-// LEDGER CLASS
+// SESSION HANDLE
 // ============================================================================
 
-export class Ledger {
+/**
+ * One open audit session. Returned by Ledger.start() and Ledger.resume();
+ * any number of handles can be open on the same Ledger and storage backend.
+ */
+export class SessionHandle {
+  readonly sessionId: string;
   private storage: StorageBackend;
-  private config: LedgerConfig;
-  private initialized: boolean = false;
-  private entryCount: number = 0;
-  private signingKeys?: { publicKey: string; privateKey: string };
+  private contentStore?: ContentStore;
+  private keyProvider?: KeyProvider;
+  private subjectKeys?: SubjectKeyStore;
+  private subjectRefKey?: Buffer;
+  private approverKeys?: KeyRegistry;
+  private piiDetector?: PiiDetector;
+  private redaction?: RedactionPolicy;
+  /** Session data key, when the session is encrypted */
+  private dataKey?: Buffer;
+  private session: SessionEnvelope;
+  private snapshotInterval?: number;
+  /** The ledger's current signer, so a rotation applies to open sessions too */
+  private signer: () => Signer | undefined;
+  private timestampAuthority?: TimestampAuthority;
+  private onClose: (sessionId: string) => void;
+  private closed: boolean = false;
+  private entryCount: number;
+  /** Tail of the append queue; every chain write runs after the previous one settles */
+  private appendQueue: Promise<unknown> = Promise.resolve();
+  /** An auto-snapshot is owed; set by the append that reached the interval, cleared once it is written */
+  private snapshotDue: boolean = false;
+  private checkpointTimer?: ReturnType<typeof setInterval>;
+  private lastCheckpointSize: number = 0;
   
-  constructor(config: LedgerConfig) {
-    this.config = config;
-    this.signingKeys = config.signingKeys;
+  /** @internal Created by Ledger.start() and Ledger.resume() */
+  constructor(
+    storage: StorageBackend,
+    session: SessionEnvelope,
+    options: {
+      entryCount?: number;
+      contentStore?: ContentStore;
+      keyProvider?: KeyProvider;
+      subjectKeys?: SubjectKeyStore;
+      subjectRefKey?: Buffer;
+      approverKeys?: KeyRegistry;
+      piiDetector?: PiiDetector;
+      redaction?: RedactionPolicy;
+      dataKey?: Buffer;
+      snapshotInterval?: number;
+      signer?: () => Signer | undefined;
+      timestampAuthority?: TimestampAuthority;
+      checkpointIntervalMs?: number;
+      onClose: (sessionId: string) => void;
+    },
+  ) {
+    this.sessionId = session.session_id;
+    this.storage = storage;
+    this.session = session;
+    this.entryCount = options.entryCount ?? 0;
+    this.contentStore = options.contentStore;
+    this.keyProvider = options.keyProvider;
+    this.subjectKeys = options.subjectKeys;
+    this.subjectRefKey = options.subjectRefKey;
+    this.approverKeys = options.approverKeys;
+    this.piiDetector = options.piiDetector;
+    this.redaction = options.redaction;
+    this.dataKey = options.dataKey;
+    this.snapshotInterval = options.snapshotInterval;
+    this.signer = options.signer ?? (() => undefined);
+    this.timestampAuthority = options.timestampAuthority;
+    this.onClose = options.onClose;
     
-    // Initialize storage backend
-    if (!config.storage || config.storage === 'memory') {
-      this.storage = new InMemoryStorage();
-    } else if (typeof config.storage === 'object' && 'type' in config.storage) {
-      if (config.storage.type === 'filesystem') {
-        this.storage = new FileSystemStorage(config.storage.path);
-      } else if (config.storage.type === 's3') {
-        this.storage = new S3Storage(config.storage.config);
-      } else {
-        this.storage = new InMemoryStorage();
-      }
-    } else {
-      this.storage = config.storage;
+    if (options.checkpointIntervalMs) {
+      // Only when new entries arrived; a failed checkpoint is retried on the next tick
+      this.checkpointTimer = setInterval(() => {
+        if (this.entryCount !== this.lastCheckpointSize) {
+          this.checkpoint().catch(() => undefined);
+        }
+      }, options.checkpointIntervalMs);
+      this.checkpointTimer.unref?.();
     }
   }
   
-  /**
-   * Start a new audit session
-   */
-  async start(initiatedBy: SessionEnvelope['initiated_by'], metadata?: Record<string, unknown>): Promise<string> {
-    const session: SessionEnvelope = {
-      session_id: generateId(),
-      org_id: this.config.orgId,
-      agent_id: this.config.agentId,
-      agent_version: this.config.agentVersion,
-      environment: this.config.environment,
-      initiated_by: initiatedBy,
-      initiated_at: timestamp(),
-      compliance_contexts: this.config.compliance,
-      retention_days: this.config.retentionDays ?? 2555,
-      metadata,
-    };
-    
-    await this.storage.initialize(session);
-    this.initialized = true;
-    this.entryCount = 0;
-    
-    return session.session_id;
-  }
-  
   /**
    * Log a model call
    */
@@ -130,7 +263,7 @@ export class Ledger {
     cacheStatus?: ModelCall['cache_status'];
     error?: ModelCall['error'];
   }): Promise<ChainedEntry> {
-    this.ensureInitialized();
+    this.ensureOpen();
     
     const entry: ModelCall = {
       type: 'model_call',
@@ -169,7 +302,7 @@ export class Ledger {
     error?: ToolInvocation['error'];
     resourcesAccessed?: ToolInvocation['resources_accessed'];
   }): Promise<ChainedEntry> {
-    this.ensureInitialized();
+    this.ensureOpen();
     
     const entry: ToolInvocation = {
       type: 'tool_invocation',
@@ -203,7 +336,7 @@ export class Ledger {
     humanReviewRequired?: boolean;
     triggeredBy?: DecisionPoint['triggered_by'];
   }): Promise<ChainedEntry> {
-    this.ensureInitialized();
+    this.ensureOpen();
     
     const entry: DecisionPoint = {
       type: 'decision_point',
@@ -223,7 +356,10 @@ export class Ledger {
   }
   
   /**
-   * Log a human approval
+   * Log a human approval, optionally with the approver's attestation from
+   * signApproval(). The attestation must sign exactly this approval; with
+   * approverKeys configured it is required and its key must be registered
+   * to the approver.
    */
   async logApproval(params: {
     approverId: string;
@@ -232,10 +368,14 @@ export class Ledger {
     approvalType: HumanApproval['approval_type'];
     modificationHash?: string;
     commentHash?: string;
-    attestationSignature?: string;
+    attestation?: ApprovalAttestation;
     reviewDurationSeconds?: number;
   }): Promise<ChainedEntry> {
-    this.ensureInitialized();
+    this.ensureOpen();
+    
+    if (this.approverKeys && !params.attestation) {
+      throw new ValidationError(`Approval by ${params.approverId} needs an attestation`, { field: 'attestation' });
+    }
     
     const entry: HumanApproval = {
       type: 'human_approval',
@@ -247,10 +387,32 @@ export class Ledger {
       approval_type: params.approvalType,
       modification_hash: params.modificationHash,
       comment_hash: params.commentHash,
-      attestation_signature: params.attestationSignature,
+      attestation_signature: params.attestation?.signature,
+      attestation_kid: params.attestation?.kid,
+      attestation_public_key: params.attestation?.public_key,
+      attested_at: params.attestation?.signed_at,
+      attestation_key_checked: params.attestation ? this.approverKeys !== undefined : undefined,
       review_duration_seconds: params.reviewDurationSeconds,
     };
     
+    if (params.attestation) {
+      if (!verifyApproval(entry)) {
+        throw new ValidationError(`Attestation does not sign this approval by ${params.approverId}`, {
+          field: 'attestation',
+        });
+      }
+      const trust = this.approverKeys?.check(
+        { kid: params.attestation.kid, public_key: params.attestation.public_key },
+        params.attestation.signed_at,
+        { owner: params.approverId },
+      );
+      if (trust && !trust.valid) {
+        throw new ValidationError(`Attestation key is not trusted: ${trust.errors.join('; ')}`, {
+          field: 'attestation',
+        });
+      }
+    }
+    
     return this.append(entry);
   }
   
@@ -263,7 +425,7 @@ export class Ledger {
     schemaVersion: string;
     metrics?: StateSnapshot['metrics'];
   }): Promise<ChainedEntry> {
-    this.ensureInitialized();
+    this.ensureOpen();
     
     const entry: StateSnapshot = {
       type: 'state_snapshot',
@@ -279,7 +441,16 @@ export class Ledger {
   }
   
   /**
-   * Store content reference (for external content storage)
+   * Store content reference. With a contentStore configured the content is
+   * written there (encrypted, for encrypted sessions) and storage_uri is
+   * filled in, unless storageUri is given. Content with a subjectId is
+   * encrypted with that subject's key so eraseSubject() can shred it.
+   * 
+   * Text content is scanned by the ledger's piiDetector; detected types are
+   * added to piiTypes. Pass containsPii: false to skip detection. With a
+   * redaction policy (the ledger's, or one passed here; false for none) the
+   * detected PII is masked first, and content_hash and the stored bytes are
+   * those of the redacted text.
    */
   async storeContent(params: {
     contentType: ContentReference['content_type'];
@@ -288,12 +459,38 @@ export class Ledger {
     storageUri?: string;
     containsPii?: boolean;
     piiTypes?: ContentReference['pii_types'];
+    subjectId?: string;
+    redaction?: RedactionPolicy | false;
   }): Promise<ChainedEntry> {
-    this.ensureInitialized();
+    this.ensureOpen();
+    
+    if (params.subjectId !== undefined && (!this.subjectKeys || !this.subjectRefKey || !this.contentStore || params.storageUri)) {
+      throw new ValidationError(
+        'subjectId requires subjectKeys and a contentStore, and cannot be combined with storageUri',
+        { field: 'subjectId' },
+      );
+    }
     
-    const contentBuffer = typeof params.content === 'string' 
-      ? Buffer.from(params.content) 
-      : params.content;
+    const { content: contentBuffer, detected, remaining, redaction } = this.prepareContent(params);
+    const piiTypes = [...new Set([...(params.piiTypes ?? []), ...piiTypesOf(detected)])];
+    
+    const contentHash = hashContent(contentBuffer);
+    const subject = params.subjectId !== undefined && this.subjectRefKey
+      ? subjectRef(params.subjectId, this.subjectRefKey)
+      : undefined;
+    
+    // Written before the entry, so a logged reference always points at stored content
+    let storageUri = params.storageUri;
+    if (!storageUri && this.contentStore) {
+      let data = contentBuffer;
+      if (subject !== undefined && this.subjectKeys) {
+        const subjectKey = await this.subjectKeys.getOrCreateKey(subject);
+        data = sealSubjectContent(contentBuffer, contentHash, subjectKey, subject);
+      } else if (this.dataKey) {
+        data = sealContent(contentBuffer, contentHash, this.dataKey, this.session);
+      }
+      storageUri = await this.contentStore.put(contentHash, data, this.contentContext(subject));
+    }
     
     const entry: ContentReference = {
       type: 'content_reference',
@@ -301,93 +498,711 @@ export class Ledger {
       timestamp: timestamp(),
       content_type: params.contentType,
       parent_entry_id: params.parentEntryId,
-      content_hash: hashContent(contentBuffer),
+      content_hash: contentHash,
       size_bytes: contentBuffer.length,
-      storage_uri: params.storageUri,
-      contains_pii: params.containsPii ?? false,
-      pii_types: params.piiTypes,
+      storage_uri: storageUri,
+      // pii_types records what the original held; contains_pii whether the stored content still does
+      contains_pii: params.containsPii ?? ((params.piiTypes?.length ?? 0) > 0 || remaining.length > 0),
+      pii_types: piiTypes.length > 0 ? piiTypes : undefined,
+      subject_ref: subject,
+      redaction,
     };
     
+    // Keep the bytes where the backend supports it so exports can inline them;
+    // never for subject or encrypted-session content, which must only exist sealed
+    if (subject === undefined && !this.dataKey) {
+      this.storage.storeContent?.(entry.content_hash, contentBuffer);
+    }
+    
     return this.append(entry);
   }
   
   /**
-   * Append a raw entry
+   * The content_hash storeContent() would record for this content with the
+   * same options: with a redaction policy, the hash of the redacted text.
+   * Lets callers log hashes (e.g. a model call's prompt_hash) that match the
+   * content they store afterwards.
+   */
+  contentHash(content: string | Buffer, options: {
+    containsPii?: boolean;
+    redaction?: RedactionPolicy | false;
+  } = {}): string {
+    return hashContent(this.prepareContent({ content, ...options }).content);
+  }
+  
+  /**
+   * Scan content for PII and apply the redaction policy in force, returning
+   * the bytes to hash and store
    */
-  private async append(entry: AuditEntry): Promise<ChainedEntry> {
-    const chained = await this.storage.append(entry);
-    this.entryCount++;
+  private prepareContent(params: {
+    content: string | Buffer;
+    containsPii?: boolean;
+    redaction?: RedactionPolicy | false;
+  }): {
+    content: Buffer;
+    detected: PiiMatch[];
+    remaining: PiiMatch[];
+    redaction?: ContentReference['redaction'];
+  } {
+    const original = typeof params.content === 'string' ? Buffer.from(params.content) : params.content;
     
-    // Auto-snapshot if configured
-    if (this.config.snapshotInterval && this.entryCount % this.config.snapshotInterval === 0) {
-      await this.snapshot({
-        trigger: 'periodic',
-        stateHash: hashContent(JSON.stringify({ count: this.entryCount })),
-        schemaVersion: '1.0.0',
+    // Binary content (anything with a NUL byte) is neither scanned nor redacted
+    const isText = !original.includes(0);
+    const detected = params.containsPii === false || !this.piiDetector || !isText
+      ? []
+      : this.piiDetector.detect(original.toString('utf-8'));
+    
+    const policy = params.redaction === undefined ? this.redaction : params.redaction || undefined;
+    if (policy && !this.piiDetector) {
+      throw new ValidationError('redaction requires a piiDetector', { field: 'redaction' });
+    }
+    if (!policy || !isText) {
+      return { content: original, detected, remaining: detected };
+    }
+    
+    const result = redact(original.toString('utf-8'), detected, policy);
+    return {
+      content: Buffer.from(result.text, 'utf-8'),
+      detected,
+      remaining: detected.filter(match => !result.redacted.includes(match)),
+      redaction: {
+        policy_version: policy.version,
+        original_hmac: redactionCommitment(original, policy.hmacKey),
+        redacted_count: result.redacted.length,
+      },
+    };
+  }
+  
+  /**
+   * Read back the content behind a content_reference entry, verifying it
+   * against the logged content_hash
+   */
+  async getContent(entryId: string): Promise<Buffer> {
+    this.ensureOpen();
+    await this.drain();
+    
+    const entries = await this.storage.getAll(this.sessionId);
+    const reference = entries.find(e => e.entry.entry_id === entryId)?.entry;
+    if (reference?.type !== 'content_reference') {
+      throw new StorageError(`No content reference with entry_id ${entryId}`, 'get_content', {
+        sessionId: this.sessionId,
+        entryId,
+      });
+    }
+    
+    return this.readContent(reference);
+  }
+  
+  /**
+   * Content store context a reference's content is sealed in: its subject, or
+   * this session when the session is encrypted
+   */
+  private contentContext(subject?: string): string | undefined {
+    return subject ?? (this.session.encryption ? this.sessionId : undefined);
+  }
+  
+  /**
+   * Fetch a reference's content from the content store or else the backend,
+   * open it if it is sealed, and check it against content_hash
+   */
+  private async readContent(reference: ContentReference): Promise<Buffer> {
+    const { entry_id: entryId, content_hash: contentHash } = reference;
+    // Sealed content is only ever in the content store; the backend copy is plaintext
+    const context = this.contentContext(reference.subject_ref);
+    let content = await this.contentStore?.get(contentHash, context)
+      ?? (context === undefined ? this.storage.getContent?.(contentHash) : undefined);
+    if (!content) {
+      throw new StorageError(`Content for entry ${entryId} is not stored`, 'get_content', {
+        sessionId: this.sessionId,
+        entryId,
+        contentHash,
+      });
+    }
+    
+    if (isSubjectContent(content)) {
+      if (!this.subjectKeys) {
+        throw new CryptoError(`Content for entry ${entryId} is subject-encrypted; configure subjectKeys`, 'decrypt', {
+          sessionId: this.sessionId,
+          entryId,
+        });
+      }
+      content = await openSubjectContent(content, contentHash, this.subjectKeys);
+    } else if (isSealedContent(content)) {
+      if (!this.keyProvider) {
+        throw new CryptoError(`Content for entry ${entryId} is encrypted; configure encryption.keyProvider`, 'decrypt', {
+          sessionId: this.sessionId,
+          entryId,
+        });
+      }
+      content = await openContent(content, contentHash, this.keyProvider);
+    }
+    
+    if (hashContent(content) !== contentHash) {
+      throw new CryptoError(`Stored content for entry ${entryId} does not match its content_hash`, 'verify_content', {
+        sessionId: this.sessionId,
+        entryId,
+        contentHash,
+      });
+    }
+    
+    return content;
+  }
+  
+  /**
+   * Crypto-shred a data subject: destroy their key, so content stored with
+   * their subjectId can no longer be decrypted, and log a signed
+   * subject_erasure entry naming only their subjectRef(). Existing entries are untouched and still verify.
+   */
+  async eraseSubject(subjectId: string, params: {
+    reason?: string;
+    requestedBy?: string;
+  } = {}): Promise<ChainedEntry> {
+    this.ensureOpen();
+    
+    const signer = this.signer();
+    if (!signer) {
+      throw new CryptoError('Subject erasure requires signingKeys or a signer in the ledger config', 'erase_subject', {
+        sessionId: this.sessionId,
+      });
+    }
+    if (!this.subjectKeys || !this.subjectRefKey) {
+      throw new ValidationError('eraseSubject requires subjectKeys in the ledger config', { field: 'subjectKeys' });
+    }
+    
+    // Destroyed first, so the log never records an erasure that did not happen
+    const subject = subjectRef(subjectId, this.subjectRefKey);
+    const keyDestroyed = await this.subjectKeys.destroyKey(subject);
+    
+    const entry: SubjectErasure = await signErasure(
+      {
+        type: 'subject_erasure',
+        entry_id: generateId(),
+        timestamp: timestamp(),
+        subject_ref: subject,
+        reason: params.reason,
+        requested_by: params.requestedBy,
+        key_destroyed: keyDestroyed,
+      },
+      signer,
+      { suite: this.session.suite },
+    );
+    
+    return this.append(entry);
+  }
+  
+  /**
+   * Append a raw entry. Appends are serialized so that concurrent callers
+   * (e.g. tool calls under Promise.all) cannot read the same chain head;
+   * sequence numbers follow call order.
+   */
+  private append(entry: AuditEntry): Promise<ChainedEntry> {
+    // Re-checked here: callers may have awaited (content store, signer) while close() started
+    this.ensureOpen();
+    
+    const task = this.appendQueue.then(async () => {
+      const chained = await this.storage.append(this.sessionId, entry);
+      this.entryCount++;
+      if (this.snapshotInterval && this.entryCount % this.snapshotInterval === 0) {
+        this.snapshotDue = true;
+      }
+      return chained;
+    });
+    
+    // A failed append must not block the ones queued behind it. The
+    // auto-snapshot is queued right behind its entry, as a task of its own so
+    // that its failure cannot fail an append that was already written.
+    this.appendQueue = task.catch(() => undefined).then(() => this.autoSnapshot());
+    return task;
+  }
+  
+  /**
+   * Write a periodic snapshot if one is due. A failed snapshot stays due and
+   * is retried after the next append.
+   */
+  private async autoSnapshot(): Promise<void> {
+    if (!this.snapshotDue) return;
+    
+    const snapshot: StateSnapshot = {
+      type: 'state_snapshot',
+      entry_id: generateId(),
+      timestamp: timestamp(),
+      trigger: 'periodic',
+      state_hash: hashContent(JSON.stringify({ count: this.entryCount })),
+      schema_version: '1.0.0',
+    };
+    try {
+      await this.storage.append(this.sessionId, snapshot);
+      this.entryCount++;
+      this.snapshotDue = false;
+    } catch {
+      // Retried after the next append
+    }
+  }
+  
+  /**
+   * Wait for queued appends to reach storage
+   */
+  private async drain(): Promise<void> {
+    await this.appendQueue;
+  }
+  
+  /**
+   * Sign and persist a tree head (size, RFC 6962 root, timestamp) over every
+   * entry logged so far, so the session has signed evidence before close().
+   * With a timestampAuthority configured, the root is timestamped too.
+   */
+  async checkpoint(): Promise<Checkpoint> {
+    this.ensureOpen();
+    
+    const signer = this.signer();
+    if (!signer) {
+      throw new CryptoError('Checkpoints require signingKeys or a signer in the ledger config', 'checkpoint', {
+        sessionId: this.sessionId,
+      });
+    }
+    if (!this.storage.appendCheckpoint) {
+      throw new StorageError('Storage backend does not support checkpoints', 'checkpoint', {
+        sessionId: this.sessionId,
       });
     }
     
-    return chained;
+    // Queued like an append so the tree head covers a settled chain
+    const task = this.appendQueue.then(async () => {
+      const entries = await this.storage.getAll(this.sessionId);
+      const { suite } = this.session;
+      const checkpoint = await signCheckpoint(this.sessionId, entries.map(e => e.entry_hash), signer, { suite });
+      if (this.timestampAuthority) {
+        checkpoint.tsa_token = await acquireTimestamp(this.timestampAuthority, checkpoint.root_hash, {
+          hashAlgorithm: suiteAlgorithms(suite).hash,
+        });
+      }
+      await this.storage.appendCheckpoint?.(this.sessionId, checkpoint);
+      this.lastCheckpointSize = checkpoint.tree_size;
+      return checkpoint;
+    });
+    
+    this.appendQueue = task.catch(() => undefined);
+    return task;
   }
   
   /**
    * Verify chain integrity
    */
   async verify(): Promise<{ valid: boolean; errors: string[] }> {
-    this.ensureInitialized();
-    return this.storage.verify();
+    this.ensureOpen();
+    await this.drain();
+    return this.storage.verify(this.sessionId);
   }
   
   /**
    * Get entries in range
    */
   async getEntries(start?: number, end?: number): Promise<ChainedEntry[]> {
-    this.ensureInitialized();
+    this.ensureOpen();
+    await this.drain();
     if (start !== undefined && end !== undefined) {
-      return this.storage.getRange(start, end);
+      return this.storage.getRange(this.sessionId, start, end);
     }
-    return this.storage.getAll();
+    return this.storage.getAll(this.sessionId);
   }
   
   /**
    * Get entry count
    */
   async count(): Promise<number> {
-    this.ensureInitialized();
-    return this.storage.count();
+    this.ensureOpen();
+    await this.drain();
+    return this.storage.count(this.sessionId);
+  }
+  
+  /**
+   * Close the session and finalize the log. If the backend fails to close
+   * it (e.g. the final upload), the session stays open and close() can be
+   * called again.
+   */
+  async close(): Promise<AuditLog> {
+    this.ensureOpen();
+    return this.closeWith(() => this.storage.close(this.sessionId, this.signer(), this.timestampAuthority));
+  }
+  
+  /**
+   * Close the session and export it to a specific format. With
+   * include_content, content is read back as getContent() does; content that
+   * is missing, shredded or no longer matches its content_hash is left out.
+   */
+  async export(options: ExportOptions): Promise<Buffer> {
+    this.ensureOpen();
+    const log = await this.closeWith(() => this.storage.close(this.sessionId, this.signer(), this.timestampAuthority));
+    
+    // exportAuditLog looks content up synchronously, so fetch it first
+    const contents = new Map<string, Buffer>();
+    if (options.include_content) {
+      for (const { entry } of log.entries) {
+        if (entry.type !== 'content_reference' || contents.has(entry.content_hash)) continue;
+        const content = await this.readContent(entry).catch(() => undefined);
+        if (content) contents.set(entry.content_hash, content);
+      }
+    }
+    
+    return exportAuditLog(log, options, hash => contents.get(hash));
+  }
+  
+  /**
+   * Get session info
+   */
+  getSession(): SessionEnvelope {
+    return this.session;
+  }
+  
+  /** Whether close() or export() has been called */
+  get isClosed(): boolean {
+    return this.closed;
+  }
+  
+  /**
+   * Refuse new entries from the moment close starts, let the queued ones
+   * drain, then have the backend close the session; reopen if it fails
+   */
+  private async closeWith<T>(closeStorage: () => Promise<T>): Promise<T> {
+    this.closed = true;
+    let result: T;
+    try {
+      await this.drain();
+      result = await closeStorage();
+    } catch (e) {
+      this.closed = false;
+      throw e;
+    }
+    clearInterval(this.checkpointTimer);
+    this.onClose(this.sessionId);
+    return result;
+  }
+  
+  private ensureOpen(): void {
+    if (this.closed) {
+      throw new SessionError('Session has already been closed', this.sessionId);
+    }
+  }
+}
+
+// ============================================================================
+// LEDGER CLASS
+// ============================================================================
+
+export class Ledger {
+  private storage: StorageBackend;
+  private contentStore?: ContentStore;
+  private subjectKeys?: SubjectKeyStore;
+  private piiDetector?: PiiDetector;
+  private redaction?: RedactionPolicy;
+  private signer?: Signer;
+  private config: LedgerConfig;
+  private sessions: Map<string, SessionHandle> = new Map();
+  /** Most recently started or resumed session, used by the single-session methods below */
+  private current?: SessionHandle;
+  
+  constructor(config: LedgerConfig) {
+    if (config.signer && config.signingKeys) {
+      throw new ValidationError('Configure either signingKeys or signer, not both', { field: 'signer' });
+    }
+    if (config.checkpointIntervalMs && !config.signer && !config.signingKeys) {
+      throw new ValidationError('checkpointIntervalMs requires signingKeys or a signer', {
+        field: 'checkpointIntervalMs',
+      });
+    }
+    
+    this.config = config;
+    this.signer = config.signer ?? (config.signingKeys && new LocalSigner(config.signingKeys));
+    checkSignerSuite(this.signer, config.suite ?? DEFAULT_SUITE);
+    
+    // Initialize storage backend
+    const storageOptions = { keyProvider: config.encryption?.keyProvider };
+    if (!config.storage || config.storage === 'memory') {
+      this.storage = new InMemoryStorage();
+    } else if (typeof config.storage === 'object' && 'type' in config.storage) {
+      if (config.storage.type === 'filesystem') {
+        this.storage = new FileSystemStorage(config.storage.path, storageOptions);
+      } else if (config.storage.type === 'sqlite') {
+        this.storage = new SqliteStorage(config.storage.path, storageOptions);
+      } else if (config.storage.type === 's3') {
+        this.storage = new S3Storage(config.storage.config, storageOptions);
+      } else {
+        this.storage = new InMemoryStorage();
+      }
+    } else {
+      this.storage = config.storage;
+    }
+    
+    // Initialize content store
+    if (config.contentStore && 'type' in config.contentStore) {
+      this.contentStore = config.contentStore.type === 'filesystem'
+        ? new FileSystemContentStore(config.contentStore.path)
+        : new S3ContentStore(config.contentStore.config);
+    } else {
+      this.contentStore = config.contentStore;
+    }
+    
+    // Initialize subject key store
+    if (config.subjectKeys && 'type' in config.subjectKeys) {
+      if (!config.encryption) {
+        throw new ValidationError('A filesystem subjectKeys store requires encryption.keyProvider', {
+          field: 'subjectKeys',
+        });
+      }
+      this.subjectKeys = new FileSystemSubjectKeyStore(config.subjectKeys.path, config.encryption.keyProvider);
+    } else {
+      this.subjectKeys = config.subjectKeys;
+    }
+    if (this.subjectKeys && (!config.subjectRefKey || config.subjectRefKey.length < 32)) {
+      throw new ValidationError('subjectKeys requires a subjectRefKey of at least 32 bytes', {
+        field: 'subjectRefKey',
+      });
+    }
+    
+    this.piiDetector = config.piiDetector === false ? undefined : config.piiDetector ?? new DefaultPiiDetector();
+    
+    if (config.redaction) {
+      if (!this.piiDetector) {
+        throw new ValidationError('redaction requires a piiDetector', { field: 'redaction' });
+      }
+      validateRedactionPolicy(config.redaction);
+      this.redaction = config.redaction;
+    }
+  }
+  
+  /**
+   * Start a new audit session. Sessions are independent; call start() once
+   * per conversation or request and log through the returned handle.
+   */
+  async start(initiatedBy: SessionEnvelope['initiated_by'], metadata?: Record<string, unknown>): Promise<SessionHandle> {
+    const session: SessionEnvelope = {
+      session_id: generateId(),
+      org_id: this.config.orgId,
+      agent_id: this.config.agentId,
+      agent_version: this.config.agentVersion,
+      environment: this.config.environment,
+      initiated_by: initiatedBy,
+      initiated_at: timestamp(),
+      compliance_contexts: this.config.compliance,
+      retention_days: this.config.retentionDays ?? 2555,
+      suite: this.config.suite ?? DEFAULT_SUITE,
+      metadata,
+    };
+    
+    let dataKey: Buffer | undefined;
+    if (this.config.encryption) {
+      const sessionKey = await createSessionKey(this.config.encryption.keyProvider, session, {
+        entries: this.config.encryption.encryptEntries ?? false,
+      });
+      session.encryption = sessionKey.encryption;
+      dataKey = sessionKey.key;
+    }
+    
+    await this.storage.initialize(session);
+    return this.track(session, 0, dataKey);
+  }
+  
+  /**
+   * Resume an unclosed session (e.g. after a crash), continuing its chain
+   * from the last persisted entry
+   */
+  async resume(sessionId: string): Promise<SessionHandle> {
+    if (!this.storage.resume) {
+      throw new StorageError('Storage backend does not support resuming sessions', 'resume', { sessionId });
+    }
+    
+    const session = await this.storage.resume(this.config.orgId, sessionId);
+    
+    let dataKey: Buffer | undefined;
+    if (session.encryption) {
+      if (!this.config.encryption) {
+        throw new CryptoError('Session is encrypted; configure encryption.keyProvider to resume it', 'unwrap_key', {
+          sessionId,
+        });
+      }
+      dataKey = await unwrapSessionKey(this.config.encryption.keyProvider, session);
+    }
+    
+    return this.track(session, await this.storage.count(session.session_id), dataKey);
+  }
+  
+  /**
+   * Switch to new signing keys, or another signer. Every later signature
+   * (checkpoints, erasures and close()) uses them, including those of
+   * sessions that are already open; signatures already made keep the kid of
+   * the key that made them, so register the new key before rotating and keep
+   * the old one until its logs no longer need verifying.
+   *
+   * @throws ValidationError if the private key does not belong to the public key,
+   *   or the key's algorithm is not the one of the configured suite
+   */
+  rotateSigningKeys(keys: SigningKeys | Signer): void {
+    const signer = 'sign' in keys ? keys : new LocalSigner(keys);
+    checkSignerSuite(signer, this.config.suite ?? DEFAULT_SUITE);
+    this.signer = signer;
+  }
+  
+  /**
+   * Envelopes of the sessions started or resumed on this ledger and not yet closed
+   */
+  listOpenSessions(): SessionEnvelope[] {
+    return [...this.sessions.values()].map(handle => handle.getSession());
+  }
+  
+  private track(session: SessionEnvelope, entryCount: number, dataKey?: Buffer): SessionHandle {
+    const handle = new SessionHandle(this.storage, session, {
+      entryCount,
+      contentStore: this.contentStore,
+      keyProvider: this.config.encryption?.keyProvider,
+      subjectKeys: this.subjectKeys,
+      subjectRefKey: this.config.subjectRefKey,
+      approverKeys: this.config.approverKeys,
+      piiDetector: this.piiDetector,
+      redaction: this.redaction,
+      dataKey,
+      snapshotInterval: this.config.snapshotInterval,
+      signer: () => this.signer,
+      timestampAuthority: this.config.timestampAuthority,
+      checkpointIntervalMs: this.config.checkpointIntervalMs,
+      onClose: id => this.sessions.delete(id),
+    });
+    
+    this.sessions.set(session.session_id, handle);
+    this.current = handle;
+    return handle;
+  }
+  
+  // The methods below act on the most recently started session, for callers
+  // that use one session per Ledger.
+  
+  /**
+   * Log a model call
+   */
+  async logModelCall(params: Parameters<SessionHandle['logModelCall']>[0]): Promise<ChainedEntry> {
+    return this.currentSession().logModelCall(params);
+  }
+  
+  /**
+   * Log a tool invocation
+   */
+  async logToolInvocation(params: Parameters<SessionHandle['logToolInvocation']>[0]): Promise<ChainedEntry> {
+    return this.currentSession().logToolInvocation(params);
+  }
+  
+  /**
+   * Log a decision point
+   */
+  async logDecision(params: Parameters<SessionHandle['logDecision']>[0]): Promise<ChainedEntry> {
+    return this.currentSession().logDecision(params);
+  }
+  
+  /**
+   * Log a human approval
+   */
+  async logApproval(params: Parameters<SessionHandle['logApproval']>[0]): Promise<ChainedEntry> {
+    return this.currentSession().logApproval(params);
+  }
+  
+  /**
+   * Take a state snapshot
+   */
+  async snapshot(params: Parameters<SessionHandle['snapshot']>[0]): Promise<ChainedEntry> {
+    return this.currentSession().snapshot(params);
+  }
+  
+  /**
+   * Store content reference (for external content storage)
+   */
+  async storeContent(params: Parameters<SessionHandle['storeContent']>[0]): Promise<ChainedEntry> {
+    return this.currentSession().storeContent(params);
+  }
+  
+  /**
+   * The content_hash storeContent() would record for this content
+   */
+  contentHash(content: string | Buffer, options?: Parameters<SessionHandle['contentHash']>[1]): string {
+    return this.currentSession().contentHash(content, options);
+  }
+  
+  /**
+   * Read back and verify stored content
+   */
+  async getContent(entryId: string): Promise<Buffer> {
+    return this.currentSession().getContent(entryId);
+  }
+  
+  /**
+   * Crypto-shred a data subject and log a signed erasure entry
+   */
+  async eraseSubject(subjectId: string, params?: Parameters<SessionHandle['eraseSubject']>[1]): Promise<ChainedEntry> {
+    return this.currentSession().eraseSubject(subjectId, params);
+  }
+  
+  /**
+   * Take a signed checkpoint
+   */
+  async checkpoint(): Promise<Checkpoint> {
+    return this.currentSession().checkpoint();
+  }
+  
+  /**
+   * Verify chain integrity
+   */
+  async verify(): Promise<{ valid: boolean; errors: string[] }> {
+    return this.currentSession().verify();
+  }
+  
+  /**
+   * Get entries in range
+   */
+  async getEntries(start?: number, end?: number): Promise<ChainedEntry[]> {
+    return this.currentSession().getEntries(start, end);
+  }
+  
+  /**
+   * Get entry count
+   */
+  async count(): Promise<number> {
+    return this.currentSession().count();
   }
   
   /**
    * Close the session and finalize the log
    */
   async close(): Promise<AuditLog> {
-    this.ensureInitialized();
-    return this.storage.close(
-      this.signingKeys?.privateKey,
-      this.signingKeys?.publicKey
-    );
+    return this.currentSession().close();
   }
   
   /**
    * Export to a specific format
    */
   async export(options: ExportOptions): Promise<Buffer> {
-    this.ensureInitialized();
-    return this.storage.export(options);
+    return this.currentSession().export(options);
   }
   
   /**
    * Get current session info
    */
   getSession(): SessionEnvelope {
-    this.ensureInitialized();
-    return this.storage.getSession();
+    return this.currentSession().getSession();
   }
   
-  private ensureInitialized(): void {
-    if (!this.initialized) {
+  private currentSession(): SessionHandle {
+    if (!this.current) {
       throw new LedgerNotInitializedError();
     }
+    return this.current;
+  }
+}
+
+/**
+ * A signer can only sign sessions whose suite uses its key's algorithm
+ */
+function checkSignerSuite(signer: Signer | undefined, suite: CryptoSuite): void {
+  const { signature } = suiteAlgorithms(suite);
+  const algorithm = signer && keyAlgorithm(signer.publicKey);
+  if (algorithm && algorithm !== signature) {
+    throw new ValidationError(`Suite ${suite} needs a ${signature} signing key, got ${algorithm}`, { field: 'suite' });
   }
 }
 
@@ -403,10 +1218,12 @@ export function createLedger(config: LedgerConfig): Ledger {
 }
 
 /**
- * Generate signing keys for attestation
+ * Generate signing keys for attestation, with the kid to register them under,
+ * for a suite's signature algorithm (default: Ed25519)
  */
-export function generateSigningKeys(): { publicKey: string; privateKey: string } {
-  return generateKeyPair();
+export function generateSigningKeys(suite?: CryptoSuite): Required<SigningKeys> {
+  const keys = generateKeyPair(suite);
+  return { ...keys, kid: keyId(keys.publicKey) };
 }
 
 /**
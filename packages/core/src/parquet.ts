@@ -0,0 +1,364 @@
+/**
+ * Minimal Apache Parquet writer
+ * Writes a single row group of flat, nullable columns with PLAIN encoding.
+ *
+ * Pure TypeScript (Thrift compact protocol for metadata, zlib for GZIP pages) -
+ * no native dependencies.
+ */
+
+import { gzipSync } from 'zlib';
+import { ExportError } from './errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ParquetColumnType = 'string' | 'int64' | 'double' | 'boolean' | 'timestamp';
+
+export type ParquetValue = string | number | boolean | null | undefined;
+
+export interface ParquetColumn {
+  name: string;
+  type: ParquetColumnType;
+  /** One value per row; null/undefined are written as nulls */
+  values: ParquetValue[];
+}
+
+export interface ParquetWriteOptions {
+  /** Compress data pages with GZIP (default: uncompressed) */
+  compress?: boolean;
+  /** Key/value pairs stored in the file footer */
+  metadata?: Record<string, string>;
+}
+
+// Enum values from parquet.thrift
+const PhysicalType = { BOOLEAN: 0, INT64: 2, DOUBLE: 5, BYTE_ARRAY: 6 } as const;
+const ConvertedType = { UTF8: 0, TIMESTAMP_MILLIS: 9 } as const;
+const Repetition = { REQUIRED: 0, OPTIONAL: 1 } as const;
+const Encoding = { PLAIN: 0, RLE: 3 } as const;
+const Codec = { UNCOMPRESSED: 0, GZIP: 2 } as const;
+const PageType = { DATA_PAGE: 0 } as const;
+
+const MAGIC = Buffer.from('PAR1');
+
+// ============================================================================
+// WRITER
+// ============================================================================
+
+/**
+ * Write columns as a Parquet file
+ *
+ * @example
+ * const file = writeParquet([
+ *   { name: 'id', type: 'int64', values: [1, 2] },
+ *   { name: 'label', type: 'string', values: ['a', null] },
+ * ]);
+ */
+export function writeParquet(columns: ParquetColumn[], options: ParquetWriteOptions = {}): Buffer {
+  const numRows = columns[0]?.values.length ?? 0;
+  for (const column of columns) {
+    if (column.values.length !== numRows) {
+      throw new ExportError(
+        `Parquet column ${column.name} has ${column.values.length} values, expected ${numRows}`,
+        'parquet',
+        { column: column.name },
+      );
+    }
+  }
+
+  const codec = options.compress ? Codec.GZIP : Codec.UNCOMPRESSED;
+  const chunks: Buffer[] = [MAGIC];
+  let offset = MAGIC.length;
+  const columnChunks: Buffer[] = [];
+  let rowGroupBytes = 0;
+
+  for (const column of columns) {
+    const body = encodePage(column);
+    const data = codec === Codec.GZIP ? gzipSync(body) : body;
+
+    const header = new CompactWriter();
+    header.struct(() => {
+      header.i32Field(1, PageType.DATA_PAGE);
+      header.i32Field(2, body.length);
+      header.i32Field(3, data.length);
+      header.structField(5, () => {
+        header.i32Field(1, numRows);
+        header.i32Field(2, Encoding.PLAIN);
+        header.i32Field(3, Encoding.RLE);
+        header.i32Field(4, Encoding.RLE);
+      });
+    });
+    const headerBytes = header.toBuffer();
+
+    const pageOffset = offset;
+    chunks.push(headerBytes, data);
+    offset += headerBytes.length + data.length;
+    rowGroupBytes += headerBytes.length + body.length;
+
+    const meta = new CompactWriter();
+    meta.struct(() => {
+      meta.i64Field(2, pageOffset);
+      meta.structField(3, () => {
+        meta.i32Field(1, physicalType(column.type));
+        meta.listField(2, 'i32', [Encoding.PLAIN, Encoding.RLE]);
+        meta.listField(3, 'binary', [column.name]);
+        meta.i32Field(4, codec);
+        meta.i64Field(5, numRows);
+        meta.i64Field(6, headerBytes.length + body.length);
+        meta.i64Field(7, headerBytes.length + data.length);
+        meta.i64Field(9, pageOffset);
+      });
+    });
+    columnChunks.push(meta.toBuffer());
+  }
+
+  const footer = new CompactWriter();
+  footer.struct(() => {
+    footer.i32Field(1, 1);
+    footer.structListField(2, [
+      () => {
+        footer.binaryField(4, 'schema');
+        footer.i32Field(5, columns.length);
+      },
+      ...columns.map(column => () => writeSchemaElement(footer, column)),
+    ]);
+    footer.i64Field(3, numRows);
+    footer.structListField(4, [() => {
+      footer.rawStructListField(1, columnChunks);
+      footer.i64Field(2, rowGroupBytes);
+      footer.i64Field(3, numRows);
+    }]);
+    const metadata = Object.entries(options.metadata ?? {});
+    if (metadata.length > 0) {
+      footer.structListField(5, metadata.map(([key, value]) => () => {
+        footer.binaryField(1, key);
+        footer.binaryField(2, value);
+      }));
+    }
+    footer.binaryField(6, 'agentledger');
+  });
+  const footerBytes = footer.toBuffer();
+
+  const footerLength = Buffer.alloc(4);
+  footerLength.writeUInt32LE(footerBytes.length);
+  chunks.push(footerBytes, footerLength, MAGIC);
+
+  return Buffer.concat(chunks);
+}
+
+function physicalType(type: ParquetColumnType): number {
+  switch (type) {
+    case 'string':
+      return PhysicalType.BYTE_ARRAY;
+    case 'int64':
+    case 'timestamp':
+      return PhysicalType.INT64;
+    case 'double':
+      return PhysicalType.DOUBLE;
+    case 'boolean':
+      return PhysicalType.BOOLEAN;
+  }
+}
+
+function writeSchemaElement(writer: CompactWriter, column: ParquetColumn): void {
+  writer.i32Field(1, physicalType(column.type));
+  writer.i32Field(3, Repetition.OPTIONAL);
+  writer.binaryField(4, column.name);
+
+  if (column.type === 'string') {
+    writer.i32Field(6, ConvertedType.UTF8);
+    // LogicalType.STRING
+    writer.structField(10, () => writer.structField(1, () => undefined));
+  } else if (column.type === 'timestamp') {
+    writer.i32Field(6, ConvertedType.TIMESTAMP_MILLIS);
+    // LogicalType.TIMESTAMP(isAdjustedToUTC = true, unit = MILLIS)
+    writer.structField(10, () => writer.structField(8, () => {
+      writer.boolField(1, true);
+      writer.structField(2, () => writer.structField(1, () => undefined));
+    }));
+  }
+}
+
+/**
+ * Data page v1 body: definition levels (RLE, bit width 1) then PLAIN values
+ */
+function encodePage(column: ParquetColumn): Buffer {
+  const present = column.values.map(v => v !== null && v !== undefined);
+  const levels = encodeDefinitionLevels(present);
+  const levelsLength = Buffer.alloc(4);
+  levelsLength.writeUInt32LE(levels.length);
+
+  const values = column.values.filter((v): v is string | number | boolean => v !== null && v !== undefined);
+  return Buffer.concat([levelsLength, levels, encodePlain(column, values)]);
+}
+
+function encodeDefinitionLevels(present: boolean[]): Buffer {
+  const bytes: number[] = [];
+  let i = 0;
+  while (i < present.length) {
+    let run = 1;
+    while (i + run < present.length && present[i + run] === present[i]) run++;
+    // RLE run: varint(count << 1), then the repeated value in one byte
+    writeVarint(bytes, run * 2);
+    bytes.push(present[i] ? 1 : 0);
+    i += run;
+  }
+  return Buffer.from(bytes);
+}
+
+function encodePlain(column: ParquetColumn, values: (string | number | boolean)[]): Buffer {
+  switch (column.type) {
+    case 'string': {
+      return Buffer.concat(values.map(value => {
+        const data = Buffer.from(String(value), 'utf-8');
+        const length = Buffer.alloc(4);
+        length.writeUInt32LE(data.length);
+        return Buffer.concat([length, data]);
+      }));
+    }
+    case 'int64':
+    case 'timestamp': {
+      const out = Buffer.alloc(values.length * 8);
+      values.forEach((value, i) => out.writeBigInt64LE(BigInt(Math.trunc(Number(value))), i * 8));
+      return out;
+    }
+    case 'double': {
+      const out = Buffer.alloc(values.length * 8);
+      values.forEach((value, i) => out.writeDoubleLE(Number(value), i * 8));
+      return out;
+    }
+    case 'boolean': {
+      const out = Buffer.alloc(Math.ceil(values.length / 8));
+      values.forEach((value, i) => {
+        if (value) out[i >> 3] = (out[i >> 3] ?? 0) | (1 << (i & 7));
+      });
+      return out;
+    }
+  }
+}
+
+function writeVarint(bytes: number[], value: number): void {
+  let remaining = value;
+  while (remaining >= 0x80) {
+    bytes.push((remaining % 0x80) | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  bytes.push(remaining);
+}
+
+// ============================================================================
+// THRIFT COMPACT PROTOCOL
+// ============================================================================
+
+const CompactType = {
+  BOOLEAN_TRUE: 1,
+  BOOLEAN_FALSE: 2,
+  I32: 5,
+  I64: 6,
+  BINARY: 8,
+  LIST: 9,
+  STRUCT: 12,
+} as const;
+
+/**
+ * Just enough of the Thrift compact protocol to write Parquet metadata
+ */
+class CompactWriter {
+  private bytes: number[] = [];
+  private lastFieldIds: number[] = [];
+
+  struct(writeFields: () => void): void {
+    this.lastFieldIds.push(0);
+    writeFields();
+    this.bytes.push(0); // STOP
+    this.lastFieldIds.pop();
+  }
+
+  i32Field(id: number, value: number): void {
+    this.fieldHeader(id, CompactType.I32);
+    this.zigzag(value);
+  }
+
+  i64Field(id: number, value: number): void {
+    this.fieldHeader(id, CompactType.I64);
+    this.zigzag(value);
+  }
+
+  boolField(id: number, value: boolean): void {
+    this.fieldHeader(id, value ? CompactType.BOOLEAN_TRUE : CompactType.BOOLEAN_FALSE);
+  }
+
+  binaryField(id: number, value: string): void {
+    this.fieldHeader(id, CompactType.BINARY);
+    this.binary(value);
+  }
+
+  structField(id: number, writeFields: () => void): void {
+    this.fieldHeader(id, CompactType.STRUCT);
+    this.struct(writeFields);
+  }
+
+  listField(id: number, elementType: 'i32' | 'binary', values: (number | string)[]): void {
+    this.fieldHeader(id, CompactType.LIST);
+    this.listHeader(values.length, elementType === 'i32' ? CompactType.I32 : CompactType.BINARY);
+    for (const value of values) {
+      if (typeof value === 'number') {
+        this.zigzag(value);
+      } else {
+        this.binary(value);
+      }
+    }
+  }
+
+  structListField(id: number, elements: (() => void)[]): void {
+    this.fieldHeader(id, CompactType.LIST);
+    this.listHeader(elements.length, CompactType.STRUCT);
+    for (const writeFields of elements) {
+      this.struct(writeFields);
+    }
+  }
+
+  /** List of structs already serialized by another writer */
+  rawStructListField(id: number, elements: Buffer[]): void {
+    this.fieldHeader(id, CompactType.LIST);
+    this.listHeader(elements.length, CompactType.STRUCT);
+    for (const element of elements) {
+      this.bytes.push(...element);
+    }
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.from(this.bytes);
+  }
+
+  private fieldHeader(id: number, type: number): void {
+    const last = this.lastFieldIds[this.lastFieldIds.length - 1] ?? 0;
+    const delta = id - last;
+    if (delta > 0 && delta <= 15) {
+      this.bytes.push((delta << 4) | type);
+    } else {
+      this.bytes.push(type);
+      this.zigzag(id);
+    }
+    this.lastFieldIds[this.lastFieldIds.length - 1] = id;
+  }
+
+  private listHeader(size: number, elementType: number): void {
+    if (size < 15) {
+      this.bytes.push((size << 4) | elementType);
+    } else {
+      this.bytes.push(0xf0 | elementType);
+      writeVarint(this.bytes, size);
+    }
+  }
+
+  private binary(value: string): void {
+    const data = Buffer.from(value, 'utf-8');
+    writeVarint(this.bytes, data.length);
+    this.bytes.push(...data);
+  }
+
+  private zigzag(value: number): void {
+    writeVarint(this.bytes, value >= 0 ? value * 2 : -value * 2 - 1);
+  }
+}
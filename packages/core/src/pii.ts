@@ -0,0 +1,224 @@
+/**
+ * AgentLedger PII Detection
+ * Offline recognizers for personal and health data in stored content.
+ *
+ * Ledger.storeContent() runs a PiiDetector over text content and fills
+ * contains_pii / pii_types on the content_reference entry. Recognizers are
+ * regular expressions, backed by checksum or range validators where the
+ * format has one (Luhn for card numbers, mod 97 for IBANs, SSA rules for SSNs)
+ * to keep false positives down.
+ */
+
+import type { ContentReference } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PiiType = NonNullable<ContentReference['pii_types']>[number];
+
+export interface PiiMatch {
+  type: PiiType;
+
+  /** Name of the recognizer that matched */
+  recognizer: string;
+
+  /** Offset of the match in the text */
+  start: number;
+
+  /** Offset just past the match */
+  end: number;
+}
+
+export interface PiiRecognizer {
+  name: string;
+  type: PiiType;
+
+  /** Spans of the text this recognizer considers PII */
+  find(text: string): Array<{ start: number; end: number }>;
+}
+
+export interface PiiDetector {
+  detect(text: string): PiiMatch[];
+}
+
+// ============================================================================
+// PATTERN RECOGNIZERS
+// ============================================================================
+
+/**
+ * Build a recognizer from a regular expression
+ *
+ * @param options.group - Capture group holding the PII (default: the whole match),
+ *   for patterns that need context such as a "DOB:" label
+ * @param options.validate - Reject candidates, e.g. by checksum
+ *
+ * @example
+ * const employeeId = patternRecognizer('employee_id', 'other', /\bEMP-\d{6}\b/);
+ */
+export function patternRecognizer(
+  name: string,
+  type: PiiType,
+  pattern: RegExp,
+  options: { group?: number; validate?: (value: string) => boolean } = {},
+): PiiRecognizer {
+  const flags = [...new Set(`${pattern.flags}gd`)].join('');
+  const group = options.group ?? 0;
+
+  return {
+    name,
+    type,
+    find(text: string) {
+      const spans: Array<{ start: number; end: number }> = [];
+      for (const match of text.matchAll(new RegExp(pattern.source, flags))) {
+        const span = match.indices?.[group];
+        if (!span || (options.validate && !options.validate(text.slice(span[0], span[1])))) continue;
+        spans.push({ start: span[0], end: span[1] });
+      }
+      return spans;
+    },
+  };
+}
+
+// ============================================================================
+// VALIDATORS
+// ============================================================================
+
+/**
+ * Luhn (mod 10) checksum used by payment card numbers
+ */
+export function luhnCheck(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+function isCardNumber(value: string): boolean {
+  const digits = value.replace(/[ -]/g, '');
+  return digits.length >= 13 && digits.length <= 19 && luhnCheck(digits);
+}
+
+/** Area 000, 666 and 900-999, group 00 and serial 0000 are never issued */
+function isSsn(value: string): boolean {
+  const [area = '', group, serial] = value.split(/[- ]/);
+  return area !== '000' && area !== '666' && !area.startsWith('9') && group !== '00' && serial !== '0000';
+}
+
+/** ISO 13616 mod 97 check */
+function isIban(value: string): boolean {
+  const compact = value.replace(/ /g, '');
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+/** A real calendar date in the past: year-first, or month/day-first in either order */
+function isBirthDate(value: string): boolean {
+  const [first = 0, second = 0, third = 0] = value.split(/[-/.]/).map(Number);
+  if (first > 31) return isPastDate(first, second, third);
+
+  let year = third;
+  if (year < 100) year += year > new Date().getUTCFullYear() % 100 ? 1900 : 2000;
+  return isPastDate(year, first, second) || isPastDate(year, second, first);
+}
+
+function isPastDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return year >= 1900 && date.getUTCMonth() === month - 1 && date.getUTCDate() === day && date.getTime() <= Date.now();
+}
+
+// ============================================================================
+// BUILT-IN RECOGNIZERS
+// ============================================================================
+
+const STREET_SUFFIXES = 'Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|'
+  + 'Terrace|Ter|Circle|Cir|Parkway|Pkwy|Highway|Hwy';
+
+export const BUILTIN_RECOGNIZERS: readonly PiiRecognizer[] = [
+  patternRecognizer('email', 'email', /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/),
+  patternRecognizer('us_ssn', 'ssn', /\b\d{3}([- ])\d{2}\1\d{4}\b/, { validate: isSsn }),
+  patternRecognizer('payment_card', 'financial', /\b\d(?:[ -]?\d){12,18}\b/, { validate: isCardNumber }),
+  patternRecognizer('iban', 'financial', /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/, {
+    validate: isIban,
+  }),
+  patternRecognizer('us_phone', 'phone', /(?<![\d-])(?:\+1[-. ]?)?(?:\([2-9]\d{2}\)|[2-9]\d{2})[-. ]?[2-9]\d{2}[-. ]\d{4}\b/),
+  patternRecognizer('intl_phone', 'phone', /(?<!\w)\+[2-9]\d{0,2}[ -]?\d{2,4}(?:[ -]?\d{2,4}){2,3}\b/),
+  patternRecognizer(
+    'date_of_birth',
+    'dob',
+    /\b(?:DOB|D\.O\.B\.|date of birth|birth ?date|born(?: on)?)\s*[:#]?\s*(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4})\b/i,
+    { group: 1, validate: isBirthDate },
+  ),
+  patternRecognizer(
+    'medical_record_number',
+    'medical',
+    /\b(?:MRN|medical record(?: number| no\.?| #)?|patient (?:id|number))\s*[:#]?\s*([A-Z0-9-]*\d{5}[A-Z0-9-]*)\b/i,
+    { group: 1 },
+  ),
+  patternRecognizer(
+    'us_street_address',
+    'address',
+    new RegExp(`\\b\\d{1,6}\\s+(?:[A-Z][A-Za-z]*\\.?\\s+){1,4}(?:${STREET_SUFFIXES})\\b\\.?`),
+  ),
+  patternRecognizer('po_box', 'address', /\bP\.? ?O\.? Box \d+\b/i),
+];
+
+// ============================================================================
+// DETECTOR
+// ============================================================================
+
+/**
+ * Runs the built-in recognizers plus any custom ones
+ *
+ * @example
+ * const detector = new DefaultPiiDetector()
+ *   .addRecognizer(patternRecognizer('member_id', 'medical', /\bMBR\d{8}\b/));
+ */
+export class DefaultPiiDetector implements PiiDetector {
+  private recognizers: PiiRecognizer[];
+
+  /**
+   * @param options.builtins - Include BUILTIN_RECOGNIZERS (default: true)
+   */
+  constructor(options: { recognizers?: PiiRecognizer[]; builtins?: boolean } = {}) {
+    this.recognizers = [
+      ...(options.builtins === false ? [] : BUILTIN_RECOGNIZERS),
+      ...(options.recognizers ?? []),
+    ];
+  }
+
+  addRecognizer(recognizer: PiiRecognizer): this {
+    this.recognizers.push(recognizer);
+    return this;
+  }
+
+  detect(text: string): PiiMatch[] {
+    return this.recognizers
+      .flatMap(recognizer => recognizer.find(text).map(span => ({
+        type: recognizer.type,
+        recognizer: recognizer.name,
+        ...span,
+      })))
+      .sort((a, b) => a.start - b.start || b.end - a.end);
+  }
+}
+
+/**
+ * Distinct PII types of a set of matches, in a stable order
+ */
+export function piiTypesOf(matches: Array<Pick<PiiMatch, 'type'>>): PiiType[] {
+  return [...new Set(matches.map(m => m.type))].sort();
+}
@@ -0,0 +1,126 @@
+/**
+ * AgentLedger Redaction
+ * Masks detected PII before content is persisted.
+ *
+ * Matches from a PiiDetector are replaced with typed placeholders ([SSN]) or
+ * keyed HMAC tokens ([SSN:3f0c9a…]). HMAC tokens are deterministic under one
+ * key, so the same identifier maps to the same token across an org's logs
+ * and records can still be correlated without storing the identifier.
+ *
+ * The same key commits to the original content (redactionCommitment()). The
+ * commitment is keyed because PII-bearing text is often short enough that an
+ * unkeyed hash of it could be confirmed by guessing.
+ */
+
+import { createHmac } from 'crypto';
+import type { PiiMatch, PiiType } from './pii';
+import { ValidationError } from './errors';
+
+// ============================================================================
+// POLICY
+// ============================================================================
+
+export type RedactionMode = 'placeholder' | 'hmac';
+
+export interface RedactionPolicy {
+  /** Recorded on every content_reference the policy is applied to */
+  version: string;
+
+  /** Replacement style (default: placeholder) */
+  mode?: RedactionMode;
+
+  /**
+   * Org-wide secret, at least 32 bytes: keys hmac tokens and the
+   * original_hmac commitment recorded in either mode
+   */
+  hmacKey: Buffer;
+
+  /** PII types to mask (default: all) */
+  types?: PiiType[];
+}
+
+export interface RedactionResult {
+  text: string;
+
+  /** Matches that were masked, in text order */
+  redacted: PiiMatch[];
+}
+
+/**
+ * @throws ValidationError if the policy cannot be applied
+ */
+export function validateRedactionPolicy(policy: RedactionPolicy): void {
+  if (!policy.version) {
+    throw new ValidationError('Redaction policy requires a version', { field: 'redaction.version' });
+  }
+  if (!policy.hmacKey || policy.hmacKey.length < 32) {
+    throw new ValidationError('Redaction policy requires an hmacKey of at least 32 bytes', {
+      field: 'redaction.hmacKey',
+    });
+  }
+}
+
+// ============================================================================
+// REDACTION
+// ============================================================================
+
+/**
+ * Replace the matched spans of text according to the policy. Overlapping
+ * matches are merged into the first (earliest, then longest) one.
+ */
+export function redact(text: string, matches: PiiMatch[], policy: RedactionPolicy): RedactionResult {
+  validateRedactionPolicy(policy);
+
+  const selected = matches
+    .filter(m => !policy.types || policy.types.includes(m.type))
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const redacted: PiiMatch[] = [];
+  let output = '';
+  let cursor = 0;
+  for (const match of selected) {
+    if (match.start < cursor) continue;
+
+    const value = text.slice(match.start, match.end);
+    output += text.slice(cursor, match.start) + replacement(match.type, value, policy);
+    cursor = match.end;
+    redacted.push(match);
+  }
+
+  return { text: output + text.slice(cursor), redacted };
+}
+
+/**
+ * The HMAC token for a value: stable for the same normalized value, type and key
+ */
+export function redactionToken(type: PiiType, value: string, hmacKey: Buffer): string {
+  const digest = createHmac('sha256', hmacKey).update(`${type}:${normalize(type, value)}`).digest('hex');
+  return `[${type.toUpperCase()}:${digest.slice(0, 16)}]`;
+}
+
+/**
+ * Keyed commitment to content before redaction, recorded as
+ * redaction.original_hmac. Whoever holds the original proves possession by
+ * having the key holder recompute it; without the key a guess cannot be checked.
+ */
+export function redactionCommitment(content: string | Buffer, hmacKey: Buffer): string {
+  return createHmac('sha256', hmacKey).update('original:').update(content).digest('hex');
+}
+
+function replacement(type: PiiType, value: string, policy: RedactionPolicy): string {
+  return policy.mode === 'hmac'
+    ? redactionToken(type, value, policy.hmacKey)
+    : `[${type.toUpperCase()}]`;
+}
+
+/** So 123-45-6789 and 123 45 6789, or Jane@Example.com and jane@example.com, share a token */
+function normalize(type: PiiType, value: string): string {
+  switch (type) {
+    case 'ssn':
+    case 'phone':
+    case 'financial':
+      return value.replace(/[^0-9A-Za-z+]/g, '').toUpperCase();
+    default:
+      return value.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * AgentLedger Signers
+ * Pluggable signing for checkpoints, subject erasures and closed logs.
+ *
+ * The ledger never needs a private key itself, only something that signs.
+ * LocalSigner holds a key in memory (what `signingKeys` becomes);
+ * RemoteSigner forwards each request to a signing daemon over a Unix socket,
+ * so the key can stay in an HSM or KMS fronted by that daemon.
+ */
+
+import { createConnection, createServer, Server } from 'net';
+import { chmodSync, existsSync, lstatSync, mkdtempSync, renameSync, rmdirSync, unlinkSync } from 'fs';
+import { dirname, join } from 'path';
+import { keyId, sign, verify } from './crypto';
+import { CryptoError, ValidationError } from './errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Base64 signature (Ed25519, or IEEE P1363 ECDSA P-384) */
+export type Signature = string;
+
+export interface Signer {
+  /** Recorded as kid on every signature */
+  readonly keyId: string;
+
+  /**
+   * Public key (base64 PEM), embedded next to each signature. Its algorithm
+   * must be the one of the session's suite.
+   */
+  readonly publicKey: string;
+
+  sign(data: string): Promise<Signature>;
+}
+
+export interface SigningKeys {
+  publicKey: string;
+  privateKey: string;
+
+  /** Recorded as kid on every signature (default: keyId(publicKey)) */
+  kid?: string;
+}
+
+// ============================================================================
+// LOCAL SIGNER
+// ============================================================================
+
+/**
+ * Signs with a key held in process memory (development, tests, or
+ * deployments whose key policy allows it)
+ */
+export class LocalSigner implements Signer {
+  readonly keyId: string;
+  readonly publicKey: string;
+  private privateKey: string;
+
+  /**
+   * @throws ValidationError if the private key does not belong to the public key
+   */
+  constructor(keys: SigningKeys) {
+    let matches = false;
+    try {
+      matches = verify('agentledger-signer', sign('agentledger-signer', keys.privateKey), keys.publicKey);
+    } catch {
+      // An unreadable private key is reported the same way
+    }
+    if (!matches) {
+      throw new ValidationError('signingKeys.privateKey does not match signingKeys.publicKey', {
+        field: 'signingKeys',
+      });
+    }
+
+    this.keyId = keys.kid ?? keyId(keys.publicKey);
+    this.publicKey = keys.publicKey;
+    this.privateKey = keys.privateKey;
+  }
+
+  async sign(data: string): Promise<Signature> {
+    return sign(data, this.privateKey);
+  }
+}
+
+// ============================================================================
+// REMOTE SIGNER (Unix socket)
+// ============================================================================
+
+/*
+ * Wire protocol: one JSON request per connection, answered by one JSON line.
+ *
+ *   → {"method":"public_key","key_id":"acme-2025-q1"}
+ *   ← {"key_id":"acme-2025-q1","public_key":"<base64 PEM>"}
+ *   → {"method":"sign","key_id":"acme-2025-q1","data":"<base64>"}
+ *   ← {"signature":"<base64>"}
+ *   ← {"error":"<message>"}   (either request)
+ *
+ * key_id may be omitted to use the daemon's default key.
+ */
+
+interface SignerRequest {
+  method: 'public_key' | 'sign';
+  key_id?: string;
+  data?: string;
+}
+
+interface SignerResponse {
+  key_id?: string;
+  public_key?: string;
+  signature?: string;
+  error?: string;
+}
+
+/**
+ * Signs through a signing daemon listening on a Unix socket. Every returned
+ * signature is verified against the daemon's public key before use.
+ *
+ * @example
+ * const signer = await RemoteSigner.connect('/run/agentledger/signer.sock', { keyId: 'acme-2025-q1' });
+ * const ledger = new Ledger({ ...config, signer });
+ */
+export class RemoteSigner implements Signer {
+  readonly keyId: string;
+  readonly publicKey: string;
+  private socketPath: string;
+  private timeoutMs: number;
+
+  private constructor(socketPath: string, keyId: string, publicKey: string, timeoutMs: number) {
+    this.socketPath = socketPath;
+    this.keyId = keyId;
+    this.publicKey = publicKey;
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Fetch the key's public half from the daemon
+   *
+   * @param options.keyId - Key to sign with (default: the daemon's default key)
+   * @param options.timeoutMs - Per-request timeout (default: 10 000)
+   */
+  static async connect(
+    socketPath: string,
+    options: { keyId?: string; timeoutMs?: number } = {},
+  ): Promise<RemoteSigner> {
+    const timeoutMs = options.timeoutMs ?? 10_000;
+    const response = await request(socketPath, { method: 'public_key', key_id: options.keyId }, timeoutMs);
+    if (!response.public_key) {
+      throw new CryptoError('Signing daemon did not return a public key', 'signer', { socketPath });
+    }
+    return new RemoteSigner(
+      socketPath,
+      response.key_id ?? options.keyId ?? keyId(response.public_key),
+      response.public_key,
+      timeoutMs,
+    );
+  }
+
+  async sign(data: string): Promise<Signature> {
+    const response = await request(
+      this.socketPath,
+      { method: 'sign', key_id: this.keyId, data: Buffer.from(data).toString('base64') },
+      this.timeoutMs,
+    );
+    if (!response.signature || !verify(data, response.signature, this.publicKey)) {
+      throw new CryptoError(`Signing daemon returned an invalid signature for key ${this.keyId}`, 'signer', {
+        socketPath: this.socketPath,
+      });
+    }
+    return response.signature;
+  }
+}
+
+function request(socketPath: string, body: SignerRequest, timeoutMs: number): Promise<SignerResponse> {
+  return new Promise((resolve, reject) => {
+    const fail = (message: string) => {
+      socket.destroy();
+      reject(new CryptoError(message, 'signer', { socketPath, method: body.method }));
+    };
+
+    let buffered = '';
+    const socket = createConnection(socketPath, () => socket.write(JSON.stringify(body) + '\n'));
+    socket.setTimeout(timeoutMs, () => fail(`Signing daemon did not answer within ${timeoutMs} ms`));
+    socket.on('error', e => fail(`Cannot reach signing daemon at ${socketPath}: ${e.message}`));
+    socket.on('data', chunk => {
+      buffered += chunk.toString('utf-8');
+      const newline = buffered.indexOf('\n');
+      if (newline === -1) return;
+
+      socket.end();
+      let response: SignerResponse;
+      try {
+        response = JSON.parse(buffered.slice(0, newline));
+      } catch {
+        fail('Signing daemon sent a malformed response');
+        return;
+      }
+      if (response.error) {
+        fail(`Signing daemon refused to ${body.method === 'sign' ? 'sign' : 'share the public key'}: ${response.error}`);
+        return;
+      }
+      resolve(response);
+    });
+    socket.on('end', () => fail('Signing daemon closed the connection without answering'));
+  });
+}
+
+/**
+ * Serve signers over a Unix socket with the RemoteSigner protocol: a minimal
+ * signing daemon, and a stand-in for an HSM-backed one in tests. The socket
+ * is never reachable with a wider mode than 0600; the first signer is the
+ * default key.
+ */
+export async function serveSigner(socketPath: string, signers: Signer | Signer[]): Promise<Server> {
+  const keys = Array.isArray(signers) ? signers : [signers];
+  const [defaultSigner] = keys;
+  if (!defaultSigner) {
+    throw new ValidationError('serveSigner needs at least one signer', { field: 'signers' });
+  }
+
+  const handle = async (line: string): Promise<SignerResponse> => {
+    const body = JSON.parse(line) as SignerRequest;
+    const signer = body.key_id === undefined ? defaultSigner : keys.find(s => s.keyId === body.key_id);
+    if (!signer) {
+      return { error: `unknown key ${body.key_id}` };
+    }
+    if (body.method === 'public_key') {
+      return { key_id: signer.keyId, public_key: signer.publicKey };
+    }
+    if (body.method === 'sign' && typeof body.data === 'string') {
+      return { signature: await signer.sign(Buffer.from(body.data, 'base64').toString('utf-8')) };
+    }
+    return { error: 'malformed request' };
+  };
+
+  const server = createServer(socket => {
+    let buffered = '';
+    socket.on('error', () => socket.destroy());
+    socket.on('data', chunk => {
+      buffered += chunk.toString('utf-8');
+      const newline = buffered.indexOf('\n');
+      if (newline === -1) return;
+
+      handle(buffered.slice(0, newline))
+        .catch((e: Error) => ({ error: e.message }))
+        .then(response => socket.end(JSON.stringify(response) + '\n'));
+    });
+  });
+
+  // A socket file left by a crashed daemon is replaced below; anything else is not
+  if (existsSync(socketPath) && !lstatSync(socketPath).isSocket()) {
+    throw new ValidationError(`${socketPath} exists and is not a socket`, { field: 'socketPath' });
+  }
+
+  // Bound inside a fresh 0700 directory and only moved into place once it is
+  // 0600, so no other user can connect while it has the umask's mode
+  const privateDir = mkdtempSync(join(dirname(socketPath), '.signer-'));
+  const boundPath = join(privateDir, 'signer.sock');
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(boundPath, () => resolve());
+    });
+    chmodSync(boundPath, 0o600);
+    renameSync(boundPath, socketPath);
+  } catch (e) {
+    server.close();
+    throw e;
+  } finally {
+    if (existsSync(boundPath)) unlinkSync(boundPath);
+    rmdirSync(privateDir);
+  }
+
+  // The server only knows the path it was bound to; leave a newer daemon's socket alone
+  const { ino } = lstatSync(socketPath);
+  server.on('close', () => {
+    if (existsSync(socketPath) && lstatSync(socketPath).ino === ino) {
+      unlinkSync(socketPath);
+    }
+  });
+  return server;
+}
@@ -0,0 +1,115 @@
+/**
+ * AWS Signature Version 4 request signing
+ * Minimal SigV4 implementation for S3-compatible storage (AWS S3, MinIO, R2).
+ *
+ * Uses Node.js crypto module - no external dependencies.
+ */
+
+import { createHmac } from 'crypto';
+import { sha256 } from './crypto';
+
+export interface SigV4Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export interface SigV4Request {
+  method: string;
+  url: URL;
+  headers?: Record<string, string>;
+  body?: string | Buffer;
+}
+
+/**
+ * Sign a request, returning the headers to send (including Authorization)
+ *
+ * @example
+ * const headers = signRequest(
+ *   { method: 'PUT', url: new URL('https://s3.amazonaws.com/bucket/key'), body },
+ *   { accessKeyId, secretAccessKey },
+ *   'us-east-1'
+ * );
+ */
+export function signRequest(
+  request: SigV4Request,
+  credentials: SigV4Credentials,
+  region: string,
+  service: string = 's3',
+  now: Date = new Date(),
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256(request.body ?? '');
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    host: request.url.host,
+    'x-amz-date': amzDate,
+    'x-amz-content-sha256': payloadHash,
+  };
+  if (credentials.sessionToken) {
+    headers['x-amz-security-token'] = credentials.sessionToken;
+  }
+
+  const canonicalHeaders = Object.entries(headers)
+    .map(([name, value]) => [name.toLowerCase(), value.trim().replace(/\s+/g, ' ')] as const)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const signedHeaders = canonicalHeaders.map(([name]) => name).join(';');
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalUri(request.url.pathname),
+    canonicalQuery(request.url.searchParams),
+    canonicalHeaders.map(([name, value]) => `${name}:${value}\n`).join(''),
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${region}/${service}/aws4_request`;
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    sha256(canonicalRequest),
+  ].join('\n');
+
+  const dateKey = hmac(`AWS4${credentials.secretAccessKey}`, dateStamp);
+  const regionKey = hmac(dateKey, region);
+  const serviceKey = hmac(regionKey, service);
+  const signingKey = hmac(serviceKey, 'aws4_request');
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  headers['authorization'] =
+    `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+
+  return headers;
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * RFC 3986 encoding as required by SigV4 (encodeURIComponent leaves !'()* alone)
+ */
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function canonicalUri(pathname: string): string {
+  // URL has already percent-encoded the path; decode first so S3 keys are encoded exactly once
+  return pathname
+    .split('/')
+    .map(segment => uriEncode(decodeURIComponent(segment)))
+    .join('/') || '/';
+}
+
+function canonicalQuery(params: URLSearchParams): string {
+  return [...params.entries()]
+    .map(([key, value]) => [uriEncode(key), uriEncode(value)] as const)
+    .sort(([a, av], [b, bv]) => (a < b ? -1 : a > b ? 1 : av < bv ? -1 : av > bv ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
@@ -1,132 +1,242 @@
 /**
  * AgentLedger Storage Abstraction
  * Pluggable storage backends for audit logs.
+ *
+ * Every backend multiplexes any number of open sessions, keyed by session_id.
  */
 
-import { writeFileSync, readFileSync, mkdirSync, appendFileSync } from 'fs';
-import { join } from 'path';
-import type { AuditLog, ChainedEntry, SessionEnvelope, AuditEntry, ExportOptions } from './types';
+import { writeFileSync, readFileSync, mkdirSync, appendFileSync, existsSync, truncateSync } from 'fs';
+import { join, dirname } from 'path';
+import { createRequire } from 'module';
+import { createHash } from 'crypto';
+import type BetterSqlite3 from 'better-sqlite3';
+import type { AuditLog, ChainedEntry, Checkpoint, SealedEntry, SessionEnvelope, AuditEntry, ExportOptions } from './types';
 import {
   createChainedEntry,
+  verifyChainLink,
   verifyChain,
   buildMerkleTree,
   timestamp,
   signAuditLog,
-  verifyAuditLogSignature
+  verifyAuditLogSignature,
+  LOG_FORMAT_VERSION,
+  DEFAULT_SUITE,
+  suiteAlgorithms,
 } from './crypto';
+import { StorageError, SessionError, ChainVerificationError } from './errors';
+import { signRequest } from './sigv4';
+import { exportAuditLog } from './exporters';
+import { KeyProvider, unwrapSessionKey, sealEntry, openEntry, sealAuditLog } from './encryption';
+import type { Signer } from './signer';
+import { acquireTimestamp } from './tsa';
+import type { TimestampAuthority } from './tsa';
 
 // ============================================================================
 // STORAGE INTERFACE
 // ============================================================================
 
 export interface StorageBackend {
-  /** Initialize storage for a new session */
+  /** Open storage for a new session */
   initialize(session: SessionEnvelope): Promise<void>;
   
-  /** Append an entry to the log */
-  append(entry: AuditEntry): Promise<ChainedEntry>;
+  /** Reopen an unclosed session and continue its chain (optional) */
+  resume?(orgId: string, sessionId: string): Promise<SessionEnvelope>;
+  
+  /** Append an entry to a session's log */
+  append(sessionId: string, entry: AuditEntry): Promise<ChainedEntry>;
   
   /** Get entries in a range */
-  getRange(start: number, end: number): Promise<ChainedEntry[]>;
+  getRange(sessionId: string, start: number, end: number): Promise<ChainedEntry[]>;
   
   /** Get all entries */
-  getAll(): Promise<ChainedEntry[]>;
+  getAll(sessionId: string): Promise<ChainedEntry[]>;
   
   /** Get current entry count */
-  count(): Promise<number>;
+  count(sessionId: string): Promise<number>;
   
   /** Verify chain integrity */
-  verify(): Promise<{ valid: boolean; errors: string[] }>;
+  verify(sessionId: string): Promise<{ valid: boolean; errors: string[] }>;
+  
+  /**
+   * Close the session, finalize its log and release it. The log is signed if
+   * a signer is given and its Merkle root timestamped if a TSA is.
+   */
+  close(sessionId: string, signer?: Signer, timestampAuthority?: TimestampAuthority): Promise<AuditLog>;
+  
+  /** Close the session and export its log to a specific format */
+  export(sessionId: string, options: ExportOptions): Promise<Buffer>;
+  
+  /** Get an open session's envelope */
+  getSession(sessionId: string): SessionEnvelope;
+  
+  /** Envelopes of all sessions opened and not yet closed */
+  listOpenSessions(): SessionEnvelope[];
+  
+  /** Persist a signed checkpoint for an open session; it is included in the closed log (optional) */
+  appendCheckpoint?(sessionId: string, checkpoint: Checkpoint): Promise<void>;
+  
+  /** Store content by its hash, for export with include_content (optional) */
+  storeContent?(hash: string, content: Buffer): void;
+  
+  /** Retrieve stored content by hash (optional) */
+  getContent?(hash: string): Buffer | undefined;
+}
+
+/** Options shared by the persistent backends */
+export interface StorageOptions {
+  /** Unwraps session data keys; required for sessions whose entries are encrypted at rest */
+  keyProvider?: KeyProvider;
+}
+
+/**
+ * Data key for a session that encrypts entries at rest, undefined otherwise
+ */
+async function entryKey(session: SessionEnvelope, keyProvider?: KeyProvider): Promise<Buffer | undefined> {
+  if (!session.encryption?.entries) return undefined;
+  if (!keyProvider) {
+    throw new StorageError(
+      `Session ${session.session_id} encrypts entries at rest; the storage backend needs a keyProvider`,
+      'initialize',
+      { sessionId: session.session_id },
+    );
+  }
+  return unwrapSessionKey(keyProvider, session);
+}
+
+/**
+ * Look up an open session's state, failing for unknown or closed sessions
+ */
+function openSession<T>(sessions: Map<string, T>, sessionId: string): T {
+  const state = sessions.get(sessionId);
+  if (!state) {
+    throw new SessionError(`Session ${sessionId} is not open in this storage backend`, sessionId);
+  }
+  return state;
+}
+
+/**
+ * Build the final, optionally signed and timestamped log for a closing session
+ */
+async function finalizeLog(
+  session: SessionEnvelope,
+  entries: ChainedEntry[],
+  checkpoints: Checkpoint[],
+  signer?: Signer,
+  timestampAuthority?: TimestampAuthority,
+): Promise<AuditLog> {
+  const suite = session.suite ?? DEFAULT_SUITE;
+  const { hash } = suiteAlgorithms(suite);
+  const hashes = entries.map(e => e.entry_hash);
+  const { root } = buildMerkleTree(hashes, { suite });
   
-  /** Close the session and finalize the log */
-  close(privateKey?: string, publicKey?: string): Promise<AuditLog>;
+  const closedSession: SessionEnvelope = {
+    ...session,
+    closed_at: timestamp(),
+  };
+  
+  const log: AuditLog = {
+    version: LOG_FORMAT_VERSION,
+    suite,
+    hash_algorithm: hash,
+    canonicalization: 'jcs',
+    session: closedSession,
+    entries,
+    merkle_root: root,
+  };
+  
+  if (checkpoints.length > 0) {
+    log.checkpoints = checkpoints;
+  }
+  
+  // An empty log has no root to timestamp
+  if (timestampAuthority && root) {
+    log.tsa_token = await acquireTimestamp(timestampAuthority, root, { hashAlgorithm: hash });
+  }
+  
+  // Integrity first: the signature covers the chain and Merkle flags
+  const verification = verifyChain(entries, { suite });
+  log.integrity = {
+    chain_valid: verification.valid,
+    merkle_valid: true, // We just built it
+    verified_at: timestamp(),
+  };
   
-  /** Export to a specific format */
-  export(options: ExportOptions): Promise<Buffer>;
+  if (signer) {
+    log.org_signature = await signAuditLog(log, signer);
+    log.integrity.signature_valid = verifyAuditLogSignature(log);
+  }
   
-  /** Get the current session */
-  getSession(): SessionEnvelope;
+  return log;
 }
 
 // ============================================================================
 // IN-MEMORY STORAGE (Development/Testing)
 // ============================================================================
 
+interface MemorySession {
+  session: SessionEnvelope;
+  entries: ChainedEntry[];
+  checkpoints: Checkpoint[];
+}
+
 export class InMemoryStorage implements StorageBackend {
-  private session!: SessionEnvelope;
-  private entries: ChainedEntry[] = [];
+  private sessions: Map<string, MemorySession> = new Map();
   private contentStore: Map<string, Buffer> = new Map();
   
   async initialize(session: SessionEnvelope): Promise<void> {
-    this.session = session;
-    this.entries = [];
-    this.contentStore.clear();
+    this.sessions.set(session.session_id, { session, entries: [], checkpoints: [] });
   }
   
-  async append(entry: AuditEntry): Promise<ChainedEntry> {
-    const lastEntry = this.entries[this.entries.length - 1];
+  async append(sessionId: string, entry: AuditEntry): Promise<ChainedEntry> {
+    const { session, entries } = openSession(this.sessions, sessionId);
+    const lastEntry = entries[entries.length - 1];
     const previousHash = lastEntry ? lastEntry.entry_hash : '';
     
-    const chained = createChainedEntry(entry, this.entries.length, previousHash);
-    this.entries.push(chained);
+    const chained = createChainedEntry(entry, entries.length, previousHash, { suite: session.suite });
+    entries.push(chained);
     return chained;
   }
   
-  async getRange(start: number, end: number): Promise<ChainedEntry[]> {
-    return this.entries.slice(start, end);
+  async getRange(sessionId: string, start: number, end: number): Promise<ChainedEntry[]> {
+    return openSession(this.sessions, sessionId).entries.slice(start, end);
   }
   
-  async getAll(): Promise<ChainedEntry[]> {
-    return [...this.entries];
+  async getAll(sessionId: string): Promise<ChainedEntry[]> {
+    return [...openSession(this.sessions, sessionId).entries];
   }
   
-  async count(): Promise<number> {
-    return this.entries.length;
+  async count(sessionId: string): Promise<number> {
+    return openSession(this.sessions, sessionId).entries.length;
   }
   
-  async verify(): Promise<{ valid: boolean; errors: string[] }> {
-    const result = verifyChain(this.entries);
+  async verify(sessionId: string): Promise<{ valid: boolean; errors: string[] }> {
+    const { session, entries } = openSession(this.sessions, sessionId);
+    const result = verifyChain(entries, { suite: session.suite });
     return { valid: result.valid, errors: result.errors };
   }
   
-  async close(privateKey?: string, publicKey?: string): Promise<AuditLog> {
-    const hashes = this.entries.map(e => e.entry_hash);
-    const { root } = buildMerkleTree(hashes);
-    
-    const closedSession: SessionEnvelope = {
-      ...this.session,
-      closed_at: timestamp(),
-    };
-    
-    const log: AuditLog = {
-      version: '1.0.0',
-      session: closedSession,
-      entries: this.entries,
-      merkle_root: root,
-    };
-    
-    if (privateKey && publicKey) {
-      log.org_signature = signAuditLog(log, privateKey, publicKey);
-    }
-    
-    const verification = verifyChain(this.entries);
-    log.integrity = {
-      chain_valid: verification.valid,
-      merkle_valid: true, // We just built it
-      signature_valid: log.org_signature ? verifyAuditLogSignature(log) : undefined,
-      verified_at: timestamp(),
-    };
-    
+  async close(sessionId: string, signer?: Signer, timestampAuthority?: TimestampAuthority): Promise<AuditLog> {
+    const { session, entries, checkpoints } = openSession(this.sessions, sessionId);
+    const log = await finalizeLog(session, entries, checkpoints, signer, timestampAuthority);
+    this.sessions.delete(sessionId);
     return log;
   }
   
-  async export(options: ExportOptions): Promise<Buffer> {
-    const log = await this.close();
-    return exportAuditLog(log, options);
+  async appendCheckpoint(sessionId: string, checkpoint: Checkpoint): Promise<void> {
+    openSession(this.sessions, sessionId).checkpoints.push(checkpoint);
+  }
+  
+  async export(sessionId: string, options: ExportOptions): Promise<Buffer> {
+    const log = await this.close(sessionId);
+    return exportAuditLog(log, options, hash => this.getContent(hash));
+  }
+  
+  getSession(sessionId: string): SessionEnvelope {
+    return openSession(this.sessions, sessionId).session;
   }
   
-  getSession(): SessionEnvelope {
-    return this.session;
+  listOpenSessions(): SessionEnvelope[] {
+    return [...this.sessions.values()].map(s => s.session);
   }
   
   /** Store content for later retrieval (content-addressed) */
@@ -144,121 +254,513 @@ export class InMemoryStorage implements StorageBackend {
 // FILE SYSTEM STORAGE (Single Node Production)
 // ============================================================================
 
+interface FileSession {
+  session: SessionEnvelope;
+  logPath: string;
+  entryCount: number;
+  lastHash: string;
+  checkpoints: Checkpoint[];
+  /** Set when entries are encrypted at rest */
+  entryKey?: Buffer;
+}
+
 export class FileSystemStorage implements StorageBackend {
-  private session!: SessionEnvelope;
   private basePath: string;
-  private logPath!: string;
-  private entryCount: number = 0;
-  private lastHash: string = '';
+  private keyProvider?: KeyProvider;
+  private sessions: Map<string, FileSession> = new Map();
   
-  constructor(basePath: string) {
+  constructor(basePath: string, options: StorageOptions = {}) {
     this.basePath = basePath;
+    this.keyProvider = options.keyProvider;
+  }
+  
+  /**
+   * Open an existing, unclosed session log (e.g. after a crash) and
+   * continue its chain.
+   *
+   * @param logPath - Path to a session's audit.jsonl
+   */
+  static async open(logPath: string, options: StorageOptions = {}): Promise<FileSystemStorage> {
+    // Layout is {basePath}/{org_id}/{session_id}/audit.jsonl
+    const storage = new FileSystemStorage(dirname(dirname(dirname(logPath))), options);
+    await storage.replay(logPath);
+    return storage;
   }
   
   async initialize(session: SessionEnvelope): Promise<void> {
-    this.session = session;
-    this.entryCount = 0;
-    this.lastHash = '';
-    
     // Create directory structure
     const sessionDir = join(this.basePath, session.org_id, session.session_id);
     mkdirSync(sessionDir, { recursive: true });
     
-    this.logPath = join(sessionDir, 'audit.jsonl');
+    const logPath = join(sessionDir, 'audit.jsonl');
+    const key = await entryKey(session, this.keyProvider);
     
     // Write session header
     const header = JSON.stringify({ type: 'session', data: session }) + '\n';
-    writeFileSync(this.logPath, header);
+    writeFileSync(logPath, header);
+    
+    this.sessions.set(session.session_id, {
+      session,
+      logPath,
+      entryCount: 0,
+      lastHash: '',
+      checkpoints: [],
+      entryKey: key,
+    });
+  }
+  
+  async resume(orgId: string, sessionId: string): Promise<SessionEnvelope> {
+    return this.replay(join(this.basePath, orgId, sessionId, 'audit.jsonl'), sessionId);
+  }
+  
+  /**
+   * Rebuild a session's state from an existing log. An incomplete last line
+   * left by a crash is kept if it still links into the chain, otherwise it
+   * is moved to audit.jsonl.quarantine and cut from the log.
+   */
+  private async replay(logPath: string, expectedSessionId?: string): Promise<SessionEnvelope> {
+    if (!existsSync(logPath)) {
+      throw new StorageError(`No session log found at ${logPath}`, 'resume', { logPath });
+    }
+    
+    const content = readFileSync(logPath, 'utf-8');
+    const lines = content.split('\n');
+    const tail = lines.pop() ?? '';
+    
+    const headerLine = lines.shift();
+    const header = headerLine ? parseLogLine(headerLine) : undefined;
+    if (!header || header.type !== 'session') {
+      throw new StorageError(`Missing session header in ${logPath}`, 'resume', { logPath });
+    }
+    
+    const session = header.data as SessionEnvelope;
+    if (expectedSessionId && session.session_id !== expectedSessionId) {
+      throw new SessionError(
+        `Log at ${logPath} belongs to session ${session.session_id}`,
+        expectedSessionId,
+        { logPath },
+      );
+    }
+    
+    if (existsSync(logPath.replace('.jsonl', '.final.json'))) {
+      throw new SessionError('Cannot resume a session that has already been closed', session.session_id, { logPath });
+    }
+    
+    const key = await entryKey(session, this.keyProvider);
+    const entries: ChainedEntry[] = [];
+    const checkpoints: Checkpoint[] = [];
+    lines.forEach((line, i) => {
+      const parsed = parseLogLine(line);
+      if (!parsed) {
+        throw new StorageError(`Corrupt log line ${i + 2} in ${logPath}`, 'resume', { logPath, line: i + 2 });
+      }
+      if (parsed.type === 'entry') {
+        entries.push(unsealLine(parsed.data, key, session.session_id));
+      } else if (parsed.type === 'checkpoint') {
+        checkpoints.push(parsed.data as Checkpoint);
+      }
+    });
+    
+    if (tail) {
+      const parsed = parseLogLine(tail);
+      const last = entries[entries.length - 1] ?? null;
+      let candidate: ChainedEntry | undefined;
+      try {
+        candidate = parsed?.type === 'entry' ? unsealLine(parsed.data, key, session.session_id) : undefined;
+      } catch {
+        // A line that does not decrypt is as unusable as one that does not parse
+      }
+      
+      if (candidate && verifyChainLink(candidate, last, { suite: session.suite }).valid) {
+        // Complete entry whose trailing newline was lost
+        entries.push(candidate);
+        appendFileSync(logPath, '\n');
+      } else {
+        appendFileSync(`${logPath}.quarantine`, JSON.stringify({
+          quarantined_at: timestamp(),
+          byte_offset: Buffer.byteLength(content) - Buffer.byteLength(tail),
+          data: tail,
+        }) + '\n');
+        truncateSync(logPath, Buffer.byteLength(content) - Buffer.byteLength(tail));
+      }
+    }
+    
+    const verification = verifyChain(entries, { suite: session.suite });
+    if (!verification.valid) {
+      throw new ChainVerificationError(
+        `Cannot resume session with a broken hash chain: ${verification.errors[0]}`,
+      );
+    }
+    
+    const lastEntry = entries[entries.length - 1];
+    this.sessions.set(session.session_id, {
+      session,
+      logPath,
+      entryCount: entries.length,
+      lastHash: lastEntry ? lastEntry.entry_hash : '',
+      checkpoints,
+      entryKey: key,
+    });
+    
+    return session;
   }
   
-  async append(entry: AuditEntry): Promise<ChainedEntry> {
-    const chained = createChainedEntry(entry, this.entryCount, this.lastHash);
+  async append(sessionId: string, entry: AuditEntry): Promise<ChainedEntry> {
+    const state = openSession(this.sessions, sessionId);
+    const chained = createChainedEntry(entry, state.entryCount, state.lastHash, { suite: state.session.suite });
+    const stored = state.entryKey ? sealEntry(chained, state.entryKey, sessionId) : chained;
     
-    const line = JSON.stringify({ type: 'entry', data: chained }) + '\n';
-    appendFileSync(this.logPath, line);
+    const line = JSON.stringify({ type: 'entry', data: stored }) + '\n';
+    appendFileSync(state.logPath, line);
     
-    this.entryCount++;
-    this.lastHash = chained.entry_hash;
+    state.entryCount++;
+    state.lastHash = chained.entry_hash;
     
     return chained;
   }
   
-  async getRange(start: number, end: number): Promise<ChainedEntry[]> {
-    const entries = await this.getAll();
+  async getRange(sessionId: string, start: number, end: number): Promise<ChainedEntry[]> {
+    const entries = await this.getAll(sessionId);
     return entries.slice(start, end);
   }
   
-  async getAll(): Promise<ChainedEntry[]> {
-    const content = readFileSync(this.logPath, 'utf-8');
+  async getAll(sessionId: string): Promise<ChainedEntry[]> {
+    return this.readEntries(openSession(this.sessions, sessionId));
+  }
+  
+  async count(sessionId: string): Promise<number> {
+    return openSession(this.sessions, sessionId).entryCount;
+  }
+  
+  async verify(sessionId: string): Promise<{ valid: boolean; errors: string[] }> {
+    const entries = await this.getAll(sessionId);
+    const result = verifyChain(entries, { suite: openSession(this.sessions, sessionId).session.suite });
+    return { valid: result.valid, errors: result.errors };
+  }
+  
+  async close(sessionId: string, signer?: Signer, timestampAuthority?: TimestampAuthority): Promise<AuditLog> {
+    const state = openSession(this.sessions, sessionId);
+    const { session, logPath, checkpoints } = state;
+    const log = await finalizeLog(session, this.readEntries(state), checkpoints, signer, timestampAuthority);
+    
+    // Write final log
+    const finalPath = logPath.replace('.jsonl', '.final.json');
+    const stored = state.entryKey ? sealAuditLog(log, state.entryKey) : log;
+    writeFileSync(finalPath, JSON.stringify(stored, null, 2));
+    
+    this.sessions.delete(sessionId);
+    return log;
+  }
+  
+  async export(sessionId: string, options: ExportOptions): Promise<Buffer> {
+    const log = await this.close(sessionId);
+    return exportAuditLog(log, options);
+  }
+  
+  /** Checkpoints are written into audit.jsonl between the entries they cover */
+  async appendCheckpoint(sessionId: string, checkpoint: Checkpoint): Promise<void> {
+    const state = openSession(this.sessions, sessionId);
+    appendFileSync(state.logPath, JSON.stringify({ type: 'checkpoint', data: checkpoint }) + '\n');
+    state.checkpoints.push(checkpoint);
+  }
+  
+  getSession(sessionId: string): SessionEnvelope {
+    return openSession(this.sessions, sessionId).session;
+  }
+  
+  listOpenSessions(): SessionEnvelope[] {
+    return [...this.sessions.values()].map(s => s.session);
+  }
+  
+  private readEntries(state: FileSession): ChainedEntry[] {
+    const content = readFileSync(state.logPath, 'utf-8');
     const lines = content.trim().split('\n');
     
     const entries: ChainedEntry[] = [];
     for (const line of lines) {
       const parsed = JSON.parse(line);
       if (parsed.type === 'entry') {
-        entries.push(parsed.data);
+        entries.push(unsealLine(parsed.data, state.entryKey, state.session.session_id));
       }
     }
     
     return entries;
   }
+}
+
+function unsealLine(data: unknown, key: Buffer | undefined, sessionId: string): ChainedEntry {
+  return key ? openEntry(data as ChainedEntry | SealedEntry, key, sessionId) : data as ChainedEntry;
+}
+
+function parseLogLine(line: string): { type: string; data: unknown } | undefined {
+  try {
+    const parsed = JSON.parse(line);
+    return parsed && typeof parsed === 'object' && typeof parsed.type === 'string' ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// ============================================================================
+// SQLITE STORAGE (Single Node Production, Indexed)
+// ============================================================================
+
+/**
+ * Load the optional better-sqlite3 driver on first use so that the other
+ * backends work without it installed.
+ */
+function loadSqliteDriver(): typeof BetterSqlite3 {
+  try {
+    return createRequire(__filename)('better-sqlite3');
+  } catch (e) {
+    throw new StorageError(
+      'SqliteStorage requires the "better-sqlite3" package to be installed',
+      'initialize',
+      { cause: (e as Error).message },
+    );
+  }
+}
+
+interface EntryRow {
+  sequence: number;
+  previous_hash: string;
+  entry_hash: string;
+  entry: string;
+}
+
+interface SqliteSession {
+  session: SessionEnvelope;
+  entryCount: number;
+  lastHash: string;
+  checkpoints: Checkpoint[];
+  /** Set when entries are encrypted at rest */
+  entryKey?: Buffer;
+}
+
+export class SqliteStorage implements StorageBackend {
+  private path: string;
+  private keyProvider?: KeyProvider;
+  private db: BetterSqlite3.Database | null = null;
+  private sessions: Map<string, SqliteSession> = new Map();
   
-  async count(): Promise<number> {
-    return this.entryCount;
+  /**
+   * @param path - Database file path, or ':memory:' for a transient database
+   */
+  constructor(path: string, options: StorageOptions = {}) {
+    this.path = path;
+    this.keyProvider = options.keyProvider;
   }
   
-  async verify(): Promise<{ valid: boolean; errors: string[] }> {
-    const entries = await this.getAll();
-    const result = verifyChain(entries);
-    return { valid: result.valid, errors: result.errors };
+  async initialize(session: SessionEnvelope): Promise<void> {
+    const db = this.open();
+    const key = await entryKey(session, this.keyProvider);
+    
+    db.prepare(
+      `INSERT INTO sessions (session_id, org_id, agent_id, initiated_at, envelope)
+       VALUES (?, ?, ?, ?, ?)`,
+    ).run(
+      session.session_id,
+      session.org_id,
+      session.agent_id,
+      session.initiated_at,
+      JSON.stringify(session),
+    );
+    
+    this.sessions.set(session.session_id, { session, entryCount: 0, lastHash: '', checkpoints: [], entryKey: key });
   }
   
-  async close(privateKey?: string, publicKey?: string): Promise<AuditLog> {
-    const entries = await this.getAll();
-    const hashes = entries.map(e => e.entry_hash);
-    const { root } = buildMerkleTree(hashes);
+  async append(sessionId: string, entry: AuditEntry): Promise<ChainedEntry> {
+    const state = openSession(this.sessions, sessionId);
+    const chained = createChainedEntry(entry, state.entryCount, state.lastHash, { suite: state.session.suite });
     
-    const closedSession: SessionEnvelope = {
-      ...this.session,
-      closed_at: timestamp(),
-    };
+    // entry_id, type and timestamp stay queryable; the payload column is encrypted
+    const payload = state.entryKey ? sealEntry(chained, state.entryKey, sessionId).encrypted_entry : entry;
     
-    const log: AuditLog = {
-      version: '1.0.0',
-      session: closedSession,
-      entries,
-      merkle_root: root,
-    };
+    this.open().prepare(
+      `INSERT INTO entries (session_id, sequence, entry_id, type, timestamp, previous_hash, entry_hash, entry)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    ).run(
+      sessionId,
+      chained.sequence,
+      entry.entry_id,
+      entry.type,
+      entry.timestamp,
+      chained.previous_hash,
+      chained.entry_hash,
+      JSON.stringify(payload),
+    );
     
-    if (privateKey && publicKey) {
-      log.org_signature = signAuditLog(log, privateKey, publicKey);
-    }
+    state.entryCount++;
+    state.lastHash = chained.entry_hash;
     
-    const verification = verifyChain(entries);
-    log.integrity = {
-      chain_valid: verification.valid,
-      merkle_valid: true,
-      signature_valid: log.org_signature ? verifyAuditLogSignature(log) : undefined,
-      verified_at: timestamp(),
-    };
+    return chained;
+  }
+  
+  async getRange(sessionId: string, start: number, end: number): Promise<ChainedEntry[]> {
+    const state = openSession(this.sessions, sessionId);
+    const rows = this.open().prepare(
+      `SELECT sequence, previous_hash, entry_hash, entry FROM entries
+       WHERE session_id = ? AND sequence >= ? AND sequence < ?
+       ORDER BY sequence`,
+    ).all(sessionId, start, end) as EntryRow[];
     
-    // Write final log
-    const finalPath = this.logPath.replace('.jsonl', '.final.json');
-    writeFileSync(finalPath, JSON.stringify(log, null, 2));
+    return rows.map(row => toChainedEntry(row, state));
+  }
+  
+  async getAll(sessionId: string): Promise<ChainedEntry[]> {
+    const state = openSession(this.sessions, sessionId);
+    const rows = this.open().prepare(
+      `SELECT sequence, previous_hash, entry_hash, entry FROM entries
+       WHERE session_id = ?
+       ORDER BY sequence`,
+    ).all(sessionId) as EntryRow[];
+    
+    return rows.map(row => toChainedEntry(row, state));
+  }
+  
+  async count(sessionId: string): Promise<number> {
+    return openSession(this.sessions, sessionId).entryCount;
+  }
+  
+  async verify(sessionId: string): Promise<{ valid: boolean; errors: string[] }> {
+    const entries = await this.getAll(sessionId);
+    const result = verifyChain(entries, { suite: openSession(this.sessions, sessionId).session.suite });
+    return { valid: result.valid, errors: result.errors };
+  }
+  
+  async close(sessionId: string, signer?: Signer, timestampAuthority?: TimestampAuthority): Promise<AuditLog> {
+    const { session, checkpoints } = openSession(this.sessions, sessionId);
+    const log = await finalizeLog(session, await this.getAll(sessionId), checkpoints, signer, timestampAuthority);
+    
+    this.open().prepare(
+      `UPDATE sessions SET closed_at = ?, merkle_root = ?, org_signature = ?, tsa_token = ?
+       WHERE session_id = ?`,
+    ).run(
+      log.session.closed_at,
+      log.merkle_root,
+      log.org_signature ? JSON.stringify(log.org_signature) : null,
+      log.tsa_token ? JSON.stringify(log.tsa_token) : null,
+      sessionId,
+    );
     
+    this.sessions.delete(sessionId);
     return log;
   }
   
-  async export(options: ExportOptions): Promise<Buffer> {
-    const log = await this.close();
+  async export(sessionId: string, options: ExportOptions): Promise<Buffer> {
+    const log = await this.close(sessionId);
     return exportAuditLog(log, options);
   }
   
-  getSession(): SessionEnvelope {
-    return this.session;
+  async appendCheckpoint(sessionId: string, checkpoint: Checkpoint): Promise<void> {
+    const state = openSession(this.sessions, sessionId);
+    
+    this.open().prepare(
+      `INSERT INTO checkpoints (session_id, tree_size, root_hash, timestamp, checkpoint)
+       VALUES (?, ?, ?, ?, ?)`,
+    ).run(
+      sessionId,
+      checkpoint.tree_size,
+      checkpoint.root_hash,
+      checkpoint.timestamp,
+      JSON.stringify(checkpoint),
+    );
+    
+    state.checkpoints.push(checkpoint);
+  }
+  
+  getSession(sessionId: string): SessionEnvelope {
+    return openSession(this.sessions, sessionId).session;
+  }
+  
+  listOpenSessions(): SessionEnvelope[] {
+    return [...this.sessions.values()].map(s => s.session);
+  }
+  
+  /**
+   * Close the database handle, releasing the file. Using the storage again
+   * reopens it.
+   */
+  dispose(): void {
+    this.db?.close();
+    this.db = null;
+  }
+  
+  /** Open the database and create the schema if needed */
+  private open(): BetterSqlite3.Database {
+    if (this.db) return this.db;
+    
+    const Database = loadSqliteDriver();
+    if (this.path !== ':memory:') {
+      mkdirSync(dirname(this.path), { recursive: true });
+    }
+    
+    const db = new Database(this.path);
+    db.pragma('journal_mode = WAL');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        session_id    TEXT PRIMARY KEY,
+        org_id        TEXT NOT NULL,
+        agent_id      TEXT NOT NULL,
+        initiated_at  TEXT NOT NULL,
+        closed_at     TEXT,
+        merkle_root   TEXT,
+        org_signature TEXT,
+        tsa_token     TEXT,
+        envelope      TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS entries (
+        session_id    TEXT NOT NULL REFERENCES sessions(session_id),
+        sequence      INTEGER NOT NULL,
+        entry_id      TEXT NOT NULL,
+        type          TEXT NOT NULL,
+        timestamp     TEXT NOT NULL,
+        previous_hash TEXT NOT NULL,
+        entry_hash    TEXT NOT NULL,
+        entry         TEXT NOT NULL,
+        PRIMARY KEY (session_id, sequence)
+      ) WITHOUT ROWID;
+      CREATE INDEX IF NOT EXISTS entries_type_idx ON entries (session_id, type);
+      CREATE INDEX IF NOT EXISTS entries_timestamp_idx ON entries (session_id, timestamp);
+      CREATE TABLE IF NOT EXISTS checkpoints (
+        session_id    TEXT NOT NULL REFERENCES sessions(session_id),
+        tree_size     INTEGER NOT NULL,
+        root_hash     TEXT NOT NULL,
+        timestamp     TEXT NOT NULL,
+        checkpoint    TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS checkpoints_session_idx ON checkpoints (session_id, tree_size);
+    `);
+    
+    // Databases created before timestamping lack the tsa_token column
+    const columns = db.pragma('table_info(sessions)') as { name: string }[];
+    if (!columns.some(column => column.name === 'tsa_token')) {
+      db.exec('ALTER TABLE sessions ADD COLUMN tsa_token TEXT');
+    }
+    
+    this.db = db;
+    return db;
   }
 }
 
+function toChainedEntry(row: EntryRow, state: SqliteSession): ChainedEntry {
+  if (state.entryKey) {
+    return openEntry({
+      sequence: row.sequence,
+      encrypted_entry: JSON.parse(row.entry),
+      previous_hash: row.previous_hash,
+      entry_hash: row.entry_hash,
+    }, state.entryKey, state.session.session_id);
+  }
+  
+  return {
+    sequence: row.sequence,
+    entry: JSON.parse(row.entry),
+    previous_hash: row.previous_hash,
+    entry_hash: row.entry_hash,
+  };
+}
+
 // ============================================================================
 // S3-COMPATIBLE STORAGE (Distributed Production)
 // ============================================================================
@@ -268,323 +770,402 @@ export interface S3Config {
   bucket: string;
   accessKeyId: string;
   secretAccessKey: string;
+  /** Temporary credentials (STS) */
+  sessionToken?: string;
+  /** Signing region (default: us-east-1) */
   region?: string;
+  /**
+   * Write objects under S3 Object Lock (WORM), retained until the session's
+   * initiated_at plus retention_days. The bucket must have Object Lock enabled.
+   */
+  objectLock?: S3ObjectLockConfig;
+  /** Place a legal hold on every object written for the session */
+  legalHold?: boolean;
+}
+
+export interface S3ObjectLockConfig {
+  /** GOVERNANCE can be bypassed with s3:BypassGovernanceRetention; COMPLIANCE cannot be shortened by anyone */
+  mode: 'GOVERNANCE' | 'COMPLIANCE';
+}
+
+interface S3Session {
+  session: SessionEnvelope;
+  entryCount: number;
+  lastHash: string;
+  pendingWrites: ChainedEntry[];
+  /** Batches cut from pendingWrites but not yet written, each keeping its key range */
+  unwrittenBatches: ChainedEntry[][];
+  /** Tail of the session's S3 work, which runs one task at a time */
+  queue: Promise<unknown>;
+  flushInterval: ReturnType<typeof setInterval>;
+  legalHold: boolean;
+  checkpoints: Checkpoint[];
+  /** Set when entries are encrypted at rest */
+  entryKey?: Buffer;
 }
 
 export class S3Storage implements StorageBackend {
-  private session!: SessionEnvelope;
   private config: S3Config;
-  private entries: ChainedEntry[] = [];
-  private pendingWrites: ChainedEntry[] = [];
-  private flushInterval: ReturnType<typeof setInterval> | null = null;
+  private keyProvider?: KeyProvider;
+  private sessions: Map<string, S3Session> = new Map();
   
-  constructor(config: S3Config) {
+  constructor(config: S3Config, options: StorageOptions = {}) {
     this.config = config;
+    this.keyProvider = options.keyProvider;
   }
   
   async initialize(session: SessionEnvelope): Promise<void> {
-    this.session = session;
-    this.entries = [];
-    this.pendingWrites = [];
+    // Production records must not land in a bucket that silently ignores retention
+    if (this.config.objectLock && session.environment === 'production') {
+      await this.assertObjectLockEnabled();
+    }
     
-    // Start periodic flush
-    this.flushInterval = setInterval(() => { void this.flush(); }, 5000);
+    const key = await entryKey(session, this.keyProvider);
+    const state: S3Session = {
+      session,
+      entryCount: 0,
+      lastHash: '',
+      pendingWrites: [],
+      unwrittenBatches: [],
+      queue: Promise.resolve(),
+      flushInterval: this.startFlushing(() => state),
+      legalHold: this.config.legalHold ?? false,
+      checkpoints: [],
+      entryKey: key,
+    };
+    this.sessions.set(session.session_id, state);
     
     // Write session metadata
-    await this.putObject(
-      `${session.org_id}/${session.session_id}/session.json`,
-      JSON.stringify(session)
-    );
+    try {
+      await this.putObject(
+        state,
+        `${sessionPrefix(session)}/session.json`,
+        JSON.stringify(session),
+      );
+    } catch (e) {
+      clearInterval(state.flushInterval);
+      this.sessions.delete(session.session_id);
+      throw e;
+    }
   }
   
-  async append(entry: AuditEntry): Promise<ChainedEntry> {
-    const lastEntry = this.entries[this.entries.length - 1];
-    const previousHash = lastEntry ? lastEntry.entry_hash : '';
+  async append(sessionId: string, entry: AuditEntry): Promise<ChainedEntry> {
+    const state = openSession(this.sessions, sessionId);
+    const chained = createChainedEntry(entry, state.entryCount, state.lastHash, { suite: state.session.suite });
+    state.entryCount++;
+    state.lastHash = chained.entry_hash;
+    state.pendingWrites.push(chained);
     
-    const chained = createChainedEntry(entry, this.entries.length, previousHash);
-    this.entries.push(chained);
-    this.pendingWrites.push(chained);
-    
-    // Flush if buffer is large
-    if (this.pendingWrites.length >= 100) {
-      await this.flush();
+    // Flush if buffer is large. The entry is chained either way: a failed
+    // batch stays queued, is retried, and fails close() if it never lands.
+    if (state.pendingWrites.length >= 100) {
+      await this.serialize(state, () => this.flush(state)).catch(() => undefined);
     }
     
     return chained;
   }
   
-  private async flush(): Promise<void> {
-    if (this.pendingWrites.length === 0) return;
-    
-    const batch = this.pendingWrites.splice(0);
-    const firstEntry = batch[0];
-    const lastEntry = batch[batch.length - 1];
-    if (!firstEntry || !lastEntry) return;
-
-    const startSeq = firstEntry.sequence;
-    const endSeq = lastEntry.sequence;
+  /** Periodic flush; a failed batch stays queued and surfaces on the next explicit flush */
+  private startFlushing(state: () => S3Session): ReturnType<typeof setInterval> {
+    return setInterval(() => {
+      const current = state();
+      this.serialize(current, () => this.flush(current)).catch(() => undefined);
+    }, 5000);
+  }
+  
+  /**
+   * Run S3 work for a session after the work already queued, so reads,
+   * checkpoints and close() never overtake a batch still being written
+   */
+  private serialize<T>(state: S3Session, task: () => Promise<T>): Promise<T> {
+    const run = state.queue.catch(() => undefined).then(task);
+    state.queue = run;
+    return run;
+  }
+  
+  /** Only call from a serialized task */
+  private async flush(state: S3Session): Promise<void> {
+    if (state.pendingWrites.length > 0) {
+      state.unwrittenBatches.push(state.pendingWrites.splice(0));
+    }
     
-    await this.putObject(
-      `${this.session.org_id}/${this.session.session_id}/entries/${startSeq}-${endSeq}.jsonl`,
-      batch.map(e => JSON.stringify(e)).join('\n')
-    );
+    // A failed batch is retried under its own key range, never merged with later entries
+    for (let batch = state.unwrittenBatches[0]; batch; batch = state.unwrittenBatches[0]) {
+      const firstEntry = batch[0];
+      const lastEntry = batch[batch.length - 1];
+      if (!firstEntry || !lastEntry) return;
+      
+      const startSeq = firstEntry.sequence;
+      const endSeq = lastEntry.sequence;
+      await this.putObject(
+        state,
+        `${sessionPrefix(state.session)}/entries/${startSeq}-${endSeq}.jsonl`,
+        batch.map(e => JSON.stringify(state.entryKey ? sealEntry(e, state.entryKey, state.session.session_id) : e)).join('\n'),
+      );
+      state.unwrittenBatches.shift();
+    }
   }
   
-  async getRange(start: number, end: number): Promise<ChainedEntry[]> {
-    return this.entries.slice(start, end);
+  async getRange(sessionId: string, start: number, end: number): Promise<ChainedEntry[]> {
+    const state = openSession(this.sessions, sessionId);
+    const entries = await this.serialize(state, () => this.loadEntries(state, start, end));
+    return entries.filter(e => e.sequence >= start && e.sequence < end);
   }
   
-  async getAll(): Promise<ChainedEntry[]> {
-    return [...this.entries];
+  async getAll(sessionId: string): Promise<ChainedEntry[]> {
+    const state = openSession(this.sessions, sessionId);
+    return this.serialize(state, () => this.loadEntries(state, 0, Infinity));
   }
   
-  async count(): Promise<number> {
-    return this.entries.length;
+  async count(sessionId: string): Promise<number> {
+    return openSession(this.sessions, sessionId).entryCount;
   }
   
-  async verify(): Promise<{ valid: boolean; errors: string[] }> {
-    const result = verifyChain(this.entries);
+  async verify(sessionId: string): Promise<{ valid: boolean; errors: string[] }> {
+    const result = verifyChain(await this.getAll(sessionId), {
+      suite: openSession(this.sessions, sessionId).session.suite,
+    });
     return { valid: result.valid, errors: result.errors };
   }
   
-  async close(privateKey?: string, publicKey?: string): Promise<AuditLog> {
+  async close(sessionId: string, signer?: Signer, timestampAuthority?: TimestampAuthority): Promise<AuditLog> {
+    const state = openSession(this.sessions, sessionId);
+    
     // Stop flush interval
-    if (this.flushInterval) {
-      clearInterval(this.flushInterval);
+    clearInterval(state.flushInterval);
+    
+    let log: AuditLog;
+    try {
+      log = await this.serialize(state, async () => {
+        // Final flush
+        await this.flush(state);
+        
+        const finalized = await finalizeLog(
+          state.session,
+          await this.loadEntries(state, 0, Infinity),
+          state.checkpoints,
+          signer,
+          timestampAuthority,
+        );
+        
+        // Write final log
+        await this.putObject(
+          state,
+          `${sessionPrefix(state.session)}/audit.final.json`,
+          JSON.stringify(state.entryKey ? sealAuditLog(finalized, state.entryKey) : finalized),
+        );
+        return finalized;
+      });
+    } catch (e) {
+      // Still open: buffered entries keep flushing and close() can be retried
+      state.flushInterval = this.startFlushing(() => state);
+      throw e;
     }
     
-    // Final flush
-    await this.flush();
+    this.sessions.delete(sessionId);
+    return log;
+  }
+  
+  async export(sessionId: string, options: ExportOptions): Promise<Buffer> {
+    const log = await this.close(sessionId);
+    return exportAuditLog(log, options);
+  }
+  
+  /**
+   * Flush buffered entries, then write the checkpoint to
+   * checkpoints/{tree_size}.json so it never covers unpersisted entries
+   */
+  async appendCheckpoint(sessionId: string, checkpoint: Checkpoint): Promise<void> {
+    const state = openSession(this.sessions, sessionId);
+    await this.serialize(state, async () => {
+      await this.flush(state);
+      
+      await this.putObject(
+        state,
+        `${sessionPrefix(state.session)}/checkpoints/${checkpoint.tree_size}.json`,
+        JSON.stringify(checkpoint),
+      );
+      state.checkpoints.push(checkpoint);
+    });
+  }
+  
+  getSession(sessionId: string): SessionEnvelope {
+    return openSession(this.sessions, sessionId).session;
+  }
+  
+  listOpenSessions(): SessionEnvelope[] {
+    return [...this.sessions.values()].map(s => s.session);
+  }
+  
+  /**
+   * Place or release a legal hold on every object already written for the
+   * session and on all of its subsequent writes
+   */
+  async setLegalHold(sessionId: string, enabled: boolean): Promise<void> {
+    const state = openSession(this.sessions, sessionId);
+    state.legalHold = enabled;
+    
+    const body = '<LegalHold xmlns="http://s3.amazonaws.com/doc/2006-03-01/">' +
+      `<Status>${enabled ? 'ON' : 'OFF'}</Status></LegalHold>`;
     
-    const hashes = this.entries.map(e => e.entry_hash);
-    const { root } = buildMerkleTree(hashes);
+    for (const key of await this.listObjects(`${sessionPrefix(state.session)}/`)) {
+      await this.request('PUT', key, body, { 'legal-hold': '' }, { 'content-md5': md5Base64(body) });
+    }
+  }
+  
+  /**
+   * Fetch an object's body
+   */
+  async getObject(key: string): Promise<string> {
+    const response = await this.request('GET', key);
+    return response.text();
+  }
+  
+  /**
+   * List object keys under a prefix (ListObjectsV2, follows pagination)
+   */
+  async listObjects(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
     
-    const closedSession: SessionEnvelope = {
-      ...this.session,
-      closed_at: timestamp(),
-    };
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix };
+      if (continuationToken) {
+        query['continuation-token'] = continuationToken;
+      }
+      
+      const xml = await (await this.request('GET', '', undefined, query)).text();
+      for (const match of xml.matchAll(/<Key>([^<]*)<\/Key>/g)) {
+        keys.push(decodeXmlEntities(match[1] ?? ''));
+      }
+      
+      const truncated = /<IsTruncated>true<\/IsTruncated>/.test(xml);
+      const next = xml.match(/<NextContinuationToken>([^<]*)<\/NextContinuationToken>/)?.[1];
+      continuationToken = truncated && next ? decodeXmlEntities(next) : undefined;
+    } while (continuationToken);
     
-    const log: AuditLog = {
-      version: '1.0.0',
-      session: closedSession,
-      entries: this.entries,
-      merkle_root: root,
-    };
+    return keys;
+  }
+  
+  /**
+   * Rebuild entries from the persisted batches overlapping [start, end),
+   * followed by any writes not yet flushed. Only call from a serialized task.
+   */
+  private async loadEntries(state: S3Session, start: number, end: number): Promise<ChainedEntry[]> {
+    const batchPrefix = `${sessionPrefix(state.session)}/entries/`;
+    const batches = (await this.listObjects(batchPrefix))
+      .map(key => {
+        const match = key.slice(batchPrefix.length).match(/^(\d+)-(\d+)\.jsonl$/);
+        return match ? { key, first: Number(match[1]), last: Number(match[2]) } : undefined;
+      })
+      .filter((b): b is { key: string; first: number; last: number } => !!b && b.last >= start && b.first < end)
+      .sort((a, b) => a.first - b.first);
     
-    if (privateKey && publicKey) {
-      log.org_signature = signAuditLog(log, privateKey, publicKey);
+    const entries: ChainedEntry[] = [];
+    for (const batch of batches) {
+      const body = await this.getObject(batch.key);
+      for (const line of body.split('\n')) {
+        if (line.trim()) {
+          entries.push(unsealLine(JSON.parse(line), state.entryKey, state.session.session_id));
+        }
+      }
     }
     
-    const verification = verifyChain(this.entries);
-    log.integrity = {
-      chain_valid: verification.valid,
-      merkle_valid: true,
-      signature_valid: log.org_signature ? verifyAuditLogSignature(log) : undefined,
-      verified_at: timestamp(),
+    return [...entries, ...state.unwrittenBatches.flat(), ...state.pendingWrites];
+  }
+  
+  private async putObject(state: S3Session, key: string, body: string): Promise<void> {
+    const headers: Record<string, string> = {
+      'content-type': 'application/json',
+      // Required by S3 for any write carrying Object Lock headers
+      'content-md5': md5Base64(body),
     };
     
-    // Write final log
-    await this.putObject(
-      `${this.session.org_id}/${this.session.session_id}/audit.final.json`,
-      JSON.stringify(log)
-    );
+    if (this.config.objectLock) {
+      const retainUntil = new Date(state.session.initiated_at);
+      retainUntil.setUTCDate(retainUntil.getUTCDate() + state.session.retention_days);
+      headers['x-amz-object-lock-mode'] = this.config.objectLock.mode;
+      headers['x-amz-object-lock-retain-until-date'] = retainUntil.toISOString();
+    }
     
-    return log;
-  }
-  
-  async export(options: ExportOptions): Promise<Buffer> {
-    const log = await this.close();
-    return exportAuditLog(log, options);
+    if (state.legalHold) {
+      headers['x-amz-object-lock-legal-hold'] = 'ON';
+    }
+    
+    await this.request('PUT', key, body, {}, headers);
   }
   
-  getSession(): SessionEnvelope {
-    return this.session;
+  private async assertObjectLockEnabled(): Promise<void> {
+    let xml = '';
+    try {
+      xml = await (await this.request('GET', '', undefined, { 'object-lock': '' })).text();
+    } catch (e) {
+      // 404 ObjectLockConfigurationNotFoundError means the bucket has no Object Lock
+      if (!(e instanceof StorageError && e.details?.status === 404)) throw e;
+    }
+    
+    if (!/<ObjectLockEnabled>\s*Enabled\s*<\/ObjectLockEnabled>/.test(xml)) {
+      throw new StorageError(
+        `Bucket ${this.config.bucket} does not have Object Lock enabled; refusing to write production records`,
+        'initialize',
+        { bucket: this.config.bucket },
+      );
+    }
   }
   
-  // Simplified S3 operations (would use AWS SDK in production)
-  private async putObject(key: string, body: string): Promise<void> {
-    const url = `${this.config.endpoint}/${this.config.bucket}/${key}`;
+  /**
+   * Send a SigV4-signed path-style request, throwing StorageError on non-2xx
+   */
+  private async request(
+    method: string,
+    key: string,
+    body?: string,
+    query: Record<string, string> = {},
+    headers: Record<string, string> = {},
+  ): Promise<Response> {
+    const url = new URL(`${this.config.endpoint.replace(/\/+$/, '')}/${this.config.bucket}/${key}`);
+    for (const [name, value] of Object.entries(query)) {
+      url.searchParams.set(name, value);
+    }
     
-    // In production, use proper AWS Signature V4
-    // This is a placeholder for the interface
-    await fetch(url, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-amz-content-sha256': 'UNSIGNED-PAYLOAD',
-      },
-      body,
-    });
-  }
-}
-
-// ============================================================================
-// EXPORT UTILITIES
-// ============================================================================
-
-function exportAuditLog(log: AuditLog, options: ExportOptions): Buffer {
-  switch (options.format) {
-    case 'jsonl':
-      return exportJsonl(log, options);
-    case 'splunk_cim':
-      return exportSplunkCIM(log, options);
-    case 'elastic_ecs':
-      return exportElasticECS(log, options);
-    case 'finra_4511':
-      return exportFINRA4511(log, options);
-    case 'eu_ai_act':
-      return exportEUAIAct(log, options);
-    default:
-      return exportJsonl(log, options);
+    const signed = signRequest(
+      { method, url, headers, body },
+      this.config,
+      this.config.region ?? 'us-east-1',
+    );
+    
+    let response: Response;
+    try {
+      response = await fetch(url, { method, headers: signed, body });
+    } catch (e) {
+      throw new StorageError(`S3 ${method} ${key} failed: ${(e as Error).message}`, method, { key });
+    }
+    
+    if (!response.ok) {
+      throw new StorageError(
+        `S3 ${method} ${key} failed with status ${response.status}`,
+        method,
+        { key, status: response.status, body: await response.text() },
+      );
+    }
+    
+    return response;
   }
 }
 
-function exportJsonl(log: AuditLog, _options: ExportOptions): Buffer {
-  const lines = [
-    JSON.stringify({ type: 'session', ...log.session }),
-    ...log.entries.map(e => JSON.stringify({ type: 'entry', ...e })),
-    JSON.stringify({ type: 'integrity', ...log.integrity }),
-  ];
-  return Buffer.from(lines.join('\n'));
+function sessionPrefix(session: SessionEnvelope): string {
+  return `${session.org_id}/${session.session_id}`;
 }
 
-function exportSplunkCIM(log: AuditLog, _options: ExportOptions): Buffer {
-  // Splunk Common Information Model format
-  const events = log.entries.map(entry => ({
-    time: new Date(entry.entry.timestamp).getTime() / 1000,
-    host: log.session.agent_id,
-    source: 'agentledger',
-    sourcetype: 'ai:audit',
-    event: {
-      session_id: log.session.session_id,
-      org_id: log.session.org_id,
-      entry_type: entry.entry.type,
-      sequence: entry.sequence,
-      entry_hash: entry.entry_hash,
-      ...entry.entry,
-    },
-  }));
-  
-  return Buffer.from(events.map(e => JSON.stringify(e)).join('\n'));
+function md5Base64(body: string): string {
+  return createHash('md5').update(body).digest('base64');
 }
 
-function exportElasticECS(log: AuditLog, _options: ExportOptions): Buffer {
-  // Elastic Common Schema format
-  const docs = log.entries.map(entry => ({
-    '@timestamp': entry.entry.timestamp,
-    'ecs.version': '8.0.0',
-    'event.kind': 'event',
-    'event.category': ['process'],
-    'event.type': ['info'],
-    'event.action': entry.entry.type,
-    'event.id': entry.entry.entry_id,
-    'event.sequence': entry.sequence,
-    'agent.id': log.session.agent_id,
-    'organization.id': log.session.org_id,
-    'session.id': log.session.session_id,
-    'hash.sha256': entry.entry_hash,
-    'agentledger': entry.entry,
-  }));
-  
-  return Buffer.from(docs.map(d => JSON.stringify(d)).join('\n'));
-}
-
-function exportFINRA4511(log: AuditLog, _options: ExportOptions): Buffer {
-  // FINRA Rule 4511 (Books and Records) format
-  // Requires: exact reproduction, timestamps, sequence preservation
-  const record = {
-    record_type: 'AI_AGENT_AUDIT_LOG',
-    finra_rule: '4511',
-    firm_id: log.session.org_id,
-    record_id: log.session.session_id,
-    creation_date: log.session.initiated_at,
-    closure_date: log.session.closed_at,
-    retention_period_years: Math.ceil(log.session.retention_days / 365),
-    integrity: {
-      chain_verified: log.integrity?.chain_valid,
-      merkle_root: log.merkle_root,
-      digital_signature: log.org_signature?.signature,
-    },
-    record_count: log.entries.length,
-    records: log.entries.map(entry => ({
-      sequence_number: entry.sequence,
-      timestamp: entry.entry.timestamp,
-      record_type: entry.entry.type,
-      record_hash: entry.entry_hash,
-      previous_hash: entry.previous_hash,
-      data: entry.entry,
-    })),
-  };
-  
-  return Buffer.from(JSON.stringify(record, null, 2));
-}
-
-function exportEUAIAct(log: AuditLog, _options: ExportOptions): Buffer {
-  // EU AI Act Article 12 (Record-keeping) format
-  const record = {
-    schema_version: '1.0',
-    regulation: 'EU_AI_ACT',
-    article: '12',
-    ai_system: {
-      provider: log.session.org_id,
-      system_id: log.session.agent_id,
-      version: log.session.agent_version,
-    },
-    operation_log: {
-      session_id: log.session.session_id,
-      start_time: log.session.initiated_at,
-      end_time: log.session.closed_at,
-      environment: log.session.environment,
-      initiator: log.session.initiated_by,
-    },
-    traceability: {
-      total_events: log.entries.length,
-      merkle_root: log.merkle_root,
-      chain_integrity: log.integrity?.chain_valid,
-    },
-    events: log.entries.map(entry => {
-      const base = {
-        event_id: entry.entry.entry_id,
-        timestamp: entry.entry.timestamp,
-        event_type: entry.entry.type,
-        hash: entry.entry_hash,
-      };
-      
-      // Add type-specific fields for explainability
-      if (entry.entry.type === 'model_call') {
-        return {
-          ...base,
-          model: entry.entry.model_id,
-          provider: entry.entry.provider,
-          tokens_used: entry.entry.prompt_tokens + entry.entry.completion_tokens,
-        };
-      }
-      
-      if (entry.entry.type === 'decision_point') {
-        return {
-          ...base,
-          decision_category: entry.entry.category,
-          options_count: entry.entry.options_considered.length,
-          human_review_required: entry.entry.human_review_required,
-        };
-      }
-      
-      if (entry.entry.type === 'human_approval') {
-        return {
-          ...base,
-          approver_role: entry.entry.approver_role,
-          approval_type: entry.entry.approval_type,
-        };
-      }
-      
-      return base;
-    }),
-    compliance_metadata: {
-      retention_days: log.session.retention_days,
-      applicable_frameworks: log.session.compliance_contexts,
-      export_timestamp: new Date().toISOString(),
-    },
-  };
-  
-  return Buffer.from(JSON.stringify(record, null, 2));
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
 }
@@ -0,0 +1,595 @@
+/**
+ * AgentLedger Trusted Timestamping
+ * RFC 3161 timestamp tokens over Merkle roots.
+ *
+ * Every timestamp the ledger writes comes from the local clock. A timestamp
+ * token is a TSA's signed statement that it saw a hash at its own genTime,
+ * so a token over a log's Merkle root (or a checkpoint's root) proves the
+ * log existed by then, independently of the host that wrote it. The root is
+ * already a digest (of the log's suite hash) and is sent as the message
+ * imprint as-is.
+ */
+
+import {
+  createHash,
+  generateKeyPairSync,
+  randomBytes,
+  sign as signData,
+  verify as verifyData,
+  KeyObject,
+  X509Certificate,
+} from 'crypto';
+import type { HashAlgorithm, TimestampToken } from './types';
+import * as der from './der';
+import type { DerNode } from './der';
+import { CryptoError, ValidationError } from './errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TimestampAuthority {
+  /** Recorded as tsa on every token, e.g. the TSA's URL */
+  readonly name: string;
+
+  /** Send a DER TimeStampReq; resolves with the DER TimeStampResp */
+  timestamp(request: Buffer): Promise<Buffer>;
+}
+
+export interface TimestampVerification {
+  valid: boolean;
+  errors: string[];
+
+  /** The TSA's genTime, when the token could be read */
+  genTime?: string;
+
+  /** Subject of the certificate that signed the token */
+  signer?: string;
+}
+
+const OID = {
+  sha256: '2.16.840.1.101.3.4.2.1',
+  sha384: '2.16.840.1.101.3.4.2.2',
+  sha512: '2.16.840.1.101.3.4.2.3',
+  sha3_256: '2.16.840.1.101.3.4.2.8',
+  ed25519: '1.3.101.112',
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  sha256WithRSA: '1.2.840.113549.1.1.11',
+  sha384WithRSA: '1.2.840.113549.1.1.12',
+  sha512WithRSA: '1.2.840.113549.1.1.13',
+  ecPublicKey: '1.2.840.10045.2.1',
+  ecdsaWithSHA256: '1.2.840.10045.4.3.2',
+  ecdsaWithSHA384: '1.2.840.10045.4.3.3',
+  ecdsaWithSHA512: '1.2.840.10045.4.3.4',
+  signedData: '1.2.840.113549.1.7.2',
+  tstInfo: '1.2.840.113549.1.9.16.1.4',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingCertificate: '1.2.840.113549.1.9.16.2.12',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+  commonName: '2.5.4.3',
+  extKeyUsage: '2.5.29.37',
+  timeStamping: '1.3.6.1.5.5.7.3.8',
+} as const;
+
+const DIGESTS: Record<string, string> = {
+  [OID.sha256]: 'sha256',
+  [OID.sha384]: 'sha384',
+  [OID.sha512]: 'sha512',
+};
+
+/** Message imprint algorithm for each hash a Merkle root can be computed with */
+const IMPRINT_OIDS: Record<HashAlgorithm, string> = {
+  sha256: OID.sha256,
+  sha384: OID.sha384,
+  'sha3-256': OID.sha3_256,
+};
+
+/** Signature algorithms that name their own digest; the rest use the SignerInfo's */
+const SIGNATURE_DIGESTS: Record<string, string | null> = {
+  [OID.ed25519]: null,
+  [OID.sha256WithRSA]: 'sha256',
+  [OID.sha384WithRSA]: 'sha384',
+  [OID.sha512WithRSA]: 'sha512',
+  [OID.ecdsaWithSHA256]: 'sha256',
+  [OID.ecdsaWithSHA384]: 'sha384',
+  [OID.ecdsaWithSHA512]: 'sha512',
+};
+
+// ============================================================================
+// ACQUIRING TOKENS
+// ============================================================================
+
+/**
+ * Ask a TSA to timestamp a Merkle root (hex digest)
+ *
+ * @param options.hashAlgorithm - Hash the root was computed with, from the log's suite (default: sha256)
+ * @throws CryptoError if the TSA cannot be reached, refuses, or answers with
+ *   a token that is not over this root and nonce
+ */
+export async function acquireTimestamp(
+  authority: TimestampAuthority,
+  rootHash: string,
+  options: { hashAlgorithm?: HashAlgorithm } = {},
+): Promise<TimestampToken> {
+  const hashAlgorithm = options.hashAlgorithm ?? 'sha256';
+  const imprint = rootBytes(rootHash, hashAlgorithm);
+  const nonce = randomBytes(8);
+  const request = der.sequence(
+    der.integer(1),
+    messageImprint(imprint, hashAlgorithm),
+    der.integer(nonce),
+    der.boolean(true), // certReq: embed the TSA certificate so the token verifies on its own
+  );
+
+  let response: Buffer;
+  try {
+    response = await authority.timestamp(request);
+  } catch (e) {
+    throw new CryptoError(`Timestamp authority ${authority.name} failed: ${(e as Error).message}`, 'timestamp', {
+      tsa: authority.name,
+    });
+  }
+
+  try {
+    const [status, token] = der.children(der.decode(response));
+    const [code, text] = der.children(der.expectTag(status, der.Tag.SEQUENCE, 'PKIStatusInfo'));
+    const granted = code ? der.readInteger(code) : -1;
+    if (granted !== 0 && granted !== 1) {
+      const reason = text?.tag === der.Tag.SEQUENCE
+        ? der.children(text).map(s => s.contents.toString('utf-8')).join('; ')
+        : '';
+      throw new CryptoError(
+        `Timestamp authority ${authority.name} refused the request (status ${granted}${reason ? `: ${reason}` : ''})`,
+        'timestamp',
+        { tsa: authority.name, status: granted },
+      );
+    }
+    if (!token) {
+      throw new CryptoError(`Timestamp authority ${authority.name} granted no token`, 'timestamp', {
+        tsa: authority.name,
+      });
+    }
+
+    const info = readTstInfo(readSignedData(token.raw).content);
+    if (
+      info.hashAlgorithm !== IMPRINT_OIDS[hashAlgorithm] ||
+      !info.imprint.equals(imprint) ||
+      info.nonce !== nonce.toString('hex').replace(/^(00)+/, '')
+    ) {
+      throw new CryptoError(
+        `Timestamp authority ${authority.name} returned a token for another request`,
+        'timestamp',
+        { tsa: authority.name },
+      );
+    }
+
+    return { token: token.raw.toString('base64'), gen_time: info.genTime, tsa: authority.name };
+  } catch (e) {
+    if (e instanceof CryptoError && e.operation === 'timestamp') throw e;
+    throw new CryptoError(
+      `Timestamp authority ${authority.name} sent an unreadable response: ${(e as Error).message}`,
+      'timestamp',
+      { tsa: authority.name },
+    );
+  }
+}
+
+/**
+ * An RFC 3161 TSA reached over HTTP(S)
+ *
+ * @example
+ * const ledger = new Ledger({ ...config, timestampAuthority: new HttpTimestampAuthority('https://freetsa.org/tsr') });
+ */
+export class HttpTimestampAuthority implements TimestampAuthority {
+  readonly name: string;
+  private timeoutMs: number;
+  private headers: Record<string, string>;
+
+  /**
+   * @param options.timeoutMs - Request timeout (default: 10 000)
+   * @param options.headers - Extra request headers, e.g. authorization for a commercial TSA
+   */
+  constructor(url: string, options: { timeoutMs?: number; headers?: Record<string, string> } = {}) {
+    this.name = url;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.headers = options.headers ?? {};
+  }
+
+  async timestamp(request: Buffer): Promise<Buffer> {
+    const response = await fetch(this.name, {
+      method: 'POST',
+      headers: { ...this.headers, 'content-type': 'application/timestamp-query' },
+      body: request,
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+}
+
+// ============================================================================
+// VERIFYING TOKENS
+// ============================================================================
+
+/**
+ * Check that a token is a valid TSA signature over this Merkle root.
+ *
+ * Without trusted certificates this only proves the token was signed by the
+ * certificate embedded in it; pass the TSA's certificate (or the CA that
+ * issued it) to also require that the TSA is the one you trust.
+ *
+ * @param options.trustedCertificates - PEM certificates of trusted TSAs or their issuers
+ * @param options.hashAlgorithm - Hash the root was computed with (default: sha256)
+ */
+export function verifyTimestampToken(
+  token: TimestampToken,
+  rootHash: string,
+  options: { trustedCertificates?: string[]; hashAlgorithm?: HashAlgorithm } = {},
+): TimestampVerification {
+  const errors: string[] = [];
+
+  let signedData: SignedData;
+  let info: TstInfo;
+  try {
+    signedData = readSignedData(Buffer.from(token.token, 'base64'));
+    info = readTstInfo(signedData.content);
+  } catch (e) {
+    return { valid: false, errors: [`Timestamp token is unreadable: ${(e as Error).message}`] };
+  }
+
+  if (info.hashAlgorithm !== IMPRINT_OIDS[options.hashAlgorithm ?? 'sha256'] || info.imprint.toString('hex') !== rootHash.toLowerCase()) {
+    errors.push('Timestamp token is not over this Merkle root');
+  }
+  if (info.genTime !== token.gen_time) {
+    errors.push(`Timestamp gen_time ${token.gen_time} does not match the token (${info.genTime})`);
+  }
+
+  const trusted = parseCertificates(options.trustedCertificates ?? []);
+  let certificate: X509Certificate | undefined;
+  try {
+    certificate = signerCertificate(signedData, trusted);
+  } catch (e) {
+    errors.push(`Timestamp token carries an unreadable certificate: ${(e as Error).message}`);
+    return { valid: false, errors, genTime: info.genTime };
+  }
+  if (!certificate) {
+    errors.push('Timestamp token does not include the TSA certificate');
+    return { valid: false, errors, genTime: info.genTime };
+  }
+
+  errors.push(...checkSignerInfo(signedData, certificate));
+
+  if (!certificate.keyUsage?.includes(OID.timeStamping)) {
+    errors.push('TSA certificate is not valid for time stamping');
+  }
+  const at = Date.parse(info.genTime);
+  if (!(at >= Date.parse(certificate.validFrom) && at <= Date.parse(certificate.validTo))) {
+    errors.push(`TSA certificate was not valid at ${info.genTime}`);
+  }
+  if (trusted.length > 0 && !trusted.some(ca => issuedBy(certificate, ca))) {
+    errors.push(`TSA certificate ${certificate.subject.replace(/\n/g, ', ')} is not trusted`);
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    genTime: info.genTime,
+    signer: certificate.subject.replace(/\n/g, ', '),
+  };
+}
+
+/**
+ * Parse PEM certificates; each string may hold a bundle of several
+ *
+ * @throws ValidationError if one is not a valid X.509 certificate
+ */
+function parseCertificates(pems: string[]): X509Certificate[] {
+  return pems
+    .flatMap(pem => pem.match(/-----BEGIN CERTIFICATE-----[^-]+-----END CERTIFICATE-----/g) ?? [pem])
+    .map(pem => {
+      try {
+        return new X509Certificate(pem);
+      } catch (e) {
+        throw new ValidationError(`Invalid trusted TSA certificate: ${(e as Error).message}`, {
+          field: 'trustedCertificates',
+        });
+      }
+    });
+}
+
+interface SignedData {
+  /** eContent: the DER TSTInfo */
+  content: Buffer;
+  certificates: Buffer[];
+  signerInfo: DerNode;
+}
+
+interface TstInfo {
+  hashAlgorithm: string;
+  imprint: Buffer;
+  genTime: string;
+  /** Hex, without leading zeros */
+  nonce?: string;
+}
+
+/**
+ * Unwrap ContentInfo → SignedData and check it carries a TSTInfo
+ */
+function readSignedData(token: Buffer): SignedData {
+  const [contentType, wrapped] = der.children(der.expectTag(der.decode(token), der.Tag.SEQUENCE, 'ContentInfo'));
+  if (!contentType || der.readOid(contentType) !== OID.signedData) {
+    throw new Error('not a CMS SignedData');
+  }
+
+  const [signedData] = der.children(der.expectTag(wrapped, 0xa0, 'SignedData'));
+  const fields = der.children(der.expectTag(signedData, der.Tag.SEQUENCE, 'SignedData'));
+  const [encapsulated] = fields.slice(2);
+  const [eContentType, eContent] = der.children(der.expectTag(encapsulated, der.Tag.SEQUENCE, 'EncapsulatedContentInfo'));
+  if (!eContentType || der.readOid(eContentType) !== OID.tstInfo) {
+    throw new Error('not a timestamp token');
+  }
+  const [content] = der.children(der.expectTag(eContent, 0xa0, 'eContent'));
+
+  const certificates = fields.find(f => f.tag === 0xa0);
+  const [signerInfo, ...others] = der.children(der.expectTag(fields[fields.length - 1], der.Tag.SET, 'signerInfos'));
+  if (!signerInfo || others.length > 0) {
+    throw new Error('expected exactly one SignerInfo');
+  }
+
+  return {
+    content: der.expectTag(content, der.Tag.OCTET_STRING, 'TSTInfo').contents,
+    certificates: certificates ? der.children(certificates).map(c => c.raw) : [],
+    signerInfo,
+  };
+}
+
+function readTstInfo(content: Buffer): TstInfo {
+  const [, , imprint, , genTime, ...optional] = der.children(der.expectTag(der.decode(content), der.Tag.SEQUENCE, 'TSTInfo'));
+  const [algorithm, hashed] = der.children(der.expectTag(imprint, der.Tag.SEQUENCE, 'MessageImprint'));
+  const [hashAlgorithm] = der.children(der.expectTag(algorithm, der.Tag.SEQUENCE, 'AlgorithmIdentifier'));
+  const nonce = optional.find(node => node.tag === der.Tag.INTEGER);
+
+  return {
+    hashAlgorithm: der.readOid(der.expectTag(hashAlgorithm, der.Tag.OID, 'hash algorithm')),
+    imprint: der.expectTag(hashed, der.Tag.OCTET_STRING, 'hashedMessage').contents,
+    genTime: der.readTime(der.expectTag(genTime, der.Tag.GENERALIZED_TIME, 'genTime')),
+    nonce: nonce && der.readIntegerHex(nonce),
+  };
+}
+
+/**
+ * The certificate named by the SignerInfo's issuerAndSerialNumber, from the
+ * token or, for tokens requested without certReq, the trusted certificates
+ */
+function signerCertificate(signedData: SignedData, trusted: X509Certificate[]): X509Certificate | undefined {
+  const [, sid] = der.children(signedData.signerInfo);
+  const [, serial] = sid?.tag === der.Tag.SEQUENCE ? der.children(sid) : [];
+  const serialHex = serial && der.readIntegerHex(serial);
+
+  const candidates = [...signedData.certificates.map(c => new X509Certificate(c)), ...trusted];
+  const matches = (certificate: X509Certificate) =>
+    certificate.serialNumber.toLowerCase().replace(/^(00)+/, '') === serialHex;
+  return candidates.find(matches) ?? (signedData.certificates.length === 1 ? candidates[0] : undefined);
+}
+
+/**
+ * Check the SignerInfo's signed attributes against the TSTInfo and the
+ * certificate, and its signature over them
+ */
+function checkSignerInfo(signedData: SignedData, certificate: X509Certificate): string[] {
+  const fields = der.children(signedData.signerInfo);
+  const attributes = fields.find(f => f.tag === 0xa0);
+  if (!attributes) {
+    return ['Timestamp token has no signed attributes'];
+  }
+  const [signatureAlgorithm, signature] = fields.slice(fields.indexOf(attributes) + 1);
+  const digestOid = algorithmOid(fields[2]);
+  const digest = DIGESTS[digestOid];
+  if (!digest) {
+    return [`Timestamp token uses an unsupported digest algorithm ${digestOid}`];
+  }
+
+  const errors: string[] = [];
+  const values = new Map(der.children(attributes).map(attribute => {
+    const [type, set] = der.children(attribute);
+    return [der.readOid(type), set && der.children(set)[0]] as const;
+  }));
+
+  const contentType = values.get(OID.contentType);
+  if (!contentType || der.readOid(contentType) !== OID.tstInfo) {
+    errors.push('Timestamp token content type attribute is not TSTInfo');
+  }
+  const messageDigest = values.get(OID.messageDigest)?.contents;
+  if (!messageDigest || !messageDigest.equals(createHash(digest).update(signedData.content).digest())) {
+    errors.push('Timestamp token message digest does not match its content');
+  }
+
+  // RFC 5816 ESSCertIDv2 (or RFC 2634 ESSCertID) binds the signer certificate
+  const essV2 = values.get(OID.signingCertificateV2);
+  const essV1 = values.get(OID.signingCertificate);
+  const certHash = essV2 ? essCertHash(essV2, 'sha256') : essV1 && essCertHash(essV1, 'sha1');
+  if (!certHash) {
+    errors.push('Timestamp token has no signing certificate attribute (ESSCertID or ESSCertIDv2)');
+  } else if (!(certHash.algorithm && certHash.hash.equals(createHash(certHash.algorithm).update(certificate.raw).digest()))) {
+    errors.push('Timestamp token signing certificate attribute does not match the TSA certificate');
+  }
+
+  // The signature covers the attributes re-encoded as a SET, not their [0] tag
+  const signedAttributes = Buffer.concat([Buffer.from([der.Tag.SET]), attributes.raw.subarray(1)]);
+  const signatureOid = algorithmOid(signatureAlgorithm);
+  const signatureDigest = signatureOid in SIGNATURE_DIGESTS
+    ? SIGNATURE_DIGESTS[signatureOid]
+    : [OID.rsaEncryption, OID.ecPublicKey].includes(signatureOid as typeof OID.rsaEncryption) ? digest : undefined;
+  if (signatureDigest === undefined) {
+    errors.push(`Timestamp token uses an unsupported signature algorithm ${signatureOid}`);
+    return errors;
+  }
+
+  let verified = false;
+  try {
+    const value = der.expectTag(signature, der.Tag.OCTET_STRING, 'signature').contents;
+    verified = verifyData(signatureDigest, signedAttributes, certificate.publicKey, value);
+  } catch {
+    // A signature that does not fit the key is reported as invalid
+  }
+  if (!verified) {
+    errors.push('Timestamp token signature is invalid');
+  }
+
+  return errors;
+}
+
+/** OID of an AlgorithmIdentifier */
+function algorithmOid(node: DerNode | undefined): string {
+  return der.readOid(der.children(der.expectTag(node, der.Tag.SEQUENCE, 'AlgorithmIdentifier'))[0]);
+}
+
+/**
+ * Hash of the first ESSCertID(v2) in a SigningCertificate(V2) attribute
+ */
+function essCertHash(attribute: DerNode, defaultAlgorithm: string): { algorithm?: string; hash: Buffer } {
+  const [certs] = der.children(attribute);
+  const [first] = certs ? der.children(certs) : [];
+  const [algorithm, hash] = first ? der.children(first) : [];
+  if (algorithm?.tag === der.Tag.SEQUENCE) {
+    return { algorithm: DIGESTS[algorithmOid(algorithm)], hash: der.expectTag(hash, der.Tag.OCTET_STRING, 'certHash').contents };
+  }
+  return { algorithm: defaultAlgorithm, hash: der.expectTag(algorithm, der.Tag.OCTET_STRING, 'certHash').contents };
+}
+
+function issuedBy(certificate: X509Certificate, issuer: X509Certificate): boolean {
+  if (certificate.fingerprint256 === issuer.fingerprint256) return true;
+  return certificate.checkIssued(issuer) && certificate.verify(issuer.publicKey);
+}
+
+function messageImprint(hash: Buffer, algorithm: HashAlgorithm): Buffer {
+  return der.sequence(der.sequence(der.oid(IMPRINT_OIDS[algorithm]), der.encode(der.Tag.NULL)), der.octetString(hash));
+}
+
+function rootBytes(rootHash: string, algorithm: HashAlgorithm): Buffer {
+  const length = algorithm === 'sha384' ? 96 : 64;
+  if (rootHash.length !== length || !/^[0-9a-f]+$/i.test(rootHash)) {
+    throw new ValidationError(`Only ${algorithm} Merkle roots (${length} hex characters) can be timestamped`, {
+      field: 'merkle_root',
+    });
+  }
+  return Buffer.from(rootHash, 'hex');
+}
+
+// ============================================================================
+// LOCAL TSA
+// ============================================================================
+
+/**
+ * A minimal in-process TSA with a fresh ECDSA P-256 key and self-signed
+ * certificate: for tests and air-gapped development, never for evidence
+ * that must convince a third party. Its tokens also verify with
+ * `openssl ts -verify`.
+ *
+ * @example
+ * const tsa = new LocalTimestampAuthority();
+ * const ledger = new Ledger({ ...config, timestampAuthority: tsa });
+ * verifyTimestampToken(log.tsa_token!, log.merkle_root!, { trustedCertificates: [tsa.certificate] });
+ */
+export class LocalTimestampAuthority implements TimestampAuthority {
+  readonly name: string;
+
+  /** The TSA certificate (PEM), to pass as a trusted certificate when verifying */
+  readonly certificate: string;
+
+  private privateKey: KeyObject;
+  private certificateDer: Buffer;
+  private serial: bigint = 0n;
+  private policy: string;
+
+  /**
+   * @param options.name - Certificate common name (default: "AgentLedger Local TSA")
+   * @param options.policy - TSA policy OID written into each token (default: an example-arc OID)
+   */
+  constructor(options: { name?: string; policy?: string } = {}) {
+    this.name = options.name ?? 'AgentLedger Local TSA';
+    this.policy = options.policy ?? '1.3.6.1.4.1.32473.1';
+
+    const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    this.privateKey = privateKey;
+
+    const subject = der.sequence(der.set(der.sequence(der.oid(OID.commonName), der.utf8String(this.name))));
+    const now = Date.now();
+    const tbs = der.sequence(
+      der.context(0, der.integer(2)),
+      der.integer(randomBytes(8)),
+      der.sequence(der.oid(OID.ecdsaWithSHA256)),
+      subject,
+      der.sequence(der.certificateTime(new Date(now - 60_000)), der.certificateTime(new Date(now + 10 * 365 * 86_400_000))),
+      subject,
+      publicKey.export({ type: 'spki', format: 'der' }),
+      der.context(3, der.sequence(der.sequence(
+        der.oid(OID.extKeyUsage),
+        der.boolean(true),
+        der.octetString(der.sequence(der.oid(OID.timeStamping))),
+      ))),
+    );
+    this.certificateDer = der.sequence(
+      tbs,
+      der.sequence(der.oid(OID.ecdsaWithSHA256)),
+      der.bitString(signData('sha256', tbs, privateKey)),
+    );
+    this.certificate = new X509Certificate(this.certificateDer).toString();
+  }
+
+  async timestamp(request: Buffer): Promise<Buffer> {
+    let imprint: Buffer;
+    let nonce: DerNode | undefined;
+    try {
+      const fields = der.children(der.decode(request));
+      imprint = der.expectTag(fields[1], der.Tag.SEQUENCE, 'MessageImprint').raw;
+      nonce = fields.slice(2).find(node => node.tag === der.Tag.INTEGER);
+    } catch {
+      // PKIStatus rejection (2), PKIFailureInfo badDataFormat (bit 5)
+      return der.sequence(der.sequence(der.integer(2), der.encode(der.Tag.BIT_STRING, Buffer.from([2, 0x04]))));
+    }
+
+    this.serial += 1n;
+    const tstInfo = der.sequence(
+      der.integer(1),
+      der.oid(this.policy),
+      imprint,
+      der.integer(this.serial),
+      der.generalizedTime(new Date()),
+      ...(nonce ? [nonce.raw] : []),
+    );
+
+    const attributes = [
+      der.sequence(der.oid(OID.contentType), der.set(der.oid(OID.tstInfo))),
+      der.sequence(der.oid(OID.messageDigest), der.set(der.octetString(createHash('sha256').update(tstInfo).digest()))),
+      der.sequence(der.oid(OID.signingCertificateV2), der.set(der.sequence(der.sequence(der.sequence(
+        der.octetString(createHash('sha256').update(this.certificateDer).digest()),
+      ))))),
+    ];
+    const signature = signData('sha256', der.set(...attributes), this.privateKey);
+
+    const [tbs] = der.children(der.decode(this.certificateDer));
+    const [, serialNumber, , issuer] = der.children(tbs as DerNode);
+    const signerInfo = der.sequence(
+      der.integer(1),
+      der.sequence((issuer as DerNode).raw, (serialNumber as DerNode).raw),
+      der.sequence(der.oid(OID.sha256)),
+      der.encode(0xa0, ...[...attributes].sort(Buffer.compare)),
+      der.sequence(der.oid(OID.ecdsaWithSHA256)),
+      der.octetString(signature),
+    );
+    const signedData = der.sequence(
+      der.integer(3),
+      der.set(der.sequence(der.oid(OID.sha256))),
+      der.sequence(der.oid(OID.tstInfo), der.context(0, der.octetString(tstInfo))),
+      der.context(0, this.certificateDer),
+      der.set(signerInfo),
+    );
+    const token = der.sequence(der.oid(OID.signedData), der.context(0, signedData));
+
+    return der.sequence(der.sequence(der.integer(0)), token);
+  }
+}
@@ -28,6 +28,37 @@ export type ComplianceContext = z.infer<typeof ComplianceContext>;
 // SESSION ENVELOPE
 // ============================================================================
 
+/** Per-session data key for encryption at rest, wrapped by a KeyProvider master key */
+export const SessionEncryption = z.object({
+  /** Cipher used with the data key */
+  algorithm: z.literal('AES-256-GCM'),
+  
+  /** Master key that wrapped the data key */
+  key_id: z.string(),
+  
+  /** The data key, encrypted by the master key (base64) */
+  encrypted_key: z.string(),
+  
+  /** Whether entry payloads are encrypted too, not only stored content */
+  entries: z.boolean(),
+});
+
+export type SessionEncryption = z.infer<typeof SessionEncryption>;
+
+/**
+ * Hash function and signature algorithm a session's log is written with
+ * - sha256+ed25519: the default
+ * - sha384+ecdsa-p384: CNSA (SHA-384, ECDSA on P-384)
+ * - sha3-256+ed25519: SHA3-256 hashing with Ed25519 signatures
+ */
+export const CryptoSuite = z.enum(['sha256+ed25519', 'sha384+ecdsa-p384', 'sha3-256+ed25519']);
+
+export type CryptoSuite = z.infer<typeof CryptoSuite>;
+
+export const HashAlgorithm = z.enum(['sha256', 'sha384', 'sha3-256']);
+
+export type HashAlgorithm = z.infer<typeof HashAlgorithm>;
+
 export const SessionEnvelope = z.object({
   /** Unique identifier for this audit session */
   session_id: z.string().uuid(),
@@ -66,6 +97,12 @@ export const SessionEnvelope = z.object({
   
   /** Custom metadata */
   metadata: z.record(z.string(), z.unknown()).optional(),
+  
+  /** Present when the session's content (and optionally entries) is encrypted at rest */
+  encryption: SessionEncryption.optional(),
+  
+  /** Hash and signature suite for entries, Merkle roots and signatures (absent: sha256+ed25519) */
+  suite: CryptoSuite.optional(),
 });
 
 export type SessionEnvelope = z.infer<typeof SessionEnvelope>;
@@ -279,9 +316,21 @@ export const HumanApproval = z.object({
   /** Comment/rationale */
   comment_hash: z.string().optional(),
   
-  /** Ed25519 signature of the approval */
+  /** Approver's own signature over the approval statement (signApproval) */
   attestation_signature: z.string().optional(),
   
+  /** ID of the approver's key in the approver key registry */
+  attestation_kid: z.string().optional(),
+  
+  /** Approver's public key (base64 PEM) */
+  attestation_public_key: z.string().optional(),
+  
+  /** When the approver signed (ISO 8601); part of the signed statement */
+  attested_at: z.string().datetime().optional(),
+  
+  /** Whether the ledger checked the attestation key against its approverKeys; false means any key was accepted */
+  attestation_key_checked: z.boolean().optional(),
+  
   /** Time spent reviewing (seconds) */
   review_duration_seconds: z.number().nonnegative().optional(),
 });
@@ -359,10 +408,63 @@ export const ContentReference = z.object({
   pii_types: z.array(z.enum([
     'name', 'email', 'phone', 'ssn', 'address', 'dob', 'financial', 'medical', 'other'
   ])).optional(),
+  
+  /** subjectRef() of the data subject whose key encrypts the stored content (crypto-shredding) */
+  subject_ref: z.string().optional(),
+  
+  /** Set when a redaction policy was applied; content_hash is then over the redacted content */
+  redaction: z.object({
+    /** Version of the redaction policy applied */
+    policy_version: z.string(),
+    
+    /** Keyed commitment to the content before redaction (redactionCommitment()) */
+    original_hmac: z.string(),
+    
+    /** Number of spans masked */
+    redacted_count: z.number().int().nonnegative(),
+  }).optional(),
 });
 
 export type ContentReference = z.infer<typeof ContentReference>;
 
+// ============================================================================
+// SUBJECT ERASURE
+// ============================================================================
+
+export const SubjectErasure = z.object({
+  /** Entry type discriminator */
+  type: z.literal('subject_erasure'),
+  
+  /** Unique entry identifier */
+  entry_id: z.string().uuid(),
+  
+  /** Timestamp (ISO 8601) */
+  timestamp: z.string().datetime(),
+  
+  /** subjectRef() of the data subject whose key was destroyed */
+  subject_ref: z.string(),
+  
+  /** Legal basis or request reference (e.g. "GDPR Art. 17") */
+  reason: z.string().optional(),
+  
+  /** Who requested the erasure */
+  requested_by: z.string().optional(),
+  
+  /** Whether a key existed and was destroyed (false if none was ever created) */
+  key_destroyed: z.boolean(),
+  
+  /** ID of the signing key in the org's key registry */
+  kid: z.string().optional(),
+  
+  /** Signer's Ed25519 public key (base64 PEM) */
+  public_key: z.string(),
+  
+  /** Ed25519 signature over the fields above */
+  signature: z.string(),
+});
+
+export type SubjectErasure = z.infer<typeof SubjectErasure>;
+
 // ============================================================================
 // UNION TYPE FOR ALL ENTRIES
 // ============================================================================
@@ -374,6 +476,7 @@ export const AuditEntry = z.discriminatedUnion('type', [
   HumanApproval,
   StateSnapshot,
   ContentReference,
+  SubjectErasure,
 ]);
 
 export type AuditEntry = z.infer<typeof AuditEntry>;
@@ -404,13 +507,130 @@ export const ChainedEntry = z.object({
 
 export type ChainedEntry = z.infer<typeof ChainedEntry>;
 
+/** AES-256-GCM ciphertext with its IV and authentication tag (all base64) */
+export const EncryptedPayload = z.object({
+  iv: z.string(),
+  tag: z.string(),
+  ciphertext: z.string(),
+});
+
+export type EncryptedPayload = z.infer<typeof EncryptedPayload>;
+
+/**
+ * Stored form of a ChainedEntry when entries are encrypted at rest. The
+ * hashes are over the plaintext entry, so key holders can decrypt and run
+ * verifyChain unchanged.
+ */
+export const SealedEntry = z.object({
+  sequence: z.number().int().nonnegative(),
+  
+  /** The audit entry, encrypted with the session data key */
+  encrypted_entry: EncryptedPayload,
+  
+  previous_hash: z.string(),
+  
+  entry_hash: z.string(),
+});
+
+export type SealedEntry = z.infer<typeof SealedEntry>;
+
+// ============================================================================
+// TIMESTAMP TOKEN (RFC 3161, over a Merkle root)
+// ============================================================================
+
+export const TimestampToken = z.object({
+  /** RFC 3161 TimeStampToken: CMS SignedData over a TSTInfo (base64 DER) */
+  token: z.string(),
+  
+  /** The TSA's genTime, copied from the token (ISO 8601) */
+  gen_time: z.string().datetime(),
+  
+  /** The TSA that issued it, e.g. its URL */
+  tsa: z.string().optional(),
+});
+
+export type TimestampToken = z.infer<typeof TimestampToken>;
+
+// ============================================================================
+// CHECKPOINT (signed tree head for an open session)
+// ============================================================================
+
+export const Checkpoint = z.object({
+  /** Session the checkpoint belongs to */
+  session_id: z.string().uuid(),
+  
+  /** Number of entries covered */
+  tree_size: z.number().int().nonnegative(),
+  
+  /** RFC 6962 Merkle root of the first tree_size entry hashes */
+  root_hash: z.string(),
+  
+  /** When the checkpoint was taken (ISO 8601) */
+  timestamp: z.string().datetime(),
+  
+  /** Suite the root was hashed and signed with (absent: sha256+ed25519) */
+  suite: CryptoSuite.optional(),
+  
+  /** ID of the signing key in the org's key registry */
+  kid: z.string().optional(),
+  
+  /** Signer's public key (base64 PEM) */
+  public_key: z.string(),
+  
+  /** Signature over session_id, tree_size, root_hash, timestamp and suite */
+  signature: z.string(),
+  
+  /** TSA timestamp over root_hash */
+  tsa_token: TimestampToken.optional(),
+});
+
+export type Checkpoint = z.infer<typeof Checkpoint>;
+
 // ============================================================================
 // COMPLETE AUDIT LOG
 // ============================================================================
 
+/**
+ * JSON canonicalization that entry hashes are computed over
+ * - jcs: RFC 8785 JSON Canonicalization Scheme (log format 2.0.0)
+ * - sorted-keys: JSON.stringify with recursively sorted keys (log format 1.0.0)
+ */
+export const Canonicalization = z.enum(['jcs', 'sorted-keys']);
+
+export type Canonicalization = z.infer<typeof Canonicalization>;
+
+/**
+ * A signature added to a closed log by another party (cosign()), such as a
+ * supervisor or an independent witness
+ */
+export const Cosignature = z.object({
+  /** What the signer attests as, e.g. 'supervisor' or 'witness'; signed with the log */
+  role: z.string().min(1),
+  
+  /** Signature payload version */
+  version: z.number().int().positive(),
+  
+  /** ID of the signing key in the key registry */
+  kid: z.string(),
+  public_key: z.string(),
+  signature: z.string(),
+  signed_at: z.string().datetime(),
+});
+
+export type Cosignature = z.infer<typeof Cosignature>;
+
 export const AuditLog = z.object({
-  /** Log format version */
-  version: z.literal('1.0.0'),
+  /** Log format version (2.0.0 hashes RFC 8785 canonical JSON) */
+  version: z.enum(['1.0.0', '2.0.0']),
+  
+  /** Hash and signature suite (absent: sha256+ed25519) */
+  suite: CryptoSuite.optional(),
+  
+  /** Hash function for entries, Merkle tree and signature payloads: the suite's (absent on 1.0.0 logs) */
+  hash_algorithm: HashAlgorithm.optional(),
+  
+  /** Canonicalization for entry hashes (absent on 1.0.0 logs, which use sorted-keys) */
+  canonicalization: Canonicalization.optional(),
   
   /** Session envelope */
   session: SessionEnvelope,
@@ -421,13 +641,27 @@ export const AuditLog = z.object({
   /** Merkle root (computed on close) */
   merkle_root: z.string().optional(),
   
-  /** Organization signature (Ed25519) */
+  /** Signed tree heads taken while the session was open */
+  checkpoints: z.array(Checkpoint).optional(),
+  
+  /** Organization signature (Ed25519, or ECDSA P-384 with that suite) */
   org_signature: z.object({
+    /** Signature payload version (absent on legacy v1 signatures) */
+    version: z.number().int().positive().optional(),
+    
+    /** ID of the signing key in the org's key registry */
+    kid: z.string().optional(),
     public_key: z.string(),
     signature: z.string(),
     signed_at: z.string().datetime(),
   }).optional(),
   
+  /** Signatures of further parties, each under its own role */
+  signatures: z.array(Cosignature).optional(),
+  
+  /** TSA timestamp over merkle_root */
+  tsa_token: TimestampToken.optional(),
+  
   /** Verification status */
   integrity: z.object({
     chain_valid: z.boolean(),
@@ -454,7 +688,8 @@ export type ExportFormat =
   | 'eu_ai_act'       // EU AI Act Article 12
 
 export interface ExportOptions {
-  format: ExportFormat;
+  /** A built-in format or one added with registerExporter() */
+  format: ExportFormat | (string & Record<never, never>);
   include_content?: boolean;
   redact_pii?: boolean;
   date_range?: {
@@ -12,7 +12,7 @@ import type { AgentAction, AgentFinish } from '@langchain/core/agents';
 import type { ChainValues } from '@langchain/core/utils/types';
 import type { Document } from '@langchain/core/documents';
 
-import { Ledger, hashContent } from 'agentledger-core';
+import { Ledger, SessionHandle, hashContent } from 'agentledger-core';
 
 // ============================================================================
 // TYPES
@@ -33,11 +33,11 @@ interface RunInfo {
 export class AgentLedgerCallbackHandler extends BaseCallbackHandler {
   name = 'AgentLedgerCallbackHandler';
   
-  private ledger: Ledger;
+  private ledger: Ledger | SessionHandle;
   private runStack: Map<string, RunInfo> = new Map();
   private verbose: boolean;
   
-  constructor(ledger: Ledger, options?: { verbose?: boolean }) {
+  constructor(ledger: Ledger | SessionHandle, options?: { verbose?: boolean }) {
     super();
     this.ledger = ledger;
     this.verbose = options?.verbose ?? false;
@@ -469,7 +469,7 @@ export class AgentLedgerCallbackHandler extends BaseCallbackHandler {
  * Create a LangChain callback handler for AgentLedger
  */
 export function createLangChainHandler(
-  ledger: Ledger,
+  ledger: Ledger | SessionHandle,
   options?: { verbose?: boolean }
 ): AgentLedgerCallbackHandler {
   return new AgentLedgerCallbackHandler(ledger, options);
@@ -4,6 +4,7 @@
 
 import { AuditedOpenAI, createAuditedOpenAI, audited, auditedChatCompletion } from '../src/index';
 import { Ledger, hashContent } from 'agentledger-core';
+import { randomBytes } from 'crypto';
 
 // Mock OpenAI types for testing
 interface MockChatCompletion {
@@ -332,6 +333,72 @@ describe('AuditedOpenAI', () => {
         expect(types).toContain('completion');
       });
 
+      test('stores the assembled completion of a stream', async () => {
+        const audited = new AuditedOpenAI(mockClient, {
+          ledger,
+          storeContent: true
+        });
+
+        const stream = await audited.chat.completions.create({
+          model: 'gpt-4',
+          messages: [{ role: 'user', content: 'Hello' }],
+          stream: true,
+        });
+        for await (const _chunk of stream as AsyncIterable<MockChatCompletionChunk>) {
+          // consume
+        }
+
+        const entries = await ledger.getEntries();
+        const completion = entries.find(e => (e.entry as any).content_type === 'completion')!.entry as any;
+        expect(completion.parent_entry_id).toBe(entries[0]!.entry.entry_id);
+        expect((await ledger.getContent(completion.entry_id)).toString()).toBe('Hello');
+      });
+
+      test('flags PII in stored prompts', async () => {
+        const audited = new AuditedOpenAI(mockClient, {
+          ledger,
+          storeContent: true
+        });
+
+        await audited.chat.completions.create({
+          model: 'gpt-4',
+          messages: [{ role: 'user', content: 'My SSN is 123-45-6789' }],
+        });
+
+        const entries = await ledger.getEntries();
+        const prompt = entries.find(e => (e.entry as any).content_type === 'prompt')!.entry as any;
+        expect(prompt.contains_pii).toBe(true);
+        expect(prompt.pii_types).toEqual(['ssn']);
+
+        const completion = entries.find(e => (e.entry as any).content_type === 'completion')!.entry as any;
+        expect(completion.contains_pii).toBe(false);
+      });
+
+      test('redacts stored content with the wrapper policy', async () => {
+        const audited = new AuditedOpenAI(mockClient, {
+          ledger,
+          storeContent: true,
+          redaction: { version: 'chat-1', hmacKey: randomBytes(32) },
+        });
+
+        await audited.chat.completions.create({
+          model: 'gpt-4',
+          messages: [{ role: 'user', content: 'Email me at jane@example.com' }],
+        });
+
+        const entries = await ledger.getEntries();
+        const prompt = entries.find(e => (e.entry as any).content_type === 'prompt')!.entry as any;
+        expect(prompt.redaction).toMatchObject({ policy_version: 'chat-1', redacted_count: 1 });
+        expect(prompt.contains_pii).toBe(false);
+        expect((await ledger.getContent(prompt.entry_id)).toString()).toContain('Email me at [EMAIL]');
+
+        // The model call hashes the same bytes that were stored
+        const call = entries.find(e => e.entry.type === 'model_call')!.entry as any;
+        const completion = entries.find(e => (e.entry as any).content_type === 'completion')!.entry as any;
+        expect(call.prompt_hash).toBe(prompt.content_hash);
+        expect(call.completion_hash).toBe(completion.content_hash);
+      });
+
       test('does not store content when disabled', async () => {
         const audited = new AuditedOpenAI(mockClient, {
           ledger,
@@ -9,7 +9,8 @@ import type OpenAI from 'openai';
 import type { ChatCompletionCreateParamsNonStreaming, ChatCompletionCreateParamsStreaming, ChatCompletion, ChatCompletionChunk } from 'openai/resources/chat/completions';
 import type { Stream } from 'openai/streaming';
 
-import { Ledger, hashContent } from 'agentledger-core';
+import { Ledger, SessionHandle, hashContent } from 'agentledger-core';
+import type { RedactionPolicy } from 'agentledger-core';
 
 // ============================================================================
 // TYPES
@@ -19,11 +20,14 @@ type ChatCompletionCreateParams = ChatCompletionCreateParamsNonStreaming | ChatC
 
 interface AuditedOpenAIOptions {
   /** The ledger instance to log to */
-  ledger: Ledger;
+  ledger: Ledger | SessionHandle;
   
-  /** Whether to store full prompts/completions (default: false, only hashes) */
+  /** Whether to store full prompts/completions in the ledger's contentStore, PII-flagged by its piiDetector (default: false, only hashes) */
   storeContent?: boolean;
   
+  /** Redaction policy for stored content (default: the ledger's; false to store unredacted) */
+  redaction?: RedactionPolicy | false;
+  
   /** Custom cost calculator (override default estimates) */
   costCalculator?: (model: string, promptTokens: number, completionTokens: number) => number;
 }
@@ -37,14 +41,16 @@ interface AuditedOpenAIOptions {
  */
 export class AuditedOpenAI {
   private client: OpenAI;
-  private ledger: Ledger;
+  private ledger: Ledger | SessionHandle;
   private storeContent: boolean;
+  private redaction?: RedactionPolicy | false;
   private costCalculator?: (model: string, promptTokens: number, completionTokens: number) => number;
   
   constructor(client: OpenAI, options: AuditedOpenAIOptions) {
     this.client = client;
     this.ledger = options.ledger;
     this.storeContent = options.storeContent ?? false;
+    this.redaction = options.redaction;
     this.costCalculator = options.costCalculator;
   }
   
@@ -58,7 +64,7 @@ export class AuditedOpenAI {
         async create(params: ChatCompletionCreateParams): Promise<ChatCompletion | Stream<ChatCompletionChunk>> {
           const startTime = Date.now();
           const promptText = JSON.stringify(params.messages);
-          const promptHash = hashContent(promptText);
+          const promptHash = self.hashStored(promptText);
           
           try {
             if (params.stream) {
@@ -110,27 +116,47 @@ export class AuditedOpenAI {
       },
       promptHash,
       promptTokens: usage.prompt_tokens,
-      completionHash: hashContent(completionText),
+      completionHash: this.hashStored(completionText),
       completionTokens: usage.completion_tokens,
       latencyMs: Date.now() - startTime,
       costUsd: this.calculateCost(params.model, usage.prompt_tokens, usage.completion_tokens),
       streamed: false,
     });
     
-    // Store content if configured
-    if (this.storeContent) {
-      await this.ledger.storeContent({
-        contentType: 'prompt',
-        parentEntryId: entry.entry.entry_id,
-        content: JSON.stringify(params.messages),
-      });
-      
-      await this.ledger.storeContent({
-        contentType: 'completion',
-        parentEntryId: entry.entry.entry_id,
-        content: completionText,
-      });
-    }
+    await this.storeContents(entry.entry.entry_id, params, completionText);
+  }
+  
+  /**
+   * Hash text as it will be stored: when content is stored, redacted like
+   * storeContent() does, so the model call's hashes match its content_hash
+   */
+  private hashStored(text: string): string {
+    return this.storeContent ? this.ledger.contentHash(text, { redaction: this.redaction }) : hashContent(text);
+  }
+    
+  /**
+   * Store the prompt and completion of a logged model call, if configured
+   */
+  private async storeContents(
+    parentEntryId: string,
+    params: ChatCompletionCreateParams,
+    completionText: string,
+  ): Promise<void> {
+    if (!this.storeContent) return;
+    
+    await this.ledger.storeContent({
+      contentType: 'prompt',
+      parentEntryId,
+      content: JSON.stringify(params.messages),
+      redaction: this.redaction,
+    });
+    
+    await this.ledger.storeContent({
+      contentType: 'completion',
+      parentEntryId,
+      content: completionText,
+      redaction: this.redaction,
+    });
   }
   
   private wrapStream(
@@ -162,28 +188,29 @@ export class AuditedOpenAI {
           
           yield chunk;
         }
-        
-        // Log after stream completes
-        await self.ledger.logModelCall({
-          provider: 'openai',
-          modelId: params.model,
-          parameters: {
-            temperature: params.temperature ?? undefined,
-            top_p: params.top_p ?? undefined,
-            max_tokens: params.max_tokens ?? undefined,
-          },
-          promptHash,
-          promptTokens: promptTokens || self.estimateTokens(JSON.stringify(params.messages)),
-          completionHash: hashContent(fullContent),
-          completionTokens: completionTokens || self.estimateTokens(fullContent),
-          latencyMs: Date.now() - startTime,
-          costUsd: self.calculateCost(params.model, promptTokens, completionTokens),
-          streamed: true,
-        });
       } catch (error) {
         await self.logError(params, error as Error, promptHash, startTime);
         throw error;
       }
+      
+      // Log after stream completes, with the assembled completion
+      const entry = await self.ledger.logModelCall({
+        provider: 'openai',
+        modelId: params.model,
+        parameters: {
+          temperature: params.temperature ?? undefined,
+          top_p: params.top_p ?? undefined,
+          max_tokens: params.max_tokens ?? undefined,
+        },
+        promptHash,
+        promptTokens: promptTokens || self.estimateTokens(JSON.stringify(params.messages)),
+        completionHash: self.hashStored(fullContent),
+        completionTokens: completionTokens || self.estimateTokens(fullContent),
+        latencyMs: Date.now() - startTime,
+        costUsd: self.calculateCost(params.model, promptTokens, completionTokens),
+        streamed: true,
+      });
+      await self.storeContents(entry.entry.entry_id, params, fullContent);
     };
     
     // Return a new object that looks like a Stream but uses our wrapped iterator
@@ -269,7 +296,7 @@ export class AuditedOpenAI {
 /**
  * Decorator to audit a function that uses OpenAI
  */
-export function audited(ledger: Ledger) {
+export function audited(ledger: Ledger | SessionHandle) {
   return function <T extends (...args: unknown[]) => Promise<unknown>>(
     target: T,
     context?: ClassMethodDecoratorContext
@@ -332,7 +359,7 @@ export function createAuditedOpenAI(
  */
 export async function auditedChatCompletion(
   client: OpenAI,
-  ledger: Ledger,
+  ledger: Ledger | SessionHandle,
   params: ChatCompletionCreateParamsNonStreaming
 ): Promise<ChatCompletion> {
   const audited = new AuditedOpenAI(client, { ledger });